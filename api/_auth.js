@@ -0,0 +1,139 @@
+/**
+ * Firebase ID token verification for the serverless proxy
+ *
+ * Verifies the RS256 signature against Google's public keys and checks the
+ * standard claims (see https://firebase.google.com/docs/auth/admin/verify-id-tokens),
+ * without pulling in firebase-admin.
+ */
+
+const JWKS_URL = 'https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com';
+const CLOCK_SKEW_SECONDS = 60;
+
+let cachedKeys = null; // { keys: Map<kid, CryptoKey>, expiresAt: number }
+
+/**
+ * Error for missing or invalid credentials (always HTTP 401)
+ */
+export class AuthError extends Error {
+  constructor(message, code = 'unauthenticated') {
+    super(message);
+    this.status = 401;
+    this.code = code;
+  }
+}
+
+function getProjectId() {
+  const projectId = process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID;
+  if (!projectId) {
+    throw new Error('FIREBASE_PROJECT_ID is not configured');
+  }
+  return projectId;
+}
+
+function decodeSegment(segment) {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
+
+/**
+ * Fetch (and cache per Cache-Control max-age) Google's token signing keys
+ */
+async function getSigningKeys() {
+  if (cachedKeys && cachedKeys.expiresAt > Date.now()) {
+    return cachedKeys.keys;
+  }
+
+  const response = await fetch(JWKS_URL);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch token signing keys: ${response.status}`);
+  }
+
+  const { keys: jwks } = await response.json();
+  const keys = new Map();
+  for (const jwk of jwks) {
+    const key = await crypto.subtle.importKey(
+      'jwk',
+      jwk,
+      { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+      false,
+      ['verify']
+    );
+    keys.set(jwk.kid, key);
+  }
+
+  const maxAge = Number(/max-age=(\d+)/.exec(response.headers.get('cache-control') || '')?.[1] || 3600);
+  cachedKeys = { keys, expiresAt: Date.now() + maxAge * 1000 };
+  return keys;
+}
+
+/**
+ * Verify a Firebase ID token and return its claims (`uid` = `sub`)
+ */
+export async function verifyFirebaseIdToken(idToken) {
+  const segments = typeof idToken === 'string' ? idToken.split('.') : [];
+  if (segments.length !== 3) {
+    throw new AuthError('Malformed ID token', 'invalid_token');
+  }
+
+  let header, payload;
+  try {
+    header = decodeSegment(segments[0]);
+    payload = decodeSegment(segments[1]);
+  } catch {
+    throw new AuthError('Malformed ID token', 'invalid_token');
+  }
+
+  if (header.alg !== 'RS256') {
+    throw new AuthError('Unexpected token algorithm', 'invalid_token');
+  }
+
+  let keys = await getSigningKeys();
+  if (!keys.has(header.kid)) {
+    // Keys rotate; refetch once before rejecting
+    cachedKeys = null;
+    keys = await getSigningKeys();
+  }
+  const key = keys.get(header.kid);
+  if (!key) {
+    throw new AuthError('Unknown token signing key', 'invalid_token');
+  }
+
+  const valid = await crypto.subtle.verify(
+    'RSASSA-PKCS1-v1_5',
+    key,
+    Buffer.from(segments[2], 'base64url'),
+    new TextEncoder().encode(`${segments[0]}.${segments[1]}`)
+  );
+  if (!valid) {
+    throw new AuthError('Invalid token signature', 'invalid_token');
+  }
+
+  const projectId = getProjectId();
+  const now = Math.floor(Date.now() / 1000);
+
+  if (payload.aud !== projectId || payload.iss !== `https://securetoken.google.com/${projectId}`) {
+    throw new AuthError('Token was issued for a different project', 'invalid_token');
+  }
+  if (typeof payload.exp !== 'number' || payload.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new AuthError('ID token has expired', 'token_expired');
+  }
+  if (typeof payload.iat !== 'number' || payload.iat - CLOCK_SKEW_SECONDS > now) {
+    throw new AuthError('ID token issued in the future', 'invalid_token');
+  }
+  if (typeof payload.sub !== 'string' || !payload.sub) {
+    throw new AuthError('ID token has no subject', 'invalid_token');
+  }
+
+  return { ...payload, uid: payload.sub };
+}
+
+/**
+ * Read and verify the `Authorization: Bearer <idToken>` header
+ */
+export async function authenticateRequest(req) {
+  const header = req.headers?.authorization || '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) {
+    throw new AuthError('Sign in required: missing Authorization header');
+  }
+  return verifyFirebaseIdToken(match[1].trim());
+}
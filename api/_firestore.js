@@ -0,0 +1,113 @@
+/**
+ * Minimal Firestore REST client for serverless functions
+ *
+ * Authenticates as a service account (FIREBASE_CLIENT_EMAIL / FIREBASE_PRIVATE_KEY) by signing
+ * the OAuth JWT grant with WebCrypto, without pulling in firebase-admin. Service accounts
+ * bypass security rules, so callers must scope every query to the right user themselves.
+ */
+
+const TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const SCOPE = 'https://www.googleapis.com/auth/datastore';
+
+let cachedToken = null; // { accessToken, expiresAt }
+
+function getProjectId() {
+  const projectId = process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID;
+  if (!projectId) {
+    throw new Error('FIREBASE_PROJECT_ID is not configured');
+  }
+  return projectId;
+}
+
+function getServiceAccount() {
+  const clientEmail = process.env.FIREBASE_CLIENT_EMAIL;
+  // Vercel stores multi-line values with literal "\n"
+  const privateKey = process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n');
+  if (!clientEmail || !privateKey) {
+    throw new Error('FIREBASE_CLIENT_EMAIL and FIREBASE_PRIVATE_KEY are not configured');
+  }
+  return { clientEmail, privateKey };
+}
+
+function encodeSegment(value) {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Exchange a signed JWT for an access token (cached until shortly before it expires)
+ */
+async function getAccessToken() {
+  if (cachedToken && cachedToken.expiresAt > Date.now()) {
+    return cachedToken.accessToken;
+  }
+
+  const { clientEmail, privateKey } = getServiceAccount();
+  const now = Math.floor(Date.now() / 1000);
+  const unsigned = `${encodeSegment({ alg: 'RS256', typ: 'JWT' })}.${encodeSegment({
+    iss: clientEmail,
+    scope: SCOPE,
+    aud: TOKEN_URL,
+    iat: now,
+    exp: now + 3600,
+  })}`;
+
+  const der = Buffer.from(privateKey.replace(/-----[^-]+-----/g, '').replace(/\s+/g, ''), 'base64');
+  const key = await crypto.subtle.importKey('pkcs8', der, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', key, new TextEncoder().encode(unsigned));
+
+  const response = await fetch(TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+      assertion: `${unsigned}.${Buffer.from(signature).toString('base64url')}`,
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to get Firestore access token: ${response.status}`);
+  }
+
+  const { access_token: accessToken, expires_in: expiresIn } = await response.json();
+  cachedToken = { accessToken, expiresAt: Date.now() + (expiresIn - 60) * 1000 };
+  return accessToken;
+}
+
+/**
+ * Convert a Firestore REST `Value` to plain JSON
+ */
+function decodeValue(value) {
+  if ('mapValue' in value) return decodeFields(value.mapValue.fields);
+  if ('arrayValue' in value) return (value.arrayValue.values || []).map(decodeValue);
+  if ('integerValue' in value) return Number(value.integerValue);
+  if ('nullValue' in value) return null;
+  return value.stringValue ?? value.doubleValue ?? value.booleanValue ?? value.timestampValue ?? value.referenceValue;
+}
+
+function decodeFields(fields = {}) {
+  return Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, decodeValue(value)]));
+}
+
+/**
+ * Run a structured query under `parentPath` ('' for root collections)
+ * Returns `{ id, ...fields }` for every matching document
+ */
+export async function runQuery(parentPath, structuredQuery) {
+  const accessToken = await getAccessToken();
+  const base = `https://firestore.googleapis.com/v1/projects/${getProjectId()}/databases/(default)/documents`;
+  const response = await fetch(`${base}${parentPath ? `/${parentPath}` : ''}:runQuery`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify({ structuredQuery }),
+  });
+  if (!response.ok) {
+    throw new Error(`Firestore query failed: ${response.status} ${response.statusText}`);
+  }
+
+  const results = await response.json();
+  return results
+    .filter(result => result.document)
+    .map(({ document }) => ({ ...decodeFields(document.fields), id: document.name.split('/').pop() }));
+}
@@ -0,0 +1,13 @@
+/**
+ * Types for _ical.js, which the app imports through src/lib/workoutCalendar.ts
+ */
+
+import type { WorkoutDocument } from '../src/types/workout';
+
+export const CALENDAR_NAME: string;
+
+export function getCalendarWorkouts(workouts: WorkoutDocument[]): WorkoutDocument[];
+
+export function describeWorkoutForCalendar(workout: WorkoutDocument): string;
+
+export function createWorkoutCalendar(workouts: WorkoutDocument[], options?: { feed?: boolean }): string;
@@ -0,0 +1,126 @@
+/**
+ * iCalendar (RFC 5545) builder for the calendar feed and the in-app .ics download
+ *
+ * Shared with the app through src/lib/workoutCalendar.ts (types in _ical.d.ts), so it only uses
+ * APIs both Node and browsers have. One all-day VEVENT per dated, not yet completed workout;
+ * UIDs come from workout IDs so calendar apps update existing entries on edits and reschedules.
+ */
+
+export const CALENDAR_NAME = 'Tailored Fitness Workouts';
+const PRODUCT_ID = '-//Tailored Fitness//Workouts//EN';
+const UID_DOMAIN = 'tailored-fitness';
+const encoder = new TextEncoder();
+
+/**
+ * Workouts that belong in the calendar: dated and not completed
+ */
+export function getCalendarWorkouts(workouts) {
+  return workouts.filter(workout => workout.date && workout.status !== 'completed');
+}
+
+function escapeText(text) {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Split content lines longer than 75 octets (continuation lines start with a space)
+ */
+function foldLine(line) {
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74; // Leading space counts on continuation lines
+    if (size + charSize > limit) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatDate(date) {
+  return date.replace(/-/g, '');
+}
+
+function formatTimestamp(iso) {
+  const date = iso ? new Date(iso) : new Date();
+  return (Number.isNaN(date.getTime()) ? new Date() : date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function nextDay(date) {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().split('T')[0];
+}
+
+/**
+ * Event description: focus, estimated duration and one line per exercise
+ */
+export function describeWorkoutForCalendar(workout) {
+  const lines = [
+    workout.focus && `Focus: ${workout.focus}`,
+    workout.estimatedDuration > 0 && `Estimated duration: ${workout.estimatedDuration} min`,
+    workout.value,
+  ].filter(Boolean);
+
+  const exercises = workout.exercises || [];
+  if (exercises.length > 0) {
+    lines.push('', 'Exercises:');
+    exercises.forEach(exercise => {
+      const sets = exercise.sets?.length || 0;
+      lines.push(`- ${exercise.name}${sets > 0 ? ` (${sets} set${sets === 1 ? '' : 's'})` : ''}`);
+    });
+  }
+
+  return lines.join('\n');
+}
+
+function buildEvent(workout, now) {
+  const created = new Date(workout.createdAt).getTime();
+  const updated = new Date(workout.updatedAt).getTime();
+  // Grows with every edit; clients use it to tell which copy of an event is newer
+  const sequence = Number.isNaN(created) || Number.isNaN(updated) ? 0 : Math.max(0, Math.floor((updated - created) / 1000));
+  const summary = workout.estimatedDuration > 0 ? `${workout.name} (${workout.estimatedDuration} min)` : workout.name;
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${workout.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${now}`,
+    `LAST-MODIFIED:${formatTimestamp(workout.updatedAt)}`,
+    `SEQUENCE:${sequence}`,
+    `DTSTART;VALUE=DATE:${formatDate(workout.date)}`,
+    `DTEND;VALUE=DATE:${formatDate(nextDay(workout.date))}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(describeWorkoutForCalendar(workout))}`,
+    workout.type && `CATEGORIES:${escapeText(workout.type)}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ].filter(Boolean);
+}
+
+/**
+ * Build the .ics body for a list of workout documents
+ * `feed`: add the refresh interval subscribing calendar apps poll at (a one-off download has none)
+ */
+export function createWorkoutCalendar(workouts, { feed = false } = {}) {
+  const now = formatTimestamp();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${CALENDAR_NAME}`,
+    ...(feed ? ['REFRESH-INTERVAL;VALUE=DURATION:PT1H', 'X-PUBLISHED-TTL:PT1H'] : []),
+    ...getCalendarWorkouts(workouts).flatMap(workout => buildEvent(workout, now)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
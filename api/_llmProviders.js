@@ -0,0 +1,267 @@
+/**
+ * LLM provider adapters for the serverless proxy
+ *
+ * Files prefixed with "_" are not deployed as functions by Vercel.
+ * Every adapter returns a response in the OpenAI chat completions shape
+ * so the frontend only has to understand one format. Streaming adapters
+ * report text deltas through `onDelta` and resolve with the token usage.
+ */
+
+const DEFAULT_MODELS = {
+  openai: 'gpt-4o',
+  anthropic: 'claude-sonnet-4-5',
+};
+
+export const SUPPORTED_PROVIDERS = Object.keys(DEFAULT_MODELS);
+
+// API keys are held by the server, never sent by the browser
+const API_KEY_ENV = {
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+};
+
+/**
+ * Error carrying the upstream HTTP status
+ */
+export class ProviderError extends Error {
+  constructor(status, message, details) {
+    super(message);
+    this.status = status;
+    this.details = details;
+  }
+}
+
+async function callOpenAI({ apiKey, model, messages, temperature, max_tokens }) {
+  const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify({
+      model: model || DEFAULT_MODELS.openai,
+      messages,
+      temperature,
+      max_tokens,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new ProviderError(response.status, `OpenAI API error: ${response.status} ${response.statusText}`, errorText);
+  }
+
+  return response.json();
+}
+
+async function callAnthropic({ apiKey, model, messages, temperature, max_tokens }) {
+  // Anthropic takes the system prompt separately from the conversation
+  const system = messages
+    .filter(message => message.role === 'system')
+    .map(message => message.content)
+    .join('\n\n');
+  const conversation = messages.filter(message => message.role !== 'system');
+
+  const response = await fetch('https://api.anthropic.com/v1/messages', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': apiKey,
+      'anthropic-version': '2023-06-01',
+    },
+    body: JSON.stringify({
+      model: model || DEFAULT_MODELS.anthropic,
+      system: system || undefined,
+      messages: conversation,
+      temperature,
+      max_tokens,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new ProviderError(response.status, `Anthropic API error: ${response.status} ${response.statusText}`, errorText);
+  }
+
+  const data = await response.json();
+  const content = (data.content || [])
+    .filter(block => block.type === 'text')
+    .map(block => block.text)
+    .join('');
+  const promptTokens = data.usage?.input_tokens || 0;
+  const completionTokens = data.usage?.output_tokens || 0;
+
+  return {
+    id: data.id,
+    model: data.model,
+    choices: [{
+      index: 0,
+      message: { role: 'assistant', content },
+      finish_reason: data.stop_reason === 'max_tokens' ? 'length' : 'stop',
+    }],
+    usage: {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    },
+  };
+}
+
+/**
+ * Read a server-sent events body, calling onEvent with each `data:` payload
+ */
+async function readEventStream(response, onEvent) {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of response.body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop();
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+      const payload = trimmed.slice(5).trim();
+      if (payload === '[DONE]') return;
+      try {
+        onEvent(JSON.parse(payload));
+      } catch {
+        // Ignore keep-alive comments and malformed lines
+      }
+    }
+  }
+}
+
+async function streamOpenAI({ apiKey, model, messages, temperature, max_tokens }, { onDelta, signal }) {
+  const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify({
+      model: model || DEFAULT_MODELS.openai,
+      messages,
+      temperature,
+      max_tokens,
+      stream: true,
+      stream_options: { include_usage: true },
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new ProviderError(response.status, `OpenAI API error: ${response.status} ${response.statusText}`, errorText);
+  }
+
+  let usage;
+  await readEventStream(response, event => {
+    const delta = event.choices?.[0]?.delta?.content;
+    if (delta) onDelta(delta);
+    if (event.usage) usage = event.usage;
+  });
+  return { usage };
+}
+
+async function streamAnthropic({ apiKey, model, messages, temperature, max_tokens }, { onDelta, signal }) {
+  const system = messages
+    .filter(message => message.role === 'system')
+    .map(message => message.content)
+    .join('\n\n');
+  const conversation = messages.filter(message => message.role !== 'system');
+
+  const response = await fetch('https://api.anthropic.com/v1/messages', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': apiKey,
+      'anthropic-version': '2023-06-01',
+    },
+    body: JSON.stringify({
+      model: model || DEFAULT_MODELS.anthropic,
+      system: system || undefined,
+      messages: conversation,
+      temperature,
+      max_tokens,
+      stream: true,
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new ProviderError(response.status, `Anthropic API error: ${response.status} ${response.statusText}`, errorText);
+  }
+
+  let promptTokens = 0;
+  let completionTokens = 0;
+  await readEventStream(response, event => {
+    if (event.type === 'message_start') {
+      promptTokens = event.message?.usage?.input_tokens || 0;
+    } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+      onDelta(event.delta.text);
+    } else if (event.type === 'message_delta') {
+      completionTokens = event.usage?.output_tokens || completionTokens;
+    } else if (event.type === 'error') {
+      throw new ProviderError(502, `Anthropic stream error: ${event.error?.message || 'unknown error'}`);
+    }
+  });
+
+  return {
+    usage: {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    },
+  };
+}
+
+/**
+ * Server-held API key for a provider
+ */
+export function getProviderApiKey(provider) {
+  const envName = API_KEY_ENV[provider];
+  if (!envName) {
+    throw new ProviderError(400, `Unsupported provider: ${provider}. Supported: ${SUPPORTED_PROVIDERS.join(', ')}`);
+  }
+  const apiKey = process.env[envName];
+  if (!apiKey) {
+    throw new ProviderError(503, `${provider} is not configured on the server (${envName} missing)`);
+  }
+  return apiKey;
+}
+
+const ADAPTERS = {
+  openai: callOpenAI,
+  anthropic: callAnthropic,
+};
+
+const STREAMING_ADAPTERS = {
+  openai: streamOpenAI,
+  anthropic: streamAnthropic,
+};
+
+/**
+ * Run a chat completion against the given provider
+ */
+export function callProvider(provider, request) {
+  const adapter = ADAPTERS[provider];
+  if (!adapter) {
+    throw new ProviderError(400, `Unsupported provider: ${provider}. Supported: ${SUPPORTED_PROVIDERS.join(', ')}`);
+  }
+  return adapter(request);
+}
+
+/**
+ * Stream a chat completion from the given provider
+ * Resolves with `{ usage }` (OpenAI shape) once the stream has finished
+ */
+export function streamProvider(provider, request, { onDelta, signal }) {
+  const adapter = STREAMING_ADAPTERS[provider];
+  if (!adapter) {
+    throw new ProviderError(400, `Unsupported provider: ${provider}. Supported: ${SUPPORTED_PROVIDERS.join(', ')}`);
+  }
+  return adapter(request, { onDelta, signal });
+}
@@ -0,0 +1,168 @@
+/**
+ * Per-user rate limits and daily token budgets for the serverless proxy
+ *
+ * Counters live in a Redis-compatible REST store (Vercel KV / Upstash) when
+ * KV_REST_API_URL and KV_REST_API_TOKEN are set. Without them an in-memory store
+ * is used, which is only per function instance - fine for `vercel dev`, not for production.
+ */
+
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 10;
+const DEFAULT_DAILY_TOKEN_BUDGET = 200000;
+const TOKEN_COUNTER_TTL_SECONDS = 2 * 24 * 60 * 60;
+
+function getLimits() {
+  return {
+    requestsPerMinute: Number(process.env.LLM_RATE_LIMIT_PER_MINUTE) || DEFAULT_RATE_LIMIT_PER_MINUTE,
+    dailyTokenBudget: Number(process.env.LLM_DAILY_TOKEN_BUDGET) || DEFAULT_DAILY_TOKEN_BUDGET,
+  };
+}
+
+/**
+ * Error for exceeded limits (HTTP 429), serialized as `{ error, code, quota }`
+ */
+export class QuotaError extends Error {
+  constructor(code, message, quota) {
+    super(message);
+    this.status = 429;
+    this.code = code; // 'rate_limited' | 'daily_budget_exceeded'
+    this.quota = quota; // { limit, used, remaining, resetAt, retryAfterSeconds }
+  }
+}
+
+// ============================================================================
+// Counter stores
+// ============================================================================
+
+function createMemoryStore() {
+  const counters = new Map(); // key -> { value, expiresAt }
+
+  const read = key => {
+    const entry = counters.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      counters.delete(key);
+      return 0;
+    }
+    return entry.value;
+  };
+
+  return {
+    async increment(key, amount, ttlSeconds) {
+      const existing = counters.get(key);
+      const value = read(key) + amount;
+      counters.set(key, {
+        value,
+        expiresAt: existing && existing.expiresAt > Date.now() ? existing.expiresAt : Date.now() + ttlSeconds * 1000,
+      });
+      return value;
+    },
+  };
+}
+
+function createRestStore(url, token) {
+  const pipeline = async commands => {
+    const response = await fetch(`${url.replace(/\/+$/, '')}/pipeline`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify(commands),
+    });
+    if (!response.ok) {
+      throw new Error(`Quota store error: ${response.status} ${response.statusText}`);
+    }
+    return (await response.json()).map(entry => entry.result);
+  };
+
+  return {
+    async increment(key, amount, ttlSeconds) {
+      // NX keeps the window's original expiry
+      const [value] = await pipeline([
+        ['INCRBY', key, String(amount)],
+        ['EXPIRE', key, String(ttlSeconds), 'NX'],
+      ]);
+      return Number(value);
+    },
+  };
+}
+
+let store = null;
+
+function getStore() {
+  if (!store) {
+    const { KV_REST_API_URL, KV_REST_API_TOKEN } = process.env;
+    store = KV_REST_API_URL && KV_REST_API_TOKEN
+      ? createRestStore(KV_REST_API_URL, KV_REST_API_TOKEN)
+      : createMemoryStore();
+  }
+  return store;
+}
+
+// ============================================================================
+// Limits
+// ============================================================================
+
+function getWindows(now = new Date()) {
+  const minute = Math.floor(now.getTime() / 60000);
+  const day = now.toISOString().split('T')[0]; // UTC day
+  const nextMinute = (minute + 1) * 60000;
+  const nextDay = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return { minute, day, nextMinute, nextDay };
+}
+
+/**
+ * Count this request against the per-minute limit and reserve up to `maxTokens` of today's budget
+ * The reservation is taken with one atomic increment, so concurrent requests can't each spend the
+ * same remaining budget. Throws QuotaError when either is exhausted; settle the returned
+ * `reservation` (its `tokens` are the completion's max_tokens) with recordTokenUsage.
+ */
+export async function checkQuota(uid, maxTokens) {
+  const limits = getLimits();
+  const { minute, day, nextMinute, nextDay } = getWindows();
+  const quotaStore = getStore();
+  const tokensKey = `llm:tokens:${uid}:${day}`;
+
+  const tokensUsed = await quotaStore.increment(tokensKey, maxTokens, TOKEN_COUNTER_TTL_SECONDS) - maxTokens;
+  const reservation = { key: tokensKey, tokens: Math.max(0, Math.min(maxTokens, limits.dailyTokenBudget - tokensUsed)) };
+  // Give back what the budget can't cover
+  if (reservation.tokens < maxTokens) {
+    await quotaStore.increment(tokensKey, reservation.tokens - maxTokens, TOKEN_COUNTER_TTL_SECONDS);
+  }
+  if (reservation.tokens === 0) {
+    throw new QuotaError('daily_budget_exceeded', 'Daily AI token budget used up', {
+      limit: limits.dailyTokenBudget,
+      used: tokensUsed,
+      remaining: 0,
+      resetAt: new Date(nextDay).toISOString(),
+      retryAfterSeconds: Math.ceil((nextDay - Date.now()) / 1000),
+    });
+  }
+
+  const requests = await quotaStore.increment(`llm:requests:${uid}:${minute}`, 1, 60);
+  if (requests > limits.requestsPerMinute) {
+    await recordTokenUsage(reservation, 0);
+    throw new QuotaError('rate_limited', 'Too many AI requests', {
+      limit: limits.requestsPerMinute,
+      used: requests,
+      remaining: 0,
+      resetAt: new Date(nextMinute).toISOString(),
+      retryAfterSeconds: Math.max(1, Math.ceil((nextMinute - Date.now()) / 1000)),
+    });
+  }
+
+  return {
+    requestsRemaining: limits.requestsPerMinute - requests,
+    tokensRemaining: limits.dailyTokenBudget - tokensUsed - reservation.tokens,
+    reservation,
+  };
+}
+
+/**
+ * Settle a reservation with the completion's actual token usage (0 releases it)
+ * Refunds what wasn't used, or adds the excess (usage includes the prompt), on the day it was reserved
+ */
+export async function recordTokenUsage(reservation, totalTokens) {
+  const difference = totalTokens - reservation.tokens;
+  if (!difference) return;
+  await getStore().increment(reservation.key, difference, TOKEN_COUNTER_TTL_SECONDS);
+}
@@ -0,0 +1,58 @@
+/**
+ * Vercel Serverless Function - Calendar feed of planned workouts
+ *
+ * `GET /api/calendar?token=<calendarFeedToken>` returns an iCalendar (text/calendar) feed
+ * that calendar apps can subscribe to. Calendar apps can't send a Firebase ID token, so the
+ * secret feed token stored on the user document (`calendarFeedToken`) identifies the user;
+ * resetting it in the app invalidates old subscription links.
+ *
+ * Firestore is read with a service account (see _firestore.js).
+ * Errors are JSON `{ error, code }`.
+ */
+
+import { runQuery } from './_firestore.js';
+import { createWorkoutCalendar } from './_ical.js';
+
+const MIN_TOKEN_LENGTH = 32;
+
+export default async function handler(req, res) {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return res.status(405).json({ error: 'Method not allowed', code: 'method_not_allowed' });
+  }
+
+  const token = typeof req.query?.token === 'string' ? req.query.token : '';
+  if (token.length < MIN_TOKEN_LENGTH) {
+    return res.status(404).json({ error: 'Calendar feed not found', code: 'not_found' });
+  }
+
+  try {
+    const [user] = await runQuery('', {
+      from: [{ collectionId: 'users' }],
+      where: { fieldFilter: { field: { fieldPath: 'calendarFeedToken' }, op: 'EQUAL', value: { stringValue: token } } },
+      limit: 1,
+    });
+    if (!user) {
+      return res.status(404).json({ error: 'Calendar feed not found', code: 'not_found' });
+    }
+
+    const workouts = await runQuery(`users/${user.id}`, {
+      from: [{ collectionId: 'workouts' }],
+      where: {
+        fieldFilter: {
+          field: { fieldPath: 'status' },
+          op: 'IN',
+          value: { arrayValue: { values: [{ stringValue: 'planned' }, { stringValue: 'in-progress' }] } },
+        },
+      },
+    });
+
+    console.log(`[Calendar] Serving ${workouts.length} workouts for ${user.id}`);
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="workouts.ics"');
+    res.setHeader('Cache-Control', 'private, max-age=900');
+    res.status(200).send(createWorkoutCalendar(workouts, { feed: true }));
+  } catch (error) {
+    console.error('[Calendar] Error:', error);
+    res.status(500).json({ error: 'Internal server error', code: 'internal' });
+  }
+}
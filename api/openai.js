@@ -3,77 +3,204 @@
  * 
  * This function acts as a secure proxy between the frontend and OpenAI API
  * to avoid CORS issues and keep the API key secure.
+ * 
+ * Other hosted providers are selected with `provider` (see _llmProviders.js);
+ * responses are always returned in the OpenAI chat completions shape.
+ * 
+ * With `stream: true` the response is a server-sent event stream of OpenAI-style
+ * `chat.completion.chunk` events, terminated by `data: [DONE]`.
+ * 
+ * Callers authenticate with a Firebase ID token (`Authorization: Bearer <token>`).
+ * Provider keys come from server environment variables, and every user is subject
+ * to a per-minute rate limit and a daily token budget (see _quota.js).
+ * Errors are JSON `{ error, code, details?, quota? }`.
+ */
+
+import { callProvider, streamProvider, getProviderApiKey, ProviderError } from './_llmProviders.js';
+import { authenticateRequest, AuthError } from './_auth.js';
+import { checkQuota, recordTokenUsage, QuotaError } from './_quota.js';
+
+const DEFAULT_ALLOWED_ORIGINS = ['http://localhost:5173', 'http://localhost:3000'];
+
+/**
+ * Only echo CORS headers for configured origins (ALLOWED_ORIGINS, comma-separated)
+ * Same-origin requests from the deployed app don't need them
  */
+function applyCors(req, res) {
+  const allowedOrigins = process.env.ALLOWED_ORIGINS
+    ? process.env.ALLOWED_ORIGINS.split(',').map(origin => origin.trim()).filter(Boolean)
+    : DEFAULT_ALLOWED_ORIGINS;
+  const origin = req.headers?.origin;
+
+  if (origin && allowedOrigins.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Methods', 'POST,OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+  }
+}
+
+/**
+ * Serialize a known error as `{ error, code, details?, quota? }`; anything else becomes a bare internal error
+ */
+function toErrorBody(error) {
+  if (error instanceof QuotaError) {
+    return { error: error.message, code: error.code, quota: error.quota };
+  }
+  if (error instanceof AuthError) {
+    return { error: error.message, code: error.code };
+  }
+  if (error instanceof ProviderError) {
+    return { error: error.message, code: 'provider_error', details: error.details };
+  }
+  // Unknown errors can carry provider/KV internals; the detail stays in the server log
+  return { error: 'Internal server error', code: 'internal' };
+}
+
+/**
+ * Rough token count for streams that don't report usage (~4 characters per token)
+ */
+function estimateTokens(messages, content) {
+  const promptChars = messages.reduce((sum, message) => sum + (message.content?.length || 0), 0);
+  return Math.ceil((promptChars + content.length) / 4);
+}
+
+/**
+ * Write one server-sent event
+ */
+function writeEvent(res, data) {
+  res.write(`data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Stream a completion to the client as server-sent events
+ * Errors after the stream has started are sent as `{ error }` events
+ */
+async function handleStream(res, provider, request, reservation) {
+  // Stop the upstream request when the browser cancels
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+  });
+
+  let content = '';
+  try {
+    const { usage } = await streamProvider(provider, request, {
+      signal: controller.signal,
+      onDelta: delta => {
+        content += delta;
+        writeEvent(res, {
+          object: 'chat.completion.chunk',
+          choices: [{ index: 0, delta: { content: delta }, finish_reason: null }],
+        });
+      },
+    });
+    writeEvent(res, {
+      object: 'chat.completion.chunk',
+      choices: [{ index: 0, delta: {}, finish_reason: 'stop' }],
+      usage,
+    });
+    writeEvent(res, '[DONE]');
+    console.log(`[Proxy] Finished streaming response from ${provider}`);
+
+    await recordTokenUsage(reservation, usage?.total_tokens || estimateTokens(request.messages, content))
+      .catch(error => console.error('[Proxy] Failed to record token usage:', error));
+  } catch (error) {
+    if (controller.signal.aborted) {
+      // Tokens generated before the cancel still count against the budget
+      console.log('[Proxy] Client cancelled stream');
+      await recordTokenUsage(reservation, estimateTokens(request.messages, content)).catch(() => {});
+    } else {
+      console.error('[Proxy] Stream error:', error.status, error.details || error.message);
+      await recordTokenUsage(reservation, content ? estimateTokens(request.messages, content) : 0).catch(() => {});
+      writeEvent(res, { ...toErrorBody(error), status: error.status || 500 });
+    }
+  } finally {
+    res.end();
+  }
+}
 
 export default async function handler(req, res) {
-  // Enable CORS
-  res.setHeader('Access-Control-Allow-Credentials', true);
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS,PATCH,DELETE,POST,PUT');
-  res.setHeader('Access-Control-Allow-Headers', 'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version');
+  applyCors(req, res);
 
   // Handle preflight request
   if (req.method === 'OPTIONS') {
-    res.status(200).end();
+    res.status(204).end();
     return;
   }
 
   // Only allow POST
   if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed' });
+    return res.status(405).json({ error: 'Method not allowed', code: 'method_not_allowed' });
   }
 
+  let reservation = null; // Token budget held for this request until its usage is recorded
   try {
-    const { messages, temperature = 0.7, max_tokens = 4000, apiKey } = req.body;
+    const { uid } = await authenticateRequest(req);
 
-    if (!apiKey) {
-      return res.status(400).json({ error: 'API key is required' });
-    }
+    const { 
+      messages, 
+      temperature = 0.7, 
+      max_tokens = 4000, 
+      provider = 'openai', 
+      model,
+      stream = false
+    } = req.body;
 
     if (!messages || !Array.isArray(messages)) {
-      return res.status(400).json({ error: 'Messages array is required' });
+      return res.status(400).json({ error: 'Messages array is required', code: 'invalid_request' });
     }
 
-    console.log('[Proxy] Forwarding request to OpenAI API');
+    const apiKey = getProviderApiKey(provider);
+    ({ reservation } = await checkQuota(uid, Math.max(1, Math.floor(Number(max_tokens)) || 1)));
+    // The completion can't run past what was reserved (less near the end of the daily budget)
+    const request = { apiKey, model, messages, temperature, max_tokens: reservation.tokens };
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages,
-        temperature,
-        max_tokens,
-      }),
-    });
+    console.log(`[Proxy] Forwarding ${stream ? 'streaming ' : ''}request to ${provider}${model ? ` (${model})` : ''} for ${uid}`);
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('[Proxy] OpenAI API error:', response.status, errorText);
-      return res.status(response.status).json({ 
-        error: `OpenAI API error: ${response.status} ${response.statusText}`,
-        details: errorText 
-      });
+    if (stream) {
+      const streamReservation = reservation;
+      reservation = null; // Settled by the stream
+      return handleStream(res, provider, request, streamReservation);
     }
 
-    const data = await response.json();
-    console.log('[Proxy] Successfully received response from OpenAI');
+    const data = await callProvider(provider, request);
+    console.log(`[Proxy] Successfully received response from ${provider}`);
+
+    // Record before responding - the function may be frozen right after
+    const settled = reservation;
+    reservation = null;
+    await recordTokenUsage(settled, data.usage?.total_tokens || estimateTokens(messages, data.choices?.[0]?.message?.content || ''))
+      .catch(error => console.error('[Proxy] Failed to record token usage:', error));
     
     res.status(200).json(data);
   } catch (error) {
+    // Nothing was generated; give the reserved tokens back
+    if (reservation) {
+      await recordTokenUsage(reservation, 0).catch(releaseError => console.error('[Proxy] Failed to release token reservation:', releaseError));
+    }
+    if (error instanceof QuotaError) {
+      console.warn('[Proxy] Quota exceeded:', error.code);
+      res.setHeader('Retry-After', String(error.quota.retryAfterSeconds));
+      return res.status(429).json(toErrorBody(error));
+    }
+    if (error instanceof AuthError) {
+      console.warn('[Proxy] Unauthenticated request:', error.message);
+      return res.status(401).json(toErrorBody(error));
+    }
+    if (error instanceof ProviderError) {
+      console.error('[Proxy] Provider error:', error.status, error.details || error.message);
+      return res.status(error.status).json(toErrorBody(error));
+    }
+    
     console.error('[Proxy] Error:', error);
-    res.status(500).json({ 
-      error: 'Internal server error',
-      message: error.message 
-    });
+    res.status(500).json(toErrorBody(error));
   }
 }
-
-
-
-
-
-
@@ -0,0 +1,25 @@
+/**
+ * Test runner - Loads every *.test.ts under src/ through Vite (TypeScript, "@" alias, import.meta.glob)
+ * A test module's default export runs its checks and returns the failures; any failure fails the run
+ */
+
+import { readdirSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { runnerImport } from 'vite';
+
+const testFiles = readdirSync('src', { recursive: true })
+  .filter(file => file.endsWith('.test.ts'))
+  .sort();
+
+let failed = 0;
+for (const file of testFiles) {
+  const { module } = await runnerImport(resolve('src', file));
+  const failures = await module.default();
+  failed += failures.length;
+
+  console.log(`${failures.length === 0 ? 'PASS' : 'FAIL'} src/${file}`);
+  failures.forEach(failure => console.log(`\n  ${failure.replace(/\n/g, '\n  ')}\n`));
+}
+
+console.log(`\n${testFiles.length} test files, ${failed} failures`);
+process.exitCode = failed > 0 || testFiles.length === 0 ? 1 : 0;
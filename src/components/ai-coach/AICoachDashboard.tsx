@@ -6,7 +6,11 @@
 import { useState } from 'react';
 import type { AIPlan } from '@/types/aiCoach';
 import { FitnessGoalsCard } from './FitnessGoalsCard';
+import { PeriodizationCard } from './PeriodizationCard';
+import { PlanHistoryCard } from './PlanHistoryCard';
+import { PlanSwitcher } from './PlanSwitcher';
 import { AICoachStatistics } from './AICoachStatistics';
+import { CoachChatPanel } from './CoachChatPanel';
 import { MicrocycleGenerationFlow } from './MicrocycleGenerationFlow';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent } from '@/components/ui/dialog';
@@ -26,19 +30,32 @@ export function AICoachDashboard({ plan }: AICoachDashboardProps) {
     <div className="container mx-auto p-6 max-w-6xl">
       <div className="space-y-6">
         {/* Header */}
-        <div>
-          <h1 className="text-3xl font-bold tracking-tight">AI Coach</h1>
-          <p className="text-muted-foreground mt-1">
-            Your personalized fitness plan and progress
-          </p>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">AI Coach</h1>
+            <p className="text-muted-foreground mt-1">
+              Your personalized fitness plan and progress
+            </p>
+          </div>
+          {/* Active, paused and archived plans */}
+          <PlanSwitcher plan={plan} />
         </div>
 
         {/* Fitness Goals Card */}
         <FitnessGoalsCard plan={plan} />
 
+        {/* Phase week, deloads and intensity scheme */}
+        <PeriodizationCard plan={plan} />
+
+        {/* Goals and suggestion versions, diff and rollback */}
+        <PlanHistoryCard plan={plan} />
+
         {/* Statistics Dashboard */}
         <AICoachStatistics />
 
+        {/* Chat with the coach; proposed workout changes apply with one click */}
+        <CoachChatPanel />
+
         {/* Generate Suggestions Button - Always Available */}
         <div className="flex flex-col items-center space-y-2 py-8">
               <Button 
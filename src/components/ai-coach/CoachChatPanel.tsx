@@ -0,0 +1,246 @@
+/**
+ * Coach Chat Panel - Conversation with the AI Coach, grounded in the plan, recent workouts and profile
+ * Changes the coach proposes (move a workout, swap or remove an exercise) are applied with one click
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { CoachAction, CoachChatThread } from '@/types/coachChat';
+import { useAuthStore } from '@/stores/authStore';
+import { useCoachChatStore } from '@/stores/coachChatStore';
+import { COACH_ACTION_LABELS, describeCoachAction } from '@/lib/coachChat';
+import { cn } from '@/lib/utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Check, Loader2, MessageCircle, Plus, Send, Square, Trash2, X } from 'lucide-react';
+
+interface ActionCardProps {
+  action: CoachAction;
+  onApply: () => Promise<void>;
+  onDismiss: () => void;
+}
+
+const NEW_THREAD = 'new';
+const EXAMPLE_QUESTIONS = [
+  'I can\'t train on Thursday this week, can we move it?',
+  'My knee hurts on squats, what can I do instead?',
+  'How is my progress toward my goal?'
+];
+
+function ActionCard({ action, onApply, onDismiss }: ActionCardProps) {
+  const [applying, setApplying] = useState(false);
+
+  const handleApply = async () => {
+    setApplying(true);
+    await onApply();
+    setApplying(false);
+  };
+
+  return (
+    <div className={cn('space-y-1 rounded-md border bg-background p-2 text-xs', action.status !== 'proposed' && 'opacity-75')}>
+      <div className="flex items-center gap-2">
+        <Badge variant="outline" className="text-[10px]">{COACH_ACTION_LABELS[action.type]}</Badge>
+        <span className="min-w-0 flex-1 font-medium">{describeCoachAction(action)}</span>
+      </div>
+      {action.reason && <p className="text-muted-foreground">{action.reason}</p>}
+      {action.status === 'proposed' ? (
+        <div className="flex gap-2 pt-1">
+          <Button size="sm" className="h-7" onClick={handleApply} disabled={applying}>
+            {applying ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Check className="h-3 w-3 mr-1" />}
+            Apply
+          </Button>
+          <Button size="sm" variant="ghost" className="h-7" onClick={onDismiss} disabled={applying}>
+            <X className="h-3 w-3 mr-1" />
+            Dismiss
+          </Button>
+        </div>
+      ) : (
+        <p className={cn(action.status === 'failed' ? 'text-destructive' : 'text-muted-foreground')}>
+          {action.status === 'applied' && 'Applied'}
+          {action.status === 'dismissed' && 'Dismissed'}
+          {action.status === 'failed' && `Can't apply: ${action.error}`}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function ThreadMessages({ thread }: { thread: CoachChatThread }) {
+  const { applyAction, dismissAction } = useCoachChatStore();
+
+  return (
+    <>
+      {thread.messages.map(message => (
+        <div key={message.id} className={cn('flex', message.role === 'user' ? 'justify-end' : 'justify-start')}>
+          <div
+            className={cn(
+              'max-w-[85%] space-y-2 rounded-lg px-3 py-2 text-sm',
+              message.role === 'user' ? 'bg-primary text-primary-foreground' : 'bg-muted'
+            )}
+          >
+            <p className="whitespace-pre-wrap">{message.content}</p>
+            {message.actions?.map(action => (
+              <ActionCard
+                key={action.id}
+                action={action}
+                onApply={() => applyAction(thread.id, message.id, action.id)}
+                onDismiss={() => dismissAction(thread.id, message.id, action.id)}
+              />
+            ))}
+          </div>
+        </div>
+      ))}
+    </>
+  );
+}
+
+/**
+ * Coach chat panel component
+ */
+export function CoachChatPanel() {
+  const { user } = useAuthStore();
+  const {
+    threads,
+    activeThreadId,
+    loadedFor,
+    sending,
+    pendingReply,
+    error,
+    loadThreads,
+    selectThread,
+    deleteThread,
+    sendMessage,
+    cancelReply,
+    clearError
+  } = useCoachChatStore();
+  const [draft, setDraft] = useState('');
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const activeThread = threads.find(thread => thread.id === activeThreadId);
+
+  useEffect(() => {
+    if (user && loadedFor !== user.uid) loadThreads();
+  }, [user, loadedFor, loadThreads]);
+
+  // Keep the latest message in view
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [activeThread?.messages.length, pendingReply]);
+
+  const handleSend = async (text = draft) => {
+    if (!text.trim() || sending) return;
+    setDraft('');
+    await sendMessage(text);
+  };
+
+  const handleDelete = async () => {
+    if (!activeThread || !confirm(`Delete the conversation "${activeThread.title}"?`)) return;
+    await deleteThread(activeThread.id);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center space-x-2">
+              <MessageCircle className="h-5 w-5" />
+              <span>Ask Your Coach</span>
+            </CardTitle>
+            <CardDescription>The coach sees your plan, upcoming and recent workouts, and profile</CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            {threads.length > 0 && (
+              <Select value={activeThreadId ?? NEW_THREAD} onValueChange={(value) => selectThread(value === NEW_THREAD ? null : value)}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NEW_THREAD}>New conversation</SelectItem>
+                  {threads.map(thread => (
+                    <SelectItem key={thread.id} value={thread.id}>{thread.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {activeThread && (
+              <>
+                <Button variant="outline" size="icon" onClick={() => selectThread(null)} disabled={sending} title="New conversation">
+                  <Plus className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={handleDelete} disabled={sending} title="Delete conversation">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div ref={scrollRef} className="max-h-[28rem] min-h-[8rem] space-y-3 overflow-y-auto rounded-md border p-3">
+          {activeThread ? (
+            <ThreadMessages thread={activeThread} />
+          ) : (
+            <div className="space-y-2 py-4 text-center">
+              <p className="text-sm text-muted-foreground">Ask about your plan, or for changes to your upcoming workouts.</p>
+              <div className="flex flex-wrap justify-center gap-2">
+                {EXAMPLE_QUESTIONS.map(question => (
+                  <Button key={question} variant="outline" size="sm" className="h-auto whitespace-normal text-xs" onClick={() => handleSend(question)} disabled={sending}>
+                    {question}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {sending && (
+            <div className="flex justify-start">
+              <div className="max-w-[85%] rounded-lg bg-muted px-3 py-2 text-sm">
+                {pendingReply
+                  ? <p className="whitespace-pre-wrap">{pendingReply}</p>
+                  : <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription className="flex items-center justify-between gap-2">
+              <span>{error}</span>
+              <Button variant="ghost" size="sm" onClick={clearError}>Dismiss</Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-end gap-2">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                handleSend();
+              }
+            }}
+            placeholder="Message your coach (Shift+Enter for a new line)"
+            className="min-h-[44px] resize-none"
+            rows={2}
+          />
+          {sending ? (
+            <Button variant="outline" size="icon" onClick={cancelReply} title="Stop">
+              <Square className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button size="icon" onClick={() => handleSend()} disabled={!draft.trim()} title="Send">
+              <Send className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
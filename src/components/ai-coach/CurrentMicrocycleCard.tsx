@@ -15,6 +15,8 @@ import { WorkoutExecutionDialog } from '@/components/workouts/WorkoutExecutionDi
 import { useWorkoutsStore } from '@/stores/workoutsStore';
 import { Calendar, RotateCcw } from 'lucide-react';
 import { formatWeekHeader } from '@/lib/dateUtils';
+import { resolvePeriodizationWeek } from '@/lib/periodization';
+import { PeriodizationWeekSummary } from './PeriodizationCard';
 
 interface CurrentMicrocycleCardProps {
   plan: AIPlan;
@@ -80,6 +82,7 @@ export function CurrentMicrocycleCard({ plan, workouts }: CurrentMicrocycleCardP
   };
 
   const editingWorkout = editingWorkoutId ? workouts.find(w => w.id === editingWorkoutId) : null;
+  const periodizationWeek = resolvePeriodizationWeek(plan, plan.currentMicrocycle.dateRange.start);
 
   return (
     <>
@@ -141,6 +144,9 @@ export function CurrentMicrocycleCard({ plan, workouts }: CurrentMicrocycleCardP
           </div>
         </CardHeader>
         <CardContent>
+          <div className="mb-4 rounded-md border p-3">
+            <PeriodizationWeekSummary week={periodizationWeek} />
+          </div>
           <div className="space-y-3">
             {microcycleDates.map(({ date, dayName }) => {
               const dayWorkouts = workoutsByDate.get(date) || [];
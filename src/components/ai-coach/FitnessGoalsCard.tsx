@@ -1,5 +1,6 @@
 /**
  * Fitness Goals Card - Displays macrocycle and mesocycles with editing capability
+ * Phases are shown on a timeline with their success indicator progress (see MacrocycleTimeline)
  */
 
 import { useState, useEffect } from 'react';
@@ -9,13 +10,13 @@ import { useAICoachStore } from '@/stores/aiCoachStore';
 import { useAuthStore } from '@/stores/authStore';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { GoalsEditor } from './GoalsEditor';
 import { PromptEditor } from './PromptEditor';
+import { MacrocycleTimeline } from './MacrocycleTimeline';
 import { Target, Calendar, ChevronDown, ChevronUp, Edit, Info, X, RotateCcw, Loader2 } from 'lucide-react';
 import { getValue, fetchAndActivate } from 'firebase/remote-config';
 import { remoteConfig } from '@/lib/firebase';
@@ -145,21 +146,7 @@ export function FitnessGoalsCard({ plan }: FitnessGoalsCardProps) {
               <Calendar className="h-4 w-4 text-muted-foreground" />
               <h4 className="font-medium text-sm">Training Phases</h4>
             </div>
-            <div className="grid gap-3 md:grid-cols-3">
-              {plan.mesocycleMilestones.map((meso, index) => (
-                <Card key={meso.id} className="border-dashed">
-                  <CardContent className="p-3">
-                    <div className="space-y-1">
-                      <Badge variant="outline" className="text-xs">Phase {index + 1}</Badge>
-                      <h5 className="font-medium text-sm">{meso.name}</h5>
-                      <p className="text-xs text-muted-foreground">
-                        {meso.durationWeeks} weeks • {meso.focus}
-                      </p>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
+            <MacrocycleTimeline plan={plan} />
           </div>
         </CardContent>
       </Card>
@@ -261,6 +248,7 @@ export function FitnessGoalsCard({ plan }: FitnessGoalsCardProps) {
                     fitnessGoalInput: String(user.profile.goals || ''),
                     customInput,
                     currentDate: new Date().toISOString(),
+                    feedback: goalsFeedback.trim() || undefined,
                   };
                   
                   await generateGoals(request, editingPrompt || undefined);
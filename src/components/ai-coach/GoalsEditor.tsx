@@ -183,7 +183,11 @@ export function GoalsEditor({ plan, onSave, onCancel }: GoalsEditorProps) {
         ...meso,
         // Preserve or calculate dates
         startDate: plan.mesocycleMilestones[index]?.startDate || '',
-        endDate: plan.mesocycleMilestones[index]?.endDate || ''
+        endDate: plan.mesocycleMilestones[index]?.endDate || '',
+        deloadWeeks: plan.mesocycleMilestones[index]?.deloadWeeks,
+        // Success indicators aren't part of the text format
+        successIndicators: plan.mesocycleMilestones[index]?.successIndicators || [],
+        checkedIndicators: plan.mesocycleMilestones[index]?.checkedIndicators
       }))
     });
     
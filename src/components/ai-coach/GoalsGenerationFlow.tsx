@@ -3,7 +3,7 @@
  * Phase 1 of AI Coach setup
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useAICoachStore } from '@/stores/aiCoachStore';
 import { useAuthStore } from '@/stores/authStore';
 import { useProfileConfigStore } from '@/stores/profileConfigStore';
@@ -11,7 +11,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { FitnessGoalsInput } from './FitnessGoalsInput';
-import { GoalsReview } from './GoalsReview';
+import { GoalsReview, GoalsStreamingPreview } from './GoalsReview';
 import { PromptEditor } from './PromptEditor';
 import { Sparkles, Target, AlertCircle, Loader2, Settings } from 'lucide-react';
 import { getValue, fetchAndActivate } from 'firebase/remote-config';
@@ -29,10 +29,12 @@ export function GoalsGenerationFlow() {
   const { 
     currentPlan, 
     generating, 
+    generationPreview,
     error, 
     loading,
     customGoalsPrompt,
     generateGoals, 
+    cancelGeneration,
     saveCustomGoalsPrompt,
     resetGoalsPromptToDefault,
     loadCustomPrompts,
@@ -44,6 +46,7 @@ export function GoalsGenerationFlow() {
   const [customInput, setCustomInput] = useState('');
   const [defaultPrompt, setDefaultPrompt] = useState<CustomPromptConfig | null>(null);
   const [editingPrompt, setEditingPrompt] = useState<CustomPromptConfig | null>(null);
+  const cancelledRef = useRef(false);
   
   // Fetch profile config and prompts on mount
   useEffect(() => {
@@ -93,6 +96,7 @@ export function GoalsGenerationFlow() {
     }
 
     setStep('generating');
+    cancelledRef.current = false;
     
     // Use editing prompt if available
     await generateGoals({
@@ -102,6 +106,9 @@ export function GoalsGenerationFlow() {
       currentDate: new Date().toISOString(),
     }, editingPrompt || undefined);
     
+    // Cancel already returned to the input step
+    if (cancelledRef.current) return;
+    
     // Check if generation succeeded
     const { error: genError } = useAICoachStore.getState();
     if (!genError) {
@@ -111,6 +118,12 @@ export function GoalsGenerationFlow() {
     }
   };
 
+  const handleCancelGeneration = () => {
+    cancelledRef.current = true;
+    cancelGeneration();
+    setStep('input');
+  };
+
   const handleBack = () => {
     if (step === 'input') setStep('welcome');
     if (step === 'review') setStep('input');
@@ -232,7 +245,7 @@ export function GoalsGenerationFlow() {
             <Alert variant="destructive">
               <AlertCircle className="h-4 w-4" />
               <AlertDescription className="flex items-center justify-between">
-                <span>{error}</span>
+                <span className="whitespace-pre-line">{error}</span>
                 <Button variant="ghost" size="sm" onClick={clearError}>
                   Dismiss
                 </Button>
@@ -267,8 +280,16 @@ export function GoalsGenerationFlow() {
     );
   }
 
-  // Generating Step
+  // Generating Step - goals fill in as the response streams
   if (step === 'generating') {
+    if (generationPreview?.kind === 'goals' && (generationPreview.goals || generationPreview.attempt > 1)) {
+      return (
+        <div className="container mx-auto p-6 max-w-6xl">
+          <GoalsStreamingPreview preview={generationPreview} onCancel={handleCancelGeneration} />
+        </div>
+      );
+    }
+
     return (
       <div className="container mx-auto p-6 max-w-4xl">
         <Card>
@@ -281,6 +302,9 @@ export function GoalsGenerationFlow() {
                   AI is analyzing your profile and creating personalized goals...
                 </p>
               </div>
+              <Button variant="outline" size="sm" onClick={handleCancelGeneration}>
+                Cancel
+              </Button>
             </div>
           </CardContent>
         </Card>
@@ -1,10 +1,11 @@
 /**
  * Goals Review - Review and approve/edit/regenerate generated goals
  * Step 4 of goals generation flow - with direct text editing
+ * While goals are streaming in, the same text view is filled progressively (read-only)
  */
 
 import { useState, useEffect } from 'react';
-import type { AIPlan, MacrocycleGoal, MesocycleMilestone } from '@/types/aiCoach';
+import type { AIPlan, AIGenerationPreview, MacrocycleGoal, MesocycleMilestone } from '@/types/aiCoach';
 import type { CustomPromptConfig } from '@/types/profile';
 import { useAICoachStore } from '@/stores/aiCoachStore';
 import { useAuthStore } from '@/stores/authStore';
@@ -19,7 +20,8 @@ import {
   ArrowLeft,
   AlertCircle,
   Info,
-  Loader2
+  Loader2,
+  Square
 } from 'lucide-react';
 import { PromptEditor } from './PromptEditor';
 import { getValue, fetchAndActivate } from 'firebase/remote-config';
@@ -137,21 +139,22 @@ function parseGoalsText(text: string): { macrocycle: MacrocycleGoal; mesocycles:
 
 /**
  * Convert structured goals to text format
+ * Accepts partial goals so streaming previews render in the same format
  */
-function goalsToText(macrocycle: MacrocycleGoal, mesocycles: MesocycleMilestone[]): string {
+function goalsToText(macrocycle: Partial<MacrocycleGoal>, mesocycles: Partial<MesocycleMilestone>[]): string {
   let text = 'MACRO GOAL:\n';
-  text += `Name: ${macrocycle.name}\n`;
-  text += `Description: ${macrocycle.value}\n`;
-  text += `Duration: ${macrocycle.durationWeeks}\n`;
+  text += `Name: ${macrocycle.name ?? ''}\n`;
+  text += `Description: ${macrocycle.value ?? ''}\n`;
+  text += `Duration: ${macrocycle.durationWeeks ?? ''}\n`;
   text += '\n';
   text += 'MESOCYCLES:\n\n';
   
   mesocycles.forEach((meso, index) => {
     text += `Phase ${index + 1}:\n`;
-    text += `Name: ${meso.name}\n`;
-    text += `Focus: ${meso.focus}\n`;
-    text += `Duration: ${meso.durationWeeks}\n`;
-    text += `Description: ${meso.value}\n`;
+    text += `Name: ${meso.name ?? ''}\n`;
+    text += `Focus: ${meso.focus ?? ''}\n`;
+    text += `Duration: ${meso.durationWeeks ?? ''}\n`;
+    text += `Description: ${meso.value ?? ''}\n`;
     if (index < mesocycles.length - 1) {
       text += '\n';
     }
@@ -160,6 +163,54 @@ function goalsToText(macrocycle: MacrocycleGoal, mesocycles: MesocycleMilestone[
   return text;
 }
 
+interface GoalsStreamingPreviewProps {
+  preview: AIGenerationPreview;
+  onCancel: () => void;
+}
+
+/**
+ * Read-only goals text that fills in while the AI response is streaming
+ */
+export function GoalsStreamingPreview({ preview, onCancel }: GoalsStreamingPreviewProps) {
+  const goals = preview.goals;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+              <span>Generating Your Fitness Goals</span>
+            </CardTitle>
+            <CardDescription className="mt-1.5">
+              {preview.attempt > 1
+                ? `Fixing format issues in the AI response (attempt ${preview.attempt})...`
+                : goals
+                  ? `${goals.mesocycleMilestones.length} phase${goals.mesocycleMilestones.length !== 1 ? 's' : ''} so far · ${preview.receivedChars.toLocaleString()} characters received`
+                  : 'AI is analyzing your profile and creating personalized goals...'}
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={onCancel}>
+            <Square className="h-3 w-3 mr-2" />
+            Cancel
+          </Button>
+        </div>
+      </CardHeader>
+      {goals && (
+        <CardContent>
+          <Textarea
+            value={goalsToText(goals.macrocycleGoal, goals.mesocycleMilestones)}
+            readOnly
+            rows={20}
+            className="font-mono text-sm resize-none bg-muted/30"
+          />
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
 /**
  * Goals review component with direct text editing
  */
@@ -175,6 +226,8 @@ export function GoalsReview({ plan, onBack }: GoalsReviewProps) {
     customGoalsPrompt,
     saveCustomGoalsPrompt,
     resetGoalsPromptToDefault,
+    generationPreview,
+    cancelGeneration,
     loading
   } = useAICoachStore();
   
@@ -257,9 +310,10 @@ export function GoalsReview({ plan, onBack }: GoalsReviewProps) {
     // Build request with feedback
     const request = {
       userProfile: user.profile,
-      fitnessGoalInput: user.profile.goals || '',
+      fitnessGoalInput: String(user.profile.goals || ''),
       customInput: feedback.trim() ? `Previous goals feedback: ${feedback}\n\nPlease regenerate goals taking this feedback into account.` : '',
       currentDate: new Date().toISOString(),
+      feedback: feedback.trim() || undefined,
     };
     
     // Generate with custom prompt if edited
@@ -298,7 +352,7 @@ export function GoalsReview({ plan, onBack }: GoalsReviewProps) {
         <Alert variant="destructive">
           <AlertCircle className="h-4 w-4" />
           <AlertDescription className="flex items-center justify-between">
-            <span>{error}</span>
+            <span className="whitespace-pre-line">{error}</span>
             <Button variant="ghost" size="sm" onClick={clearError}>
               Dismiss
             </Button>
@@ -323,27 +377,31 @@ export function GoalsReview({ plan, onBack }: GoalsReviewProps) {
         </AlertDescription>
       </Alert>
 
-      {/* Text Editor */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Goals Editor</CardTitle>
-          <CardDescription>
-            Edit your macro goal and training phases directly
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <Textarea
-            value={goalsText}
-            onChange={(e) => {
-              setGoalsText(e.target.value);
-              setParseError(null);
-            }}
-            rows={20}
-            className="font-mono text-sm resize-none"
-            placeholder="Edit your goals here..."
-          />
-        </CardContent>
-      </Card>
+      {/* Text Editor (streaming preview while regenerating) */}
+      {generating && generationPreview?.kind === 'goals' ? (
+        <GoalsStreamingPreview preview={generationPreview} onCancel={cancelGeneration} />
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>Goals Editor</CardTitle>
+            <CardDescription>
+              Edit your macro goal and training phases directly
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Textarea
+              value={goalsText}
+              onChange={(e) => {
+                setGoalsText(e.target.value);
+                setParseError(null);
+              }}
+              rows={20}
+              className="font-mono text-sm resize-none"
+              placeholder="Edit your goals here..."
+            />
+          </CardContent>
+        </Card>
+      )}
 
       {/* Regenerate Section */}
       {showRegenerate && editingPrompt && defaultPrompt && (
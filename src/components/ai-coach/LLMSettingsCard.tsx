@@ -0,0 +1,184 @@
+/**
+ * LLM Settings Card - Choose the model provider used by the AI Coach
+ * Stored per user in the user document as `llmSettings`
+ */
+
+import { useState, useEffect } from 'react';
+import { useAuthStore } from '@/stores/authStore';
+import { LLM_PROVIDERS, DEFAULT_LLM_SETTINGS, resolveLLMSettings, formatLLMModel } from '@/lib/llmProviders';
+import type { LLMProvider, LLMSettings } from '@/types/llm';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Brain, Save, RotateCcw } from 'lucide-react';
+
+/**
+ * Card for editing AI Coach model provider settings
+ */
+export function LLMSettingsCard() {
+  const { user, updateProfile } = useAuthStore();
+  const [settings, setSettings] = useState<LLMSettings>(() => resolveLLMSettings(user?.llmSettings));
+  const [isSaving, setIsSaving] = useState(false);
+  const [hasChanges, setHasChanges] = useState(false);
+
+  // Sync with stored settings
+  useEffect(() => {
+    setSettings(resolveLLMSettings(user?.llmSettings));
+    setHasChanges(false);
+  }, [user?.llmSettings]);
+
+  const providerInfo = LLM_PROVIDERS[settings.provider];
+
+  const updateSettings = (updates: Partial<LLMSettings>) => {
+    setSettings(prev => ({ ...prev, ...updates }));
+    setHasChanges(true);
+  };
+
+  const handleProviderChange = (provider: LLMProvider) => {
+    // Switching provider resets model/baseUrl to that provider's defaults
+    updateSettings({
+      provider,
+      model: LLM_PROVIDERS[provider].defaultModel,
+      baseUrl: LLM_PROVIDERS[provider].defaultBaseUrl
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updateProfile({
+        llmSettings: {
+          ...settings,
+          model: settings.model.trim() || providerInfo.defaultModel,
+          baseUrl: providerInfo.viaProxy ? undefined : settings.baseUrl?.trim() || providerInfo.defaultBaseUrl
+        }
+      });
+      setHasChanges(false);
+    } catch (error) {
+      console.error('Failed to save LLM settings:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleResetToDefault = async () => {
+    setIsSaving(true);
+    try {
+      await updateProfile({ llmSettings: undefined });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Brain className="h-5 w-5" />
+          AI Coach Model
+        </CardTitle>
+        <CardDescription>
+          Provider and model used for goals and weekly workout suggestions.
+          Currently: <span className="font-mono">{formatLLMModel(resolveLLMSettings(user?.llmSettings))}</span>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-6 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Provider</Label>
+            <Select
+              value={settings.provider}
+              onValueChange={(value) => handleProviderChange(value as LLMProvider)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(LLM_PROVIDERS).map(provider => (
+                  <SelectItem key={provider.id} value={provider.id}>
+                    {provider.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{providerInfo.description}</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="llm-model">Model</Label>
+            <Input
+              id="llm-model"
+              list="llm-model-suggestions"
+              value={settings.model}
+              onChange={(e) => updateSettings({ model: e.target.value })}
+              placeholder={providerInfo.defaultModel}
+            />
+            <datalist id="llm-model-suggestions">
+              {providerInfo.suggestedModels.map(model => (
+                <option key={model} value={model} />
+              ))}
+            </datalist>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="llm-temperature">Temperature</Label>
+            <Input
+              id="llm-temperature"
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              value={settings.temperature}
+              onChange={(e) => updateSettings({ temperature: Number(e.target.value) })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="llm-max-tokens">Max tokens</Label>
+            <Input
+              id="llm-max-tokens"
+              type="number"
+              min={256}
+              step={256}
+              value={settings.maxTokens}
+              onChange={(e) => updateSettings({ maxTokens: Number(e.target.value) })}
+            />
+          </div>
+
+          {!providerInfo.viaProxy && (
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="llm-base-url">Server URL</Label>
+              <Input
+                id="llm-base-url"
+                value={settings.baseUrl || ''}
+                onChange={(e) => updateSettings({ baseUrl: e.target.value })}
+                placeholder={providerInfo.defaultBaseUrl}
+              />
+              <p className="text-xs text-muted-foreground">
+                Called directly from the browser. For Ollama, allow this origin with <span className="font-mono">OLLAMA_ORIGINS</span>.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button
+            variant="outline"
+            onClick={handleResetToDefault}
+            disabled={isSaving || !user?.llmSettings}
+            title={`Use default (${formatLLMModel(DEFAULT_LLM_SETTINGS)})`}
+          >
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Use Default
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !hasChanges}>
+            <Save className="h-4 w-4 mr-2" />
+            Save Model Settings
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,203 @@
+/**
+ * Macrocycle Timeline - Phases laid out from the macrocycle start to its end, with completed microcycles,
+ * deloads and the current week, plus per-phase success indicators and their progress
+ * Indicators are auto-evaluated from workouts and measurements where possible and can always be checked off by hand
+ */
+
+import { useEffect, useMemo } from 'react';
+import type { AIPlan } from '@/types/aiCoach';
+import { useAICoachStore } from '@/stores/aiCoachStore';
+import { useAuthStore } from '@/stores/authStore';
+import { useMeasurementsStore } from '@/stores/measurementsStore';
+import { useWorkoutsStore } from '@/stores/workoutsStore';
+import { getMilestoneProgress, type IndicatorProgress, type PhaseStatus } from '@/lib/milestoneProgress';
+import { formatMonthDay, getTodayISO } from '@/lib/dateUtils';
+import { cn } from '@/lib/utils';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+
+interface MacrocycleTimelineProps {
+  plan: AIPlan;
+}
+
+interface IndicatorChecklistProps {
+  indicators: IndicatorProgress[];
+  onToggle: (indicator: string, checked: boolean) => void;
+}
+
+const STATUS_LABELS: Record<PhaseStatus, string> = {
+  upcoming: 'Upcoming',
+  current: 'Current',
+  done: 'Done'
+};
+
+function toPercent(progress: number): number {
+  return Math.round(progress * 100);
+}
+
+function IndicatorChecklist({ indicators, onToggle }: IndicatorChecklistProps) {
+  return (
+    <ul className="space-y-2">
+      {indicators.map(indicator => (
+        <li key={indicator.text} className="flex items-start gap-2 text-xs">
+          <Checkbox
+            className="mt-0.5"
+            checked={indicator.checked || indicator.met}
+            onCheckedChange={(checked) => onToggle(indicator.text, checked === true)}
+            disabled={indicator.met && !indicator.checked}
+            title={indicator.met && !indicator.checked ? 'Achieved according to your workouts' : undefined}
+          />
+          <div className="min-w-0 flex-1">
+            <p className={cn(indicator.met && 'text-muted-foreground line-through')}>{indicator.text}</p>
+            {indicator.evaluation && (
+              <p className="text-muted-foreground">
+                <Badge variant="outline" className="mr-1 px-1 py-0 text-[10px]">Auto</Badge>
+                {indicator.evaluation.detail}
+                {!indicator.evaluation.met && ` · ${toPercent(indicator.evaluation.progress)}%`}
+              </p>
+            )}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function MacrocycleTimeline({ plan }: MacrocycleTimelineProps) {
+  const { setIndicatorChecked } = useAICoachStore();
+  const { user } = useAuthStore();
+  const workouts = useWorkoutsStore(state => state.workouts);
+  const { measurements, ensureLoaded } = useMeasurementsStore();
+
+  useEffect(() => {
+    ensureLoaded();
+  }, [ensureLoaded]);
+
+  const progress = useMemo(
+    () => getMilestoneProgress(plan, workouts, measurements, getTodayISO(), {
+      profile: user?.profile,
+      formula: user?.oneRepMaxFormula
+    }),
+    [plan, workouts, measurements, user]
+  );
+
+  const plannedWeeks = progress.phases.reduce((sum, phase) => sum + phase.endWeek - phase.startWeek + 1, 0);
+  const weekCell = (week: number) => {
+    const isCurrent = week === progress.currentWeek;
+    return (
+      <div
+        key={week}
+        title={`Week ${week}${progress.completedWeeks.includes(week) ? ' · microcycle completed' : ''}${progress.deloadWeeks.includes(week) ? ' · deload' : ''}${isCurrent ? ' · this week' : ''}`}
+        className={cn(
+          'h-3 flex-1 rounded-sm border',
+          progress.completedWeeks.includes(week)
+            ? 'border-primary bg-primary'
+            : week < progress.currentWeek ? 'bg-muted-foreground/20' : 'bg-muted',
+          progress.deloadWeeks.includes(week) && 'border-dashed border-muted-foreground',
+          isCurrent && 'ring-2 ring-primary ring-offset-1 ring-offset-background'
+        )}
+      />
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Timeline */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>{formatMonthDay(progress.startDate)}</span>
+          <span className="font-medium text-foreground">
+            {progress.currentWeek === 0
+              ? 'Not started yet'
+              : progress.currentWeek > progress.totalWeeks
+                ? 'Macrocycle finished'
+                : `Week ${progress.currentWeek} of ${progress.totalWeeks}`}
+          </span>
+          <span>{formatMonthDay(progress.endDate)}</span>
+        </div>
+        <div className="flex gap-1">
+          {progress.phases.map(phase => (
+            <div
+              key={phase.milestoneId}
+              className="min-w-0 space-y-1"
+              style={{ flexGrow: phase.endWeek - phase.startWeek + 1, flexBasis: 0 }}
+            >
+              <p className={cn('truncate text-xs', phase.status === 'current' ? 'font-medium' : 'text-muted-foreground')}>
+                {phase.name}
+              </p>
+              <div className="flex gap-0.5">
+                {Array.from({ length: phase.endWeek - phase.startWeek + 1 }, (_, index) => weekCell(phase.startWeek + index))}
+              </div>
+            </div>
+          ))}
+          {progress.totalWeeks > plannedWeeks && (
+            <div className="min-w-0 space-y-1" style={{ flexGrow: progress.totalWeeks - plannedWeeks, flexBasis: 0 }}>
+              <p className="truncate text-xs text-muted-foreground">Unplanned</p>
+              <div className="flex gap-0.5">
+                {Array.from({ length: progress.totalWeeks - plannedWeeks }, (_, index) => weekCell(plannedWeeks + index + 1))}
+              </div>
+            </div>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {progress.completedWeeks.length} microcycle{progress.completedWeeks.length === 1 ? '' : 's'} completed · filled weeks are completed, dashed weeks are deloads
+        </p>
+      </div>
+
+      {/* Macrocycle success indicators */}
+      {progress.indicators.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium">Goal indicators</span>
+            {progress.progress !== null && <span className="tabular-nums text-muted-foreground">{toPercent(progress.progress)}%</span>}
+          </div>
+          <IndicatorChecklist
+            indicators={progress.indicators}
+            onToggle={(indicator, checked) => setIndicatorChecked(null, indicator, checked)}
+          />
+        </div>
+      )}
+
+      {/* Phases */}
+      <div className="grid gap-3 md:grid-cols-3">
+        {progress.phases.map(phase => (
+          <Card key={phase.milestoneId} className={cn('border-dashed', phase.status === 'current' && 'border-primary')}>
+            <CardContent className="space-y-3 p-3">
+              <div className="space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <Badge variant="outline" className="text-xs">Phase {phase.phaseIndex + 1}</Badge>
+                  <Badge variant={phase.status === 'current' ? 'default' : 'secondary'} className="text-xs">
+                    {STATUS_LABELS[phase.status]}
+                  </Badge>
+                </div>
+                <h5 className="font-medium text-sm">{phase.name}</h5>
+                <p className="text-xs text-muted-foreground">
+                  {formatMonthDay(phase.startDate)} - {formatMonthDay(phase.endDate)} • {phase.focus}
+                </p>
+              </div>
+
+              {phase.progress !== null ? (
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>Indicators{phase.status === 'current' && ` · ${toPercent(phase.timeProgress)}% of the phase elapsed`}</span>
+                    <span className="tabular-nums">{toPercent(phase.progress)}%</span>
+                  </div>
+                  <Progress value={toPercent(phase.progress)} className="h-2" />
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground">No success indicators for this phase.</p>
+              )}
+
+              <IndicatorChecklist
+                indicators={phase.indicators}
+                onToggle={(indicator, checked) => setIndicatorChecked(phase.milestoneId, indicator, checked)}
+              />
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -14,8 +14,11 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { WorkoutSuggestionsDialog } from './WorkoutSuggestionsDialog';
 import { PromptEditor } from './PromptEditor';
+import { MicrocycleStreamingPreview } from './MicrocyclePreview';
 import { Sparkles, AlertCircle, Loader2, Target, Info } from 'lucide-react';
 import { calculateInitialWeekRange } from '@/lib/dateUtils';
+import { formatProgressionTargets } from '@/lib/progressiveOverload';
+import { formatPeriodizationTargets, getMacrocycleWeekNumber, resolvePeriodizationWeek } from '@/lib/periodization';
 import type { MicrocycleGenerationRequest } from '@/types/aiCoach';
 import type { CustomPromptConfig } from '@/types/profile';
 import { doc, getDoc } from 'firebase/firestore';
@@ -35,10 +38,12 @@ export function MicrocycleGenerationFlow({ weekNumber, onClose }: MicrocycleGene
   const { 
     currentPlan, 
     generating, 
+    generationPreview,
     error, 
     loading,
     customMicrocyclePrompt,
     generateMicrocycle,
+    cancelGeneration,
     acceptSuggestedWorkouts,
     clearCurrentSuggestion,
     saveCustomMicrocyclePrompt,
@@ -110,15 +115,18 @@ export function MicrocycleGenerationFlow({ weekNumber, onClose }: MicrocycleGene
       macrocycleGoal: currentPlan.macrocycleGoal,
       mesocycleMilestones: currentPlan.mesocycleMilestones,
       currentDate: new Date().toISOString(),
-      weekNumber: weekNumber || 1,
+      weekNumber: weekNumber ?? Math.max(1, getMacrocycleWeekNumber(currentPlan, weekDateRange.start)),
       weekDateRange,
       customFeedback: feedbackToUse || undefined,
     };
 
     await generateMicrocycle(request);
     
-    // Clear feedback after successful generation
-    setCustomFeedback('');
+    // Clear feedback after successful generation (keep it if cancelled or failed)
+    const { currentPlan: updatedPlan, error: genError } = useAICoachStore.getState();
+    if (!genError && updatedPlan?.currentSuggestion !== currentPlan.currentSuggestion) {
+      setCustomFeedback('');
+    }
   };
 
   const handlePromptSaved = async (prompt: CustomPromptConfig) => {
@@ -186,6 +194,8 @@ export function MicrocycleGenerationFlow({ weekNumber, onClose }: MicrocycleGene
     const endDate = new Date(weekDateRange.end);
     return workoutDate >= startDate && workoutDate <= endDate;
   });
+  const periodizationWeek = currentPlan ? resolvePeriodizationWeek(currentPlan, weekDateRange.start) : null;
+  const nextWeekNumber = weekNumber ?? (currentPlan ? Math.max(1, getMacrocycleWeekNumber(currentPlan, weekDateRange.start)) : 1);
 
   const placeholders = [
     { placeholder: 'USER_PROFILE', description: 'Complete user profile data' },
@@ -195,19 +205,23 @@ export function MicrocycleGenerationFlow({ weekNumber, onClose }: MicrocycleGene
     { placeholder: 'NEXT_WEEK_NUMBER', description: 'Week number in plan' },
     { placeholder: 'WEEK_DATE_RANGE', description: 'Date range for the microcycle' },
     { placeholder: 'PLANNED_WORKOUTS', description: 'Already planned workouts for this period' },
+    { placeholder: 'PROGRESSION_TARGETS', description: 'Next-session targets from your progression rules' },
+    { placeholder: 'PERIODIZATION_TARGETS', description: 'Phase week, deload and intensity targets for this week' },
     { placeholder: 'CUSTOM_PROMPT', description: 'Your custom feedback/instructions' },
   ];
 
   const populatedData = user?.profile && currentPlan ? {
     USER_PROFILE: JSON.stringify(user.profile, null, 2),
     MACROCYCLE: currentPlan.macrocycleGoal.name,
-    MESOCYCLE: currentPlan.mesocycleMilestones[0]?.name || 'N/A',
+    MESOCYCLE: currentPlan.mesocycleMilestones[periodizationWeek?.phaseIndex ?? 0]?.name || 'N/A',
     CURRENT_DATE: new Date().toISOString(),
-    NEXT_WEEK_NUMBER: String(weekNumber || 1),
+    NEXT_WEEK_NUMBER: String(nextWeekNumber),
     WEEK_DATE_RANGE: `${weekDateRange.start} to ${weekDateRange.end}`,
     PLANNED_WORKOUTS: plannedWorkouts.length > 0
       ? plannedWorkouts.map(w => `${w.name} (${w.date})`).join(', ')
       : 'None',
+    PROGRESSION_TARGETS: formatProgressionTargets(workoutsStore.getProgressionTargets()),
+    PERIODIZATION_TARGETS: formatPeriodizationTargets(periodizationWeek),
     CUSTOM_PROMPT: customFeedback || 'Not provided'
   } : undefined;
 
@@ -228,7 +242,7 @@ export function MicrocycleGenerationFlow({ weekNumber, onClose }: MicrocycleGene
             <Alert variant="destructive">
               <AlertCircle className="h-4 w-4" />
               <AlertDescription className="flex items-center justify-between">
-                <span>{error}</span>
+                <span className="whitespace-pre-line">{error}</span>
                 <Button variant="ghost" size="sm" onClick={clearError}>
                   Dismiss
                 </Button>
@@ -323,6 +337,11 @@ export function MicrocycleGenerationFlow({ weekNumber, onClose }: MicrocycleGene
             </Button>
           </div>
 
+          {/* Workouts appear here as the response streams in */}
+          {generating && generationPreview?.kind === 'microcycle' && (
+            <MicrocycleStreamingPreview preview={generationPreview} onCancel={cancelGeneration} />
+          )}
+
           {onClose && (
             <div className="flex justify-center">
               <Button variant="outline" onClick={onClose}>
@@ -1,9 +1,10 @@
 /**
  * Microcycle Preview - Review and approve/regenerate generated workouts
+ * Also renders workouts progressively while a generation is streaming
  */
 
 import { useState } from 'react';
-import type { AIPlan } from '@/types/aiCoach';
+import type { AIPlan, AIGenerationPreview } from '@/types/aiCoach';
 import type { WorkoutDocument } from '@/types/workout';
 import { useWorkoutsStore } from '@/stores/workoutsStore';
 import { useAICoachStore } from '@/stores/aiCoachStore';
@@ -17,7 +18,9 @@ import {
   CheckCircle, 
   RotateCcw, 
   Calendar,
-  Dumbbell
+  Dumbbell,
+  Loader2,
+  Square
 } from 'lucide-react';
 import { formatMicrocycleDateRange, formatWeekHeader } from '@/lib/dateUtils';
 
@@ -36,11 +39,85 @@ const DAYS = [
   { id: 0, name: 'Sunday' },
 ];
 
+interface MicrocycleStreamingPreviewProps {
+  preview: AIGenerationPreview;
+  onCancel: () => void;
+}
+
+/**
+ * Workouts as they arrive from a streaming generation
+ */
+export function MicrocycleStreamingPreview({ preview, onCancel }: MicrocycleStreamingPreviewProps) {
+  const microcycle = preview.microcycle;
+  const workouts = microcycle?.workouts || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+              <span>Generating Workouts ({workouts.length})</span>
+            </CardTitle>
+            <CardDescription className="mt-1.5">
+              {preview.attempt > 1
+                ? `Fixing format issues in the AI response (attempt ${preview.attempt})...`
+                : microcycle?.assessment || 'AI Coach is reviewing your goals and current plan...'}
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={onCancel}>
+            <Square className="h-3 w-3 mr-2" />
+            Cancel
+          </Button>
+        </div>
+      </CardHeader>
+      {workouts.length > 0 && (
+        <CardContent>
+          <div className="space-y-2">
+            {workouts.map((workout, index) => {
+              const dayName = DAYS.find(day => day.id === (workout.dayOfWeek === 7 ? 0 : workout.dayOfWeek))?.name;
+              const isLatest = index === workouts.length - 1;
+
+              return (
+                <div
+                  key={index}
+                  className={`rounded-md border p-3 space-y-1 ${isLatest ? 'border-primary/40 animate-pulse' : ''}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-sm">{workout.name || 'Workout'}</span>
+                    <div className="flex items-center gap-1">
+                      {dayName && <Badge variant="outline" className="text-xs">{dayName}</Badge>}
+                      {!!workout.estimatedDuration && (
+                        <Badge variant="secondary" className="text-xs">{workout.estimatedDuration} min</Badge>
+                      )}
+                    </div>
+                  </div>
+                  {workout.focus && (
+                    <p className="text-xs text-muted-foreground">{workout.focus}</p>
+                  )}
+                  {workout.exercises.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {workout.exercises
+                        .map(exercise => `${exercise.name || '…'}${exercise.setCount ? ` (${exercise.setCount})` : ''}`)
+                        .join(' · ')}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
 /**
  * Microcycle preview component
  */
 export function MicrocyclePreview({ plan, onApprove }: MicrocyclePreviewProps) {
-  const { regenerateMicrocycle, generating } = useAICoachStore();
+  const { regenerateMicrocycle, generating, generationPreview, cancelGeneration } = useAICoachStore();
   const workouts = useWorkoutsStore(state => state.workouts);
   const { deleteWorkout } = useWorkoutsStore();
   
@@ -123,44 +200,48 @@ export function MicrocyclePreview({ plan, onApprove }: MicrocyclePreviewProps) {
         </CardHeader>
       </Card>
 
-      {/* Workouts Preview */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center space-x-2">
-            <Dumbbell className="h-5 w-5" />
-            <span>Generated Workouts ({microcycleWorkouts.length})</span>
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-3">
-            {microcycleDates.map(({ date, dayName }) => {
-              const dayWorkouts = workoutsByDate.get(date) || [];
-              if (dayWorkouts.length === 0) return null;
+      {/* Workouts Preview (streaming preview while regenerating) */}
+      {generating && generationPreview?.kind === 'microcycle' ? (
+        <MicrocycleStreamingPreview preview={generationPreview} onCancel={cancelGeneration} />
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Dumbbell className="h-5 w-5" />
+              <span>Generated Workouts ({microcycleWorkouts.length})</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {microcycleDates.map(({ date, dayName }) => {
+                const dayWorkouts = workoutsByDate.get(date) || [];
+                if (dayWorkouts.length === 0) return null;
 
-              return (
-                <div key={date}>
-                  <div className="text-sm font-medium text-muted-foreground mb-2">
-                    {dayName}, {new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
-                  </div>
-                  <div className="space-y-2">
-                    {dayWorkouts.map((workout: WorkoutDocument) => (
-                      <WorkoutCardV2
-                        key={workout.id}
-                        workout={workout}
-                        onStart={(w) => setEditingWorkoutId(w.id)}
-                        onDelete={handleDeleteWorkout}
-                        isEditable={true}
-                        isDraggable={false}
-                        showSource={false}
-                      />
-                    ))}
+                return (
+                  <div key={date}>
+                    <div className="text-sm font-medium text-muted-foreground mb-2">
+                      {dayName}, {new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                    </div>
+                    <div className="space-y-2">
+                      {dayWorkouts.map((workout: WorkoutDocument) => (
+                        <WorkoutCardV2
+                          key={workout.id}
+                          workout={workout}
+                          onStart={(w) => setEditingWorkoutId(w.id)}
+                          onDelete={handleDeleteWorkout}
+                          isEditable={true}
+                          isDraggable={false}
+                          showSource={false}
+                        />
+                      ))}
+                    </div>
                   </div>
-                </div>
-              );
-            })}
-          </div>
-        </CardContent>
-      </Card>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
 
       {/* Regenerate Section */}
       {showRegenerate && (
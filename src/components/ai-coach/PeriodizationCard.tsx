@@ -0,0 +1,187 @@
+/**
+ * Periodization Card - Where this week sits in the plan, its targets, and the scheme/deload settings
+ * Clicking a week in a phase toggles a planned deload for that phase (overrides the deload strategy)
+ */
+
+import type { AIPlan, DeloadStrategy, IntensityScheme, PeriodizationSettings, PeriodizationWeek } from '@/types/aiCoach';
+import { useAICoachStore } from '@/stores/aiCoachStore';
+import {
+  DELOAD_STRATEGIES,
+  INTENSITY_SCHEMES,
+  formatTargetsSummary,
+  getDeloadWeeks,
+  getPeriodizationSchedule,
+  getPeriodizationSettings,
+  resolvePeriodizationWeek
+} from '@/lib/periodization';
+import { getTodayISO } from '@/lib/dateUtils';
+import { cn } from '@/lib/utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TrendingUp } from 'lucide-react';
+
+interface PeriodizationCardProps {
+  plan: AIPlan;
+}
+
+interface PeriodizationWeekSummaryProps {
+  week: PeriodizationWeek | null;
+}
+
+/**
+ * One-line position in the plan plus the week's targets
+ */
+export function PeriodizationWeekSummary({ week }: PeriodizationWeekSummaryProps) {
+  if (!week) {
+    return <p className="text-sm text-muted-foreground">This week is outside the planned training phases.</p>;
+  }
+
+  return (
+    <div className="space-y-1 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium">
+          Week {week.macrocycleWeek} of {week.totalWeeks} · Phase {week.phaseIndex + 1}: {week.milestoneName}, week {week.weekInPhase} of {week.phaseWeeks}
+        </span>
+        <Badge variant={week.isDeload ? 'secondary' : 'outline'} className="text-xs">{week.targets.label}</Badge>
+      </div>
+      <p className="text-muted-foreground">{formatTargetsSummary(week.targets)}</p>
+      {week.targets.sessions && (
+        <ul className="text-xs text-muted-foreground">
+          {week.targets.sessions.map(session => (
+            <li key={session.label}>{session.label}: {formatTargetsSummary(session)}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function PeriodizationCard({ plan }: PeriodizationCardProps) {
+  const { updateGoals, loading } = useAICoachStore();
+  const settings = getPeriodizationSettings(plan);
+  const schedule = getPeriodizationSchedule(plan);
+  const currentWeek = resolvePeriodizationWeek(plan, getTodayISO());
+
+  const saveSettings = (updates: Partial<PeriodizationSettings>) => {
+    const periodization: PeriodizationSettings = { ...settings, ...updates };
+    if (periodization.deload !== 'interval') delete periodization.deloadIntervalWeeks;
+    updateGoals({ periodization });
+  };
+
+  const toggleDeload = (phaseIndex: number, weekInPhase: number) => {
+    const milestone = plan.mesocycleMilestones[phaseIndex];
+    const current = getDeloadWeeks(milestone.durationWeeks, settings, milestone.deloadWeeks);
+    const deloadWeeks = current.includes(weekInPhase)
+      ? current.filter(week => week !== weekInPhase)
+      : [...current, weekInPhase].sort((a, b) => a - b);
+    updateGoals({
+      mesocycleMilestones: plan.mesocycleMilestones.map((entry, index) => index === phaseIndex ? { ...entry, deloadWeeks } : entry)
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <TrendingUp className="h-5 w-5" />
+          <span>Periodization</span>
+        </CardTitle>
+        <CardDescription>{INTENSITY_SCHEMES[settings.scheme].description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <PeriodizationWeekSummary week={currentWeek} />
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label className="text-xs">Intensity scheme</Label>
+            <Select
+              value={settings.scheme}
+              onValueChange={(value) => saveSettings({ scheme: value as IntensityScheme })}
+              disabled={loading}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(INTENSITY_SCHEMES) as IntensityScheme[]).map(key => (
+                  <SelectItem key={key} value={key}>{INTENSITY_SCHEMES[key].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Deload</Label>
+            <Select
+              value={settings.deload}
+              onValueChange={(value) => saveSettings({ deload: value as DeloadStrategy })}
+              disabled={loading}
+            >
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DELOAD_STRATEGIES) as DeloadStrategy[]).map(key => (
+                  <SelectItem key={key} value={key}>{DELOAD_STRATEGIES[key].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {settings.deload === 'interval' && (
+            <div className="space-y-1">
+              <Label htmlFor="deload-interval" className="text-xs">Every (weeks)</Label>
+              <Input
+                id="deload-interval"
+                type="number"
+                min={2}
+                max={12}
+                className="w-24"
+                defaultValue={settings.deloadIntervalWeeks ?? 4}
+                onBlur={(e) => {
+                  const weeks = Math.round(Number(e.target.value));
+                  if (weeks >= 2 && weeks !== settings.deloadIntervalWeeks) saveSettings({ deloadIntervalWeeks: weeks });
+                }}
+                disabled={loading}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          {plan.mesocycleMilestones.map((milestone, phaseIndex) => {
+            const weeks = schedule.filter(week => week.phaseIndex === phaseIndex);
+            return (
+              <div key={milestone.id} className="space-y-1">
+                <p className="text-xs text-muted-foreground">
+                  Phase {phaseIndex + 1}: {milestone.name}
+                  {milestone.deloadWeeks && ' (planned deloads)'}
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {weeks.map(week => (
+                    <button
+                      key={week.weekInPhase}
+                      type="button"
+                      onClick={() => toggleDeload(phaseIndex, week.weekInPhase)}
+                      disabled={loading}
+                      title={`${week.targets.label}: ${formatTargetsSummary(week.targets)} (click to ${week.isDeload ? 'remove' : 'plan'} a deload)`}
+                      className={cn(
+                        'h-7 min-w-7 rounded border px-1.5 text-xs tabular-nums',
+                        week.isDeload ? 'bg-muted text-muted-foreground border-dashed' : 'bg-background',
+                        currentWeek?.macrocycleWeek === week.macrocycleWeek && 'ring-2 ring-primary'
+                      )}
+                    >
+                      {week.macrocycleWeek}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+          <p className="text-xs text-muted-foreground">Dashed weeks are deloads. Click a week to plan or remove a deload.</p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
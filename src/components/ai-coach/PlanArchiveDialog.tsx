@@ -0,0 +1,169 @@
+/**
+ * Plan Archive Dialog - Review paused and archived AI plans: goals, completed weeks with reflections and linked workouts
+ * Workouts are linked through the microcycles' workoutIds and, for newer workouts, aiCoachContext.planId
+ */
+
+import { useMemo, useState } from 'react';
+import type { AIPlan } from '@/types/aiCoach';
+import type { WorkoutDocument } from '@/types/workout';
+import { useAICoachStore } from '@/stores/aiCoachStore';
+import { useWorkoutsStore } from '@/stores/workoutsStore';
+import { formatMonthDay } from '@/lib/dateUtils';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Archive, Pause, Play } from 'lucide-react';
+
+interface PlanArchiveDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function getPlanWorkouts(plan: AIPlan, workouts: WorkoutDocument[]): WorkoutDocument[] {
+  const workoutIds = new Set([
+    ...plan.completedMicrocycles.flatMap(microcycle => microcycle.workoutIds),
+    ...(plan.currentMicrocycle?.workoutIds || [])
+  ]);
+  return workouts
+    .filter(workout => workoutIds.has(workout.id) || workout.aiCoachContext?.planId === plan.id)
+    .sort((a, b) => (a.date || '').localeCompare(b.date || ''));
+}
+
+function WorkoutLine({ workout }: { workout: WorkoutDocument }) {
+  return (
+    <li className="flex items-center justify-between gap-2 text-xs">
+      <span className="truncate">{workout.name}</span>
+      <span className="shrink-0 text-muted-foreground">
+        {workout.date ? formatMonthDay(workout.date) : 'No date'} · {workout.status}
+      </span>
+    </li>
+  );
+}
+
+function PlanReview({ plan }: { plan: AIPlan }) {
+  const workouts = useWorkoutsStore(state => state.workouts);
+  const planWorkouts = useMemo(() => getPlanWorkouts(plan, workouts), [plan, workouts]);
+  const weekWorkoutIds = new Set(plan.completedMicrocycles.flatMap(microcycle => microcycle.workoutIds));
+  const otherWorkouts = planWorkouts.filter(workout => !weekWorkoutIds.has(workout.id));
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <div className="flex flex-wrap items-center gap-2">
+          <h3 className="font-semibold">{plan.macrocycleGoal.name}</h3>
+          <Badge variant="outline" className="text-xs capitalize">{plan.status}</Badge>
+        </div>
+        <p className="text-sm text-muted-foreground">{plan.macrocycleGoal.value}</p>
+        <p className="text-xs text-muted-foreground">
+          {formatMonthDay(plan.macrocycleGoal.startDate)} - {formatMonthDay(plan.macrocycleGoal.endDate)}
+          {' · '}{plan.mesocycleMilestones.length} phases
+          {plan.setAsideAt && ` · set aside ${formatMonthDay(plan.setAsideAt)}`}
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Completed weeks ({plan.completedMicrocycles.length})</p>
+        {plan.completedMicrocycles.length === 0 && (
+          <p className="text-sm text-muted-foreground">No weeks were completed with this plan.</p>
+        )}
+        {plan.completedMicrocycles.map(microcycle => {
+          const weekWorkouts = planWorkouts.filter(workout => microcycle.workoutIds.includes(workout.id));
+          return (
+            <div key={microcycle.id} className="space-y-1 rounded-md border p-3">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium">Week {microcycle.week}</span>
+                <span className="text-xs text-muted-foreground">Completed {formatMonthDay(microcycle.completedAt)}</span>
+              </div>
+              {microcycle.weeklyReflection && (
+                <p className="text-xs italic text-muted-foreground">"{microcycle.weeklyReflection}"</p>
+              )}
+              {weekWorkouts.length > 0 ? (
+                <ul className="space-y-0.5 pt-1">
+                  {weekWorkouts.map(workout => <WorkoutLine key={workout.id} workout={workout} />)}
+                </ul>
+              ) : microcycle.workoutIds.length > 0 && (
+                <p className="text-xs text-muted-foreground">{microcycle.workoutIds.length} workouts (no longer in your log)</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {otherWorkouts.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Other workouts from this plan ({otherWorkouts.length})</p>
+          <ul className="space-y-0.5 rounded-md border p-3">
+            {otherWorkouts.map(workout => <WorkoutLine key={workout.id} workout={workout} />)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Plan archive dialog component
+ */
+export function PlanArchiveDialog({ open, onOpenChange }: PlanArchiveDialogProps) {
+  const { inactivePlans, activatePlan, setInactivePlanStatus, loading } = useAICoachStore();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const plan = inactivePlans.find(entry => entry.id === selectedId) ?? inactivePlans[0];
+
+  const handleResume = async () => {
+    if (!plan) return;
+    await activatePlan(plan.id);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Past Plans</DialogTitle>
+          <DialogDescription>Paused and archived plans with their completed weeks and workouts</DialogDescription>
+        </DialogHeader>
+
+        {!plan ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No paused or archived plans.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={plan.id} onValueChange={setSelectedId}>
+                <SelectTrigger className="w-72">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {inactivePlans.map(entry => (
+                    <SelectItem key={entry.id} value={entry.id}>
+                      {entry.macrocycleGoal.name}{entry.status === 'archived' ? ' (archived)' : ' (paused)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="ml-auto flex gap-2">
+                {plan.status === 'archived' ? (
+                  <Button variant="outline" size="sm" onClick={() => setInactivePlanStatus(plan.id, 'paused')}>
+                    <Pause className="h-4 w-4 mr-1" />
+                    Move to paused
+                  </Button>
+                ) : (
+                  <Button variant="outline" size="sm" onClick={() => setInactivePlanStatus(plan.id, 'archived')}>
+                    <Archive className="h-4 w-4 mr-1" />
+                    Archive
+                  </Button>
+                )}
+                <Button size="sm" onClick={handleResume} disabled={loading}>
+                  <Play className="h-4 w-4 mr-1" />
+                  Resume
+                </Button>
+              </div>
+            </div>
+
+            <PlanReview plan={plan} />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
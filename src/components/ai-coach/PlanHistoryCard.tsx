@@ -0,0 +1,230 @@
+/**
+ * Plan History Card - Version history of the AI plan with side-by-side diffs and one-click rollback
+ * A version is recorded after every goals edit, goals (re)generation, workout suggestion and rollback
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import type { AIPlan, PlanSnapshot, PlanVersion } from '@/types/aiCoach';
+import { useAICoachStore } from '@/stores/aiCoachStore';
+import { createPlanSnapshot, diffPlanSnapshots, type FieldDiff } from '@/lib/planVersions';
+import { cn } from '@/lib/utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { GitCompare, History, RotateCcw } from 'lucide-react';
+
+interface PlanHistoryCardProps {
+  plan: AIPlan;
+}
+
+interface VersionDiffProps {
+  before: PlanSnapshot;
+  after: PlanSnapshot;
+  showUnchanged: boolean;
+}
+
+const VISIBLE_VERSIONS = 8;
+const CURRENT = 'current';
+
+function formatVersionTime(createdAt: string): string {
+  return new Date(createdAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+function DiffRows({ fields, showUnchanged }: { fields: FieldDiff[]; showUnchanged: boolean }) {
+  return (
+    <>
+      {fields.filter(field => showUnchanged || field.status !== 'unchanged').map(field => (
+        <div
+          key={field.label}
+          className={cn(
+            'grid grid-cols-[8rem_1fr_1fr] gap-3 rounded px-2 py-1.5 text-xs',
+            field.status !== 'unchanged' && 'bg-yellow-500/10'
+          )}
+        >
+          <span className="text-muted-foreground">{field.label}</span>
+          <span className={cn('whitespace-pre-line', field.status !== 'unchanged' && field.before && 'text-red-600 dark:text-red-400')}>
+            {field.before ?? '—'}
+          </span>
+          <span className={cn('whitespace-pre-line', field.status !== 'unchanged' && field.after && 'text-green-700 dark:text-green-400')}>
+            {field.after ?? '—'}
+          </span>
+        </div>
+      ))}
+    </>
+  );
+}
+
+function VersionDiff({ before, after, showUnchanged }: VersionDiffProps) {
+  const diff = diffPlanSnapshots(before, after);
+
+  if (diff.changeCount === 0 && !showUnchanged) {
+    return <p className="py-6 text-center text-sm text-muted-foreground">No differences in goals or training phases.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-[8rem_1fr_1fr] gap-3 px-2 text-xs font-medium">
+        <span />
+        <span>Before</span>
+        <span>After</span>
+      </div>
+
+      <div className="space-y-1">
+        <p className="text-sm font-medium">Macrocycle</p>
+        <DiffRows fields={diff.macrocycle} showUnchanged={showUnchanged} />
+      </div>
+
+      {diff.milestones
+        .filter(milestone => showUnchanged || milestone.status !== 'unchanged')
+        .map(milestone => (
+          <div key={milestone.index} className="space-y-1">
+            <div className="flex items-center gap-2">
+              <p className="text-sm font-medium">Phase {milestone.index + 1}</p>
+              {milestone.status !== 'unchanged' && (
+                <Badge variant="outline" className="text-xs capitalize">{milestone.status}</Badge>
+              )}
+            </div>
+            <DiffRows fields={milestone.fields} showUnchanged={showUnchanged} />
+          </div>
+        ))}
+    </div>
+  );
+}
+
+export function PlanHistoryCard({ plan }: PlanHistoryCardProps) {
+  const { versions, versionsLoadedFor, loadVersions, rollbackToVersion, loading } = useAICoachStore();
+  const [showAll, setShowAll] = useState(false);
+  const [compare, setCompare] = useState<{ before: string; after: string } | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const versionsLoaded = versionsLoadedFor === plan.id;
+
+  useEffect(() => {
+    if (!versionsLoaded) loadVersions();
+  }, [versionsLoaded, loadVersions]);
+
+  const currentSnapshot = useMemo(() => createPlanSnapshot(plan), [plan]);
+  const snapshotFor = (key: string): PlanSnapshot | undefined =>
+    key === CURRENT ? currentSnapshot : versions.find(version => version.id === key)?.snapshot;
+  const isCurrentGoals = (version: PlanVersion) => diffPlanSnapshots(version.snapshot, currentSnapshot).changeCount === 0;
+
+  const handleRestore = async (version: PlanVersion) => {
+    if (!confirm(`Restore the goals from "${version.summary}" (${formatVersionTime(version.createdAt)})? Your current goals stay in the history.`)) return;
+    await rollbackToVersion(version.id);
+  };
+
+  const visibleVersions = showAll ? versions : versions.slice(0, VISIBLE_VERSIONS);
+  const before = compare && snapshotFor(compare.before);
+  const after = compare && snapshotFor(compare.after);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <History className="h-5 w-5" />
+          <span>Plan History</span>
+        </CardTitle>
+        <CardDescription>Every change to your goals and weekly suggestions. Compare versions or restore earlier goals.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {versionsLoaded && versions.length === 0 && (
+          <p className="text-sm text-muted-foreground">No changes recorded yet. Editing or regenerating your goals starts the history.</p>
+        )}
+
+        {visibleVersions.length > 0 && (
+          <div className="divide-y rounded-md border">
+            {visibleVersions.map((version, index) => {
+              const olderVersion = versions[versions.indexOf(version) + 1];
+              const isCurrent = isCurrentGoals(version);
+              return (
+                <div key={version.id} className="flex flex-wrap items-start gap-3 px-3 py-2 text-sm">
+                  <Badge variant={version.author === 'ai' ? 'secondary' : 'outline'} className="mt-0.5 text-xs">
+                    {version.author === 'ai' ? 'AI' : 'Manual'}
+                  </Badge>
+                  <div className="min-w-0 flex-1 space-y-0.5">
+                    <p className="font-medium">
+                      {version.summary}
+                      {index === 0 && isCurrent && <span className="ml-2 text-xs font-normal text-muted-foreground">(current)</span>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatVersionTime(version.createdAt)}
+                      {version.llmModel && ` · ${version.llmModel}`}
+                      {version.snapshot.suggestion && ` · ${version.snapshot.suggestion.workoutNames.length} workouts suggested`}
+                    </p>
+                    {version.feedback && (
+                      <p className="text-xs italic text-muted-foreground">"{version.feedback}"</p>
+                    )}
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setCompare({ before: olderVersion?.id ?? version.id, after: version.id })}
+                    >
+                      <GitCompare className="h-4 w-4 mr-1" />
+                      Compare
+                    </Button>
+                    {!isCurrent && (
+                      <Button variant="ghost" size="sm" onClick={() => handleRestore(version)} disabled={loading}>
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {versions.length > VISIBLE_VERSIONS && (
+          <Button variant="link" size="sm" className="px-0" onClick={() => setShowAll(!showAll)}>
+            {showAll ? 'Show fewer' : `Show all ${versions.length} versions`}
+          </Button>
+        )}
+      </CardContent>
+
+      <Dialog open={!!compare} onOpenChange={(open) => !open && setCompare(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Compare Versions</DialogTitle>
+            <DialogDescription>Macrocycle goal, periodization and training phases side by side</DialogDescription>
+          </DialogHeader>
+
+          {compare && (
+            <div className="flex flex-wrap items-end gap-4">
+              {(['before', 'after'] as const).map(side => (
+                <div key={side} className="space-y-1">
+                  <Label className="text-xs capitalize">{side}</Label>
+                  <Select value={compare[side]} onValueChange={(value) => setCompare({ ...compare, [side]: value })}>
+                    <SelectTrigger className="w-72">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={CURRENT}>Current plan</SelectItem>
+                      {versions.map(version => (
+                        <SelectItem key={version.id} value={version.id}>
+                          {formatVersionTime(version.createdAt)} · {version.summary}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              <div className="flex items-center gap-2 pb-2">
+                <Checkbox id="show-unchanged" checked={showUnchanged} onCheckedChange={(checked) => setShowUnchanged(checked === true)} />
+                <Label htmlFor="show-unchanged" className="text-xs font-normal">Show unchanged fields</Label>
+              </div>
+            </div>
+          )}
+
+          {before && after && <VersionDiff before={before} after={after} showUnchanged={showUnchanged} />}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
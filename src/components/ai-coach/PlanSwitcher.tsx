@@ -0,0 +1,98 @@
+/**
+ * Plan Switcher - Switch between the active AI plan and paused/archived ones, start a new plan or archive the current one
+ * Setting a plan aside keeps its completed weeks, linked workouts and version history
+ */
+
+import { useState } from 'react';
+import type { AIPlan } from '@/types/aiCoach';
+import { useAICoachStore } from '@/stores/aiCoachStore';
+import { formatMonthDay } from '@/lib/dateUtils';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { PlanArchiveDialog } from './PlanArchiveDialog';
+import { Archive, ChevronDown, History, Play, Plus } from 'lucide-react';
+
+interface PlanSwitcherProps {
+  plan: AIPlan | null; // null while a new plan is being set up
+}
+
+/**
+ * Plan switcher component
+ */
+export function PlanSwitcher({ plan }: PlanSwitcherProps) {
+  const { inactivePlans, activatePlan, setAsideCurrentPlan, loading } = useAICoachStore();
+  const [showArchive, setShowArchive] = useState(false);
+
+  const handleNewPlan = async () => {
+    if (plan && !confirm(`Pause "${plan.macrocycleGoal.name}" and start a new plan? You can resume it from this menu.`)) return;
+    await setAsideCurrentPlan('paused');
+  };
+
+  const handleArchive = async () => {
+    if (!plan || !confirm(`Archive "${plan.macrocycleGoal.name}"? Its completed weeks and workouts stay available under Past plans.`)) return;
+    await setAsideCurrentPlan('archived');
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" disabled={loading} className="max-w-xs">
+            <span className="truncate">{plan ? plan.macrocycleGoal.name : 'New plan'}</span>
+            <ChevronDown className="h-4 w-4 ml-2 shrink-0" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent className="w-72" align="end">
+          {inactivePlans.length > 0 && (
+            <>
+              <DropdownMenuLabel>Switch to</DropdownMenuLabel>
+              {inactivePlans.map(inactivePlan => (
+                <DropdownMenuItem key={inactivePlan.id} onClick={() => activatePlan(inactivePlan.id)}>
+                  {inactivePlan.status === 'archived'
+                    ? <Archive className="mr-2 h-4 w-4 shrink-0" />
+                    : <Play className="mr-2 h-4 w-4 shrink-0" />}
+                  <div className="min-w-0">
+                    <p className="truncate">{inactivePlan.macrocycleGoal.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {inactivePlan.status === 'archived' ? 'Archived' : 'Paused'}
+                      {inactivePlan.setAsideAt && ` ${formatMonthDay(inactivePlan.setAsideAt)}`}
+                      {` · ${inactivePlan.completedMicrocycles.length} weeks completed`}
+                    </p>
+                  </div>
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
+            </>
+          )}
+          {plan && (
+            <DropdownMenuItem onClick={handleNewPlan}>
+              <Plus className="mr-2 h-4 w-4" />
+              Start a new plan
+            </DropdownMenuItem>
+          )}
+          {plan && (
+            <DropdownMenuItem onClick={handleArchive}>
+              <Archive className="mr-2 h-4 w-4" />
+              Archive this plan
+            </DropdownMenuItem>
+          )}
+          {inactivePlans.length > 0 && (
+            <DropdownMenuItem onClick={() => setShowArchive(true)}>
+              <History className="mr-2 h-4 w-4" />
+              Review past plans
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <PlanArchiveDialog open={showArchive} onOpenChange={setShowArchive} />
+    </>
+  );
+}
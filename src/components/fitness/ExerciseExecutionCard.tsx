@@ -9,8 +9,13 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { CheckCircle, Plus, Trash2 } from 'lucide-react';
 import type { Exercise } from '@/types/fitness';
+import type { ProgressionProposal, ProgressionRule } from '@/types/progression';
 import { VolumeRowEditor } from './VolumeRowEditor';
+import { ProgressionSuggestion } from './ProgressionSuggestion';
+import { SetEffortInputs } from './SetEffortInputs';
 import { getVolumeRows, type VolumeRow } from '@/lib/volumeRowUtils';
+import { applySetEffort } from '@/lib/setEffort';
+import { formatRestTime } from '@/lib/restTimer';
 
 interface ExerciseProgress {
   completedSets: boolean[];
@@ -38,11 +43,16 @@ interface ExerciseExecutionCardProps {
   handleInputBlur: (exerciseId: string, setIndex: number, field: string, defaultValue: number) => void;
   handleVolumeRowInputChange: (exerciseId: string, rowIndex: number, field: string, value: string) => void;
   handleVolumeRowInputBlur: (exerciseId: string, rowIndex: number, field: string, defaultValue: number) => void;
+  progressionProposal?: ProgressionProposal | null;
+  onApplyProgression?: (exerciseId: string, proposal: ProgressionProposal) => void;
+  onProgressionRuleChange?: (exerciseName: string, rule: ProgressionRule) => void;
+  blockLabel?: string; // "A1", "A2" for superset/circuit/EMOM/AMRAP members
   isGapRecovery?: boolean;
 }
 
 export function ExerciseExecutionCard({
   exercise,
+  blockLabel,
   exerciseProgress,
   viewMode,
   onUpdateExercise,
@@ -59,6 +69,9 @@ export function ExerciseExecutionCard({
   handleInputBlur,
   handleVolumeRowInputChange,
   handleVolumeRowInputBlur,
+  progressionProposal,
+  onApplyProgression,
+  onProgressionRuleChange,
   isGapRecovery = false
 }: ExerciseExecutionCardProps) {
   
@@ -80,6 +93,11 @@ export function ExerciseExecutionCard({
                 className="mt-1"
               />
             )}
+            {blockLabel && (
+              <Badge variant="outline" className="text-xs font-semibold shrink-0">
+                {blockLabel}
+              </Badge>
+            )}
             <Input
               value={exercise.name}
               onChange={(e) => onUpdateExercise(exercise.id, { name: e.target.value })}
@@ -116,6 +134,14 @@ export function ExerciseExecutionCard({
             }`} 
           />
         )}
+        {progressionProposal && onApplyProgression && !isGapRecovery && (
+          <ProgressionSuggestion
+            proposal={progressionProposal}
+            currentSets={exercise.sets}
+            onApply={() => onApplyProgression(exercise.id, progressionProposal)}
+            onRuleChange={onProgressionRuleChange && ((rule) => onProgressionRuleChange(exercise.name, rule))}
+          />
+        )}
       </CardHeader>
       
       <CardContent className="space-y-3">
@@ -130,7 +156,7 @@ export function ExerciseExecutionCard({
               return (
                 <div 
                   key={setIndex} 
-                  className={`flex items-center space-x-3 p-2 border rounded transition-colors ${
+                  className={`flex flex-wrap items-center space-x-3 p-2 border rounded transition-colors ${
                     isCompleted 
                       ? 'bg-green-100 border-green-500 dark:bg-green-900 dark:border-green-400' 
                       : ''
@@ -190,6 +216,22 @@ export function ExerciseExecutionCard({
                     </>
                   )}
 
+                  {(set.volumeType === 'sets-reps' || set.volumeType === 'sets-reps-weight') && (
+                    <SetEffortInputs
+                      layout="inline"
+                      effort={set}
+                      onChange={(updates) => onUpdateExercise(exercise.id, {
+                        sets: exercise.sets.map((s, index) => index === actualSetIndex ? applySetEffort(s, updates) : s)
+                      })}
+                    />
+                  )}
+
+                  {set.actualRestTime !== undefined && (
+                    <span className="text-xs text-muted-foreground" title="Rest taken after this set">
+                      Rested {formatRestTime(set.actualRestTime)}
+                    </span>
+                  )}
+
                   {set.volumeType === 'duration' && (
                     <div className="flex items-center space-x-2">
                       <Label className="text-xs">Duration (min):</Label>
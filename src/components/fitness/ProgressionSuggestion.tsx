@@ -0,0 +1,54 @@
+/**
+ * Progression Suggestion - Next-session targets from the progressive overload engine
+ * Shows the proposed sets, why they changed, and lets the user switch rule or apply them
+ */
+
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TrendingUp } from 'lucide-react';
+import type { ExerciseSet } from '@/types/fitness';
+import type { ProgressionProposal, ProgressionRule } from '@/types/progression';
+import { PROGRESSION_RULES, formatSetsSummary, isProgressableSet } from '@/lib/progressiveOverload';
+
+interface ProgressionSuggestionProps {
+  proposal: ProgressionProposal;
+  currentSets: ExerciseSet[];
+  onApply: () => void;
+  onRuleChange?: (rule: ProgressionRule) => void;
+}
+
+export function ProgressionSuggestion({ proposal, currentSets, onApply, onRuleChange }: ProgressionSuggestionProps) {
+  const repSets = currentSets.filter(isProgressableSet);
+  const isApplied = repSets.length > 0 && formatSetsSummary(repSets) === proposal.summary;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded border bg-muted/30 px-2 py-1.5 text-xs">
+      <TrendingUp className="h-3.5 w-3.5 text-primary shrink-0" />
+      <span className="font-medium">Next: {proposal.summary}</span>
+      <span className="text-muted-foreground flex-1 min-w-[10rem]">{proposal.reason}</span>
+      {onRuleChange && (
+        <Select value={proposal.rule} onValueChange={(value) => onRuleChange(value as ProgressionRule)}>
+          <SelectTrigger className="w-40 h-7 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(PROGRESSION_RULES) as ProgressionRule[]).map(rule => (
+              <SelectItem key={rule} value={rule} className="text-xs">
+                {PROGRESSION_RULES[rule].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-7 text-xs"
+        onClick={onApply}
+        disabled={isApplied}
+      >
+        {isApplied ? 'Applied' : 'Apply'}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+/**
+ * Rest Timer Display - Countdown after a completed set
+ * Counts into overtime once the planned rest is over until the next set is completed or it is dismissed
+ */
+
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Timer, SkipForward } from 'lucide-react';
+import { REST_ADJUST_SECONDS, formatRestTime, type RestTimerState } from '@/lib/restTimer';
+
+interface RestTimerDisplayProps {
+  timer: RestTimerState & { remaining: number };
+  onSkip: () => void;
+  onAdjust: (deltaSeconds: number) => void;
+}
+
+export function RestTimerDisplay({ timer, onSkip, onAdjust }: RestTimerDisplayProps) {
+  const isOver = timer.remaining <= 0;
+  const elapsedPercent = timer.duration > 0
+    ? Math.min(100, ((timer.duration - timer.remaining) / timer.duration) * 100)
+    : 100;
+
+  return (
+    <div
+      className={`rounded-lg border px-3 py-2 space-y-2 ${
+        isOver ? 'border-green-300 bg-green-50 dark:border-green-800 dark:bg-green-950/30' : 'bg-muted/30'
+      }`}
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <Timer className={`h-4 w-4 shrink-0 ${isOver ? 'text-green-600 dark:text-green-400' : 'text-primary'}`} />
+        <span className="text-2xl font-bold tabular-nums">
+          {formatRestTime(timer.remaining)}
+        </span>
+        <span className="text-sm text-muted-foreground flex-1 min-w-[10rem]">
+          {isOver ? 'Rest over – ' : 'Resting after '}
+          {timer.exerciseName} set {timer.setIndex + 1}
+        </span>
+        {!isOver && (
+          <>
+            <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => onAdjust(-REST_ADJUST_SECONDS)}>
+              −{REST_ADJUST_SECONDS}s
+            </Button>
+            <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => onAdjust(REST_ADJUST_SECONDS)}>
+              +{REST_ADJUST_SECONDS}s
+            </Button>
+          </>
+        )}
+        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={onSkip}>
+          <SkipForward className="h-3 w-3 mr-1" />
+          {isOver ? 'Dismiss' : 'Skip'}
+        </Button>
+      </div>
+      <Progress value={elapsedPercent} className="h-1.5" />
+    </div>
+  );
+}
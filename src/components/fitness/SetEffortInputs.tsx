@@ -0,0 +1,90 @@
+/**
+ * Set Effort Inputs - RPE, RIR and tempo pickers for rep-based sets
+ * `layout="stacked"` matches VolumeRowEditor (label above), `inline` matches the expanded set rows
+ */
+
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RPE_OPTIONS, RIR_OPTIONS, normalizeTempo, type SetEffort } from '@/lib/setEffort';
+
+const NONE = 'none';
+
+interface SetEffortInputsProps {
+  effort: SetEffort;
+  onChange: (updates: SetEffort) => void;
+  layout?: 'stacked' | 'inline';
+}
+
+export function SetEffortInputs({ effort, onChange, layout = 'stacked' }: SetEffortInputsProps) {
+  const [tempoInput, setTempoInput] = useState(effort.tempo || '');
+
+  useEffect(() => {
+    setTempoInput(effort.tempo || '');
+  }, [effort.tempo]);
+
+  const commitTempo = () => {
+    const tempo = normalizeTempo(tempoInput);
+    if (tempo !== effort.tempo) onChange({ tempo });
+    setTempoInput(tempo || '');
+  };
+
+  const height = layout === 'stacked' ? 'h-8' : 'h-7';
+  const fieldClass = layout === 'stacked' ? 'flex-shrink-0 space-y-1' : 'flex items-center space-x-2';
+
+  return (
+    <>
+      <div className={fieldClass}>
+        <Label className="text-xs">RPE</Label>
+        <Select
+          value={effort.rpe !== undefined ? String(effort.rpe) : NONE}
+          onValueChange={(value) => onChange({ rpe: value === NONE ? undefined : Number(value) })}
+        >
+          <SelectTrigger className={`${height} text-xs w-16`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>–</SelectItem>
+            {RPE_OPTIONS.map(rpe => (
+              <SelectItem key={rpe} value={String(rpe)}>{rpe}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className={fieldClass}>
+        <Label className="text-xs">RIR</Label>
+        <Select
+          value={effort.rir !== undefined ? String(effort.rir) : NONE}
+          onValueChange={(value) => onChange({ rir: value === NONE ? undefined : Number(value) })}
+        >
+          <SelectTrigger className={`${height} text-xs w-16`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>–</SelectItem>
+            {RIR_OPTIONS.map(rir => (
+              <SelectItem key={rir} value={String(rir)}>{rir}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className={fieldClass}>
+        <Label className="text-xs">Tempo</Label>
+        <Input
+          value={tempoInput}
+          onChange={(e) => setTempoInput(e.target.value)}
+          onBlur={commitTempo}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitTempo();
+          }}
+          className={`${height} text-xs w-16`}
+          placeholder="3010"
+          maxLength={7}
+        />
+      </div>
+    </>
+  );
+}
@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Trash2 } from 'lucide-react';
 import type { VolumeRow } from '@/lib/volumeRowUtils';
+import { SetEffortInputs } from './SetEffortInputs';
 
 interface VolumeRowEditorProps {
   volumeRow: VolumeRow;
@@ -38,7 +39,7 @@ export function VolumeRowEditor({
 
   return (
     <div 
-      className={`relative flex items-end gap-3 p-2 border rounded transition-colors ${
+      className={`relative flex flex-wrap items-end gap-3 p-2 border rounded transition-colors ${
         isRowCompleted 
           ? 'bg-green-100 border-green-500 dark:bg-green-900 dark:border-green-400' 
           : ''
@@ -151,6 +152,14 @@ export function VolumeRowEditor({
         </>
       )}
 
+      {/* Effort (RPE / RIR / tempo) */}
+      {(volumeRow.type === 'sets-reps' || volumeRow.type === 'sets-reps-weight') && (
+        <SetEffortInputs
+          effort={volumeRow}
+          onChange={(updates) => onUpdate(exerciseId, rowIndex, updates)}
+        />
+      )}
+
       {/* Duration */}
       {volumeRow.type === 'duration' && (
         <div className="flex-shrink-0 space-y-1">
@@ -1,6 +1,9 @@
-import { Textarea } from '@/components/ui/textarea';
+import { useMemo, type RefObject } from 'react';
 import { Label } from '@/components/ui/label';
-import type { RefObject } from 'react';
+import { AlertCircle, AlertTriangle } from 'lucide-react';
+import { parseWorkoutText, type WorkoutTextError } from '@/lib/workoutTextFormat';
+import { useWorkoutsStore } from '@/stores/workoutsStore';
+import { WorkoutTextEditor, type WorkoutTextDiagnostic } from './WorkoutTextEditor';
 
 interface WorkoutExecutionTextProps {
   textEditorValue: string;
@@ -10,24 +13,93 @@ interface WorkoutExecutionTextProps {
 }
 
 export function WorkoutExecutionText({ textEditorValue, onTextChange, textAreaRef, isGapRecovery = false }: WorkoutExecutionTextProps) {
+  const workouts = useWorkoutsStore(state => state.workouts);
+
+  // Exercise names the user has used before, suggested ahead of the database
+  const knownExerciseNames = useMemo(() => {
+    const names = new Set<string>();
+    workouts.forEach(workout => workout.exercises.forEach(exercise => names.add(exercise.name.trim())));
+    return Array.from(names);
+  }, [workouts]);
+
+  const { lines, diagnostics } = useMemo(() => {
+    const result = parseWorkoutText(textEditorValue);
+    const diagnostics: WorkoutTextDiagnostic[] = [
+      ...result.errors.map(error => ({ ...error, severity: 'error' as const })),
+      ...result.warnings.map(warning => ({ ...warning, severity: 'warning' as const }))
+    ].sort((a, b) => a.line - b.line || a.column - b.column);
+    return { lines: result.lines, diagnostics };
+  }, [textEditorValue]);
+
+  const hasErrors = diagnostics.some(diagnostic => diagnostic.severity === 'error');
+
+  // Select the error's span in the editor
+  const jumpToError = (error: WorkoutTextError) => {
+    const textArea = textAreaRef?.current;
+    if (!textArea) return;
+    const lineStart = textEditorValue.split('\n').slice(0, error.line - 1).reduce((offset, line) => offset + line.length + 1, 0);
+    const start = lineStart + error.column - 1;
+    textArea.focus();
+    textArea.setSelectionRange(start, start + error.length);
+  };
+
   return (
     <div className="space-y-2">
       <Label htmlFor="workout-text" className="text-sm font-medium">
         {isGapRecovery ? "Workout Text" : "Workout Text (with progress tracking)"}
       </Label>
-      <Textarea
-        ref={textAreaRef}
+      <WorkoutTextEditor
         id="workout-text"
         value={textEditorValue}
-        onChange={(e) => onTextChange(e.target.value)}
+        onChange={onTextChange}
+        lineRoles={lines}
+        diagnostics={diagnostics}
+        knownExerciseNames={knownExerciseNames}
+        textAreaRef={textAreaRef}
         placeholder={isGapRecovery ? "Edit workout text..." : "Edit workout text with progress indicators..."}
-        className="min-h-[400px] font-mono text-sm"
+        className="min-h-[400px]"
       />
+      {diagnostics.length > 0 && (
+        <div
+          className={`rounded-md border p-2 space-y-1 ${
+            hasErrors ? 'border-destructive/50 bg-destructive/5' : 'border-amber-300 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/30'
+          }`}
+        >
+          {hasErrors && (
+            <p className="text-xs font-medium text-destructive">
+              Changes aren't applied until the errors are fixed:
+            </p>
+          )}
+          {diagnostics.map((diagnostic, index) => (
+            <button
+              key={index}
+              type="button"
+              onClick={() => jumpToError(diagnostic)}
+              className={`flex w-full items-start gap-1.5 text-left text-xs hover:underline ${
+                diagnostic.severity === 'error' ? 'text-destructive' : 'text-amber-700 dark:text-amber-400'
+              }`}
+            >
+              {diagnostic.severity === 'error'
+                ? <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+                : <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />}
+              <span>
+                <span className="font-mono">Line {diagnostic.line}, col {diagnostic.column}:</span> {diagnostic.message}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
       {!isGapRecovery && (
         <p className="text-xs text-muted-foreground">
           Use + symbols to mark completed sets. Example: "3x10x25kg +++" means all 3 sets completed.
         </p>
       )}
+      <p className="text-xs text-muted-foreground">
+        Set annotations go after the volume, e.g. 3x5x100kg @8 rir2 t3010 rest 2min "paused" ++. Start a line with "&gt;" to keep it as a note. Exercise names autocomplete after "- ".
+      </p>
+      <p className="text-xs text-muted-foreground">
+        Group exercises with a header line above them: "# Superset x3", "# Circuit x3", "# EMOM 12min", "# AMRAP 15min"; "# end" closes the group.
+      </p>
     </div>
   );
 }
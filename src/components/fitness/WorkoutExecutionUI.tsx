@@ -1,8 +1,11 @@
 import { Button } from '@/components/ui/button';
-import { Plus } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Repeat, Unlink } from 'lucide-react';
 import type { Exercise } from '@/types/fitness';
+import type { ProgressionProposal, ProgressionRule } from '@/types/progression';
 import { ExerciseExecutionCard } from './ExerciseExecutionCard';
 import type { VolumeRow } from '@/lib/volumeRowUtils';
+import { groupExercisesByBlock, formatBlockSummary, getBlockRoundsCompleted } from '@/lib/exerciseBlocks';
 
 interface ExerciseProgress {
   completedSets: boolean[];
@@ -32,6 +35,10 @@ interface WorkoutExecutionUIProps {
   handleInputBlur: (exerciseId: string, setIndex: number, field: string, defaultValue: number) => void;
   handleVolumeRowInputChange: (exerciseId: string, rowIndex: number, field: string, value: string) => void;
   handleVolumeRowInputBlur: (exerciseId: string, rowIndex: number, field: string, defaultValue: number) => void;
+  getProgressionProposal?: (exercise: Exercise) => ProgressionProposal | null;
+  onApplyProgression?: (exerciseId: string, proposal: ProgressionProposal) => void;
+  onProgressionRuleChange?: (exerciseName: string, rule: ProgressionRule) => void;
+  onUngroupBlock?: (blockId: string) => void;
   isGapRecovery?: boolean;
 }
 
@@ -55,6 +62,10 @@ export function WorkoutExecutionUI({
   handleInputBlur,
   handleVolumeRowInputChange,
   handleVolumeRowInputBlur,
+  getProgressionProposal,
+  onApplyProgression,
+  onProgressionRuleChange,
+  onUngroupBlock,
   isGapRecovery = false
 }: WorkoutExecutionUIProps) {
   
@@ -79,13 +90,15 @@ export function WorkoutExecutionUI({
       </div>
 
       <div className="space-y-4">
-        {exercises.map((exercise) => {
+        {groupExercisesByBlock(exercises).map((group) => {
+          const cards = group.exercises.map((exercise, memberIndex) => {
           const exerciseProgress = getExerciseProgress(exercise.id);
           
           return (
             <ExerciseExecutionCard
               key={exercise.id}
               exercise={exercise}
+              blockLabel={group.letter ? `${group.letter}${memberIndex + 1}` : undefined}
               exerciseProgress={exerciseProgress}
               viewMode={viewMode}
               onUpdateExercise={onUpdateExercise}
@@ -102,9 +115,44 @@ export function WorkoutExecutionUI({
               handleInputBlur={handleInputBlur}
               handleVolumeRowInputChange={handleVolumeRowInputChange}
               handleVolumeRowInputBlur={handleVolumeRowInputBlur}
+              progressionProposal={getProgressionProposal?.(exercise)}
+              onApplyProgression={onApplyProgression}
+              onProgressionRuleChange={onProgressionRuleChange}
               isGapRecovery={isGapRecovery}
             />
           );
+          });
+          
+          if (!group.block) return cards;
+          
+          const block = group.block;
+          const roundsCompleted = getBlockRoundsCompleted(group.exercises);
+          
+          return (
+            <div key={block.id} className="space-y-3 rounded-lg border-l-4 border-primary/60 pl-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <Repeat className="h-4 w-4 text-primary" />
+                <span className="text-sm font-semibold">{group.letter}</span>
+                <span className="text-sm">{formatBlockSummary(block)}</span>
+                <Badge variant="secondary" className="text-xs">
+                  {block.type !== 'amrap' && block.rounds ? `${roundsCompleted}/${block.rounds}` : roundsCompleted} round{roundsCompleted === 1 && !block.rounds ? '' : 's'} done
+                </Badge>
+                {onUngroupBlock && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="ml-auto h-7 text-xs"
+                    onClick={() => onUngroupBlock(block.id)}
+                    title="Turn back into separate exercises"
+                  >
+                    <Unlink className="h-3 w-3 mr-1" />
+                    Ungroup
+                  </Button>
+                )}
+              </div>
+              {cards}
+            </div>
+          );
         })}
 
         <Button onClick={onAddExercise} className="w-full" variant="outline">
@@ -0,0 +1,232 @@
+/**
+ * Workout Text Editor - Textarea with per-line highlighting, inline diagnostics and exercise name autocomplete
+ * A highlighted copy of the text sits behind a transparent textarea, so native editing, selection and undo keep working
+ */
+
+import { useRef, useState, type KeyboardEvent, type RefObject } from 'react';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import { suggestExerciseNames } from '@/lib/exerciseDatabase';
+import type { WorkoutTextError, WorkoutTextLineRole } from '@/lib/workoutTextFormat';
+
+export type WorkoutTextDiagnostic = WorkoutTextError & { severity: 'error' | 'warning' };
+
+const LINE_ROLE_STYLES: Record<WorkoutTextLineRole, { label: string; className: string }> = {
+  blank: { label: 'Blank', className: '' },
+  block: { label: 'Block', className: 'font-semibold text-orange-600 dark:text-orange-400' },
+  header: { label: 'Exercise', className: 'font-semibold text-foreground' },
+  set: { label: 'Sets', className: 'text-blue-600 dark:text-blue-400' },
+  time: { label: 'Time', className: 'text-purple-600 dark:text-purple-400' },
+  distance: { label: 'Distance', className: 'text-green-600 dark:text-green-400' },
+  note: { label: 'Note', className: 'text-muted-foreground' },
+  error: { label: 'Error', className: 'text-destructive' }
+};
+
+interface WorkoutTextEditorProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  lineRoles: WorkoutTextLineRole[];
+  diagnostics: WorkoutTextDiagnostic[];
+  knownExerciseNames: string[]; // Suggested ahead of the exercise database
+  textAreaRef?: RefObject<HTMLTextAreaElement | null>;
+  placeholder?: string;
+  className?: string;
+}
+
+interface NameCompletion {
+  start: number; // Offset where the typed name starts
+  end: number; // Caret offset
+  line: number;
+  suggestions: string[];
+}
+
+/**
+ * Typed exercise name when the caret is at the end of a header line ("- Ben|")
+ */
+function getNameContext(value: string, caret: number): { start: number; query: string; line: number } | null {
+  const lineStart = value.lastIndexOf('\n', caret - 1) + 1;
+  const lineEnd = value.indexOf('\n', caret);
+  if (value.slice(caret, lineEnd === -1 ? undefined : lineEnd).trim()) return null;
+
+  const match = value.slice(lineStart, caret).match(/^(\s*-+\s*)([^+]*)$/);
+  if (!match || !match[2].trim()) return null;
+  return {
+    start: lineStart + match[1].length,
+    query: match[2],
+    line: value.slice(0, lineStart).split('\n').length - 1
+  };
+}
+
+export function WorkoutTextEditor({
+  id,
+  value,
+  onChange,
+  lineRoles,
+  diagnostics,
+  knownExerciseNames,
+  textAreaRef,
+  placeholder,
+  className
+}: WorkoutTextEditorProps) {
+  const ownRef = useRef<HTMLTextAreaElement | null>(null);
+  const inputRef = textAreaRef ?? ownRef;
+  const backdropRef = useRef<HTMLDivElement | null>(null);
+  const [completion, setCompletion] = useState<NameCompletion | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const lines = value.split('\n');
+
+  const updateCompletion = (text: string, caret: number) => {
+    const context = getNameContext(text, caret);
+    const suggestions = context
+      ? suggestExerciseNames(context.query, knownExerciseNames)
+        .filter(name => name.toLowerCase() !== context.query.trim().toLowerCase())
+      : [];
+    setCompletion(context && suggestions.length > 0
+      ? { start: context.start, end: caret, line: context.line, suggestions }
+      : null);
+    setActiveIndex(0);
+  };
+
+  const acceptSuggestion = (name: string) => {
+    if (!completion) return;
+    const next = value.slice(0, completion.start) + name + value.slice(completion.end);
+    const caret = completion.start + name.length;
+    onChange(next);
+    setCompletion(null);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(caret, caret);
+    });
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!completion) return;
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(index => (index + step + completion.suggestions.length) % completion.suggestions.length);
+    } else if (event.key === 'Enter' || event.key === 'Tab') {
+      event.preventDefault();
+      acceptSuggestion(completion.suggestions[activeIndex]);
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      event.stopPropagation(); // Close the list, not the dialog
+      setCompletion(null);
+    }
+  };
+
+  const syncScroll = () => {
+    if (backdropRef.current && inputRef.current) {
+      backdropRef.current.scrollTop = inputRef.current.scrollTop;
+    }
+  };
+
+  // Dropdown sits under the caret's line in the backdrop
+  const completionLine = completion ? backdropRef.current?.children[completion.line] as HTMLElement | undefined : undefined;
+  const completionTop = completionLine
+    ? completionLine.offsetTop + completionLine.offsetHeight - (backdropRef.current?.scrollTop ?? 0)
+    : 0;
+
+  const renderLine = (line: string, index: number) => {
+    const diagnostic = diagnostics.find(d => d.line === index + 1 && d.severity === 'error')
+      ?? diagnostics.find(d => d.line === index + 1);
+    if (!diagnostic) return line;
+
+    const start = Math.min(line.length, diagnostic.column - 1);
+    const end = Math.min(line.length, start + diagnostic.length);
+    const marked = line.slice(start, end) || ' ';
+    return (
+      <>
+        {line.slice(0, start)}
+        <span
+          className={cn(
+            'underline decoration-wavy underline-offset-4',
+            diagnostic.severity === 'error' ? 'decoration-destructive' : 'decoration-amber-500'
+          )}
+        >
+          {marked}
+        </span>
+        {line.slice(end)}
+      </>
+    );
+  };
+
+  return (
+    <div>
+      <div className="relative">
+        <div
+          ref={backdropRef}
+          aria-hidden
+          className={cn(
+            'pointer-events-none absolute inset-0 overflow-hidden whitespace-pre-wrap break-words rounded-md border border-transparent px-3 py-2 font-mono text-sm',
+            className
+          )}
+        >
+          {lines.map((line, index) => (
+            <div key={index} className={LINE_ROLE_STYLES[lineRoles[index] ?? 'note'].className}>
+              {line ? renderLine(line, index) : ' '}
+            </div>
+          ))}
+        </div>
+
+        <Textarea
+          ref={inputRef}
+          id={id}
+          value={value}
+          spellCheck={false}
+          onChange={(e) => {
+            onChange(e.target.value);
+            updateCompletion(e.target.value, e.target.selectionStart);
+          }}
+          onKeyDown={handleKeyDown}
+          onClick={() => setCompletion(null)}
+          onBlur={() => setCompletion(null)}
+          onScroll={syncScroll}
+          placeholder={placeholder}
+          aria-invalid={diagnostics.some(d => d.severity === 'error')}
+          className={cn(
+            'relative bg-transparent font-mono text-sm text-transparent caret-foreground selection:bg-primary/20',
+            className
+          )}
+        />
+
+        {completion && (
+          <ul
+            role="listbox"
+            className="absolute left-3 z-10 max-h-48 min-w-[12rem] overflow-y-auto rounded-md border bg-popover p-1 text-sm shadow-md"
+            style={{ top: completionTop }}
+          >
+            {completion.suggestions.map((name, index) => (
+              <li
+                key={name}
+                role="option"
+                aria-selected={index === activeIndex}
+                // Keep focus in the textarea so blur doesn't close the list first
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  acceptSuggestion(name);
+                }}
+                className={cn(
+                  'cursor-pointer rounded-sm px-2 py-1',
+                  index === activeIndex ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/50'
+                )}
+              >
+                {name}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="mt-1 flex flex-wrap gap-x-3 gap-y-1 text-xs">
+        {(['header', 'set', 'time', 'distance', 'note', 'block'] as const).map(role => (
+          <span key={role} className={LINE_ROLE_STYLES[role].className}>
+            {LINE_ROLE_STYLES[role].label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,11 @@
+import { useEffect } from 'react';
 import { Outlet, useNavigate, useLocation } from 'react-router-dom';
 import { useAuthStore } from '@/stores/authStore';
+import { useWorkoutsStore } from '@/stores/workoutsStore';
 import { useThemeStore } from '@/stores/themeStore';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { WorkoutSessionBanner } from '@/components/workouts/WorkoutSessionBanner';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -31,6 +34,14 @@ export function AppLayout() {
   const location = useLocation();
   const { user, signOut } = useAuthStore();
   const { theme, setTheme } = useThemeStore();
+  const { startOfflineSync, stopOfflineSync } = useWorkoutsStore();
+
+  // Replay offline workout mutations on reconnect, on every app page
+  useEffect(() => {
+    if (!user) return;
+    startOfflineSync();
+    return () => stopOfflineSync();
+  }, [user, startOfflineSync, stopOfflineSync]);
 
   const navItems = [
     { id: 'workouts', label: 'Workouts', icon: Activity, path: '/app' },
@@ -160,6 +171,9 @@ export function AppLayout() {
         </div>
       </nav>
 
+      {/* Live Workout Session */}
+      <WorkoutSessionBanner />
+
       {/* Main Content */}
       <main className="flex-1">
         <Outlet />
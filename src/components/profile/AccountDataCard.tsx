@@ -0,0 +1,158 @@
+/**
+ * Account Data Card - Export everything as a JSON bundle or a flat sets CSV, and restore a JSON bundle
+ * Restoring adds the exported workouts and measurements and replaces the AI plan, profile answers, settings and custom prompts
+ */
+
+import { useRef, useState } from 'react';
+import { useAccountDataStore } from '@/stores/accountDataStore';
+import { useWorkoutsStore } from '@/stores/workoutsStore';
+import { useAICoachStore } from '@/stores/aiCoachStore';
+import { parseAccountExport, type AccountExportBundle } from '@/lib/accountExport';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, CheckCircle, Database, Download, FileSpreadsheet, Loader2, Upload } from 'lucide-react';
+
+function downloadFile(content: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Card for exporting and restoring all account data
+ */
+export function AccountDataCard() {
+  const { exporting, importing, error, lastImport, exportAccount, exportSetsCsv, importAccount, clearError } = useAccountDataStore();
+  const workoutCount = useWorkoutsStore(state => state.workouts.length);
+  const hasPlan = useAICoachStore(state => !!state.currentPlan);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [pendingBundle, setPendingBundle] = useState<AccountExportBundle | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const today = new Date().toISOString().split('T')[0];
+
+  const handleExportJson = async () => {
+    const bundle = await exportAccount();
+    if (bundle) downloadFile(JSON.stringify(bundle, null, 2), `tailored-fitness-${today}.json`, 'application/json');
+  };
+
+  const handleExportCsv = async () => {
+    const csv = await exportSetsCsv();
+    if (csv) downloadFile(csv, `tailored-fitness-sets-${today}.csv`, 'text/csv');
+  };
+
+  const handleFileSelected = async (file: File | undefined) => {
+    clearError();
+    setFileError(null);
+    setPendingBundle(null);
+    if (!file) return;
+    try {
+      setPendingBundle(parseAccountExport(await file.text()));
+    } catch (err) {
+      console.error('Failed to read account export:', err);
+      setFileError(err instanceof Error ? err.message : 'Failed to read file');
+    } finally {
+      // Allow picking the same file again
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleImport = async () => {
+    if (!pendingBundle) return;
+    const summary = await importAccount(pendingBundle);
+    if (summary) setPendingBundle(null);
+  };
+
+  const busy = exporting || importing;
+  const shownError = fileError || error;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Database className="h-5 w-5" />
+          Your Data
+        </CardTitle>
+        <CardDescription>
+          Download your workouts, measurements, AI plan, profile and custom prompts, or restore them from an export
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={handleExportJson} disabled={busy}>
+            {exporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            Export JSON
+          </Button>
+          <Button variant="outline" onClick={handleExportCsv} disabled={busy}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Export Sets CSV
+          </Button>
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={busy}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import JSON
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => handleFileSelected(e.target.files?.[0])}
+          />
+        </div>
+
+        {pendingBundle && (
+          <div className="space-y-3 rounded-md border p-3 text-sm">
+            <p>
+              Export from {new Date(pendingBundle.exportedAt).toLocaleDateString()}
+              {pendingBundle.account.email && ` (${pendingBundle.account.email})`}:{' '}
+              {pendingBundle.workouts.length} workout{pendingBundle.workouts.length === 1 ? '' : 's'}
+              {pendingBundle.measurements.length > 0 && `, ${pendingBundle.measurements.length} measurement${pendingBundle.measurements.length === 1 ? '' : 's'}`}
+              {pendingBundle.aiPlan ? ', AI plan' : ''}
+              {pendingBundle.inactivePlans.length > 0 && `, ${pendingBundle.inactivePlans.length} paused or archived plan${pendingBundle.inactivePlans.length === 1 ? '' : 's'}`}
+              , profile and settings
+            </p>
+            {(workoutCount > 0 || hasPlan) && (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  This account already has data. Imported workouts and measurements are added alongside your {workoutCount} existing
+                  workout{workoutCount === 1 ? '' : 's'}; the AI plan, profile, settings and custom prompts are replaced.
+                </AlertDescription>
+              </Alert>
+            )}
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setPendingBundle(null)} disabled={importing}>
+                Cancel
+              </Button>
+              <Button onClick={handleImport} disabled={importing}>
+                {importing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Restore Data
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {lastImport && !pendingBundle && (
+          <p className="flex items-center gap-1.5 text-sm">
+            <CheckCircle className="h-4 w-4 text-green-600" />
+            Restored {lastImport.workouts} workout{lastImport.workouts === 1 ? '' : 's'}
+            {lastImport.measurements > 0 && `, ${lastImport.measurements} measurement${lastImport.measurements === 1 ? '' : 's'}`}
+            {lastImport.inactivePlans > 0 && `, ${lastImport.inactivePlans} paused or archived plan${lastImport.inactivePlans === 1 ? '' : 's'}`}
+            {lastImport.plan && ' and the AI plan'}
+          </p>
+        )}
+
+        {shownError && (
+          <p className="flex items-center gap-1.5 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4 shrink-0" />
+            {shownError}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
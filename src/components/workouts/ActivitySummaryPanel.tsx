@@ -0,0 +1,137 @@
+/**
+ * Activity Summary Panel - Stats and charts for a workout imported from a GPX, TCX or FIT recording
+ * Elevation and heart rate over distance, pace per split, and time in heart rate zones (max HR from the profile)
+ */
+
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import type { ActivitySummary } from '@/types/workout';
+import { useAuthStore } from '@/stores/authStore';
+import { formatActivityDistance, formatPace } from '@/lib/activityImport';
+import { getHeartRateProfile, getHeartRateZones, getTimeInZones } from '@/lib/trainingLoad';
+import { formatDuration } from '@/lib/workoutTextFormat';
+
+interface ActivitySummaryPanelProps {
+  activity: ActivitySummary;
+}
+
+const METERS_PER_MILE = 1609.344;
+const ZONE_COLORS = ['bg-slate-400', 'bg-blue-500', 'bg-green-500', 'bg-orange-500', 'bg-red-600'];
+
+function formatPaceSeconds(seconds: number): string {
+  const rounded = Math.round(seconds);
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, '0')}`;
+}
+
+export function ActivitySummaryPanel({ activity }: ActivitySummaryPanelProps) {
+  const { user } = useAuthStore();
+  const unit = activity.splitUnit;
+  const unitMeters = unit === 'mi' ? METERS_PER_MILE : 1000;
+  const hasElevation = activity.samples.some(sample => sample.elevation !== undefined);
+  const hasHeartRate = activity.samples.some(sample => sample.heartRate !== undefined);
+
+  const trackData = activity.samples.map(sample => ({
+    ...sample,
+    distance: Math.round((sample.distanceKm * 1000 / unitMeters) * 100) / 100
+  }));
+  const splitData = activity.splits.map((split, index) => ({
+    label: split.distanceMeters < unitMeters * 0.99
+      ? `${Math.round((split.distanceMeters / unitMeters) * 100) / 100}`
+      : `${index + 1}`,
+    pace: split.distanceMeters > 0 ? split.movingSeconds / (split.distanceMeters / unitMeters) : 0,
+    heartRate: split.averageHeartRate
+  }));
+
+  const { maxHeartRate } = getHeartRateProfile(user?.profile);
+  const zones = getHeartRateZones(maxHeartRate);
+  const zoneSeconds = hasHeartRate ? getTimeInZones(activity, maxHeartRate) : [];
+  const zoneTotal = zoneSeconds.reduce((sum, seconds) => sum + seconds, 0);
+
+  const stats = [
+    { label: 'Distance', value: formatActivityDistance(activity.distanceMeters, unit) },
+    { label: 'Moving time', value: formatDuration(activity.movingSeconds) },
+    { label: 'Elapsed', value: formatDuration(activity.elapsedSeconds) },
+    { label: 'Avg pace', value: `${formatPace(activity.movingSeconds, activity.distanceMeters, unit)}/${unit}` },
+    activity.averageHeartRate && { label: 'Avg HR', value: `${activity.averageHeartRate} bpm` },
+    activity.maxHeartRate && { label: 'Max HR', value: `${activity.maxHeartRate} bpm` },
+    activity.elevationGainMeters !== undefined && { label: 'Elevation', value: `+${activity.elevationGainMeters} / −${activity.elevationLossMeters ?? 0} m` }
+  ].filter((stat): stat is { label: string; value: string } => !!stat);
+
+  return (
+    <div className="space-y-4 rounded-lg border p-3">
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+        {stats.map(stat => (
+          <div key={stat.label}>
+            <p className="text-xs text-muted-foreground">{stat.label}</p>
+            <p className="text-sm font-medium tabular-nums">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {(hasElevation || hasHeartRate) && trackData.length > 1 && (
+        <ResponsiveContainer width="100%" height={180}>
+          <LineChart data={trackData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="distance" type="number" domain={['dataMin', 'dataMax']} tick={{ fontSize: 12 }} unit={unit} />
+            {hasElevation && <YAxis yAxisId="elevation" tick={{ fontSize: 12 }} domain={['auto', 'auto']} unit="m" width={50} />}
+            {hasHeartRate && (
+              <YAxis yAxisId="heartRate" orientation="right" tick={{ fontSize: 12 }} domain={['auto', 'auto']} width={40} />
+            )}
+            <Tooltip labelFormatter={(value) => `${value} ${unit}`} />
+            {hasElevation && (
+              <Line yAxisId="elevation" type="monotone" dataKey="elevation" name="Elevation (m)" stroke="#16a34a" dot={false} strokeWidth={2} />
+            )}
+            {hasHeartRate && (
+              <Line yAxisId="heartRate" type="monotone" dataKey="heartRate" name="Heart rate (bpm)" stroke="#dc2626" dot={false} strokeWidth={1.5} />
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+
+      {zoneTotal > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Time in heart rate zones (max {maxHeartRate} bpm)</p>
+          <div className="flex h-3 overflow-hidden rounded-full bg-muted">
+            {zones.map((zone, index) => (
+              <div
+                key={zone.zone}
+                className={ZONE_COLORS[index]}
+                style={{ width: `${(zoneSeconds[zone.zone] / zoneTotal) * 100}%` }}
+                title={`Z${zone.zone} ${zone.label}: ${formatDuration(zoneSeconds[zone.zone])}`}
+              />
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-x-3 text-xs text-muted-foreground">
+            {zones.map(zone => zoneSeconds[zone.zone] > 0 && (
+              <span key={zone.zone}>Z{zone.zone} {formatDuration(zoneSeconds[zone.zone])}</span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {splitData.length > 0 && (
+        <ResponsiveContainer width="100%" height={160}>
+          <BarChart data={splitData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+            <YAxis tick={{ fontSize: 12 }} tickFormatter={formatPaceSeconds} domain={[0, 'auto']} width={50} />
+            <Tooltip
+              labelFormatter={(label) => `Split ${label}`}
+              formatter={(value) => [`${formatPaceSeconds(Number(value))}/${unit}`, 'Pace']}
+            />
+            <Bar dataKey="pace" name="Pace" fill="#3b82f6" />
+          </BarChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+  );
+}
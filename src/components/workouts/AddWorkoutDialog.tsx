@@ -1,15 +1,28 @@
 /**
  * Add Workout Dialog - Form for creating new workouts
+ * Dropping a GPX, TCX or FIT recording creates a completed cardio workout from it instead
  */
 
-import { useState } from 'react';
+import { useMemo, useState, type DragEvent } from 'react';
 import { useWorkoutsStore } from '@/stores/workoutsStore';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { getTodayISO } from '@/lib/dateUtils';
-import { Plus, X } from 'lucide-react';
+import { formatDuration } from '@/lib/workoutTextFormat';
+import {
+  ACTIVITY_FILE_ACCEPT,
+  buildActivityWorkout,
+  formatActivityDistance,
+  formatPace,
+  getDefaultActivityName,
+  parseActivityFile,
+  summarizeActivity,
+  type ParsedActivity
+} from '@/lib/activityImport';
+import { AlertCircle, MapPin, Plus, Upload, X } from 'lucide-react';
 
 interface AddWorkoutDialogProps {
   isOpen: boolean;
@@ -26,16 +39,49 @@ export function AddWorkoutDialog({ isOpen, onClose, onWorkoutCreated }: AddWorko
   const [name, setName] = useState('');
   const [dateString, setDateString] = useState<string>(getTodayISO());
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [activity, setActivity] = useState<ParsedActivity | null>(null);
+  const [splitUnit, setSplitUnit] = useState<'km' | 'mi'>('km');
+  const [activityError, setActivityError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  // Files are validated by summarizing once on load, so this can't throw
+  const activitySummary = useMemo(() => activity && summarizeActivity(activity, splitUnit), [activity, splitUnit]);
+
+  const handleActivityFile = async (file: File | undefined) => {
+    if (!file) return;
+    setActivityError(null);
+    try {
+      const parsed = await parseActivityFile(file);
+      summarizeActivity(parsed);
+      setActivity(parsed);
+    } catch (error) {
+      console.error('Failed to read activity file:', error);
+      setActivityError(error instanceof Error ? error.message : 'Failed to read file');
+    }
+  };
+
+  const handleDrop = (e: DragEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleActivityFile(e.dataTransfer.files?.[0]);
+  };
+
+  const resetForm = () => {
+    setName('');
+    setDateString(getTodayISO());
+    setActivity(null);
+    setActivityError(null);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!name.trim()) return;
+    if (!name.trim() && !activitySummary) return;
     
     try {
       setIsSubmitting(true);
       
-      const workoutData = {
+      const workoutData = activitySummary ? buildActivityWorkout(activitySummary, name) : {
         name: name.trim(),
         date: dateString || undefined, // Empty string becomes undefined
         source: 'manual' as const,
@@ -54,8 +100,7 @@ export function AddWorkoutDialog({ isOpen, onClose, onWorkoutCreated }: AddWorko
       const workoutId = await addWorkout(workoutData);
       
       // Reset form and close
-      setName('');
-      setDateString(getTodayISO());
+      resetForm();
       onClose();
       
       // Notify parent to open execution mode
@@ -70,8 +115,7 @@ export function AddWorkoutDialog({ isOpen, onClose, onWorkoutCreated }: AddWorko
   };
 
   const handleCancel = () => {
-    setName('');
-    setDateString(getTodayISO());
+    resetForm();
     onClose();
   };
 
@@ -89,22 +133,30 @@ export function AddWorkoutDialog({ isOpen, onClose, onWorkoutCreated }: AddWorko
           </DialogDescription>
         </DialogHeader>
         
-        <form onSubmit={handleSubmit}>
+        <form
+          onSubmit={handleSubmit}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+        >
           <div className="space-y-4 py-4">
             {/* Workout Name */}
             <div className="space-y-2">
               <Label htmlFor="workout-name">Workout Name</Label>
               <Input
                 id="workout-name"
-                placeholder="e.g., Upper Body Strength"
+                placeholder={activitySummary ? getDefaultActivityName(activitySummary) : 'e.g., Upper Body Strength'}
                 value={name}
                 onChange={(e) => setName(e.target.value)}
                 autoFocus
               />
             </div>
 
-            {/* Date Input */}
-            <div className="space-y-2">
+            {/* Date Input (an imported recording brings its own date) */}
+            {!activitySummary && <div className="space-y-2">
               <Label htmlFor="workout-date">
                 Date <span className="text-xs text-muted-foreground">(optional)</span>
               </Label>
@@ -133,7 +185,67 @@ export function AddWorkoutDialog({ isOpen, onClose, onWorkoutCreated }: AddWorko
                   Without a date, workout will be added to your library
                 </p>
               )}
-            </div>
+            </div>}
+
+            {/* Recorded activity (GPX/TCX/FIT) */}
+            {activitySummary ? (
+              <div className="space-y-2 rounded-md border p-3 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="flex items-center gap-1.5 font-medium">
+                    <MapPin className="h-4 w-4" />
+                    {new Date(activitySummary.startTime).toLocaleString()}
+                  </span>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => setActivity(null)} title="Remove recording">
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-muted-foreground">
+                  <span>Distance: {formatActivityDistance(activitySummary.distanceMeters, splitUnit)}</span>
+                  <span>Moving time: {formatDuration(activitySummary.movingSeconds)}</span>
+                  <span>Pace: {formatPace(activitySummary.movingSeconds, activitySummary.distanceMeters, splitUnit)}/{splitUnit}</span>
+                  {activitySummary.averageHeartRate && <span>Avg HR: {activitySummary.averageHeartRate} bpm</span>}
+                  {activitySummary.elevationGainMeters !== undefined && <span>Elevation: +{activitySummary.elevationGainMeters} m</span>}
+                  <span>{activitySummary.splits.length} split{activitySummary.splits.length === 1 ? '' : 's'}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Label className="font-normal">Splits per</Label>
+                  <Select value={splitUnit} onValueChange={(value) => setSplitUnit(value as 'km' | 'mi')}>
+                    <SelectTrigger className="w-24 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="km">km</SelectItem>
+                      <SelectItem value="mi">mile</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            ) : (
+              <label
+                className={`flex cursor-pointer flex-col items-center gap-1 rounded-md border border-dashed p-4 text-center text-sm text-muted-foreground transition-colors ${
+                  isDragging ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+                }`}
+              >
+                <Upload className="h-5 w-5" />
+                <span>Drop a GPX, TCX or FIT file, or click to browse</span>
+                <span className="text-xs">Creates a completed cardio workout with splits</span>
+                <input
+                  type="file"
+                  accept={ACTIVITY_FILE_ACCEPT}
+                  className="hidden"
+                  onChange={(e) => {
+                    handleActivityFile(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+            )}
+            {activityError && (
+              <p className="flex items-center gap-1.5 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4 shrink-0" />
+                {activityError}
+              </p>
+            )}
           </div>
 
           <DialogFooter>
@@ -147,10 +259,10 @@ export function AddWorkoutDialog({ isOpen, onClose, onWorkoutCreated }: AddWorko
             </Button>
             <Button
               type="submit"
-              disabled={!name.trim() || isSubmitting}
+              disabled={(!name.trim() && !activitySummary) || isSubmitting}
             >
               <Plus className="h-4 w-4 mr-2" />
-              {isSubmitting ? 'Creating...' : 'Create Workout'}
+              {isSubmitting ? 'Creating...' : activitySummary ? 'Import Activity' : 'Create Workout'}
             </Button>
           </DialogFooter>
         </form>
@@ -0,0 +1,179 @@
+/**
+ * Body Measurement Dialog - Log or edit a bodyweight, body fat and tape measurement entry
+ * Every field except the date is optional so a quick weigh-in is one number
+ */
+
+import { useEffect, useState } from 'react';
+import type { BodyMeasurement, BodyMeasurementInput, MeasurementSite } from '@/types/measurements';
+import { useMeasurementsStore } from '@/stores/measurementsStore';
+import { MEASUREMENT_SITES } from '@/lib/bodyMeasurements';
+import { getTodayISO } from '@/lib/dateUtils';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface BodyMeasurementDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  measurement?: BodyMeasurement | null; // Edit this entry instead of adding one
+  defaultWeightUnit: 'kg' | 'lb';
+}
+
+type SiteValues = Partial<Record<MeasurementSite, string>>;
+
+function toNumber(value: string): number | undefined {
+  const parsed = parseFloat(value.replace(',', '.'));
+  return parsed > 0 ? parsed : undefined;
+}
+
+export function BodyMeasurementDialog({ isOpen, onClose, measurement, defaultWeightUnit }: BodyMeasurementDialogProps) {
+  const { addMeasurement, updateMeasurement } = useMeasurementsStore();
+  const [date, setDate] = useState(getTodayISO());
+  const [bodyweight, setBodyweight] = useState('');
+  const [weightUnit, setWeightUnit] = useState<'kg' | 'lb'>(defaultWeightUnit);
+  const [bodyFat, setBodyFat] = useState('');
+  const [sites, setSites] = useState<SiteValues>({});
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setDate(measurement?.date ?? getTodayISO());
+    setBodyweight(measurement?.bodyweight?.toString() ?? '');
+    setWeightUnit(measurement?.weightUnit ?? defaultWeightUnit);
+    setBodyFat(measurement?.bodyFatPercent?.toString() ?? '');
+    setSites(Object.fromEntries(
+      Object.entries(measurement?.circumferences ?? {}).map(([site, value]) => [site, String(value)])
+    ));
+    setNotes(measurement?.notes ?? '');
+  }, [isOpen, measurement, defaultWeightUnit]);
+
+  const circumferences = Object.fromEntries(
+    Object.entries(sites)
+      .map(([site, value]) => [site, toNumber(value ?? '')])
+      .filter(([, value]) => value !== undefined)
+  ) as Partial<Record<MeasurementSite, number>>;
+
+  const input: BodyMeasurementInput = {
+    date,
+    bodyweight: toNumber(bodyweight),
+    weightUnit,
+    bodyFatPercent: toNumber(bodyFat),
+    circumferences: Object.keys(circumferences).length > 0 ? circumferences : undefined,
+    notes: notes.trim() || undefined
+  };
+  const hasValues = input.bodyweight !== undefined || input.bodyFatPercent !== undefined || !!input.circumferences;
+
+  const handleSave = async () => {
+    setSaving(true);
+    if (measurement) {
+      await updateMeasurement(measurement.id, input);
+    } else {
+      await addMeasurement(input);
+    }
+    setSaving(false);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>{measurement ? 'Edit Measurement' : 'Log Measurement'}</DialogTitle>
+          <DialogDescription>
+            Fill in whatever you measured - bodyweight alone is fine
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2 max-h-[60vh] overflow-y-auto">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="measurement-date">Date</Label>
+              <Input
+                id="measurement-date"
+                type="date"
+                value={date}
+                max={getTodayISO()}
+                onChange={(e) => setDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="measurement-bodyfat">Body fat (%)</Label>
+              <Input
+                id="measurement-bodyfat"
+                type="number"
+                inputMode="decimal"
+                step="0.1"
+                value={bodyFat}
+                onChange={(e) => setBodyFat(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="measurement-bodyweight">Bodyweight</Label>
+            <div className="flex gap-2">
+              <Input
+                id="measurement-bodyweight"
+                type="number"
+                inputMode="decimal"
+                step="0.1"
+                value={bodyweight}
+                onChange={(e) => setBodyweight(e.target.value)}
+              />
+              <Select value={weightUnit} onValueChange={(value) => setWeightUnit(value as 'kg' | 'lb')}>
+                <SelectTrigger className="w-24">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="kg">kg</SelectItem>
+                  <SelectItem value="lb">lb</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Tape measurements (cm)</Label>
+            <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+              {MEASUREMENT_SITES.map(({ site, label }) => (
+                <div key={site} className="space-y-1">
+                  <Label htmlFor={`measurement-${site}`} className="text-xs font-normal text-muted-foreground">{label}</Label>
+                  <Input
+                    id={`measurement-${site}`}
+                    type="number"
+                    inputMode="decimal"
+                    step="0.1"
+                    value={sites[site] ?? ''}
+                    onChange={(e) => setSites(prev => ({ ...prev, [site]: e.target.value }))}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="measurement-notes">Notes</Label>
+            <Textarea
+              id="measurement-notes"
+              rows={2}
+              placeholder="e.g. morning, fasted"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving || !date || !hasValues}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
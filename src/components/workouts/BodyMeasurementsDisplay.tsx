@@ -0,0 +1,181 @@
+/**
+ * Body Measurements Display - Bodyweight, body fat and tape measurement trends with a 7-day moving average
+ * Entries come from measurementsStore; the latest weigh-in also drives volume and strength standards
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import type { BodyMeasurement, MeasurementMetric } from '@/types/measurements';
+import { useMeasurementsStore } from '@/stores/measurementsStore';
+import {
+  MEASUREMENT_SITES,
+  getMeasurementTrend,
+  getMeasurementValue,
+  summarizeBodyMeasurements
+} from '@/lib/bodyMeasurements';
+import { formatMonthDay, getTodayISO } from '@/lib/dateUtils';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BodyMeasurementDialog } from './BodyMeasurementDialog';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+
+const RECENT_ENTRIES = 8;
+const KG_TO_LB = 1 / 0.453592;
+
+const METRIC_LABELS = {
+  bodyweight: 'Bodyweight',
+  bodyFatPercent: 'Body fat',
+  ...Object.fromEntries(MEASUREMENT_SITES.map(({ site, label }) => [site, label]))
+} as Record<MeasurementMetric, string>;
+
+function formatEntry(measurement: BodyMeasurement): string {
+  const parts = [
+    measurement.bodyweight && `${measurement.bodyweight} ${measurement.weightUnit}`,
+    measurement.bodyFatPercent && `${measurement.bodyFatPercent}% fat`,
+    ...MEASUREMENT_SITES
+      .filter(({ site }) => measurement.circumferences?.[site])
+      .map(({ site, label }) => `${label.toLowerCase()} ${measurement.circumferences![site]} cm`)
+  ];
+  return parts.filter(Boolean).join(' · ');
+}
+
+export function BodyMeasurementsDisplay() {
+  const { measurements, ensureLoaded, deleteMeasurement, error, clearError } = useMeasurementsStore();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<BodyMeasurement | null>(null);
+  const [selectedMetric, setSelectedMetric] = useState<MeasurementMetric>('bodyweight');
+
+  useEffect(() => {
+    ensureLoaded();
+  }, [ensureLoaded]);
+
+  // Show weights in the unit of the latest weigh-in
+  const weightUnit = [...measurements].reverse().find(measurement => measurement.bodyweight)?.weightUnit ?? 'kg';
+  const availableMetrics = (Object.keys(METRIC_LABELS) as MeasurementMetric[])
+    .filter(metric => measurements.some(measurement => getMeasurementValue(measurement, metric) !== undefined));
+  const metric = availableMetrics.includes(selectedMetric) ? selectedMetric : availableMetrics[0];
+  const metricUnit = metric === 'bodyweight' ? weightUnit : metric === 'bodyFatPercent' ? '%' : 'cm';
+
+  const chartData = useMemo(
+    () => metric
+      ? getMeasurementTrend(measurements, metric, weightUnit).map(point => ({ ...point, label: formatMonthDay(point.date) }))
+      : [],
+    [measurements, metric, weightUnit]
+  );
+  const summary = useMemo(() => summarizeBodyMeasurements(measurements, getTodayISO()), [measurements]);
+  const toDisplayWeight = (kg: number) => Math.round((weightUnit === 'lb' ? kg * KG_TO_LB : kg) * 10) / 10;
+
+  const openDialog = (measurement: BodyMeasurement | null) => {
+    setEditing(measurement);
+    setDialogOpen(true);
+  };
+
+  const tiles = summary ? [
+    summary.bodyweightKg !== undefined && { label: 'Bodyweight', value: `${toDisplayWeight(summary.bodyweightKg)} ${weightUnit}` },
+    summary.bodyweightTrendKg !== undefined && {
+      label: '30-day change',
+      value: `${summary.bodyweightTrendKg > 0 ? '+' : ''}${toDisplayWeight(summary.bodyweightTrendKg)} ${weightUnit}`
+    },
+    summary.bodyFatPercent !== undefined && { label: 'Body fat', value: `${summary.bodyFatPercent}%` },
+    summary.circumferencesCm?.waist !== undefined && { label: 'Waist', value: `${summary.circumferencesCm.waist} cm` }
+  ].filter((tile): tile is { label: string; value: string } => !!tile) : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        {availableMetrics.length > 0 && metric ? (
+          <div className="space-y-1">
+            <Label className="text-xs">Measurement</Label>
+            <Select value={metric} onValueChange={(value) => setSelectedMetric(value as MeasurementMetric)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {availableMetrics.map(key => (
+                  <SelectItem key={key} value={key}>{METRIC_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Log your bodyweight to track it over time. Volume and strength standards use the bodyweight from each workout's date.
+          </p>
+        )}
+        <Button size="sm" onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Log Measurement
+        </Button>
+      </div>
+
+      {error && (
+        <div className="flex items-center justify-between text-sm text-destructive">
+          <span>{error}</span>
+          <Button variant="ghost" size="sm" onClick={clearError}>Dismiss</Button>
+        </div>
+      )}
+
+      {tiles.length > 0 && (
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+          {tiles.map(tile => (
+            <div key={tile.label}>
+              <p className="text-xs text-muted-foreground">{tile.label}</p>
+              <p className="text-2xl font-bold tabular-nums">{tile.value}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {chartData.length > 1 && metric && (
+        <ResponsiveContainer width="100%" height={250}>
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="label" tick={{ fontSize: 12 }} minTickGap={24} />
+            <YAxis tick={{ fontSize: 12 }} domain={['auto', 'auto']} width={45} />
+            <Tooltip formatter={(value) => `${value} ${metricUnit}`} />
+            <Legend />
+            <Line type="monotone" dataKey="value" name={METRIC_LABELS[metric]} stroke="#94a3b8" strokeWidth={1} dot />
+            <Line type="monotone" dataKey="average" name="7-day average" stroke="#2563eb" strokeWidth={2} dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+
+      {measurements.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Recent entries</p>
+          <div className="divide-y rounded-md border">
+            {[...measurements].reverse().slice(0, RECENT_ENTRIES).map(measurement => (
+              <div key={measurement.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                <span className="w-16 shrink-0 text-muted-foreground">{formatMonthDay(measurement.date)}</span>
+                <span className="flex-1 truncate" title={measurement.notes}>{formatEntry(measurement)}</span>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => openDialog(measurement)} title="Edit">
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => deleteMeasurement(measurement.id)} title="Delete">
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <BodyMeasurementDialog
+        isOpen={dialogOpen}
+        onClose={() => setDialogOpen(false)}
+        measurement={editing}
+        defaultWeightUnit={weightUnit}
+      />
+    </div>
+  );
+}
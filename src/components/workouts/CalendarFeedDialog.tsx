@@ -0,0 +1,133 @@
+/**
+ * Calendar Feed Dialog - Download scheduled workouts as .ics or subscribe to a live feed
+ * The feed URL carries a secret token stored on the user document; resetting it breaks old links
+ */
+
+import { useState } from 'react';
+import { useAuthStore } from '@/stores/authStore';
+import { useWorkoutsStore } from '@/stores/workoutsStore';
+import {
+  createWorkoutCalendar,
+  generateCalendarFeedToken,
+  getCalendarFeedUrl,
+  getCalendarWorkouts
+} from '@/lib/workoutCalendar';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Check, Copy, Download, Link, RotateCcw } from 'lucide-react';
+
+interface CalendarFeedDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function CalendarFeedDialog({ isOpen, onClose }: CalendarFeedDialogProps) {
+  const { user, updateProfile } = useAuthStore();
+  const { workouts } = useWorkoutsStore();
+  const [saving, setSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const token = user?.calendarFeedToken;
+  const feedUrl = token ? getCalendarFeedUrl(token) : '';
+  const scheduledCount = getCalendarWorkouts(workouts).length;
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([createWorkoutCalendar(workouts)], { type: 'text/calendar' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'workouts.ics';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const setFeedToken = async (calendarFeedToken: string | undefined) => {
+    setSaving(true);
+    setCopied(false);
+    await updateProfile({ calendarFeedToken });
+    setSaving(false);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+    } catch (error) {
+      console.error('Failed to copy feed URL:', error);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Calendar</DialogTitle>
+          <DialogDescription>
+            Put your scheduled workouts in Google Calendar, Apple Calendar or Outlook
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 py-2">
+          <div className="space-y-2">
+            <Label>One-time export</Label>
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">
+                {scheduledCount} scheduled workout{scheduledCount === 1 ? '' : 's'}
+              </p>
+              <Button variant="outline" size="sm" onClick={handleDownload} disabled={scheduledCount === 0}>
+                <Download className="h-4 w-4 mr-2" />
+                Download .ics
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="calendar-feed-url">Subscription link</Label>
+            {token ? (
+              <>
+                <div className="flex gap-2">
+                  <Input id="calendar-feed-url" value={feedUrl} readOnly onFocus={(e) => e.target.select()} />
+                  <Button variant="outline" size="icon" onClick={handleCopy} title="Copy link">
+                    {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Add this URL as a calendar subscription. Edits and reschedules show up when your calendar app refreshes.
+                  Anyone with the link can see your planned workouts.
+                </p>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={feedUrl.replace(/^https?:/, 'webcal:')}>
+                      <Link className="h-4 w-4 mr-2" />
+                      Open in Calendar App
+                    </a>
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setFeedToken(generateCalendarFeedToken())} disabled={saving}>
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Reset Link
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setFeedToken(undefined)} disabled={saving}>
+                    Turn Off
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm text-muted-foreground">Keep your calendar in sync automatically</p>
+                <Button size="sm" onClick={() => setFeedToken(generateCalendarFeedToken())} disabled={saving}>
+                  <Link className="h-4 w-4 mr-2" />
+                  Create Link
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
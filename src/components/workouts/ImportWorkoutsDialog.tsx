@@ -0,0 +1,307 @@
+/**
+ * Import Workouts Dialog - Bring in workout history from Strong, Hevy or FitNotes CSV exports
+ * Steps: choose file → map exercise names → preview (dry run, duplicates unchecked) → import
+ */
+
+import { useMemo, useState } from 'react';
+import { useWorkoutsStore } from '@/stores/workoutsStore';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, CheckCircle, Upload } from 'lucide-react';
+import { EXERCISE_DATABASE } from '@/lib/exerciseDatabase';
+import {
+  IMPORT_FORMATS,
+  buildImportedWorkout,
+  findDuplicateWorkout,
+  getDefaultNameMapping,
+  parseWorkoutCsv,
+  type ImportParseResult
+} from '@/lib/workoutImport';
+
+interface ImportWorkoutsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type ImportStep = 'file' | 'mapping' | 'preview' | 'importing' | 'done';
+
+const KEEP_NAME = '__keep__'; // Select value for "keep the name from the export"
+
+export function ImportWorkoutsDialog({ isOpen, onClose }: ImportWorkoutsDialogProps) {
+  const { workouts, addWorkout } = useWorkoutsStore();
+
+  const [step, setStep] = useState<ImportStep>('file');
+  const [file, setFile] = useState<File | null>(null);
+  const [weightUnit, setWeightUnit] = useState<'kg' | 'lb'>('kg');
+  const [includeWarmups, setIncludeWarmups] = useState(false);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [result, setResult] = useState<ImportParseResult | null>(null);
+  const [nameMapping, setNameMapping] = useState<Record<string, string | null>>({});
+  const [unknownNames, setUnknownNames] = useState<string[]>([]);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [imported, setImported] = useState(0);
+  const [failed, setFailed] = useState(0);
+
+  const duplicates = useMemo(() => {
+    const found = new Map<string, string>(); // workout key → existing workout name
+    result?.workouts.forEach(workout => {
+      const duplicate = findDuplicateWorkout(workout, workouts, nameMapping);
+      if (duplicate) found.set(workout.key, duplicate.name);
+    });
+    return found;
+  }, [result, workouts, nameMapping]);
+
+  const reset = () => {
+    setStep('file');
+    setFile(null);
+    setParseError(null);
+    setResult(null);
+    setNameMapping({});
+    setUnknownNames([]);
+    setSelectedKeys(new Set());
+    setImported(0);
+    setFailed(0);
+  };
+
+  const handleClose = () => {
+    if (step === 'importing') return;
+    reset();
+    onClose();
+  };
+
+  const handleReadFile = async () => {
+    if (!file) return;
+    try {
+      setParseError(null);
+      const parsed = parseWorkoutCsv(await file.text(), { weightUnit, includeWarmups });
+      if (parsed.workouts.length === 0) {
+        setParseError('No workouts found in this file.');
+        return;
+      }
+      const mapping = getDefaultNameMapping(parsed.workouts);
+      setResult(parsed);
+      setNameMapping(mapping);
+      setUnknownNames(Object.keys(mapping).filter(name => mapping[name] === null));
+      setStep('mapping');
+    } catch (error) {
+      console.error('Failed to read import file:', error);
+      setParseError(error instanceof Error ? error.message : 'Failed to read file');
+    }
+  };
+
+  const handleShowPreview = () => {
+    if (!result) return;
+    // Dry run: everything except likely duplicates is selected
+    setSelectedKeys(new Set(result.workouts.map(workout => workout.key).filter(key => !duplicates.has(key))));
+    setStep('preview');
+  };
+
+  const toggleSelected = (key: string) => {
+    setSelectedKeys(previous => {
+      const next = new Set(previous);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!result) return;
+    setStep('importing');
+    const toImport = result.workouts.filter(workout => selectedKeys.has(workout.key));
+
+    // Sequential so each workout gets its own rank and offline-queue entry
+    for (const workout of toImport) {
+      try {
+        await addWorkout(buildImportedWorkout(workout, nameMapping, result.format));
+        setImported(count => count + 1);
+      } catch (error) {
+        console.error('Failed to import workout:', workout.name, error);
+        setFailed(count => count + 1);
+      }
+    }
+    setStep('done');
+  };
+
+  const mappedNames = result ? Object.keys(nameMapping).filter(name => !unknownNames.includes(name)) : [];
+  const selectedCount = selectedKeys.size;
+
+  const renderMappingRow = (name: string) => (
+    <div key={name} className="flex items-center gap-2">
+      <span className="flex-1 text-sm truncate" title={name}>{name}</span>
+      {unknownNames.includes(name) && <Badge variant="outline" className="text-xs">Unknown</Badge>}
+      <Select
+        value={nameMapping[name] ?? KEEP_NAME}
+        onValueChange={(value) => setNameMapping(previous => ({ ...previous, [name]: value === KEEP_NAME ? null : value }))}
+      >
+        <SelectTrigger className="w-48 h-8">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={KEEP_NAME}>Keep as “{name}”</SelectItem>
+          {EXERCISE_DATABASE.map(exercise => (
+            <SelectItem key={exercise.name} value={exercise.name}>{exercise.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Import Workout History</DialogTitle>
+          <DialogDescription>
+            {result
+              ? `${IMPORT_FORMATS[result.format].label} export · ${result.workouts.length} workout${result.workouts.length === 1 ? '' : 's'}`
+              : 'CSV export from Strong, Hevy or FitNotes'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'file' && (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="import-file">CSV file</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Weight unit</Label>
+              <Select value={weightUnit} onValueChange={(value) => setWeightUnit(value as 'kg' | 'lb')}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="kg">kg</SelectItem>
+                  <SelectItem value="lb">lb</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Strong exports don't include units; Hevy and FitNotes units are read from the file
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="import-warmups"
+                checked={includeWarmups}
+                onCheckedChange={(checked) => setIncludeWarmups(checked === true)}
+              />
+              <Label htmlFor="import-warmups" className="font-normal">Include warm-up sets</Label>
+            </div>
+            {parseError && (
+              <p className="flex items-center gap-1.5 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4 shrink-0" />
+                {parseError}
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === 'mapping' && result && (
+          <div className="space-y-3 py-2 max-h-[50vh] overflow-y-auto">
+            <p className="text-sm text-muted-foreground">
+              {unknownNames.length > 0
+                ? `${unknownNames.length} exercise name${unknownNames.length === 1 ? ' isn\'t' : 's aren\'t'} in the exercise database. Map them or keep them as they are.`
+                : 'All exercise names were recognized. Check the mapping before continuing.'}
+            </p>
+            {unknownNames.map(renderMappingRow)}
+            {mappedNames.length > 0 && (
+              <>
+                <p className="text-xs font-medium text-muted-foreground pt-2">Recognized</p>
+                {mappedNames.map(renderMappingRow)}
+              </>
+            )}
+          </div>
+        )}
+
+        {step === 'preview' && result && (
+          <div className="space-y-3 py-2">
+            <p className="text-sm text-muted-foreground">
+              {selectedCount} of {result.workouts.length} workouts selected
+              {duplicates.size > 0 && ` · ${duplicates.size} look like workouts you already have`}
+              {result.skippedWarmups > 0 && ` · ${result.skippedWarmups} warm-up sets skipped`}
+            </p>
+            <div className="max-h-[45vh] overflow-y-auto space-y-1 rounded-md border p-2">
+              {result.workouts.map(workout => {
+                const duplicateOf = duplicates.get(workout.key);
+                const setCount = workout.exercises.reduce((total, exercise) => total + exercise.sets.length, 0);
+                return (
+                  <label key={workout.key} className="flex items-center gap-2 rounded px-1 py-1 text-sm hover:bg-muted/50 cursor-pointer">
+                    <Checkbox checked={selectedKeys.has(workout.key)} onCheckedChange={() => toggleSelected(workout.key)} />
+                    <span className="w-24 shrink-0 tabular-nums text-muted-foreground">{workout.date}</span>
+                    <span className="flex-1 truncate">{workout.name}</span>
+                    <span className="text-xs text-muted-foreground shrink-0">
+                      {workout.exercises.length} ex · {setCount} sets
+                    </span>
+                    {duplicateOf && (
+                      <Badge variant="secondary" className="text-xs shrink-0" title={`Same day as "${duplicateOf}"`}>
+                        Duplicate
+                      </Badge>
+                    )}
+                  </label>
+                );
+              })}
+            </div>
+            {result.errors.length > 0 && (
+              <div className="text-xs text-destructive space-y-0.5">
+                <p className="font-medium">{result.errors.length} row{result.errors.length === 1 ? '' : 's'} skipped:</p>
+                {result.errors.slice(0, 5).map(error => (
+                  <p key={error.row}>Row {error.row}: {error.message}</p>
+                ))}
+                {result.errors.length > 5 && <p>…and {result.errors.length - 5} more</p>}
+              </div>
+            )}
+          </div>
+        )}
+
+        {(step === 'importing' || step === 'done') && (
+          <div className="space-y-3 py-4">
+            <Progress value={selectedCount > 0 ? ((imported + failed) / selectedCount) * 100 : 100} />
+            <p className="flex items-center gap-1.5 text-sm">
+              {step === 'done' && <CheckCircle className="h-4 w-4 text-green-600" />}
+              {step === 'done' ? 'Imported' : 'Importing'} {imported} of {selectedCount} workouts
+              {failed > 0 && <span className="text-destructive"> · {failed} failed</span>}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'file' && (
+            <>
+              <Button variant="outline" onClick={handleClose}>Cancel</Button>
+              <Button onClick={handleReadFile} disabled={!file}>
+                <Upload className="h-4 w-4 mr-2" />
+                Read File
+              </Button>
+            </>
+          )}
+          {step === 'mapping' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('file')}>Back</Button>
+              <Button onClick={handleShowPreview}>Preview</Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('mapping')}>Back</Button>
+              <Button onClick={handleImport} disabled={selectedCount === 0}>
+                Import {selectedCount} Workout{selectedCount === 1 ? '' : 's'}
+              </Button>
+            </>
+          )}
+          {step === 'done' && <Button onClick={handleClose}>Done</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
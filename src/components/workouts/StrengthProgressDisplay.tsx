@@ -0,0 +1,265 @@
+/**
+ * Strength Progress Display - Estimated one-rep max trend and strength standards
+ * e1RM comes from completed weighted sets; standards compare the big lifts against bodyweight
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import type { WorkoutDocument, OneRepMaxFormula } from '@/types/workout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dumbbell, Medal } from 'lucide-react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import { useWorkoutsStore } from '@/stores/workoutsStore';
+import { useAuthStore } from '@/stores/authStore';
+import { useMeasurementsStore } from '@/stores/measurementsStore';
+import { getLatestBodyweightKg } from '@/lib/bodyMeasurements';
+import {
+  ONE_REP_MAX_FORMULAS,
+  DEFAULT_ONE_REP_MAX_FORMULA,
+  getBestOneRepMaxKg,
+  getStandardLift,
+  getStrengthStandard,
+  getProfileBodyMetrics,
+  type StrengthStandardResult
+} from '@/lib/strengthMetrics';
+
+interface StrengthProgressDisplayProps {
+  completedWorkouts: WorkoutDocument[];
+}
+
+/**
+ * Exercises with at least one e1RM data point, most frequently trained first
+ */
+function getWeightedExercises(completedWorkouts: WorkoutDocument[], formula: OneRepMaxFormula): string[] {
+  const counts = new Map<string, { name: string; sessions: number }>();
+
+  completedWorkouts.forEach(workout => {
+    workout.exercises.forEach(exercise => {
+      if (getBestOneRepMaxKg(exercise.sets, formula) === undefined) return;
+      const key = exercise.name.toLowerCase();
+      const entry = counts.get(key) || { name: exercise.name, sessions: 0 };
+      entry.sessions++;
+      counts.set(key, entry);
+    });
+  });
+
+  return Array.from(counts.values())
+    .sort((a, b) => b.sessions - a.sessions)
+    .map(entry => entry.name);
+}
+
+/**
+ * Best e1RM per standard lift across all exercise names that map to it
+ */
+function getBestLiftMaxes(completedWorkouts: WorkoutDocument[], formula: OneRepMaxFormula): Record<string, number> {
+  const best: Record<string, number> = {};
+
+  completedWorkouts.forEach(workout => {
+    workout.exercises.forEach(exercise => {
+      const lift = getStandardLift(exercise.name);
+      if (!lift) return;
+      const oneRepMax = getBestOneRepMaxKg(exercise.sets, formula);
+      if (oneRepMax !== undefined && oneRepMax > (best[lift] || 0)) {
+        best[lift] = oneRepMax;
+      }
+    });
+  });
+
+  return best;
+}
+
+function StandardRow({ standard }: { standard: StrengthStandardResult }) {
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">{standard.lift}</span>
+        <div className="flex items-center gap-2">
+          <span className="text-muted-foreground">
+            {standard.oneRepMaxKg}kg · {standard.ratio}× BW
+          </span>
+          <Badge variant={standard.level ? 'default' : 'secondary'}>
+            {standard.level || 'Untrained'}
+          </Badge>
+        </div>
+      </div>
+      <Progress value={Math.max(0, Math.min(100, standard.progressToNext))} className="h-1.5" />
+      {standard.nextLevel && standard.nextLevelKg !== null && (
+        <p className="text-xs text-muted-foreground">
+          {Math.max(0, Math.round((standard.nextLevelKg - standard.oneRepMaxKg) * 10) / 10)}kg to {standard.nextLevel} ({standard.nextLevelKg}kg)
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Strength progress display component
+ */
+export function StrengthProgressDisplay({ completedWorkouts }: StrengthProgressDisplayProps) {
+  const { getExerciseProgress } = useWorkoutsStore();
+  const { user, updateProfile } = useAuthStore();
+  const formula = user?.oneRepMaxFormula || DEFAULT_ONE_REP_MAX_FORMULA;
+  const { measurements, ensureLoaded } = useMeasurementsStore();
+  const profileMetrics = getProfileBodyMetrics(user?.profile);
+  const bodyweightKg = getLatestBodyweightKg(measurements) ?? profileMetrics.bodyweightKg;
+  const { sex } = profileMetrics;
+
+  useEffect(() => {
+    ensureLoaded();
+  }, [ensureLoaded]);
+
+  const weightedExercises = useMemo(
+    () => getWeightedExercises(completedWorkouts, formula),
+    [completedWorkouts, formula]
+  );
+  const [selectedExercise, setSelectedExercise] = useState<string | null>(null);
+  const exerciseName = selectedExercise && weightedExercises.includes(selectedExercise)
+    ? selectedExercise
+    : weightedExercises[0];
+
+  const progress = exerciseName ? getExerciseProgress(exerciseName, formula) : null;
+  const chartData = (progress?.dataPoints || [])
+    .filter(point => point.estimatedOneRepMax !== undefined)
+    .map(point => ({
+      date: new Date(point.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+      e1rm: point.estimatedOneRepMax
+    }));
+
+  const standards = useMemo(() => {
+    if (!bodyweightKg) return [];
+    return Object.entries(getBestLiftMaxes(completedWorkouts, formula))
+      .map(([lift, oneRepMax]) => getStrengthStandard(lift, oneRepMax, bodyweightKg, sex))
+      .filter((standard): standard is StrengthStandardResult => standard !== null);
+  }, [completedWorkouts, formula, bodyweightKg, sex]);
+
+  const handleFormulaChange = async (value: string) => {
+    await updateProfile({ oneRepMaxFormula: value as OneRepMaxFormula });
+  };
+
+  if (weightedExercises.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Log weighted sets (reps × weight) to see estimated one-rep max trends.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label className="text-xs">Exercise</Label>
+          <Select value={exerciseName} onValueChange={setSelectedExercise}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {weightedExercises.map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">e1RM formula</Label>
+          <Select value={formula} onValueChange={handleFormulaChange}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(ONE_REP_MAX_FORMULAS) as OneRepMaxFormula[]).map(key => (
+                <SelectItem key={key} value={key}>
+                  {ONE_REP_MAX_FORMULAS[key].label} – {ONE_REP_MAX_FORMULAS[key].description}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {progress?.personalRecords.estimatedOneRepMax && (
+          <div className="ml-auto text-right">
+            <div className="text-xs text-muted-foreground">Best e1RM</div>
+            <div className="text-2xl font-bold">
+              {progress.personalRecords.estimatedOneRepMax.value}
+              <span className="text-sm font-normal text-muted-foreground ml-1">
+                {progress.personalRecords.estimatedOneRepMax.unit}
+              </span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2 text-base">
+            <Dumbbell className="h-4 w-4" />
+            <span>Estimated 1RM – {exerciseName}</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={250}>
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="date"
+                tick={{ fontSize: 12 }}
+                angle={-45}
+                textAnchor="end"
+                height={60}
+              />
+              <YAxis tick={{ fontSize: 12 }} domain={['auto', 'auto']} />
+              <Tooltip formatter={(value) => `${value} kg`} />
+              <Line
+                type="monotone"
+                dataKey="e1rm"
+                stroke="#8884d8"
+                name="e1RM"
+                strokeWidth={2}
+                dot
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2 text-base">
+            <Medal className="h-4 w-4" />
+            <span>Strength Standards</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!bodyweightKg ? (
+            <p className="text-sm text-muted-foreground">
+              Log your bodyweight under Body (or add it to your profile) to compare your lifts against strength standards.
+            </p>
+          ) : standards.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Log Bench Press, Squats, Deadlift, Overhead Press or Bent-over Row with weight to see where you stand.
+            </p>
+          ) : (
+            <>
+              {standards.map(standard => (
+                <StandardRow key={standard.lift} standard={standard} />
+              ))}
+              <p className="text-xs text-muted-foreground">
+                Relative to {bodyweightKg}kg bodyweight ({sex} standards), using your best e1RM.
+              </p>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+/**
+ * Training Load Display - Daily load with fitness/fatigue curves, acute:chronic ratio and heart rate zones
+ * Load comes from getWorkoutStats (TRIMP from heart rate, else session RPE × minutes)
+ */
+
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceArea,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import type { TrainingLoadStats } from '@/types/workout';
+import { useAuthStore } from '@/stores/authStore';
+import { Badge } from '@/components/ui/badge';
+import { formatMonthDay } from '@/lib/dateUtils';
+import {
+  getAcuteChronicRisk,
+  getHeartRateProfile,
+  getHeartRateZones,
+  type AcuteChronicRisk
+} from '@/lib/trainingLoad';
+
+interface TrainingLoadDisplayProps {
+  trainingLoad: TrainingLoadStats;
+}
+
+const RISK_LABELS: Record<AcuteChronicRisk, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  low: { label: 'Detraining', variant: 'outline' },
+  optimal: { label: 'Optimal', variant: 'default' },
+  high: { label: 'Elevated', variant: 'secondary' },
+  'very-high': { label: 'Injury risk', variant: 'destructive' }
+};
+
+const HEART_RATE_SOURCE_NOTES = {
+  profile: 'from the max heart rate in your profile',
+  age: 'estimated from your age (208 − 0.7 × age)',
+  default: 'using a default max of 190 bpm - add your age or max heart rate to your profile'
+};
+
+export function TrainingLoadDisplay({ trainingLoad }: TrainingLoadDisplayProps) {
+  const { user } = useAuthStore();
+  const heartRate = getHeartRateProfile(user?.profile);
+  const zones = getHeartRateZones(heartRate.maxHeartRate);
+  const ratio = trainingLoad.acuteChronicRatio;
+  const risk = ratio !== undefined ? RISK_LABELS[getAcuteChronicRisk(ratio)] : null;
+  const hasRatioHistory = trainingLoad.daily.some(point => point.acuteChronicRatio !== undefined);
+
+  const chartData = trainingLoad.daily.map(point => ({ ...point, label: formatMonthDay(point.date) }));
+  const { 'heart-rate': fromHeartRate, rpe: fromRpe, estimated } = trainingLoad.methodBreakdown;
+
+  if (trainingLoad.sessions === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Complete workouts to see your training load. Imported recordings with heart rate and sets with RPE give the most accurate numbers.
+      </p>
+    );
+  }
+
+  const tiles = [
+    { label: 'Fitness', value: trainingLoad.fitness, hint: '42-day load' },
+    { label: 'Fatigue', value: trainingLoad.fatigue, hint: '7-day load' },
+    { label: 'Form', value: trainingLoad.form, hint: 'Fitness − fatigue' }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        {tiles.map(tile => (
+          <div key={tile.label}>
+            <p className="text-xs text-muted-foreground">{tile.label}</p>
+            <p className="text-2xl font-bold tabular-nums">{tile.value}</p>
+            <p className="text-xs text-muted-foreground">{tile.hint}</p>
+          </div>
+        ))}
+        <div>
+          <p className="text-xs text-muted-foreground">Acute:chronic ratio</p>
+          <p className="text-2xl font-bold tabular-nums">{ratio !== undefined ? ratio.toFixed(2) : '–'}</p>
+          {risk ? (
+            <Badge variant={risk.variant} className="text-xs">{risk.label}</Badge>
+          ) : (
+            <p className="text-xs text-muted-foreground">Needs 4 weeks of history</p>
+          )}
+        </div>
+      </div>
+
+      <ResponsiveContainer width="100%" height={260}>
+        <ComposedChart data={chartData}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="label" tick={{ fontSize: 12 }} minTickGap={24} />
+          <YAxis yAxisId="load" tick={{ fontSize: 12 }} width={40} />
+          <YAxis yAxisId="curve" orientation="right" tick={{ fontSize: 12 }} width={40} />
+          <Tooltip />
+          <Legend />
+          <Bar yAxisId="load" dataKey="load" name="Daily load" fill="#cbd5e1" />
+          <Line yAxisId="curve" type="monotone" dataKey="fitness" name="Fitness" stroke="#2563eb" dot={false} strokeWidth={2} />
+          <Line yAxisId="curve" type="monotone" dataKey="fatigue" name="Fatigue" stroke="#dc2626" dot={false} strokeWidth={2} />
+          <Line yAxisId="curve" type="monotone" dataKey="form" name="Form" stroke="#16a34a" dot={false} strokeDasharray="4 4" />
+        </ComposedChart>
+      </ResponsiveContainer>
+
+      {hasRatioHistory && (
+        <div className="space-y-1">
+          <p className="text-sm font-medium">Acute:chronic workload ratio</p>
+          <ResponsiveContainer width="100%" height={140}>
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" tick={{ fontSize: 12 }} minTickGap={24} />
+              <YAxis tick={{ fontSize: 12 }} domain={[0, 2]} width={40} />
+              <ReferenceArea y1={0.8} y2={1.3} fill="#16a34a" fillOpacity={0.1} />
+              <Tooltip />
+              <Line type="monotone" dataKey="acuteChronicRatio" name="Ratio" stroke="#7c3aed" dot={false} strokeWidth={2} connectNulls />
+            </LineChart>
+          </ResponsiveContainer>
+          <p className="text-xs text-muted-foreground">Shaded band: 0.8-1.3, where injury risk is lowest</p>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        {trainingLoad.sessions} session{trainingLoad.sessions === 1 ? '' : 's'}: {fromHeartRate} from heart rate (TRIMP),{' '}
+        {fromRpe} from RPE × minutes, {estimated} estimated without heart rate or RPE
+      </p>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Heart rate zones</p>
+        <div className="grid grid-cols-1 gap-1 text-sm sm:grid-cols-5">
+          {zones.map(zone => (
+            <div key={zone.zone} className="rounded-md border px-2 py-1">
+              <p className="font-medium">Z{zone.zone} {zone.label}</p>
+              <p className="text-xs text-muted-foreground tabular-nums">{zone.min}-{zone.max} bpm</p>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">Max {heartRate.maxHeartRate} bpm, {HEART_RATE_SOURCE_NOTES[heartRate.source]}</p>
+      </div>
+    </div>
+  );
+}
@@ -3,14 +3,16 @@
  * Uses improved volume calculations for completed workouts
  */
 
-import { useMemo } from 'react';
+import { useEffect, useMemo } from 'react';
 import type { WorkoutDocument } from '@/types/workout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { TrendingUp } from 'lucide-react';
 import { calculateImprovedExerciseVolume, formatImprovedVolume } from '@/lib/improvedVolumeCalculations';
+import { createBodyweightLookup, getWorkoutDate } from '@/lib/bodyMeasurements';
 import { useAuthStore } from '@/stores/authStore';
+import { useMeasurementsStore } from '@/stores/measurementsStore';
 
 interface VolumeStatsDisplayProps {
   completedWorkouts: WorkoutDocument[];
@@ -27,18 +29,24 @@ interface ExerciseVolumeStats {
   completedReps?: number;
   averageIntensity: number;
   maxIntensity: number;
+  completedFatigueVolume: number;
+  effectiveReps?: number;
+  averageRpe?: number;
+  rpeSessions: number;
 }
 
 /**
  * Calculate volume statistics for all completed workouts
+ * Each workout uses the bodyweight (kg) that applied on its date
  */
 function calculateVolumeStats(
   completedWorkouts: WorkoutDocument[],
-  userBodyweight: number
+  getBodyweight: (date?: string) => number
 ): Record<string, ExerciseVolumeStats> {
   const exerciseStats: Record<string, ExerciseVolumeStats> = {};
 
   completedWorkouts.forEach(workout => {
+    const userBodyweight = getBodyweight(getWorkoutDate(workout));
     workout.exercises.forEach(exercise => {
       const volumeMetrics = calculateImprovedExerciseVolume(exercise, userBodyweight);
       
@@ -53,7 +61,9 @@ function calculateVolumeStats(
           totalReps: 0,
           completedReps: 0,
           averageIntensity: 0,
-          maxIntensity: 0
+          maxIntensity: 0,
+          completedFatigueVolume: 0,
+          rpeSessions: 0
         };
       }
 
@@ -62,6 +72,16 @@ function calculateVolumeStats(
       stats.completedVolume += volumeMetrics.completedRelativeVolume;
       stats.totalSets += volumeMetrics.totalSets;
       stats.completedSets += volumeMetrics.completedSets;
+      stats.completedFatigueVolume += volumeMetrics.completedFatigueVolume;
+      
+      if (volumeMetrics.effectiveReps !== undefined) {
+        stats.effectiveReps = (stats.effectiveReps || 0) + volumeMetrics.effectiveReps;
+      }
+      if (volumeMetrics.averageRpe !== undefined) {
+        // Running mean of per-session averages
+        stats.averageRpe = ((stats.averageRpe || 0) * stats.rpeSessions + volumeMetrics.averageRpe) / (stats.rpeSessions + 1);
+        stats.rpeSessions++;
+      }
       
       if (volumeMetrics.totalReps !== undefined) {
         stats.totalReps = (stats.totalReps || 0) + volumeMetrics.totalReps;
@@ -119,11 +139,15 @@ function getCompletionBadgeStyle(completionRate: number): React.CSSProperties {
  */
 export function VolumeStatsDisplay({ completedWorkouts }: VolumeStatsDisplayProps) {
   const { user } = useAuthStore();
-  const userBodyweight = (user?.profile?.bodyweight as number) || 75;
+  const { measurements, ensureLoaded } = useMeasurementsStore();
+
+  useEffect(() => {
+    ensureLoaded();
+  }, [ensureLoaded]);
 
   const exerciseVolumeStats = useMemo(
-    () => calculateVolumeStats(completedWorkouts, userBodyweight),
-    [completedWorkouts, userBodyweight]
+    () => calculateVolumeStats(completedWorkouts, createBodyweightLookup(measurements, user?.profile)),
+    [completedWorkouts, measurements, user?.profile]
   );
 
   const sortedExercises = useMemo(
@@ -186,6 +210,22 @@ export function VolumeStatsDisplay({ completedWorkouts }: VolumeStatsDisplayProp
                   <div className="text-xs text-muted-foreground">Max Intensity</div>
                   <div className="font-medium">{Math.round(stats.maxIntensity)} units/rep</div>
                 </div>
+                {stats.averageRpe !== undefined && (
+                  <>
+                    <div>
+                      <div className="text-xs text-muted-foreground">Avg RPE</div>
+                      <div className="font-medium">{Math.round(stats.averageRpe * 10) / 10}</div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-muted-foreground">Effective Reps</div>
+                      <div className="font-medium">{stats.effectiveReps ?? 0}</div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-muted-foreground">Fatigue-adjusted Volume</div>
+                      <div className="font-medium">{formatImprovedVolume(stats.completedFatigueVolume, stats.volumeUnit)}</div>
+                    </div>
+                  </>
+                )}
               </div>
               
               {/* Volume-based progress explanation */}
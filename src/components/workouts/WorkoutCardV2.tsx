@@ -18,13 +18,21 @@ import {
   RotateCcw,
   ExternalLink,
   Sparkles,
-  Trash2
+  Trash2,
+  CloudOff,
+  AlertTriangle,
+  RefreshCw,
+  Repeat,
+  X
 } from 'lucide-react';
+import { useWorkoutsStore } from '@/stores/workoutsStore';
 import { 
   analyzeWorkoutCompletion, 
   getStatusDisplayText, 
-  formatCompletionStats 
+  formatCompletionStats,
+  isExerciseFullyCompleted
 } from '@/lib/workoutCompletion';
+import { groupExercisesByBlock, formatBlockSummary } from '@/lib/exerciseBlocks';
 
 interface WorkoutCardV2Props {
   workout: WorkoutDocument;
@@ -53,6 +61,14 @@ export const WorkoutCardV2 = React.memo(function WorkoutCardV2({
   const navigate = useNavigate();
   const [isHovered, setIsHovered] = useState(false);
   
+  // Offline queue status (undefined when fully synced)
+  const syncStatus = useWorkoutsStore(state => state.syncStatus[workout.id]);
+  const syncError = useWorkoutsStore(state => 
+    state.queuedMutations.find(m => m.workoutId === workout.id && m.status === 'failed')?.lastError
+  );
+  const flushOfflineQueue = useWorkoutsStore(state => state.flushOfflineQueue);
+  const discardQueuedMutations = useWorkoutsStore(state => state.discardQueuedMutations);
+  
   // Only use sortable if draggable
   const sortableProps = isDraggable ? useSortable({
     id: workout.id,
@@ -125,6 +141,7 @@ export const WorkoutCardV2 = React.memo(function WorkoutCardV2({
   const completionStats = analyzeWorkoutCompletion(workout);
   const statusText = getStatusDisplayText(completionStats.status);
   const formattedStats = formatCompletionStats(completionStats);
+  const blockGroups = groupExercisesByBlock(workout.exercises).filter(group => group.block);
 
   // Status-based styling with theme support
   const getStatusStyling = () => {
@@ -192,6 +209,21 @@ export const WorkoutCardV2 = React.memo(function WorkoutCardV2({
               <Badge variant="secondary" className="text-xs">
                 {formattedStats.setText}
               </Badge>
+              {blockGroups.map(group => (
+                <Badge
+                  key={group.block!.id}
+                  variant="outline"
+                  className={`text-xs ${
+                    group.exercises.every(isExerciseFullyCompleted)
+                      ? 'border-green-500 text-green-700 dark:border-green-400 dark:text-green-300'
+                      : ''
+                  }`}
+                  title={group.exercises.map(exercise => exercise.name).join(' / ')}
+                >
+                  <Repeat className="h-3 w-3 mr-1" />
+                  {group.letter}: {formatBlockSummary(group.block!)}
+                </Badge>
+              ))}
               {workout.estimatedDuration && (
                 <div className="flex items-center text-xs text-muted-foreground">
                   <Clock className="h-3 w-3 mr-1" />
@@ -220,6 +252,28 @@ export const WorkoutCardV2 = React.memo(function WorkoutCardV2({
                   Modified
                 </Badge>
               )}
+              
+              {/* Offline Sync Badge */}
+              {syncStatus === 'queued' && (
+                <Badge 
+                  variant="outline" 
+                  className="text-xs border-blue-300 text-blue-700 dark:border-blue-700 dark:text-blue-300"
+                  title="Saved on this device, will sync when back online"
+                >
+                  <CloudOff className="h-3 w-3 mr-1" />
+                  Queued
+                </Badge>
+              )}
+              {syncStatus === 'failed' && (
+                <Badge 
+                  variant="outline" 
+                  className="text-xs border-red-300 text-red-700 dark:border-red-700 dark:text-red-300"
+                  title={syncError || 'Sync failed'}
+                >
+                  <AlertTriangle className="h-3 w-3 mr-1" />
+                  Sync failed
+                </Badge>
+              )}
             </div>
             {workout.status === 'completed' && workout.date && (
               <div className="text-xs text-muted-foreground mt-1">
@@ -235,6 +289,34 @@ export const WorkoutCardV2 = React.memo(function WorkoutCardV2({
           
           {isEditable && (
             <div className="flex items-center space-x-1 ml-2">
+              {/* Sync Failure Actions */}
+              {syncStatus === 'failed' && (
+                <>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 w-6 p-0"
+                    onClick={(e) => handleButtonClick(e, () => flushOfflineQueue())}
+                    title="Retry sync"
+                  >
+                    <RefreshCw className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 w-6 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                    onClick={(e) => handleButtonClick(e, () => {
+                      if (confirm(`Discard unsynced changes to "${workout.name}"?`)) {
+                        discardQueuedMutations(workout.id);
+                      }
+                    })}
+                    title="Discard unsynced changes"
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </>
+              )}
+              
               {/* AI Coach Link */}
               {workout.source === 'ai-coach' && workout.aiCoachContext && (
                 <Button
@@ -0,0 +1,112 @@
+/**
+ * Workout Conflict Dialog - Resolve edits made to the same workout on two devices
+ * Non-overlapping changes are merged automatically; only true conflicts are listed here
+ */
+
+import { useState, useEffect } from 'react';
+import type { WorkoutConflictRecord, ConflictChoice } from '@/lib/workoutMerge';
+import { formatConflictValue } from '@/lib/workoutMerge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { GitMerge, Smartphone, Monitor } from 'lucide-react';
+
+interface WorkoutConflictDialogProps {
+  conflict: WorkoutConflictRecord;
+  isOpen: boolean;
+  onClose: () => void;
+  onResolve: (choices: Record<string, ConflictChoice>) => void;
+  onKeepRemote: () => void;
+}
+
+/**
+ * Dialog listing conflicting changes with a per-change choice
+ */
+export function WorkoutConflictDialog({
+  conflict,
+  isOpen,
+  onClose,
+  onResolve,
+  onKeepRemote
+}: WorkoutConflictDialogProps) {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+  // Default every conflict to this device's version
+  useEffect(() => {
+    setChoices(Object.fromEntries(conflict.conflicts.map(c => [c.id, 'local' as const])));
+  }, [conflict]);
+
+  const setAll = (choice: ConflictChoice) => {
+    setChoices(Object.fromEntries(conflict.conflicts.map(c => [c.id, choice])));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5 text-orange-500" />
+            Resolve Conflicting Changes
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            This workout was edited on another device at the same time. Other changes were merged
+            automatically — choose which version to keep for each item below.
+          </p>
+
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setAll('local')}>
+              <Smartphone className="h-3 w-3 mr-1" />
+              Keep all mine
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setAll('remote')}>
+              <Monitor className="h-3 w-3 mr-1" />
+              Keep all from other device
+            </Button>
+          </div>
+
+          <div className="space-y-3">
+            {conflict.conflicts.map(item => (
+              <div key={item.id} className="rounded-md border p-3 space-y-2">
+                <p className="text-sm font-medium">{item.label}</p>
+                <RadioGroup
+                  value={choices[item.id] || 'local'}
+                  onValueChange={(value) => setChoices(prev => ({ ...prev, [item.id]: value as ConflictChoice }))}
+                  className="grid grid-cols-2 gap-2"
+                >
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="local" id={`${item.id}-local`} />
+                    <Label htmlFor={`${item.id}-local`} className="text-sm font-normal">
+                      <span className="text-muted-foreground">This device:</span>{' '}
+                      {formatConflictValue(item.localValue)}
+                    </Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="remote" id={`${item.id}-remote`} />
+                    <Label htmlFor={`${item.id}-remote`} className="text-sm font-normal">
+                      <span className="text-muted-foreground">Other device:</span>{' '}
+                      {formatConflictValue(item.remoteValue)}
+                    </Label>
+                  </div>
+                </RadioGroup>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onKeepRemote}>
+            Keep other device's version
+          </Button>
+          <Button onClick={() => onResolve(choices)}>
+            <GitMerge className="h-4 w-4 mr-2" />
+            Apply Choices
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,6 +7,7 @@ import { useState, useEffect } from 'react';
 import type { WorkoutDocument } from '@/types/workout';
 import type { Workout } from '@/types/fitness';
 import { useWorkoutsStore } from '@/stores/workoutsStore';
+import { useAuthStore } from '@/stores/authStore';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -15,16 +16,23 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
-import { CheckCircle, RotateCcw, Trash2, X, Calendar, Info, Sparkles, AlertCircle, AlertTriangle } from 'lucide-react';
+import { CheckCircle, RotateCcw, Trash2, X, Calendar, Info, Sparkles, AlertCircle, AlertTriangle, GitMerge } from 'lucide-react';
 import { Progress } from '@/components/ui/progress';
 import { WorkoutExecutionUI } from '@/components/fitness/WorkoutExecutionUI';
 import { WorkoutExecutionText } from '@/components/fitness/WorkoutExecutionText';
+import { WorkoutConflictDialog } from '@/components/workouts/WorkoutConflictDialog';
+import { RestTimerDisplay } from '@/components/fitness/RestTimerDisplay';
+import { WorkoutSessionPanel } from '@/components/workouts/WorkoutSessionPanel';
+import { ActivitySummaryPanel } from '@/components/workouts/ActivitySummaryPanel';
 import { useWorkoutExecution } from '@/hooks/useWorkoutExecution';
 import { useTextSync } from '@/hooks/useTextSync';
 import { useInputManagement } from '@/hooks/useInputManagement';
 import { updateVolumeRow, addVolumeRow, removeVolumeRow, type VolumeRow } from '@/lib/volumeRowUtils';
 import { normalizeForComparison } from '@/lib/workoutNormalization';
 import type { Exercise } from '@/types/fitness';
+import type { ProgressionProposal, ProgressionRule } from '@/types/progression';
+import { getProgressionKey, isProgressableSet } from '@/lib/progressiveOverload';
+import { getSessionDurationMinutes } from '@/lib/workoutSession';
 
 interface WorkoutExecutionDialogProps {
   workout: WorkoutDocument;
@@ -42,7 +50,9 @@ export function WorkoutExecutionDialog({
   onClose,
   onComplete 
 }: WorkoutExecutionDialogProps) {
-  const { updateWorkout, deleteWorkout, markAsComplete, markAsIncomplete, workouts } = useWorkoutsStore();
+  const { updateWorkout, deleteWorkout, markAsComplete, markAsIncomplete, startWorkout, discardSession, workouts, resolveConflict, dismissConflict, getProgressionProposal, setProgressionRule } = useWorkoutsStore();
+  const conflict = useWorkoutsStore(state => state.conflicts[workout.id]);
+  const progressionRules = useAuthStore(state => state.user?.progressionRules);
   
   // UI state
   const [activeTab, setActiveTab] = useState<'ui' | 'text'>('ui');
@@ -51,6 +61,7 @@ export function WorkoutExecutionDialog({
   const [dateError, setDateError] = useState<string>('');
   const [showRevertConfirm, setShowRevertConfirm] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showConflictDialog, setShowConflictDialog] = useState(false);
   
   // Always get the latest workout from store for reactive UI
   const latestWorkoutFromStore = workouts.find(w => w.id === workout.id) || workout;
@@ -82,7 +93,10 @@ export function WorkoutExecutionDialog({
     toggleSetCompletion,
     toggleExerciseCompletion,
     getExerciseProgress,
-    getOverallProgress
+    getOverallProgress,
+    restTimer,
+    skipRest,
+    adjustRest
   } = useWorkoutExecution({ 
     initialWorkout: localWorkout, 
     onWorkoutUpdate: (updated) => {
@@ -179,6 +193,10 @@ export function WorkoutExecutionDialog({
       }
     }
     
+    // Auto-completing a live session records its duration
+    const completedAt = new Date().toISOString();
+    const sessionStartedAt = latestWorkoutFromStore.status === 'in-progress' ? latestWorkoutFromStore.startedAt : undefined;
+    
     // Update in store (async, silent)
     updateWorkout(workout.id, {
       name: updatedWorkout.name,
@@ -194,7 +212,8 @@ export function WorkoutExecutionDialog({
       // Auto-complete if all exercises are done
       ...(shouldAutoComplete && {
         status: 'completed' as const,
-        completedAt: new Date().toISOString()
+        completedAt,
+        ...(sessionStartedAt && { actualDuration: getSessionDurationMinutes(sessionStartedAt, completedAt) })
       })
     }).catch(error => {
       console.error('Failed to update workout:', error);
@@ -248,6 +267,18 @@ export function WorkoutExecutionDialog({
   const handleResetWorkout = async () => {
     await markAsIncomplete(workout.id);
   };
+
+  const handleStartSession = () => {
+    startWorkout(workout.id).catch(error => {
+      console.error('Failed to start workout session:', error);
+    });
+  };
+
+  const handleDiscardSession = () => {
+    discardSession(workout.id).catch(error => {
+      console.error('Failed to discard workout session:', error);
+    });
+  };
   
   const handleRevertToOriginal = () => {
     if (!latestWorkoutFromStore.originalAISuggestion) return;
@@ -290,13 +321,73 @@ export function WorkoutExecutionDialog({
     }).join('\n\n');
   };
 
+  // Progressive overload - next-session targets for exercises in workouts not yet logged
+  const getProgressionSuggestion = (exercise: Exercise): ProgressionProposal | null => {
+    if (latestWorkoutFromStore.status === 'completed') return null;
+    return getProgressionProposal(exercise.name, { excludeWorkoutId: workout.id });
+  };
+
+  const withProgressionSets = (exercise: Exercise, proposal: ProgressionProposal): Exercise => ({
+    ...exercise,
+    sets: [
+      ...proposal.sets.map(set => ({ ...set })),
+      ...exercise.sets.filter(set => !isProgressableSet(set))
+    ]
+  });
+
+  // A freshly added exercise still has the single default set from handleAddExercise
+  const isUntouchedNewExercise = (exercise: Exercise) =>
+    exercise.sets.length === 1 &&
+    exercise.sets[0].reps === 10 &&
+    !exercise.sets[0].weight &&
+    exercise.sets[0].volumeType === 'sets-reps';
+
+  const handleApplyProgression = (exerciseId: string, proposal: ProgressionProposal) => {
+    const updatedWorkout = {
+      ...executionState.workout,
+      exercises: executionState.workout.exercises.map(ex =>
+        ex.id === exerciseId ? withProgressionSets(ex, proposal) : ex
+      )
+    };
+    updateWorkoutStructure(updatedWorkout);
+  };
+
+  const handleProgressionRuleChange = async (exerciseName: string, rule: ProgressionRule) => {
+    try {
+      await setProgressionRule(exerciseName, { ...progressionRules?.[getProgressionKey(exerciseName)], rule });
+    } catch (error) {
+      console.error('Failed to save progression rule:', error);
+    }
+  };
+
   // Exercise management
   const handleUpdateExercise = (exerciseId: string, updates: Partial<Exercise>) => {
     const updatedWorkout = {
       ...executionState.workout,
-      exercises: executionState.workout.exercises.map(ex => 
-        ex.id === exerciseId ? { ...ex, ...updates } : ex
-      )
+      exercises: executionState.workout.exercises.map(ex => {
+        if (ex.id !== exerciseId) return ex;
+        const updated = { ...ex, ...updates };
+
+        // Manual workouts: prefill a new exercise once its name matches one with history
+        if (updates.name !== undefined && latestWorkoutFromStore.source === 'manual' && isUntouchedNewExercise(ex)) {
+          const proposal = getProgressionSuggestion(updated);
+          if (proposal) return withProgressionSets(updated, proposal);
+        }
+        return updated;
+      })
+    };
+    updateWorkoutStructure(updatedWorkout);
+  };
+
+  const handleUngroupBlock = (blockId: string) => {
+    const updatedWorkout = {
+      ...executionState.workout,
+      exercises: executionState.workout.exercises.map(ex => {
+        if (ex.block?.id !== blockId) return ex;
+        const ungrouped = { ...ex };
+        delete ungrouped.block;
+        return ungrouped;
+      })
     };
     updateWorkoutStructure(updatedWorkout);
   };
@@ -498,6 +589,24 @@ export function WorkoutExecutionDialog({
         </DialogHeader>
 
         <div className="space-y-6">
+          {/* Sync Conflict Banner */}
+          {conflict && (
+            <Alert className="border-orange-300 bg-orange-50 dark:border-orange-800 dark:bg-orange-950/30">
+              <GitMerge className="h-4 w-4 text-orange-600 dark:text-orange-400" />
+              <AlertTitle>Edited on another device</AlertTitle>
+              <AlertDescription>
+                <div className="flex items-center justify-between gap-4">
+                  <span className="text-sm">
+                    {conflict.conflicts.length} change{conflict.conflicts.length === 1 ? '' : 's'} conflicted and kept the other device's value.
+                  </span>
+                  <Button size="sm" variant="outline" onClick={() => setShowConflictDialog(true)}>
+                    Resolve
+                  </Button>
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+          
           {/* AI Coach Original Suggestion Banner */}
           {latestWorkoutFromStore.originalAISuggestion && latestWorkoutFromStore.hasManualChanges && (
             <Alert className="bg-purple-50 dark:bg-purple-950/30 border-purple-200 dark:border-purple-800">
@@ -535,6 +644,17 @@ export function WorkoutExecutionDialog({
             </Alert>
           )}
           
+          {/* Imported Recording (GPX/TCX/FIT) */}
+          {latestWorkoutFromStore.activity && <ActivitySummaryPanel activity={latestWorkoutFromStore.activity} />}
+          
+          {/* Live Session */}
+          <WorkoutSessionPanel
+            workout={latestWorkoutFromStore}
+            exercises={executionState.workout.exercises}
+            onStart={handleStartSession}
+            onDiscard={handleDiscardSession}
+          />
+          
           {/* Tabs for UI/Text Editor */}
           <Tabs value={activeTab} onValueChange={handleTabChange}>
             <TabsList className="grid w-full grid-cols-2">
@@ -557,6 +677,13 @@ export function WorkoutExecutionDialog({
               />
             </div>
 
+            {/* Rest Timer (started by completing a set) */}
+            {restTimer && (
+              <div className="sticky top-0 z-10 bg-background pb-2">
+                <RestTimerDisplay timer={restTimer} onSkip={skipRest} onAdjust={adjustRest} />
+              </div>
+            )}
+
             <TabsContent value="ui" className="space-y-4">
               <WorkoutExecutionUI
                 exercises={executionState.workout.exercises}
@@ -578,6 +705,10 @@ export function WorkoutExecutionDialog({
                 handleInputBlur={handleInputBlur}
                 handleVolumeRowInputChange={handleVolumeRowInputChange}
                 handleVolumeRowInputBlur={handleVolumeRowInputBlur}
+                getProgressionProposal={getProgressionSuggestion}
+                onApplyProgression={handleApplyProgression}
+                onProgressionRuleChange={handleProgressionRuleChange}
+                onUngroupBlock={handleUngroupBlock}
                 isGapRecovery={false}
               />
             </TabsContent>
@@ -616,10 +747,10 @@ export function WorkoutExecutionDialog({
                 variant="outline"
                 onClick={handleCompleteWorkout}
                 disabled={executionState.workout.exercises.length === 0}
-                title="Mark workout as complete"
+                title={latestWorkoutFromStore.status === 'in-progress' ? 'Finish session and record duration' : 'Mark workout as complete'}
               >
                 <CheckCircle className="h-4 w-4 mr-2" />
-                Complete Workout
+                {latestWorkoutFromStore.status === 'in-progress' ? 'Finish Workout' : 'Complete Workout'}
               </Button>
             )}
           </div>
@@ -661,6 +792,23 @@ export function WorkoutExecutionDialog({
       </DialogContent>
     </Dialog>
     
+    {/* Conflict Resolution Dialog */}
+    {conflict && (
+      <WorkoutConflictDialog
+        conflict={conflict}
+        isOpen={showConflictDialog}
+        onClose={() => setShowConflictDialog(false)}
+        onResolve={(choices) => {
+          resolveConflict(workout.id, choices);
+          setShowConflictDialog(false);
+        }}
+        onKeepRemote={() => {
+          dismissConflict(workout.id);
+          setShowConflictDialog(false);
+        }}
+      />
+    )}
+    
     {/* Delete Confirmation Dialog */}
     <Dialog open={showDeleteConfirm} onOpenChange={setShowDeleteConfirm}>
       <DialogContent className="max-w-md">
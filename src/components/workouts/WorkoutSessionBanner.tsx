@@ -0,0 +1,63 @@
+/**
+ * Workout Session Banner - Persistent bar for the live workout session on every app page
+ * Shows elapsed time and set progress; opens the execution dialog or finishes the session
+ */
+
+import { useState } from 'react';
+import { useWorkoutsStore } from '@/stores/workoutsStore';
+import { Button } from '@/components/ui/button';
+import { CheckCircle, Timer } from 'lucide-react';
+import { WorkoutExecutionDialog } from './WorkoutExecutionDialog';
+import { useElapsedSeconds } from '@/hooks/useElapsedSeconds';
+import { formatElapsed } from '@/lib/workoutSession';
+
+export function WorkoutSessionBanner() {
+  const activeSession = useWorkoutsStore(state => state.getActiveSession());
+  const markAsComplete = useWorkoutsStore(state => state.markAsComplete);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const elapsed = useElapsedSeconds(activeSession?.startedAt);
+
+  if (!activeSession) return null;
+
+  const allSets = activeSession.exercises.flatMap(exercise => exercise.sets);
+  const completedSets = allSets.filter(set => set.completed).length;
+
+  const handleFinish = () => {
+    markAsComplete(activeSession.id).catch(error => {
+      console.error('Failed to finish workout session:', error);
+    });
+  };
+
+  return (
+    <>
+      <div className="border-b bg-primary/10">
+        <div className="flex flex-wrap items-center gap-3 px-4 py-2 md:px-6">
+          <Timer className="h-4 w-4 text-primary shrink-0" />
+          <span className="font-mono font-semibold tabular-nums">{formatElapsed(elapsed)}</span>
+          <span className="text-sm font-medium truncate">{activeSession.name}</span>
+          <span className="text-xs text-muted-foreground">
+            {completedSets}/{allSets.length} sets
+          </span>
+          <div className="ml-auto flex items-center gap-2">
+            <Button variant="outline" size="sm" className="h-7" onClick={() => setIsDialogOpen(true)}>
+              Open
+            </Button>
+            <Button size="sm" className="h-7" onClick={handleFinish}>
+              <CheckCircle className="h-3 w-3 mr-1" />
+              Finish
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {isDialogOpen && (
+        <WorkoutExecutionDialog
+          workout={activeSession}
+          isOpen={isDialogOpen}
+          onClose={() => setIsDialogOpen(false)}
+          onComplete={() => setIsDialogOpen(false)}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,79 @@
+/**
+ * Workout Session Panel - Start a live session, watch elapsed time and the per-exercise breakdown
+ * Finishing is done with the dialog's Finish/Complete button, which computes actualDuration
+ */
+
+import type { Exercise } from '@/types/fitness';
+import type { WorkoutDocument } from '@/types/workout';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Play, Timer, X } from 'lucide-react';
+import { useElapsedSeconds } from '@/hooks/useElapsedSeconds';
+import { formatElapsed, getExerciseTimeBreakdown } from '@/lib/workoutSession';
+
+interface WorkoutSessionPanelProps {
+  workout: WorkoutDocument;
+  exercises: Exercise[]; // Live exercises from the execution state
+  onStart: () => void;
+  onDiscard: () => void;
+}
+
+export function WorkoutSessionPanel({ workout, exercises, onStart, onDiscard }: WorkoutSessionPanelProps) {
+  const isRunning = workout.status === 'in-progress' && !!workout.startedAt;
+  const elapsed = useElapsedSeconds(
+    workout.startedAt,
+    workout.status === 'completed' ? workout.completedAt : undefined
+  );
+  const breakdown = getExerciseTimeBreakdown({ exercises, startedAt: workout.startedAt });
+
+  if (workout.status === 'planned') {
+    return (
+      <div className="flex flex-wrap items-center gap-3 rounded-lg border bg-muted/30 px-3 py-2">
+        <Button size="sm" onClick={onStart} disabled={exercises.length === 0}>
+          <Play className="h-4 w-4 mr-2" />
+          Start Workout
+        </Button>
+        <span className="text-xs text-muted-foreground">
+          Tracks elapsed time and records the actual duration when you finish
+        </span>
+      </div>
+    );
+  }
+
+  // Completed without a live session (logged after the fact) - nothing to show
+  if (!workout.startedAt) return null;
+
+  return (
+    <div className="rounded-lg border px-3 py-2 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Timer className="h-4 w-4 text-primary shrink-0" />
+        <span className="text-xl font-bold tabular-nums">{formatElapsed(elapsed)}</span>
+        <Badge variant={isRunning ? 'default' : 'secondary'}>
+          {isRunning ? 'In progress' : 'Session'}
+        </Badge>
+        <span className="text-xs text-muted-foreground flex-1">
+          Started {new Date(workout.startedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </span>
+        {isRunning && (
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={onDiscard} title="Stop timing without finishing">
+            <X className="h-3 w-3 mr-1" />
+            Discard Session
+          </Button>
+        )}
+      </div>
+
+      {breakdown.length > 0 && (
+        <div className="space-y-1">
+          {breakdown.map(entry => (
+            <div key={entry.exerciseId} className="flex items-center justify-between text-xs">
+              <span className="truncate">{entry.exerciseName}</span>
+              <span className="text-muted-foreground tabular-nums">
+                {entry.completedSets} set{entry.completedSets === 1 ? '' : 's'} · {formatElapsed(entry.seconds)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { useState, useEffect } from 'react';
+import { getElapsedSeconds } from '@/lib/workoutSession';
+
+/**
+ * Seconds since `startedAt`, ticking every second until `endAt` is set
+ */
+export function useElapsedSeconds(startedAt?: string, endAt?: string): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!startedAt || endAt) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [startedAt, endAt]);
+
+  if (!startedAt) return 0;
+  return getElapsedSeconds(startedAt, endAt || now);
+}
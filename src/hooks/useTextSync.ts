@@ -1,6 +1,6 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import type { Workout } from '@/types/fitness';
-import { ComprehensiveWorkoutParser } from '@/lib/comprehensiveWorkoutParser';
+import { parseWorkoutText, serializeWorkoutText } from '@/lib/workoutTextFormat';
 
 interface UseTextSyncProps {
   workout: Workout;
@@ -23,121 +23,32 @@ export function useTextSync({ workout, progress, onWorkoutAndProgressUpdate, ena
   const textAreaRef = useRef<HTMLTextAreaElement | null>(null);
 
   const generateTextFromState = useCallback((): string => {
-    return ComprehensiveWorkoutParser.generateWorkoutText(workout, progress);
+    // Progress is the live completion state; the serializer reads it from each set
+    const exercises = workout.exercises.map(exercise => ({
+      ...exercise,
+      sets: exercise.sets.map((set, index) => ({
+        ...set,
+        completed: progress[exercise.id]?.[index] ?? set.completed
+      }))
+    }));
+    return serializeWorkoutText(exercises);
   }, [workout, progress]);
 
   const parseTextToState = useCallback((text: string): void => {
-    try {
-      const parsed = ComprehensiveWorkoutParser.parseWorkoutText(text);
-      const exercises = ComprehensiveWorkoutParser.convertToExercises(parsed, workout);
-      
-      const updatedExercises = exercises.map((exercise, index) => {
-        const originalExercise = workout.exercises[index];
-        if (originalExercise) {
-          return { ...exercise, id: originalExercise.id };
-        }
-        return exercise;
-      });
+    const { exercises, errors } = parseWorkoutText(text, workout.exercises);
 
-      const newWorkout: Workout = {
-        ...workout,
-        exercises: updatedExercises
-      };
-      
-      // Calculate progress from parsed data
-      const newProgress: { [exerciseId: string]: boolean[] } = {};
-      
-      newWorkout.exercises.forEach((exercise, exerciseIndex) => {
-        const parsedExercise = parsed.workout[exerciseIndex];
-        const progressArray = new Array(exercise.sets.length).fill(false);
-        
-        // Gap recovery mode: mark all exercises as complete by default
-        if (isGapRecovery) {
-          progressArray.fill(true);
-        } else if (parsedExercise) {
-          // Handle exercise-level completion (- ex_1 +)
-          if (parsedExercise.exerciseLevelDone) {
-            // Mark all sets as completed
-            progressArray.fill(true);
-          } else {
-            // Handle set-based completion (3x10x25kg ++)
-            if (parsedExercise.sets && parsedExercise.sets.length > 0) {
-              let setIndex = 0;
-              parsedExercise.sets.forEach(parsedSet => {
-                const setsCompleted = parsedSet.sets_done || 0;
-                const setsPlanned = parsedSet.sets_planned;
-                
-                for (let i = 0; i < setsPlanned; i++) {
-                  if (setIndex < progressArray.length) {
-                    progressArray[setIndex] = i < setsCompleted;
-                    setIndex++;
-                  }
-                }
-              });
-            }
-            
-            // Handle granular completion for distance/duration volume rows using new arrays
-            let distanceSetIndex = 0;
-            let timeSetIndex = 0;
-            
-            exercise.sets.forEach((set, setIndex) => {
-              if (set.volumeType === 'distance') {
-                // Map to specific distance entry completion status
-                if (parsedExercise.distances && distanceSetIndex < parsedExercise.distances.length) {
-                  const distanceEntry = parsedExercise.distances[distanceSetIndex];
-                  if (setIndex < progressArray.length) {
-                    progressArray[setIndex] = distanceEntry.done || false;
-                  }
-                  distanceSetIndex++;
-                } else if (parsedExercise.distanceDone) {
-                  // Fallback to legacy logic
-                  if (setIndex < progressArray.length) {
-                    progressArray[setIndex] = true;
-                  }
-                }
-              } else if (set.volumeType === 'duration') {
-                // Map to specific time entry completion status
-                if (parsedExercise.times && timeSetIndex < parsedExercise.times.length) {
-                  const timeEntry = parsedExercise.times[timeSetIndex];
-                  if (setIndex < progressArray.length) {
-                    progressArray[setIndex] = timeEntry.done || false;
-                  }
-                  timeSetIndex++;
-                } else if (parsedExercise.timeDone) {
-                  // Fallback to legacy logic
-                  if (setIndex < progressArray.length) {
-                    progressArray[setIndex] = true;
-                  }
-                }
-              }
-            });
-            
-            // Handle completion-only exercises (no volume, just completion)
-            if (parsedExercise.done) {
-              // Mark the completion set as done
-              const completionSetIndex = exercise.sets.findIndex(set => set.volumeType === 'completion');
-              if (completionSetIndex !== -1 && completionSetIndex < progressArray.length) {
-                progressArray[completionSetIndex] = true;
-              } else if (progressArray.length > 0) {
-                // Fallback: mark first set as completed
-                progressArray[0] = true;
-              }
-            }
-          }
-        }
-        
-        // REMOVED: Progress preservation logic that overrode user intent
-        // Text editor is the source of truth - always respect what user typed
-        
-        newProgress[exercise.id] = progressArray;
-      });
+    // Keep the last valid state until the text parses cleanly (the editor lists the errors)
+    if (errors.length > 0) return;
 
-      // Update both workout structure and progress atomically
-      onWorkoutAndProgressUpdate(newWorkout, newProgress);
-      lastParsedTextRef.current = text;
-    } catch (error) {
-      console.error('Error parsing workout text:', error);
-    }
+    const newProgress: { [exerciseId: string]: boolean[] } = {};
+    exercises.forEach(exercise => {
+      // Gap recovery mode: mark all exercises as complete by default
+      newProgress[exercise.id] = exercise.sets.map(set => isGapRecovery || !!set.completed);
+    });
+
+    // Update both workout structure and progress atomically
+    onWorkoutAndProgressUpdate({ ...workout, exercises }, newProgress);
+    lastParsedTextRef.current = text;
   }, [onWorkoutAndProgressUpdate]); // Removed workout/progress deps to prevent function recreation
 
   const syncUIToText = useCallback(() => {
@@ -1,5 +1,17 @@
 import { useState, useEffect, useCallback } from 'react';
-import type { Workout } from '@/types/fitness';
+import type { Workout, ExerciseSet } from '@/types/fitness';
+import { shouldRestAfterExercise } from '@/lib/exerciseBlocks';
+import {
+  loadRestTimer,
+  startRestTimer,
+  adjustRestTimer,
+  finishRestTimer,
+  clearRestTimer,
+  scheduleRestAlert,
+  getRestRemaining,
+  withActualRest,
+  type RestTimerState
+} from '@/lib/restTimer';
 
 interface WorkoutExecutionState {
   workout: Workout;
@@ -12,6 +24,25 @@ interface UseWorkoutExecutionProps {
   isGapRecovery?: boolean;
 }
 
+/**
+ * Status after a completion change - a live session stays in progress until every set is done
+ */
+function getWorkoutStatus(workout: Workout, allSetsCompleted: boolean): Workout['status'] {
+  if (allSetsCompleted) return 'completed';
+  return workout.status === 'in-progress' ? 'in-progress' : 'planned';
+}
+
+/**
+ * Set completion with its timestamp (used for the session time breakdown)
+ */
+function withSetCompletion(set: ExerciseSet, completed: boolean): ExerciseSet {
+  if (completed === (set.completed || false)) return { ...set, completed };
+  if (completed) return { ...set, completed, completedAt: new Date().toISOString() };
+  const updated = { ...set, completed };
+  delete updated.completedAt;
+  return updated;
+}
+
 /**
  * Custom hook for managing workout execution state
  */
@@ -41,7 +72,28 @@ export function useWorkoutExecution({ initialWorkout, onWorkoutUpdate, isGapReco
     });
   }, [initialWorkout, isGapRecovery]);
 
-  const updateProgress = useCallback((exerciseId: string, setIndex: number, completed: boolean) => {
+  // Rest timer - only the timer belonging to this workout is surfaced
+  const [restTimer, setRestTimer] = useState<RestTimerState | null>(() => {
+    const stored = loadRestTimer();
+    return stored && stored.workoutId === initialWorkout.id ? stored : null;
+  });
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!restTimer) return;
+    // Re-arms the end alert after a reload; the alert itself outlives this hook
+    scheduleRestAlert(restTimer);
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [restTimer]);
+
+  const updateProgress = useCallback((
+    exerciseId: string,
+    setIndex: number,
+    completed: boolean,
+    transformWorkout?: (workout: Workout) => Workout
+  ) => {
     setExecutionState(prev => {
       // Update progress state
       const newProgress = {
@@ -57,22 +109,23 @@ export function useWorkoutExecution({ initialWorkout, onWorkoutUpdate, isGapReco
       );
 
       // Update workout data structure to persist completion status
+      const baseWorkout = transformWorkout ? transformWorkout(prev.workout) : prev.workout;
       const updatedWorkout = {
-        ...prev.workout,
-        exercises: prev.workout.exercises.map(exercise => {
+        ...baseWorkout,
+        exercises: baseWorkout.exercises.map(exercise => {
           if (exercise.id === exerciseId) {
             return {
               ...exercise,
-              sets: exercise.sets.map((set, index) => ({
-                ...set,
-                completed: index === setIndex ? completed : (set.completed || false)
-              }))
+              sets: exercise.sets.map((set, index) => index === setIndex
+                ? withSetCompletion(set, completed)
+                : { ...set, completed: set.completed || false }
+              )
             };
           }
           return exercise;
         }),
         // Auto-update workout status based on completion
-        status: allSetsCompleted ? 'completed' as const : 'planned' as const,
+        status: getWorkoutStatus(prev.workout, allSetsCompleted),
         completedAt: allSetsCompleted ? (prev.workout.completedAt || new Date().toISOString()) : undefined
       };
 
@@ -102,7 +155,7 @@ export function useWorkoutExecution({ initialWorkout, onWorkoutUpdate, isGapReco
     // Update workout with automatic status sync
     const workoutWithStatus = {
       ...newWorkout,
-      status: allSetsCompleted ? 'completed' as const : 'planned' as const,
+      status: getWorkoutStatus(newWorkout, allSetsCompleted),
       completedAt: allSetsCompleted ? (newWorkout.completedAt || new Date().toISOString()) : undefined,
       // Also update the set completion in the workout structure to match progress
       exercises: newWorkout.exercises.map(exercise => {
@@ -149,8 +202,71 @@ export function useWorkoutExecution({ initialWorkout, onWorkoutUpdate, isGapReco
   const toggleSetCompletion = useCallback((exerciseId: string, setIndex: number) => {
     const currentProgress = executionState.progress[exerciseId] || [];
     const isCurrentlyCompleted = currentProgress[setIndex] || false;
-    updateProgress(exerciseId, setIndex, !isCurrentlyCompleted);
-  }, [executionState.progress, updateProgress]);
+
+    if (isGapRecovery) {
+      updateProgress(exerciseId, setIndex, !isCurrentlyCompleted);
+      return;
+    }
+
+    // Un-checking the set that is being rested after cancels the rest without logging it
+    if (isCurrentlyCompleted) {
+      if (restTimer && restTimer.exerciseId === exerciseId && restTimer.setIndex === setIndex) {
+        clearRestTimer();
+        setRestTimer(null);
+      }
+      updateProgress(exerciseId, setIndex, false);
+      return;
+    }
+
+    // Completing a set ends the running rest (logged on the set it followed) and starts the next one
+    const finishedRest = restTimer ? finishRestTimer(restTimer) : null;
+    updateProgress(
+      exerciseId,
+      setIndex,
+      true,
+      finishedRest ? (workout) => withActualRest(workout, finishedRest) : undefined
+    );
+
+    // No rest after the last open set of the workout, or mid-round in a superset/circuit
+    const isLastOpenSet = Object.entries(executionState.progress).every(([id, sets]) =>
+      sets.every((completed, index) => completed || (id === exerciseId && index === setIndex))
+    );
+    const exercise = executionState.workout.exercises.find(ex => ex.id === exerciseId);
+    const restTime = exercise?.sets[setIndex]?.restTime || 0;
+    const restsHere = shouldRestAfterExercise(executionState.workout.exercises, exerciseId);
+    setRestTimer(exercise && restTime > 0 && !isLastOpenSet && restsHere
+      ? startRestTimer({
+          workoutId: executionState.workout.id,
+          exerciseId,
+          exerciseName: exercise.name,
+          setIndex,
+          duration: restTime,
+          startedAt: Date.now()
+        })
+      : null
+    );
+  }, [executionState.progress, executionState.workout, updateProgress, restTimer, isGapRecovery]);
+
+  /**
+   * End the rest early (or dismiss it once over), logging the time rested
+   */
+  const skipRest = useCallback(() => {
+    if (!restTimer) return;
+    const finishedRest = finishRestTimer(restTimer);
+    setRestTimer(null);
+    if (!finishedRest) return;
+
+    setExecutionState(prev => {
+      const updatedWorkout = withActualRest(prev.workout, finishedRest);
+      onWorkoutUpdate(updatedWorkout);
+      return { ...prev, workout: updatedWorkout };
+    });
+  }, [restTimer, onWorkoutUpdate]);
+
+  const adjustRest = useCallback((deltaSeconds: number) => {
+    if (!restTimer) return;
+    setRestTimer(adjustRestTimer(restTimer, deltaSeconds));
+  }, [restTimer]);
 
   const toggleExerciseCompletion = useCallback((exerciseId: string) => {
     setExecutionState(prev => {
@@ -179,16 +295,13 @@ export function useWorkoutExecution({ initialWorkout, onWorkoutUpdate, isGapReco
           if (ex.id === exerciseId) {
             return {
               ...ex,
-              sets: ex.sets.map(set => ({
-                ...set,
-                completed: newCompletionStatus
-              }))
+              sets: ex.sets.map(set => withSetCompletion(set, newCompletionStatus))
             };
           }
           return ex;
         }),
         // Auto-update workout status based on completion
-        status: allSetsCompleted ? 'completed' as const : 'planned' as const,
+        status: getWorkoutStatus(prev.workout, allSetsCompleted),
         completedAt: allSetsCompleted ? (prev.workout.completedAt || new Date().toISOString()) : undefined
       };
 
@@ -245,10 +358,7 @@ export function useWorkoutExecution({ initialWorkout, onWorkoutUpdate, isGapReco
         ...prev.workout,
         exercises: prev.workout.exercises.map(exercise => ({
           ...exercise,
-          sets: exercise.sets.map(set => ({
-            ...set,
-            completed: true
-          }))
+          sets: exercise.sets.map(set => withSetCompletion(set, true))
         }))
       };
 
@@ -272,6 +382,12 @@ export function useWorkoutExecution({ initialWorkout, onWorkoutUpdate, isGapReco
     toggleExerciseCompletion,
     getExerciseProgress,
     getOverallProgress,
-    completeAllExercises
+    completeAllExercises,
+    restTimer: restTimer && {
+      ...restTimer,
+      remaining: getRestRemaining(restTimer, now)
+    },
+    skipRest,
+    adjustRest
   };
 }
@@ -0,0 +1,332 @@
+/**
+ * Account export - Versioned JSON bundle of everything a user owns, flat CSV of sets, and restore preparation
+ * Bundles carry `version`; older versions are upgraded step by step through ACCOUNT_EXPORT_MIGRATIONS on import
+ */
+
+import type { AIPlan, PlanVersion } from '@/types/aiCoach';
+import type { CoachChatThread } from '@/types/coachChat';
+import type { BodyMeasurement } from '@/types/measurements';
+import type { CustomPromptConfig, UserData, UserProfile } from '@/types/profile';
+import type { WorkoutDocument } from '@/types/workout';
+import { generateEvenRanks } from './lexoRank';
+import { normalizeExercises } from './workoutNormalization';
+
+export const ACCOUNT_EXPORT_FORMAT = 'tailored-fitness-account';
+export const ACCOUNT_EXPORT_VERSION = 5;
+
+/**
+ * Version history of one plan (users/{uid}/aiPlans/{planId}/versions)
+ */
+export interface PlanVersionHistory {
+  planId: string;
+  versions: PlanVersion[];
+}
+
+export type AccountSettings = Pick<UserData, 'theme' | 'onboardingCompleted' | 'llmSettings' | 'progressionRules' | 'oneRepMaxFormula'>;
+
+export interface AccountExportBundle {
+  format: typeof ACCOUNT_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string; // ISO timestamp
+  account: { email?: string; displayName?: string }; // Informational, not restored
+  profile: UserProfile;
+  settings: AccountSettings;
+  customPrompts: { goals?: CustomPromptConfig; microcycle?: CustomPromptConfig };
+  aiPlan: AIPlan | null;
+  inactivePlans: AIPlan[]; // Paused and archived plans, since v3
+  planVersions: PlanVersionHistory[]; // Since v4
+  coachChats: CoachChatThread[]; // Since v5
+  workouts: WorkoutDocument[];
+  measurements: BodyMeasurement[]; // Since v2
+}
+
+export interface AccountRestore {
+  workouts: WorkoutDocument[]; // New IDs and ranks
+  measurements: BodyMeasurement[]; // New IDs
+  aiPlan: AIPlan | null; // New ID, workout references remapped
+  inactivePlans: AIPlan[]; // New IDs, workout references remapped
+  planVersions: PlanVersionHistory[]; // Under the new plan IDs
+  coachChats: CoachChatThread[]; // New IDs, plan and workout references remapped
+  userFields: Partial<UserData>; // For updateProfile
+}
+
+/**
+ * Import error with a message meant for the user
+ */
+export class AccountImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccountImportError';
+  }
+}
+
+/**
+ * Upgrades from version N to N + 1, keyed by N
+ * When the bundle shape changes: bump ACCOUNT_EXPORT_VERSION and add the step from the previous version here
+ */
+const ACCOUNT_EXPORT_MIGRATIONS: Record<number, (bundle: Record<string, unknown>) => Record<string, unknown>> = {
+  // v2 added the body measurements log
+  1: bundle => ({ ...bundle, measurements: [] }),
+  // v3 added paused and archived AI plans
+  2: bundle => ({ ...bundle, inactivePlans: [] }),
+  // v4 added plan version history
+  3: bundle => ({ ...bundle, planVersions: [] }),
+  // v5 added coach chat threads
+  4: bundle => ({ ...bundle, coachChats: [] })
+};
+
+/**
+ * JSON-safe copy: Firestore Timestamps and Dates become ISO strings, undefined is dropped
+ */
+function toPlainData<T>(value: T): T {
+  if (value === null || typeof value !== 'object') return value;
+  if (value instanceof Date) return value.toISOString() as T;
+  if (typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as unknown as { toDate: () => Date }).toDate().toISOString() as T;
+  }
+  if (Array.isArray(value)) return value.map(item => toPlainData(item)) as T;
+
+  const plain: Record<string, unknown> = {};
+  Object.entries(value).forEach(([key, entry]) => {
+    if (entry !== undefined) plain[key] = toPlainData(entry);
+  });
+  return plain as T;
+}
+
+export function createAccountExport(
+  user: UserData,
+  workouts: WorkoutDocument[],
+  aiPlan: AIPlan | null,
+  measurements: BodyMeasurement[],
+  inactivePlans: AIPlan[] = [],
+  planVersions: PlanVersionHistory[] = [],
+  coachChats: CoachChatThread[] = []
+): AccountExportBundle {
+  return toPlainData({
+    format: ACCOUNT_EXPORT_FORMAT,
+    version: ACCOUNT_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    account: { email: user.email, displayName: user.displayName },
+    profile: user.profile || {},
+    settings: {
+      theme: user.theme,
+      onboardingCompleted: user.onboardingCompleted,
+      llmSettings: user.llmSettings,
+      progressionRules: user.progressionRules,
+      oneRepMaxFormula: user.oneRepMaxFormula
+    },
+    customPrompts: {
+      goals: user.customGoalsPrompt,
+      microcycle: user.customMicrocyclePrompt
+    },
+    aiPlan,
+    inactivePlans,
+    planVersions,
+    coachChats,
+    workouts: workouts.map(workout => {
+      // Sync bookkeeping is device-specific
+      const exported = { ...workout };
+      delete exported.lastMutation;
+      return exported;
+    }),
+    measurements
+  });
+}
+
+/**
+ * Read an export file, upgrading older versions
+ */
+export function parseAccountExport(json: string): AccountExportBundle {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new AccountImportError('This file is not valid JSON.');
+  }
+
+  if (!raw || typeof raw !== 'object' || (raw as Record<string, unknown>).format !== ACCOUNT_EXPORT_FORMAT) {
+    throw new AccountImportError('This file is not an account export from this app.');
+  }
+
+  let bundle = raw as Record<string, unknown>;
+  const version = bundle.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new AccountImportError('The export has no valid version number.');
+  }
+  if (version > ACCOUNT_EXPORT_VERSION) {
+    throw new AccountImportError(`This export was made by a newer version of the app (format v${version}). Update the app and try again.`);
+  }
+
+  for (let from = version; from < ACCOUNT_EXPORT_VERSION; from++) {
+    const migrate = ACCOUNT_EXPORT_MIGRATIONS[from];
+    if (!migrate) throw new AccountImportError(`Exports in format v${from} can no longer be imported.`);
+    bundle = { ...migrate(bundle), version: from + 1 };
+  }
+
+  if (!Array.isArray(bundle.workouts) || bundle.workouts.some(workout => !workout?.id || !Array.isArray(workout.exercises))) {
+    throw new AccountImportError('The export is damaged: workouts are missing or incomplete.');
+  }
+  if (!Array.isArray(bundle.measurements) || bundle.measurements.some(measurement => !measurement?.date)) {
+    throw new AccountImportError('The export is damaged: measurements are missing or incomplete.');
+  }
+  if (!Array.isArray(bundle.inactivePlans) || bundle.inactivePlans.some(plan => !plan?.id)) {
+    throw new AccountImportError('The export is damaged: paused or archived plans are incomplete.');
+  }
+  if (!Array.isArray(bundle.planVersions) || bundle.planVersions.some(history => !history?.planId || !Array.isArray(history.versions))) {
+    throw new AccountImportError('The export is damaged: plan history is incomplete.');
+  }
+  if (!Array.isArray(bundle.coachChats) || bundle.coachChats.some(thread => !thread?.id || !Array.isArray(thread.messages))) {
+    throw new AccountImportError('The export is damaged: coach conversations are incomplete.');
+  }
+
+  return {
+    ...(bundle as unknown as AccountExportBundle),
+    profile: (bundle.profile as UserProfile) || {},
+    settings: (bundle.settings as AccountSettings) || {},
+    customPrompts: (bundle.customPrompts as AccountExportBundle['customPrompts']) || {},
+    aiPlan: (bundle.aiPlan as AIPlan) || null
+  };
+}
+
+/**
+ * Restore data for `uid`: new workout and plan IDs (references follow), ranks rebuilt per day
+ * `existingWorkouts` keeps restored ranks after anything already scheduled on the same day
+ */
+export function prepareAccountRestore(bundle: AccountExportBundle, uid: string, existingWorkouts: WorkoutDocument[] = []): AccountRestore {
+  const now = new Date().toISOString();
+  const idMap = new Map<string, string>();
+  bundle.workouts.forEach((workout, index) => {
+    idMap.set(workout.id, `workout_${Date.now()}_${index}_${Math.random().toString(36).substr(2, 9)}`);
+  });
+  // New plan IDs keep a restore from overwriting plans (and their history) already in the account
+  const planIdMap = new Map<string, string>();
+  [bundle.aiPlan, ...bundle.inactivePlans].forEach((plan, index) => {
+    if (plan) planIdMap.set(plan.id, `aiplan_${Date.now()}_${index}_${Math.random().toString(36).substr(2, 9)}`);
+  });
+
+  // Rebuild ranks per day in the exported order
+  const byDay = new Map<string, WorkoutDocument[]>();
+  bundle.workouts.forEach(workout => {
+    const key = workout.date || '';
+    byDay.set(key, [...(byDay.get(key) || []), workout]);
+  });
+  const ranks = new Map<string, string>();
+  byDay.forEach((dayWorkouts, day) => {
+    const existingRanks = existingWorkouts.filter(w => (w.date || '') === day).map(w => w.rank).sort();
+    const after = existingRanks[existingRanks.length - 1] || '';
+    const sorted = [...dayWorkouts].sort((a, b) => (a.rank || '').localeCompare(b.rank || ''));
+    // Prefixing with the last existing rank sorts every restored workout after it
+    generateEvenRanks(sorted.length).forEach((rank, index) => ranks.set(sorted[index].id, after + rank));
+  });
+
+  const workouts = bundle.workouts.map(workout => {
+    const restored: WorkoutDocument = {
+      ...workout,
+      id: idMap.get(workout.id)!,
+      rank: ranks.get(workout.id)!,
+      exercises: normalizeExercises(workout.exercises),
+      updatedAt: now
+    };
+    const planId = workout.aiCoachContext?.planId;
+    if (planId && planIdMap.has(planId)) {
+      restored.aiCoachContext = { ...workout.aiCoachContext!, planId: planIdMap.get(planId) };
+    }
+    delete restored.lastMutation;
+    return restored;
+  });
+
+  const remapIds = (ids: string[]) => ids.map(id => idMap.get(id)).filter((id): id is string => !!id);
+  const restorePlan = (plan: AIPlan): AIPlan => ({
+    ...plan,
+    id: planIdMap.get(plan.id)!,
+    userId: uid,
+    updatedAt: now,
+    currentMicrocycle: plan.currentMicrocycle && {
+      ...plan.currentMicrocycle,
+      workoutIds: remapIds(plan.currentMicrocycle.workoutIds)
+    },
+    completedMicrocycles: (plan.completedMicrocycles || []).map(microcycle => ({
+      ...microcycle,
+      workoutIds: remapIds(microcycle.workoutIds)
+    }))
+  });
+  const aiPlan = bundle.aiPlan && restorePlan(bundle.aiPlan);
+  const inactivePlans = bundle.inactivePlans.map(restorePlan);
+  // History of plans that aren't in the bundle has nothing to belong to
+  const planVersions = bundle.planVersions
+    .filter(history => planIdMap.has(history.planId))
+    .map(history => {
+      const planId = planIdMap.get(history.planId)!;
+      return {
+        planId,
+        versions: history.versions.map(version => ({ ...version, snapshot: { ...version.snapshot, planId } }))
+      };
+    });
+
+  // Actions on workouts that aren't in the bundle can't be applied any more
+  const coachChats = bundle.coachChats.map((thread, index): CoachChatThread => ({
+    ...thread,
+    id: `chat_${Date.now()}_${index}_${Math.random().toString(36).substr(2, 9)}`,
+    planId: thread.planId && planIdMap.get(thread.planId),
+    messages: thread.messages.map(message => ({
+      ...message,
+      actions: message.actions?.map(action => {
+        const workoutId = idMap.get(action.workoutId);
+        if (workoutId) return { ...action, workoutId };
+        return action.status === 'proposed' ? { ...action, status: 'failed', error: 'The workout no longer exists' } : action;
+      })
+    }))
+  }));
+
+  const userFields: Partial<UserData> = { profile: bundle.profile };
+  (Object.keys(bundle.settings) as (keyof AccountSettings)[]).forEach(key => {
+    if (bundle.settings[key] !== undefined) Object.assign(userFields, { [key]: bundle.settings[key] });
+  });
+  if (bundle.customPrompts.goals) userFields.customGoalsPrompt = bundle.customPrompts.goals;
+  if (bundle.customPrompts.microcycle) userFields.customMicrocyclePrompt = bundle.customPrompts.microcycle;
+
+  const measurements = bundle.measurements.map((measurement, index) => ({
+    ...measurement,
+    id: `measurement_${Date.now()}_${index}_${Math.random().toString(36).substr(2, 9)}`,
+    updatedAt: now
+  }));
+
+  return { workouts, measurements, aiPlan, inactivePlans, planVersions, coachChats, userFields };
+}
+
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const SET_CSV_COLUMNS = [
+  'workout_id', 'workout_name', 'date', 'status', 'completed_at', 'source',
+  'exercise_index', 'exercise_name', 'category', 'set_index', 'volume_type',
+  'reps', 'weight', 'weight_unit', 'duration_seconds', 'distance', 'distance_unit',
+  'rest_seconds', 'actual_rest_seconds', 'rpe', 'rir', 'tempo', 'completed', 'notes'
+];
+
+/**
+ * One row per set, for spreadsheets
+ */
+export function createSetsCsv(workouts: WorkoutDocument[]): string {
+  const rows = [SET_CSV_COLUMNS.join(',')];
+  const ordered = [...workouts].sort((a, b) => (a.date || '').localeCompare(b.date || '') || a.rank.localeCompare(b.rank));
+
+  ordered.forEach(workout => workout.exercises.forEach((exercise, exerciseIndex) => {
+    exercise.sets.forEach((set, setIndex) => {
+      const distance = set.volumeType === 'distance' ? parseFloat(set.notes?.replace(/[^\d.]/g, '') || '') : undefined;
+      rows.push([
+        workout.id, workout.name, workout.date, workout.status, workout.completedAt, workout.source,
+        exerciseIndex + 1, exercise.name, exercise.category, setIndex + 1, set.volumeType,
+        set.reps, set.weight, set.weight !== undefined ? set.weightUnit || 'kg' : undefined, set.duration,
+        Number.isNaN(distance) ? undefined : distance, set.volumeType === 'distance' ? set.distanceUnit || 'km' : undefined,
+        set.restTime, set.actualRestTime, set.rpe, set.rir, set.tempo, set.completed ? 'true' : 'false',
+        set.volumeType === 'distance' || set.volumeType === 'duration' ? undefined : set.notes
+      ].map(csvField).join(','));
+    });
+  }));
+
+  return rows.join('\n');
+}
@@ -0,0 +1,561 @@
+/**
+ * Activity import - GPX, TCX and FIT recordings as completed cardio workouts
+ * Files are reduced to time-ordered track points, summarized (distance, moving time, splits,
+ * heart rate, elevation) and turned into a workout whose distance sets are the splits.
+ */
+
+import type { Exercise, ExerciseSet } from '@/types/fitness';
+import type {
+  ActivitySample,
+  ActivitySplit,
+  ActivitySport,
+  ActivitySummary,
+  WorkoutDocument
+} from '@/types/workout';
+import { enhanceExerciseWithDatabase } from './exerciseDatabase';
+import { formatDuration } from './workoutTextFormat';
+
+export type ActivityFileFormat = ActivitySummary['sourceFormat'];
+
+export const ACTIVITY_FILE_ACCEPT = '.gpx,.tcx,.fit';
+
+interface TrackPoint {
+  time: number; // ms since epoch
+  lat?: number;
+  lon?: number;
+  elevation?: number; // meters
+  heartRate?: number; // bpm
+  distance?: number; // Cumulative meters as recorded by the device
+}
+
+export interface ParsedActivity {
+  format: ActivityFileFormat;
+  sport: ActivitySport;
+  name?: string;
+  points: TrackPoint[];
+}
+
+/**
+ * Unreadable or empty activity file, with a message meant for the user
+ */
+export class ActivityImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ActivityImportError';
+  }
+}
+
+const MOVING_SPEED_MS = 0.5; // Slower than this between two points counts as stopped
+const MAX_SAMPLES = 200;
+const METERS_PER_MILE = 1609.344;
+
+const SPORT_LABELS: Record<ActivitySport, { exercise: string; activity: string }> = {
+  running: { exercise: 'Running', activity: 'Run' },
+  cycling: { exercise: 'Cycling', activity: 'Ride' },
+  walking: { exercise: 'Brisk Walking', activity: 'Walk' },
+  hiking: { exercise: 'Hiking', activity: 'Hike' },
+  swimming: { exercise: 'Swimming', activity: 'Swim' },
+  other: { exercise: 'Cardio', activity: 'Activity' }
+};
+
+function toSport(value: string | undefined): ActivitySport {
+  const text = (value || '').toLowerCase();
+  if (/run|jog/.test(text)) return 'running';
+  if (/cycl|bik|ride/.test(text)) return 'cycling';
+  if (/hik/.test(text)) return 'hiking';
+  if (/walk/.test(text)) return 'walking';
+  if (/swim/.test(text)) return 'swimming';
+  return 'other';
+}
+
+function toNumber(text: string | null | undefined): number | undefined {
+  if (text === null || text === undefined || text.trim() === '') return undefined;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+// ============================================================================
+// GPX / TCX (XML)
+// ============================================================================
+
+function parseXml(text: string, label: string): Document {
+  const xml = new DOMParser().parseFromString(text, 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0) {
+    throw new ActivityImportError(`This ${label} file is not valid XML.`);
+  }
+  return xml;
+}
+
+/**
+ * First descendant with this local name, ignoring namespace prefixes (gpxtpx:hr, ns3:Speed, ...)
+ */
+function childText(parent: Element, localName: string): string | undefined {
+  return parent.getElementsByTagNameNS('*', localName)[0]?.textContent ?? undefined;
+}
+
+export function parseGpx(text: string): ParsedActivity {
+  const xml = parseXml(text, 'GPX');
+  const track = xml.getElementsByTagNameNS('*', 'trk')[0];
+  const points: TrackPoint[] = [];
+
+  Array.from(xml.getElementsByTagNameNS('*', 'trkpt')).forEach(point => {
+    const time = Date.parse(childText(point, 'time') || '');
+    if (Number.isNaN(time)) return;
+    points.push({
+      time,
+      lat: toNumber(point.getAttribute('lat')),
+      lon: toNumber(point.getAttribute('lon')),
+      elevation: toNumber(childText(point, 'ele')),
+      heartRate: toNumber(childText(point, 'hr'))
+    });
+  });
+
+  return {
+    format: 'gpx',
+    sport: toSport(track && childText(track, 'type')),
+    name: (track && childText(track, 'name'))?.trim() || undefined,
+    points
+  };
+}
+
+export function parseTcx(text: string): ParsedActivity {
+  const xml = parseXml(text, 'TCX');
+  const activity = xml.getElementsByTagNameNS('*', 'Activity')[0];
+  const points: TrackPoint[] = [];
+
+  Array.from(xml.getElementsByTagNameNS('*', 'Trackpoint')).forEach(point => {
+    const time = Date.parse(childText(point, 'Time') || '');
+    if (Number.isNaN(time)) return;
+    const heartRate = point.getElementsByTagNameNS('*', 'HeartRateBpm')[0];
+    points.push({
+      time,
+      lat: toNumber(childText(point, 'LatitudeDegrees')),
+      lon: toNumber(childText(point, 'LongitudeDegrees')),
+      elevation: toNumber(childText(point, 'AltitudeMeters')),
+      heartRate: heartRate ? toNumber(childText(heartRate, 'Value')) : undefined,
+      distance: toNumber(childText(point, 'DistanceMeters'))
+    });
+  });
+
+  return {
+    format: 'tcx',
+    sport: toSport(activity?.getAttribute('Sport') ?? undefined),
+    name: activity ? childText(activity, 'Notes')?.trim() || undefined : undefined,
+    points
+  };
+}
+
+// ============================================================================
+// FIT (binary)
+// ============================================================================
+
+const FIT_EPOCH_OFFSET_MS = 631065600000; // 1989-12-31T00:00:00Z
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+
+const FIT_MESSAGE = { sport: 12, session: 18, record: 20 };
+const FIT_RECORD_FIELD = { lat: 0, lon: 1, altitude: 2, heartRate: 3, distance: 5, enhancedAltitude: 78, timestamp: 253 };
+const FIT_SPORTS: Record<number, ActivitySport> = { 1: 'running', 2: 'cycling', 5: 'swimming', 11: 'walking', 17: 'hiking' };
+
+interface FitFieldDefinition {
+  number: number;
+  size: number;
+  baseType: number;
+}
+
+interface FitMessageDefinition {
+  globalNumber: number;
+  littleEndian: boolean;
+  fields: FitFieldDefinition[];
+  developerDataSize: number;
+  size: number; // Bytes of one data message after its header
+}
+
+/**
+ * Read a numeric field; undefined for FIT's "invalid" sentinels and non-numeric types
+ */
+function readFitValue(view: DataView, offset: number, field: FitFieldDefinition, littleEndian: boolean): number | undefined {
+  const type = field.baseType & 0x1f;
+  let value: number;
+  let invalid: number;
+  switch (type) {
+    case 0: case 2: case 10: case 13: // enum, uint8, uint8z, byte
+      if (field.size !== 1) return undefined;
+      value = view.getUint8(offset);
+      invalid = type === 10 ? 0 : 0xff;
+      break;
+    case 1:
+      if (field.size !== 1) return undefined;
+      value = view.getInt8(offset);
+      invalid = 0x7f;
+      break;
+    case 3:
+      if (field.size !== 2) return undefined;
+      value = view.getInt16(offset, littleEndian);
+      invalid = 0x7fff;
+      break;
+    case 4: case 11:
+      if (field.size !== 2) return undefined;
+      value = view.getUint16(offset, littleEndian);
+      invalid = type === 11 ? 0 : 0xffff;
+      break;
+    case 5:
+      if (field.size !== 4) return undefined;
+      value = view.getInt32(offset, littleEndian);
+      invalid = 0x7fffffff;
+      break;
+    case 6: case 12:
+      if (field.size !== 4) return undefined;
+      value = view.getUint32(offset, littleEndian);
+      invalid = type === 12 ? 0 : 0xffffffff;
+      break;
+    default:
+      return undefined;
+  }
+  return value === invalid ? undefined : value;
+}
+
+export function parseFit(buffer: ArrayBuffer): ParsedActivity {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 12) throw new ActivityImportError('This FIT file is too short.');
+
+  const headerSize = view.getUint8(0);
+  const signature = String.fromCharCode(...new Uint8Array(buffer, 8, 4));
+  if (signature !== '.FIT' || (headerSize !== 12 && headerSize !== 14)) {
+    throw new ActivityImportError('This is not a FIT file.');
+  }
+
+  const end = Math.min(buffer.byteLength, headerSize + view.getUint32(4, true));
+  const definitions = new Map<number, FitMessageDefinition>();
+  const points: TrackPoint[] = [];
+  let sport: ActivitySport = 'other';
+  let lastTimestamp = 0; // FIT seconds, for compressed timestamp headers
+  let offset = headerSize;
+  // Truncated files would otherwise surface DataView's RangeError
+  const requireBytes = (count: number) => {
+    if (offset + count > end) throw new ActivityImportError('This FIT file is damaged.');
+  };
+
+  while (offset < end) {
+    const header = view.getUint8(offset++);
+
+    if ((header & 0xc0) === 0x40) {
+      // Definition message
+      const localType = header & 0x0f;
+      requireBytes(5);
+      const littleEndian = view.getUint8(offset + 1) === 0;
+      const globalNumber = view.getUint16(offset + 2, littleEndian);
+      const fieldCount = view.getUint8(offset + 4);
+      offset += 5;
+      requireBytes(fieldCount * 3);
+      const fields: FitFieldDefinition[] = [];
+      for (let i = 0; i < fieldCount; i++, offset += 3) {
+        fields.push({ number: view.getUint8(offset), size: view.getUint8(offset + 1), baseType: view.getUint8(offset + 2) });
+      }
+      let developerDataSize = 0;
+      if (header & 0x20) {
+        requireBytes(1);
+        const developerFieldCount = view.getUint8(offset++);
+        requireBytes(developerFieldCount * 3);
+        for (let i = 0; i < developerFieldCount; i++, offset += 3) developerDataSize += view.getUint8(offset + 1);
+      }
+      const size = fields.reduce((total, field) => total + field.size, developerDataSize);
+      definitions.set(localType, { globalNumber, littleEndian, fields, developerDataSize, size });
+      continue;
+    }
+
+    // Data message (normal or compressed timestamp header)
+    const compressed = (header & 0x80) !== 0;
+    const localType = compressed ? (header >> 5) & 0x03 : header & 0x0f;
+    const definition = definitions.get(localType);
+    if (!definition) throw new ActivityImportError('This FIT file is damaged (data before its definition).');
+
+    if (compressed) {
+      const timeOffset = header & 0x1f;
+      lastTimestamp += (timeOffset - (lastTimestamp & 0x1f)) & 0x1f;
+    }
+
+    requireBytes(definition.size);
+    const values = new Map<number, number>();
+    definition.fields.forEach(field => {
+      const value = readFitValue(view, offset, field, definition.littleEndian);
+      if (value !== undefined) values.set(field.number, value);
+      offset += field.size;
+    });
+    offset += definition.developerDataSize;
+
+    const timestamp = values.get(FIT_RECORD_FIELD.timestamp);
+    if (timestamp !== undefined) lastTimestamp = timestamp;
+
+    if (definition.globalNumber === FIT_MESSAGE.record) {
+      const lat = values.get(FIT_RECORD_FIELD.lat);
+      const lon = values.get(FIT_RECORD_FIELD.lon);
+      const altitude = values.get(FIT_RECORD_FIELD.enhancedAltitude) ?? values.get(FIT_RECORD_FIELD.altitude);
+      const distance = values.get(FIT_RECORD_FIELD.distance);
+      points.push({
+        time: FIT_EPOCH_OFFSET_MS + lastTimestamp * 1000,
+        lat: lat !== undefined ? lat * SEMICIRCLES_TO_DEGREES : undefined,
+        lon: lon !== undefined ? lon * SEMICIRCLES_TO_DEGREES : undefined,
+        elevation: altitude !== undefined ? altitude / 5 - 500 : undefined,
+        heartRate: values.get(FIT_RECORD_FIELD.heartRate),
+        distance: distance !== undefined ? distance / 100 : undefined
+      });
+    } else if (definition.globalNumber === FIT_MESSAGE.session || definition.globalNumber === FIT_MESSAGE.sport) {
+      const sportValue = values.get(definition.globalNumber === FIT_MESSAGE.session ? 5 : 0);
+      if (sportValue !== undefined) sport = FIT_SPORTS[sportValue] ?? 'other';
+    }
+  }
+
+  return { format: 'fit', sport, points };
+}
+
+/**
+ * Parse a dropped file, choosing the parser by content (extensions are often wrong)
+ */
+export async function parseActivityFile(file: File): Promise<ParsedActivity> {
+  const buffer = await file.arrayBuffer();
+  const bytes = new Uint8Array(buffer);
+  if (bytes.length >= 12 && String.fromCharCode(...bytes.slice(8, 12)) === '.FIT') {
+    return parseFit(buffer);
+  }
+
+  const text = new TextDecoder().decode(bytes);
+  if (/<gpx[\s>]/.test(text)) return parseGpx(text);
+  if (/<TrainingCenterDatabase[\s>]/.test(text)) return parseTcx(text);
+  throw new ActivityImportError('Unsupported file. Choose a GPX, TCX or FIT file.');
+}
+
+// ============================================================================
+// Summary
+// ============================================================================
+
+function haversineMeters(a: TrackPoint, b: TrackPoint): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat! - a.lat!);
+  const dLon = toRadians(b.lon! - a.lon!);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat!)) * Math.cos(toRadians(b.lat!)) * Math.sin(dLon / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Cumulative distance per point: the device's own values when present, otherwise from coordinates
+ */
+function cumulativeDistances(points: TrackPoint[]): number[] {
+  const withDeviceDistance = points.filter(point => point.distance !== undefined).length;
+  if (withDeviceDistance >= points.length / 2) {
+    let last = 0;
+    return points.map(point => {
+      last = Math.max(last, point.distance ?? last);
+      return last;
+    });
+  }
+
+  let total = 0;
+  let previous: TrackPoint | undefined;
+  return points.map(point => {
+    if (point.lat !== undefined && point.lon !== undefined) {
+      if (previous) total += haversineMeters(previous, point);
+      previous = point;
+    }
+    return total;
+  });
+}
+
+/**
+ * Elevation smoothed over a few points, so GPS noise doesn't inflate climbing
+ */
+function smoothedElevations(points: TrackPoint[]): (number | undefined)[] {
+  const window = 2;
+  return points.map((point, index) => {
+    if (point.elevation === undefined) return undefined;
+    const nearby = points.slice(Math.max(0, index - window), index + window + 1)
+      .map(p => p.elevation)
+      .filter((elevation): elevation is number => elevation !== undefined);
+    return nearby.reduce((sum, elevation) => sum + elevation, 0) / nearby.length;
+  });
+}
+
+function average(values: number[]): number | undefined {
+  return values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : undefined;
+}
+
+// Reduced rather than spread: 1 Hz recordings have more samples than the call stack allows arguments
+function maximum(values: number[]): number | undefined {
+  return values.length > 0 ? values.reduce((max, value) => Math.max(max, value), values[0]) : undefined;
+}
+
+export function summarizeActivity(activity: ParsedActivity, splitUnit: 'km' | 'mi' = 'km'): ActivitySummary {
+  const points = [...activity.points].sort((a, b) => a.time - b.time);
+  if (points.length < 2) throw new ActivityImportError('The file has no recorded track.');
+
+  const distances = cumulativeDistances(points);
+  const elevations = smoothedElevations(points);
+  const hasDistance = distances[distances.length - 1] > 0;
+  const splitDistance = splitUnit === 'mi' ? METERS_PER_MILE : 1000;
+
+  let movingSeconds = 0;
+  let elevationGain = 0;
+  let elevationLoss = 0;
+  const splits: ActivitySplit[] = [];
+  let split = { start: 0, seconds: 0, heartRates: [] as number[], gain: 0 };
+
+  const closeSplit = (endDistance: number) => {
+    splits.push({
+      distanceMeters: Math.round(endDistance - split.start),
+      movingSeconds: Math.round(split.seconds),
+      averageHeartRate: average(split.heartRates),
+      elevationGainMeters: elevations.some(e => e !== undefined) ? Math.round(split.gain) : undefined
+    });
+  };
+
+  for (let i = 1; i < points.length; i++) {
+    const seconds = (points[i].time - points[i - 1].time) / 1000;
+    const meters = distances[i] - distances[i - 1];
+    const moving = !hasDistance || (seconds > 0 && meters / seconds >= MOVING_SPEED_MS);
+    const movingTime = moving ? seconds : 0;
+    movingSeconds += movingTime;
+
+    const climb = elevations[i] !== undefined && elevations[i - 1] !== undefined ? elevations[i]! - elevations[i - 1]! : 0;
+    if (climb > 0) elevationGain += climb; else elevationLoss -= climb;
+
+    // An interval can cross one or more split boundaries; share its time out by distance
+    let from = distances[i - 1];
+    while (hasDistance && distances[i] >= split.start + splitDistance) {
+      const boundary = split.start + splitDistance;
+      const fraction = meters > 0 ? (boundary - from) / meters : 0;
+      split.seconds += movingTime * fraction;
+      split.gain += Math.max(0, climb * fraction);
+      closeSplit(boundary);
+      split = { start: boundary, seconds: 0, heartRates: [], gain: 0 };
+      from = boundary;
+    }
+    const remaining = meters > 0 ? (distances[i] - from) / meters : 1;
+    split.seconds += movingTime * remaining;
+    split.gain += Math.max(0, climb * remaining);
+    if (points[i].heartRate) split.heartRates.push(points[i].heartRate!);
+  }
+  // Last partial split, unless it's just a few meters of standing around
+  const totalDistance = distances[distances.length - 1];
+  if (hasDistance && totalDistance - split.start >= 50) closeSplit(totalDistance);
+
+  const heartRates = points.map(point => point.heartRate).filter((rate): rate is number => !!rate);
+  const hasElevation = elevations.some(elevation => elevation !== undefined);
+  const stride = Math.max(1, Math.ceil(points.length / MAX_SAMPLES));
+  const samples: ActivitySample[] = [];
+  for (let i = 0; i < points.length; i += stride) {
+    samples.push({
+      distanceKm: Math.round(distances[i]) / 1000,
+      elapsedSeconds: Math.round((points[i].time - points[0].time) / 1000),
+      elevation: elevations[i] !== undefined ? Math.round(elevations[i]! * 10) / 10 : undefined,
+      heartRate: points[i].heartRate
+    });
+  }
+
+  return {
+    sourceFormat: activity.format,
+    sport: activity.sport,
+    startTime: new Date(points[0].time).toISOString(),
+    endTime: new Date(points[points.length - 1].time).toISOString(),
+    distanceMeters: Math.round(totalDistance),
+    elapsedSeconds: Math.round((points[points.length - 1].time - points[0].time) / 1000),
+    movingSeconds: Math.round(movingSeconds),
+    averageHeartRate: average(heartRates),
+    maxHeartRate: maximum(heartRates),
+    elevationGainMeters: hasElevation ? Math.round(elevationGain) : undefined,
+    elevationLossMeters: hasElevation ? Math.round(elevationLoss) : undefined,
+    splitUnit,
+    splits,
+    samples
+  };
+}
+
+/**
+ * Pace per km or mile, e.g. "5:12"
+ */
+export function formatPace(seconds: number, meters: number, unit: 'km' | 'mi'): string {
+  if (meters <= 0) return '–';
+  const perUnit = Math.round(seconds / (meters / (unit === 'mi' ? METERS_PER_MILE : 1000)));
+  return `${Math.floor(perUnit / 60)}:${String(perUnit % 60).padStart(2, '0')}`;
+}
+
+export function formatActivityDistance(meters: number, unit: 'km' | 'mi'): string {
+  const value = meters / (unit === 'mi' ? METERS_PER_MILE : 1000);
+  return `${Math.round(value * 100) / 100}${unit}`;
+}
+
+/**
+ * "Morning Run", "Evening Ride", ... from the local start time
+ */
+export function getDefaultActivityName(summary: ActivitySummary): string {
+  const hour = new Date(summary.startTime).getHours();
+  const partOfDay = hour < 12 ? 'Morning' : hour < 17 ? 'Afternoon' : hour < 21 ? 'Evening' : 'Night';
+  return `${partOfDay} ${SPORT_LABELS[summary.sport].activity}`;
+}
+
+/**
+ * Completed cardio workout for `addWorkout`; each split becomes a distance set in its own volume row
+ */
+export function buildActivityWorkout(summary: ActivitySummary, name?: string): Partial<WorkoutDocument> {
+  const exerciseName = SPORT_LABELS[summary.sport].exercise;
+  const details = enhanceExerciseWithDatabase({ name: exerciseName, category: 'Cardio' });
+  const unitMeters = summary.splitUnit === 'mi' ? METERS_PER_MILE : 1000;
+
+  const sets: ExerciseSet[] = summary.splits.length > 0
+    ? summary.splits.map((split, index) => {
+      const distance = Math.round((split.distanceMeters / unitMeters) * 100) / 100;
+      return {
+        reps: 1,
+        restTime: 0,
+        duration: split.movingSeconds,
+        notes: `${distance}${summary.splitUnit}`,
+        volumeType: 'distance',
+        distanceUnit: summary.splitUnit,
+        volumeRowId: `volume-activity-${index}-${Math.random().toString(36).substr(2, 9)}`,
+        completed: true
+      };
+    })
+    : [{
+      reps: 1,
+      restTime: 0,
+      duration: summary.movingSeconds,
+      notes: formatDuration(summary.movingSeconds),
+      volumeType: 'duration',
+      volumeRowId: `volume-activity-0-${Math.random().toString(36).substr(2, 9)}`,
+      completed: true
+    }];
+
+  const exercise: Exercise = {
+    id: `exercise-activity-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    name: exerciseName,
+    category: details.category,
+    muscleGroups: details.muscleGroups,
+    equipment: details.equipment,
+    instructions: '',
+    sets
+  };
+
+  const minutes = Math.max(1, Math.round(summary.elapsedSeconds / 60));
+  const start = new Date(summary.startTime);
+  const localDate = `${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, '0')}-${String(start.getDate()).padStart(2, '0')}`;
+  const headline = [
+    summary.distanceMeters > 0 && formatActivityDistance(summary.distanceMeters, summary.splitUnit),
+    formatDuration(summary.movingSeconds),
+    summary.distanceMeters > 0 && `${formatPace(summary.movingSeconds, summary.distanceMeters, summary.splitUnit)}/${summary.splitUnit}`
+  ].filter(Boolean).join(' · ');
+
+  return {
+    name: name?.trim() || getDefaultActivityName(summary),
+    date: localDate,
+    status: 'completed',
+    startedAt: summary.startTime,
+    completedAt: summary.endTime,
+    type: 'cardio',
+    focus: SPORT_LABELS[summary.sport].exercise,
+    value: `Imported ${summary.sourceFormat.toUpperCase()} recording: ${headline}`,
+    exercises: [exercise],
+    checkIns: { greenFlags: [], redFlags: [] },
+    estimatedDuration: minutes,
+    actualDuration: minutes,
+    activity: summary,
+    source: 'manual'
+  };
+}
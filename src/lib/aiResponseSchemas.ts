@@ -0,0 +1,340 @@
+/**
+ * AI response schemas and repair loop
+ * Validates model output for the AI Coach and, when it doesn't match, sends the
+ * field-level errors back to the model for a corrected response.
+ * Streamed responses are partially parsed along the way to drive live previews.
+ */
+
+import { s, validateSchema, formatValidationIssues, type Schema, type ValidationIssue } from '@/lib/schemaValidation';
+import { callLLM } from '@/lib/openaiProxy';
+import { parsePartialJson } from '@/lib/partialJson';
+import type { LLMSettings, LLMMessage, LLMCompletion } from '@/types/llm';
+import type {
+  AIGeneratedSet,
+  AIGeneratedExercise,
+  AIGeneratedWorkout,
+  AIGoalsPayload,
+  AIGoalsPreview,
+  AIMicrocyclePayload,
+  AIMicrocyclePreview,
+  MicrocycleGenerationResponse
+} from '@/types/aiCoach';
+
+/**
+ * Number of repair round-trips after the first attempt
+ */
+export const AI_RESPONSE_MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Minimum time between partial parses of a streamed response
+ */
+const STREAM_PREVIEW_INTERVAL_MS = 200;
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const stringList = s.optional(s.array(s.string()));
+
+const aiSetSchema: Schema<AIGeneratedSet> = s.object<AIGeneratedSet>({
+  reps: s.withDefault(s.number({ min: 0 }), 0), // Duration/distance sets may omit reps
+  weight: s.optional(s.number({ min: 0 })),
+  duration: s.optional(s.number({ min: 0 })),
+  restTime: s.optional(s.number({ min: 0 })),
+  notes: s.optional(s.string()),
+  volumeType: s.optional(s.oneOf(['sets-reps', 'sets-reps-weight', 'duration', 'distance', 'completion'] as const)),
+});
+
+const aiExerciseSchema: Schema<AIGeneratedExercise> = s.object<AIGeneratedExercise>({
+  id: s.optional(s.string()),
+  name: s.string({ minLength: 1 }),
+  category: s.optional(s.string()),
+  muscleGroups: stringList,
+  equipment: stringList,
+  instructions: s.optional(s.string()),
+  sets: s.array(aiSetSchema, { minLength: 1 }),
+});
+
+const aiWorkoutSchema: Schema<AIGeneratedWorkout> = s.object<AIGeneratedWorkout>({
+  name: s.optional(s.string()),
+  dayOfWeek: s.optional(s.number({ min: 0, max: 7, integer: true })),
+  type: s.optional(s.string()),
+  focus: s.optional(s.string()),
+  value: s.optional(s.string()),
+  exercises: s.array(aiExerciseSchema, { minLength: 1 }),
+  estimatedDuration: s.optional(s.number({ min: 1 })),
+  checkIns: s.optional(s.object({
+    greenFlags: s.array(s.string()),
+    redFlags: s.array(s.string()),
+  })),
+});
+
+/**
+ * Model payload behind GoalsGenerationResponse
+ */
+export const goalsGenerationResponseSchema: Schema<AIGoalsPayload> = s.object<AIGoalsPayload>({
+  macrocycleGoal: s.object({
+    name: s.string({ minLength: 1 }),
+    value: s.string({ minLength: 1 }),
+    durationWeeks: s.optional(s.number({ min: 1, max: 104, integer: true })),
+    successIndicators: stringList,
+    promisedOutcome: s.optional(s.string()),
+  }),
+  mesocycleMilestones: s.array(s.object({
+    name: s.string({ minLength: 1 }),
+    durationWeeks: s.number({ min: 1, max: 52, integer: true }),
+    focus: s.string(),
+    value: s.string(),
+    successIndicators: stringList,
+  }), { minLength: 1 }),
+  explanation: s.optional(s.string()),
+});
+
+/**
+ * Legacy microcycle shape ({ microcycle: { workouts } })
+ */
+export const microcycleGenerationResponseSchema: Schema<Omit<MicrocycleGenerationResponse, 'generated_at'>> = s.object({
+  microcycle: s.object({
+    id: s.withDefault(s.string(), ''),
+    week: s.withDefault(s.number({ min: 0 }), 0),
+    focus: s.withDefault(s.string(), ''),
+    value: s.withDefault(s.string(), ''),
+    workouts: s.array(aiWorkoutSchema),
+  }),
+  explanation: s.withDefault(s.string(), ''),
+});
+
+/**
+ * Model payload behind MicrocycleSuggestion
+ */
+export const microcycleSuggestionSchema: Schema<AIMicrocyclePayload> = s.object<AIMicrocyclePayload>({
+  assessment: s.string(),
+  suggestedWorkouts: s.array(aiWorkoutSchema),
+});
+
+// ============================================================================
+// Normalization of older response formats
+// ============================================================================
+
+type RawResponse = Record<string, unknown> & {
+  plan?: { macrocycle?: { mesocycles?: unknown }; currentMicrocycle?: { workouts?: unknown } };
+  microcycle?: { workouts?: unknown };
+};
+
+/**
+ * Map the old `{ plan: { macrocycle: { mesocycles } } }` format onto the goals payload shape
+ */
+export function normalizeGoalsResponse(raw: unknown): unknown {
+  const response = raw as RawResponse | null;
+  if (response && !response.macrocycleGoal && response.plan?.macrocycle?.mesocycles) {
+    return {
+      macrocycleGoal: response.plan.macrocycle,
+      mesocycleMilestones: response.plan.macrocycle.mesocycles,
+      explanation: response.explanation,
+    };
+  }
+  return raw;
+}
+
+/**
+ * Map older workout formats onto `{ assessment, suggestedWorkouts }`
+ * Assessment text is filled in by the store when the model didn't provide one
+ */
+export function normalizeMicrocycleResponse(raw: unknown): unknown {
+  const response = raw as RawResponse | null;
+  if (!response || response.assessment !== undefined || response.suggestedWorkouts !== undefined) {
+    return raw;
+  }
+
+  if (response.microcycle?.workouts) {
+    const legacy = validateSchema(microcycleGenerationResponseSchema, response);
+    if (legacy.success) {
+      return { assessment: legacy.data.explanation, suggestedWorkouts: legacy.data.microcycle.workouts };
+    }
+  }
+
+  const workouts = response.plan?.currentMicrocycle?.workouts ?? response.microcycle?.workouts ?? response.workouts;
+  if (workouts !== undefined) {
+    return { assessment: response.explanation ?? '', suggestedWorkouts: workouts };
+  }
+  return raw;
+}
+
+// ============================================================================
+// Streaming previews
+// ============================================================================
+
+type UnknownRecord = Record<string, unknown>;
+
+const asRecord = (value: unknown): UnknownRecord =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as UnknownRecord) : {};
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+const asString = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+const asNumber = (value: unknown): number | undefined => {
+  const numeric = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof numeric === 'number' && !Number.isNaN(numeric) ? numeric : undefined;
+};
+
+/**
+ * Goals preview from a partially parsed (normalized) goals response
+ */
+export function buildGoalsPreview(partial: unknown): AIGoalsPreview {
+  const response = asRecord(partial);
+  const macro = asRecord(response.macrocycleGoal);
+  return {
+    macrocycleGoal: {
+      name: asString(macro.name),
+      value: asString(macro.value),
+      durationWeeks: asNumber(macro.durationWeeks),
+    },
+    mesocycleMilestones: asArray(response.mesocycleMilestones).map(item => {
+      const meso = asRecord(item);
+      return {
+        name: asString(meso.name),
+        focus: asString(meso.focus),
+        value: asString(meso.value),
+        durationWeeks: asNumber(meso.durationWeeks),
+      };
+    }),
+  };
+}
+
+/**
+ * Microcycle preview from a partially parsed (normalized) microcycle response
+ */
+export function buildMicrocyclePreview(partial: unknown): AIMicrocyclePreview {
+  const response = asRecord(partial);
+  return {
+    assessment: asString(response.assessment),
+    workouts: asArray(response.suggestedWorkouts).map(item => {
+      const workout = asRecord(item);
+      return {
+        name: asString(workout.name),
+        dayOfWeek: asNumber(workout.dayOfWeek),
+        focus: asString(workout.focus),
+        estimatedDuration: asNumber(workout.estimatedDuration),
+        exercises: asArray(workout.exercises).map(exerciseItem => {
+          const exercise = asRecord(exerciseItem);
+          return { name: asString(exercise.name), setCount: asArray(exercise.sets).length };
+        }),
+      };
+    }),
+  };
+}
+
+// ============================================================================
+// Parsing + repair loop
+// ============================================================================
+
+/**
+ * Strip markdown code fences and parse JSON
+ */
+export function parseAIJson(content: string): { success: true; data: unknown } | { success: false; issues: ValidationIssue[] } {
+  let cleanContent = content.trim();
+  if (cleanContent.startsWith('```json')) {
+    cleanContent = cleanContent.replace(/^```json\s*/, '').replace(/\s*```$/, '');
+  } else if (cleanContent.startsWith('```')) {
+    cleanContent = cleanContent.replace(/^```\s*/, '').replace(/\s*```$/, '');
+  }
+
+  try {
+    return { success: true, data: JSON.parse(cleanContent) };
+  } catch (parseError) {
+    return {
+      success: false,
+      issues: [{ path: '', message: `invalid JSON (${parseError instanceof Error ? parseError.message : 'parse error'})` }]
+    };
+  }
+}
+
+/**
+ * Error thrown when the model still returns invalid data after all repair attempts
+ */
+export class AIResponseValidationError extends Error {
+  readonly issues: ValidationIssue[];
+  readonly attempts: number;
+
+  constructor(label: string, issues: ValidationIssue[], attempts: number) {
+    super(`${label} response was invalid after ${attempts} attempt${attempts === 1 ? '' : 's'}:\n${formatValidationIssues(issues, 5)}`);
+    this.name = 'AIResponseValidationError';
+    this.issues = issues;
+    this.attempts = attempts;
+  }
+}
+
+interface ValidatedGenerationOptions<T> {
+  label: string; // Used in logs and errors, e.g. "Goals generation"
+  schema: Schema<T>;
+  normalize?: (raw: unknown) => unknown;
+  maxRepairAttempts?: number;
+  signal?: AbortSignal;
+  // Streams the completion; called with the partially parsed (normalized) response
+  onPartial?: (partial: unknown, progress: { attempt: number; receivedChars: number }) => void;
+}
+
+/**
+ * Build the follow-up message asking the model to fix its previous answer
+ */
+function buildRepairMessage(issues: ValidationIssue[]): string {
+  return [
+    'Your previous response did not match the required JSON format.',
+    'Validation errors:',
+    formatValidationIssues(issues),
+    '',
+    'Respond again with the complete corrected JSON only - no explanations and no code fences.',
+  ].join('\n');
+}
+
+/**
+ * Call the LLM and validate the response, with repair round-trips on failure
+ */
+export async function generateValidatedResponse<T>(
+  settings: LLMSettings,
+  messages: LLMMessage[],
+  options: ValidatedGenerationOptions<T>
+): Promise<{ data: T; completion: LLMCompletion; attempts: number }> {
+  const maxAttempts = 1 + (options.maxRepairAttempts ?? AI_RESPONSE_MAX_REPAIR_ATTEMPTS);
+  const conversation = [...messages];
+  let lastIssues: ValidationIssue[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const { onPartial, normalize } = options;
+    let lastPreviewAt = 0;
+
+    const completion = await callLLM(settings, conversation, {
+      signal: options.signal,
+      onDelta: onPartial && ((_delta, content) => {
+        const now = Date.now();
+        if (now - lastPreviewAt < STREAM_PREVIEW_INTERVAL_MS) return;
+        lastPreviewAt = now;
+
+        const partial = parsePartialJson(content);
+        if (partial !== undefined) {
+          onPartial(normalize ? normalize(partial) : partial, { attempt, receivedChars: content.length });
+        }
+      }),
+    });
+
+    const parsed = parseAIJson(completion.content);
+    const result = parsed.success
+      ? validateSchema(options.schema, options.normalize ? options.normalize(parsed.data) : parsed.data)
+      : parsed;
+
+    if (result.success) {
+      if (attempt > 1) {
+        console.log(`✅ ${options.label}: response repaired on attempt ${attempt}`);
+      }
+      return { data: result.data, completion, attempts: attempt };
+    }
+
+    lastIssues = result.issues;
+    console.warn(`⚠️ ${options.label}: invalid response (attempt ${attempt}/${maxAttempts})\n${formatValidationIssues(lastIssues)}`);
+
+    conversation.push(
+      { role: 'assistant', content: completion.content },
+      { role: 'user', content: buildRepairMessage(lastIssues) }
+    );
+  }
+
+  throw new AIResponseValidationError(options.label, lastIssues, maxAttempts);
+}
@@ -0,0 +1,193 @@
+/**
+ * Body measurements - Bodyweight on a given date, moving-average trends and the AI coach summary
+ * Bodyweight is stored in the unit it was entered in and converted to kg for calculations.
+ */
+
+import type { UserProfile } from '@/types/profile';
+import type {
+  BodyMeasurement,
+  BodyMeasurementSummary,
+  MeasurementMetric,
+  MeasurementSite,
+  MeasurementTrendPoint
+} from '@/types/measurements';
+import type { WorkoutDocument } from '@/types/workout';
+import { addDays } from './dateUtils';
+import { DEFAULT_BODYWEIGHT_KG } from './improvedVolumeCalculations';
+import { getProfileBodyMetrics } from './strengthMetrics';
+
+const LB_TO_KG = 0.453592;
+const MOVING_AVERAGE_DAYS = 7;
+const TREND_DAYS = 30;
+
+export const MEASUREMENT_SITES: { site: MeasurementSite; label: string }[] = [
+  { site: 'neck', label: 'Neck' },
+  { site: 'chest', label: 'Chest' },
+  { site: 'waist', label: 'Waist' },
+  { site: 'hips', label: 'Hips' },
+  { site: 'arm', label: 'Arm' },
+  { site: 'thigh', label: 'Thigh' },
+  { site: 'calf', label: 'Calf' }
+];
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export function getMeasurementBodyweightKg(measurement: BodyMeasurement): number | undefined {
+  if (!measurement.bodyweight || measurement.bodyweight <= 0) return undefined;
+  return measurement.weightUnit === 'lb' ? measurement.bodyweight * LB_TO_KG : measurement.bodyweight;
+}
+
+/**
+ * Value of a metric for one entry; bodyweight is converted to the requested unit
+ */
+export function getMeasurementValue(
+  measurement: BodyMeasurement,
+  metric: MeasurementMetric,
+  weightUnit: 'kg' | 'lb' = 'kg'
+): number | undefined {
+  if (metric === 'bodyweight') {
+    const kg = getMeasurementBodyweightKg(measurement);
+    return kg === undefined ? undefined : weightUnit === 'lb' ? kg / LB_TO_KG : kg;
+  }
+  const value = metric === 'bodyFatPercent' ? measurement.bodyFatPercent : measurement.circumferences?.[metric];
+  return value && value > 0 ? value : undefined;
+}
+
+/**
+ * Oldest first; entries on the same day keep the order they were added in
+ */
+export function sortMeasurements(measurements: BodyMeasurement[]): BodyMeasurement[] {
+  return [...measurements].sort((a, b) =>
+    a.date === b.date ? a.createdAt.localeCompare(b.createdAt) : a.date.localeCompare(b.date)
+  );
+}
+
+/**
+ * Daily values (same-day entries averaged) with a trailing 7-day moving average
+ */
+export function getMeasurementTrend(
+  measurements: BodyMeasurement[],
+  metric: MeasurementMetric,
+  weightUnit: 'kg' | 'lb' = 'kg'
+): MeasurementTrendPoint[] {
+  const byDay = new Map<string, number[]>();
+  sortMeasurements(measurements).forEach(measurement => {
+    const value = getMeasurementValue(measurement, metric, weightUnit);
+    if (value === undefined) return;
+    byDay.set(measurement.date, [...(byDay.get(measurement.date) || []), value]);
+  });
+
+  const days = [...byDay.entries()].map(([date, values]) => ({
+    date,
+    value: values.reduce((sum, value) => sum + value, 0) / values.length
+  }));
+
+  return days.map((day, index) => {
+    const windowStart = addDays(day.date, -(MOVING_AVERAGE_DAYS - 1));
+    const window = days.slice(0, index + 1).filter(candidate => candidate.date >= windowStart);
+    return {
+      date: day.date,
+      value: round(day.value),
+      average: round(window.reduce((sum, candidate) => sum + candidate.value, 0) / window.length)
+    };
+  });
+}
+
+export function getLatestBodyweightKg(measurements: BodyMeasurement[]): number | null {
+  const weighed = sortMeasurements(measurements).filter(measurement => getMeasurementBodyweightKg(measurement) !== undefined);
+  const latest = weighed[weighed.length - 1];
+  return latest ? round(getMeasurementBodyweightKg(latest)!) : null;
+}
+
+/**
+ * Bodyweight (kg) that applied on each date: the latest weigh-in on or before it, else the first
+ * weigh-in after it, else the profile bodyweight, else the default. Built once for many lookups.
+ */
+export function createBodyweightLookup(
+  measurements: BodyMeasurement[],
+  profile?: UserProfile
+): (date?: string) => number {
+  const weighIns = sortMeasurements(measurements)
+    .map(measurement => ({ date: measurement.date, kg: getMeasurementBodyweightKg(measurement) }))
+    .filter((entry): entry is { date: string; kg: number } => entry.kg !== undefined);
+  const fallback = getProfileBodyMetrics(profile).bodyweightKg ?? DEFAULT_BODYWEIGHT_KG;
+
+  return (date?: string) => {
+    if (weighIns.length === 0) return fallback;
+    if (!date) return weighIns[weighIns.length - 1].kg;
+    let match = weighIns[0];
+    for (const entry of weighIns) {
+      if (entry.date > date) break;
+      match = entry;
+    }
+    return match.kg;
+  };
+}
+
+export function getBodyweightOnDate(measurements: BodyMeasurement[], date: string, profile?: UserProfile): number {
+  return createBodyweightLookup(measurements, profile)(date);
+}
+
+/**
+ * Date a workout counts on: its scheduled date, else the day it was completed
+ */
+export function getWorkoutDate(workout: WorkoutDocument): string | undefined {
+  return workout.date || workout.completedAt?.split('T')[0];
+}
+
+/**
+ * Latest values and the 30-day bodyweight trend, or null without any entries
+ */
+export function summarizeBodyMeasurements(measurements: BodyMeasurement[], today: string): BodyMeasurementSummary | null {
+  const sorted = sortMeasurements(measurements).filter(measurement => measurement.date <= today);
+  if (sorted.length === 0) return null;
+
+  const latestOf = (metric: MeasurementMetric): number | undefined => {
+    for (let index = sorted.length - 1; index >= 0; index--) {
+      const value = getMeasurementValue(sorted[index], metric);
+      if (value !== undefined) return round(value);
+    }
+    return undefined;
+  };
+
+  const bodyweightTrend = getMeasurementTrend(sorted, 'bodyweight');
+  const trendStart = addDays(today, -TREND_DAYS);
+  const baseline = [...bodyweightTrend].reverse().find(point => point.date <= trendStart) ?? bodyweightTrend[0];
+  const current = bodyweightTrend[bodyweightTrend.length - 1];
+
+  const circumferencesCm: Partial<Record<MeasurementSite, number>> = {};
+  MEASUREMENT_SITES.forEach(({ site }) => {
+    const value = latestOf(site);
+    if (value !== undefined) circumferencesCm[site] = value;
+  });
+
+  return {
+    latestDate: sorted[sorted.length - 1].date,
+    bodyweightKg: latestOf('bodyweight'),
+    bodyweightTrendKg: current && baseline && current.date !== baseline.date
+      ? round(current.average - baseline.average)
+      : undefined,
+    bodyFatPercent: latestOf('bodyFatPercent'),
+    circumferencesCm: Object.keys(circumferencesCm).length > 0 ? circumferencesCm : undefined,
+    entries: sorted.length
+  };
+}
+
+/**
+ * Profile for AI prompts: current bodyweight from the latest weigh-in plus the measurement summary
+ */
+export function withBodyMeasurements(
+  profile: Record<string, unknown>,
+  measurements: BodyMeasurement[],
+  today: string
+): Record<string, unknown> {
+  const summary = summarizeBodyMeasurements(measurements, today);
+  if (!summary) return profile;
+  return {
+    ...profile,
+    ...(summary.bodyweightKg !== undefined && { bodyweight: summary.bodyweightKg }),
+    bodyMeasurements: summary
+  };
+}
@@ -0,0 +1,260 @@
+/**
+ * Coach Chat - Grounding context, prompt messages and structured actions for conversations with the AI Coach
+ * Every turn is sent with a fresh snapshot of the plan, upcoming/recent workouts and profile.
+ * Actions the model proposes are checked against the user's workouts here; coachChatStore applies them.
+ */
+
+import type { AIPlan } from '@/types/aiCoach';
+import type {
+  CoachAction,
+  CoachActionType,
+  CoachChatMessage,
+  CoachReplyPayload
+} from '@/types/coachChat';
+import type { LLMMessage } from '@/types/llm';
+import type { WorkoutDocument, WorkoutUpdate } from '@/types/workout';
+import { s, type Schema } from './schemaValidation';
+import { addDays } from './dateUtils';
+import { getWorkoutDate } from './bodyMeasurements';
+import { enhanceExerciseWithDatabase } from './exerciseDatabase';
+import { formatPeriodizationTargets, resolvePeriodizationWeek } from './periodization';
+import { serializeWorkoutText } from './workoutTextFormat';
+
+const UPCOMING_DAYS = 14;
+const RECENT_DAYS = 14;
+const MAX_HISTORY_MESSAGES = 20; // Earlier turns are left out of the prompt
+const MAX_TITLE_LENGTH = 60;
+
+export const COACH_ACTION_LABELS: Record<CoachActionType, string> = {
+  'move-workout': 'Move workout',
+  'swap-exercise': 'Swap exercise',
+  'remove-exercise': 'Remove exercise'
+};
+
+/**
+ * Default system prompt; Remote Config `prompts_ai_coach_chat` (plain text) overrides it
+ */
+export const DEFAULT_COACH_CHAT_PROMPT = [
+  'You are the user\'s personal fitness coach inside a workout tracking app.',
+  'Answer questions about their plan, workouts, progress and recovery using the context below. Be concise and specific; refer to workouts by name and date.',
+  'When the user asks for a change to a planned workout, or a change would clearly help, propose it as an action. The user applies actions with one click, so only propose what they asked for or agreed to.',
+  '',
+  'Respond with JSON only - no code fences:',
+  '{"reply": "<your message>", "actions": [<action>, ...]}',
+  'Actions (omit "actions" or use [] when there are none):',
+  '- {"type": "move-workout", "workoutId": "<id>", "date": "YYYY-MM-DD", "reason": "<short>"}',
+  '- {"type": "swap-exercise", "workoutId": "<id>", "exerciseName": "<exercise in that workout>", "replacement": "<new exercise>", "reason": "<short>"}',
+  '- {"type": "remove-exercise", "workoutId": "<id>", "exerciseName": "<exercise in that workout>", "reason": "<short>"}',
+  'Only planned workouts listed under UPCOMING WORKOUTS can be changed; use their exact ids and exercise names.'
+].join('\n');
+
+/**
+ * Model payload for one coach turn
+ */
+export const coachReplySchema: Schema<CoachReplyPayload> = s.object<CoachReplyPayload>({
+  reply: s.string({ minLength: 1 }),
+  actions: s.optional(s.array(s.object({
+    type: s.oneOf(['move-workout', 'swap-exercise', 'remove-exercise'] as const),
+    workoutId: s.string({ minLength: 1 }),
+    date: s.optional(s.string()),
+    exerciseName: s.optional(s.string()),
+    replacement: s.optional(s.string()),
+    reason: s.optional(s.string()),
+  }))),
+});
+
+export function createChatId(prefix: 'chat' | 'msg' | 'action'): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export function createThreadTitle(firstMessage: string): string {
+  const title = firstMessage.trim().replace(/\s+/g, ' ');
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title;
+}
+
+// ============================================================================
+// Grounding context
+// ============================================================================
+
+interface CoachContextInput {
+  plan: AIPlan | null;
+  workouts: WorkoutDocument[];
+  profile: Record<string, unknown>; // With body measurements merged in
+  today: string; // YYYY-MM-DD
+}
+
+function formatExercises(workout: WorkoutDocument): string {
+  // Instructions are left out to keep the prompt short
+  return serializeWorkoutText(workout.exercises.map(exercise => ({ ...exercise, instructions: '' })))
+    .split('\n')
+    .filter(line => line.trim() && line.trim() !== '# end')
+    .map(line => `    ${line}`)
+    .join('\n');
+}
+
+function formatPlan(plan: AIPlan | null, today: string): string {
+  if (!plan) return 'No active AI Coach plan.';
+
+  const lines = [
+    `Goal: ${plan.macrocycleGoal.name} - ${plan.macrocycleGoal.value} (${plan.macrocycleGoal.startDate} to ${plan.macrocycleGoal.endDate})`,
+    `Phases: ${plan.mesocycleMilestones.map((milestone, index) => `${index + 1}. ${milestone.name} (${milestone.durationWeeks} weeks, ${milestone.focus})`).join('; ')}`,
+    formatPeriodizationTargets(resolvePeriodizationWeek(plan, today)),
+    `Completed weeks: ${plan.completedMicrocycles.length}`
+  ];
+  const lastReflection = plan.completedMicrocycles[plan.completedMicrocycles.length - 1]?.weeklyReflection;
+  if (lastReflection) lines.push(`Last weekly reflection: ${lastReflection}`);
+  if (plan.currentSuggestion) lines.push(`Latest weekly assessment: ${plan.currentSuggestion.assessment}`);
+  return lines.join('\n');
+}
+
+/**
+ * Context block appended to the system prompt on every turn
+ */
+export function buildCoachContext({ plan, workouts, profile, today }: CoachContextInput): string {
+  const upcomingUntil = addDays(today, UPCOMING_DAYS);
+  const recentSince = addDays(today, -RECENT_DAYS);
+
+  const upcoming = workouts
+    .filter(workout => workout.status === 'planned' && (!workout.date || (workout.date >= today && workout.date <= upcomingUntil)))
+    .sort((a, b) => (a.date || '9999').localeCompare(b.date || '9999'));
+  const recent = workouts
+    .filter(workout => workout.status === 'completed' && (getWorkoutDate(workout) ?? '') >= recentSince)
+    .sort((a, b) => (getWorkoutDate(a) ?? '').localeCompare(getWorkoutDate(b) ?? ''));
+
+  return [
+    `TODAY: ${today}`,
+    '',
+    'PROFILE:',
+    JSON.stringify(profile),
+    '',
+    'PLAN:',
+    formatPlan(plan, today),
+    '',
+    `UPCOMING WORKOUTS (planned, next ${UPCOMING_DAYS} days and unscheduled):`,
+    ...(upcoming.length > 0
+      ? upcoming.map(workout => `- [${workout.id}] ${workout.date ?? 'no date'} ${workout.name} (${workout.focus || workout.type})\n${formatExercises(workout)}`)
+      : ['None']),
+    '',
+    `RECENT WORKOUTS (completed, last ${RECENT_DAYS} days):`,
+    ...(recent.length > 0
+      ? recent.map(workout => `- ${getWorkoutDate(workout)} ${workout.name}${workout.notes ? ` - notes: ${workout.notes}` : ''}\n${formatExercises(workout)}`)
+      : ['None'])
+  ].join('\n');
+}
+
+/**
+ * System prompt with context, then the most recent turns; coach turns are replayed in the JSON reply format
+ */
+export function buildCoachMessages(systemPrompt: string, context: string, history: CoachChatMessage[]): LLMMessage[] {
+  return [
+    { role: 'system', content: `${systemPrompt}\n\n${context}` },
+    ...history.slice(-MAX_HISTORY_MESSAGES).map((message): LLMMessage => message.role === 'user'
+      ? { role: 'user', content: message.content }
+      : { role: 'assistant', content: JSON.stringify({ reply: message.content }) })
+  ];
+}
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+function findExerciseIndex(workout: WorkoutDocument, exerciseName: string): number {
+  const name = exerciseName.toLowerCase().trim();
+  if (!name) return -1;
+  const exact = workout.exercises.findIndex(exercise => exercise.name.toLowerCase().trim() === name);
+  return exact >= 0 ? exact : workout.exercises.findIndex(exercise => exercise.name.toLowerCase().includes(name));
+}
+
+/**
+ * Why an action can't be applied to the workouts as they are now, or null
+ */
+export function getCoachActionError(action: CoachAction, workouts: WorkoutDocument[]): string | null {
+  const workout = workouts.find(entry => entry.id === action.workoutId);
+  if (!workout) return 'The workout no longer exists';
+  if (workout.status !== 'planned') return 'Only planned workouts can be changed';
+
+  if (action.type === 'move-workout') {
+    return /^\d{4}-\d{2}-\d{2}$/.test(action.toDate) ? null : 'Invalid date';
+  }
+  if (!action.exerciseName) return 'No exercise given';
+  if (findExerciseIndex(workout, action.exerciseName) < 0) {
+    return `${action.exerciseName} is not in this workout`;
+  }
+  return null;
+}
+
+/**
+ * Typed actions from a model reply; incomplete ones and ones that don't match a workout come back as failed
+ */
+export function createCoachActions(payload: CoachReplyPayload, workouts: WorkoutDocument[]): CoachAction[] {
+  return (payload.actions || []).map(raw => {
+    const workout = workouts.find(entry => entry.id === raw.workoutId);
+    // Show the exercise as it's named in the workout
+    const exerciseIndex = workout && raw.exerciseName ? findExerciseIndex(workout, raw.exerciseName) : -1;
+    const exerciseName = exerciseIndex >= 0 ? workout!.exercises[exerciseIndex].name : raw.exerciseName?.trim() ?? '';
+    const base = {
+      id: createChatId('action'),
+      workoutId: raw.workoutId,
+      workoutName: workout?.name ?? 'Unknown workout',
+      reason: raw.reason?.trim() || undefined,
+      status: 'proposed' as const
+    };
+
+    const action: CoachAction = raw.type === 'move-workout'
+      ? { ...base, type: raw.type, fromDate: workout?.date, toDate: raw.date?.trim() ?? '' }
+      : raw.type === 'swap-exercise'
+        ? { ...base, type: raw.type, exerciseName, replacement: raw.replacement?.trim() ?? '' }
+        : { ...base, type: raw.type, exerciseName };
+
+    const error = action.type === 'swap-exercise' && !action.replacement
+      ? 'No replacement exercise given'
+      : getCoachActionError(action, workouts);
+    return error ? { ...action, status: 'failed', error } : action;
+  });
+}
+
+/**
+ * One-line description, e.g. "Move Upper Body A to 2026-10-23"
+ */
+export function describeCoachAction(action: CoachAction): string {
+  switch (action.type) {
+    case 'move-workout':
+      return `Move ${action.workoutName} to ${action.toDate}`;
+    case 'swap-exercise':
+      return `Swap ${action.exerciseName} for ${action.replacement} in ${action.workoutName}`;
+    case 'remove-exercise':
+      return `Remove ${action.exerciseName} from ${action.workoutName}`;
+  }
+}
+
+/**
+ * Workout update that applies an action (check getCoachActionError first)
+ */
+export function applyCoachAction(action: CoachAction, workout: WorkoutDocument): WorkoutUpdate {
+  if (action.type === 'move-workout') {
+    return { date: action.toDate };
+  }
+
+  // AI Coach workouts show that they differ from the original suggestion
+  const changeFlag = workout.originalAISuggestion ? { hasManualChanges: true } : {};
+  const index = findExerciseIndex(workout, action.exerciseName);
+  if (action.type === 'remove-exercise') {
+    return { ...changeFlag, exercises: workout.exercises.filter((_, exerciseIndex) => exerciseIndex !== index) };
+  }
+
+  // Sets carry over so the volume stays; weights may need adjusting for the new exercise
+  const details = enhanceExerciseWithDatabase({ name: action.replacement });
+  return {
+    ...changeFlag,
+    exercises: workout.exercises.map((exercise, exerciseIndex) => exerciseIndex === index
+      ? {
+        ...exercise,
+        name: action.replacement,
+        category: details.category,
+        muscleGroups: details.muscleGroups,
+        equipment: details.equipment,
+        instructions: ''
+      }
+      : exercise)
+  };
+}
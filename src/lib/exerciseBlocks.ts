@@ -0,0 +1,158 @@
+/**
+ * Exercise blocks - Supersets, circuits, EMOM and AMRAP on top of the flat exercise list
+ * Text syntax (before the block's exercises): `# Superset x3`, `# Circuit x3 20min`, `# EMOM 12min`, `# AMRAP 15min`, `# end`
+ */
+
+import type { Exercise, ExerciseBlock, ExerciseBlockType } from '@/types/fitness';
+
+export const EXERCISE_BLOCK_TYPES: Record<ExerciseBlockType, { label: string; description: string }> = {
+  superset: { label: 'Superset', description: 'Alternate exercises back to back, rest after each round' },
+  circuit: { label: 'Circuit', description: 'Move through every exercise, rest after each round' },
+  emom: { label: 'EMOM', description: 'Every minute on the minute for the time cap' },
+  amrap: { label: 'AMRAP', description: 'As many rounds as possible within the time cap' }
+};
+
+export interface ExerciseGroup {
+  block?: ExerciseBlock;
+  letter?: string; // "A", "B", ... for blocks only
+  exercises: Exercise[];
+  startIndex: number; // Index of the first exercise in the workout
+}
+
+export function createBlockId(): string {
+  return `block-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Group consecutive exercises that share a block; ungrouped exercises are their own group
+ */
+export function groupExercisesByBlock(exercises: Exercise[]): ExerciseGroup[] {
+  const groups: ExerciseGroup[] = [];
+  let blockCount = 0;
+
+  exercises.forEach((exercise, index) => {
+    const previous = groups[groups.length - 1];
+    if (exercise.block && previous?.block?.id === exercise.block.id) {
+      previous.exercises.push(exercise);
+      return;
+    }
+    groups.push({
+      block: exercise.block,
+      letter: exercise.block ? String.fromCharCode(65 + (blockCount++ % 26)) : undefined,
+      exercises: [exercise],
+      startIndex: index
+    });
+  });
+
+  return groups;
+}
+
+/**
+ * Position labels for block members ("A1", "A2", "B1", ...), keyed by exercise ID
+ */
+export function getExerciseBlockLabels(exercises: Exercise[]): Record<string, string> {
+  const labels: Record<string, string> = {};
+  groupExercisesByBlock(exercises).forEach(group => {
+    if (!group.letter) return;
+    group.exercises.forEach((exercise, index) => {
+      labels[exercise.id] = `${group.letter}${index + 1}`;
+    });
+  });
+  return labels;
+}
+
+/**
+ * Short description, e.g. "Superset · 3 rounds", "EMOM 12 min", "AMRAP 15 min"
+ */
+export function formatBlockSummary(block: ExerciseBlock): string {
+  const label = EXERCISE_BLOCK_TYPES[block.type].label;
+  const parts: string[] = [];
+  if (block.type === 'emom' || block.type === 'amrap') {
+    parts.push(block.timeCapMinutes ? `${label} ${block.timeCapMinutes} min` : label);
+  } else {
+    parts.push(label);
+    if (block.rounds) parts.push(`${block.rounds} round${block.rounds === 1 ? '' : 's'}`);
+    if (block.timeCapMinutes) parts.push(`${block.timeCapMinutes} min cap`);
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * Rounds completed = fewest completed sets across the block's exercises
+ */
+export function getBlockRoundsCompleted(exercises: Exercise[]): number {
+  if (exercises.length === 0) return 0;
+  return Math.min(...exercises.map(exercise => exercise.sets.filter(set => set.completed).length));
+}
+
+/**
+ * Whether to rest after completing a set of this exercise
+ * No rest between members of a superset/circuit round; EMOM/AMRAP are clock-driven
+ */
+export function shouldRestAfterExercise(exercises: Exercise[], exerciseId: string): boolean {
+  const group = groupExercisesByBlock(exercises).find(g => g.exercises.some(ex => ex.id === exerciseId));
+  if (!group?.block) return true;
+  if (group.block.type === 'emom' || group.block.type === 'amrap') return false;
+  return group.exercises[group.exercises.length - 1].id === exerciseId;
+}
+
+/**
+ * Unrecognized text in a block header; index (0-based) and length are within the parsed line
+ */
+export interface BlockHeaderError {
+  error: string;
+  index: number;
+  length: number;
+}
+
+/**
+ * Parse a block header line; 'end' closes the current block, null = not a block header
+ * Anything after the type other than one rounds option (`x3`, `3 rounds`) and one time cap (`12min`) is an error
+ */
+export function parseBlockHeader(line: string): Omit<ExerciseBlock, 'id'> | 'end' | BlockHeaderError | null {
+  const match = line.match(/^#\s*(superset|circuit|emom|amrap|end)\b/i);
+  if (!match) return null;
+
+  const type = match[1].toLowerCase();
+  const block: Omit<ExerciseBlock, 'id'> = { type: type as ExerciseBlockType };
+  const option = /\s*(?:x\s*(\d+)|(\d+)\s*rounds?|(\d+)\s*(?:min|m))(?=\s|$)/iy;
+  let pos = match[0].length;
+
+  while (pos < line.length) {
+    const start = pos + (line.slice(pos).length - line.slice(pos).trimStart().length);
+    if (start >= line.length) break;
+
+    option.lastIndex = pos;
+    const optionMatch = type === 'end' ? null : option.exec(line);
+    const rounds = optionMatch?.[1] || optionMatch?.[2];
+    const cap = optionMatch?.[3];
+    if (!optionMatch || (rounds && block.rounds !== undefined) || (cap && block.timeCapMinutes !== undefined)) {
+      const token = line.slice(start).match(/^\S+/)![0];
+      return {
+        error: type === 'end'
+          ? `Unexpected "${token}" after # end`
+          : optionMatch
+            ? `Duplicate ${rounds ? 'rounds' : 'time cap'} "${token}"`
+            : `Unexpected "${token}" in block header (expected rounds like x3 or a time cap like 12min)`,
+        index: start,
+        length: optionMatch ? optionMatch[0].trim().length : token.length
+      };
+    }
+
+    if (rounds) block.rounds = parseInt(rounds);
+    if (cap) block.timeCapMinutes = parseInt(cap);
+    pos = option.lastIndex;
+  }
+
+  return type === 'end' ? 'end' : block;
+}
+
+/**
+ * Block header line for the text editor, e.g. "# Superset x3", "# EMOM 12min"
+ */
+export function formatBlockHeader(block: ExerciseBlock): string {
+  const parts = [`# ${EXERCISE_BLOCK_TYPES[block.type].label}`];
+  if (block.rounds) parts.push(`x${block.rounds}`);
+  if (block.timeCapMinutes) parts.push(`${block.timeCapMinutes}min`);
+  return parts.join(' ');
+}
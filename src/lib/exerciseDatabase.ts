@@ -208,6 +208,43 @@ export function findExerciseDefinition(exerciseName: string): ExerciseDefinition
   return match || null;
 }
 
+/**
+ * Exercise name suggestions for a partially typed name
+ * `knownNames` (e.g. the user's history) come before database names at the same match quality;
+ * database exercises also match on their aliases
+ */
+export function suggestExerciseNames(query: string, knownNames: string[] = [], limit = 8): string[] {
+  const normalizedQuery = query.toLowerCase().trim();
+  if (!normalizedQuery) return [];
+
+  const aliases = new Map<string, string[]>();
+  EXERCISE_DATABASE.forEach(exercise => aliases.set(exercise.name.toLowerCase(), exercise.aliases));
+
+  // 0 = name prefix, 1 = word prefix, 2 = alias match, 3 = substring
+  const rank = (name: string): number => {
+    const normalizedName = name.toLowerCase();
+    if (normalizedName.startsWith(normalizedQuery)) return 0;
+    if (normalizedName.split(/[\s-]+/).some(word => word.startsWith(normalizedQuery))) return 1;
+    if (aliases.get(normalizedName)?.some(alias => alias.toLowerCase().startsWith(normalizedQuery))) return 2;
+    if (normalizedName.includes(normalizedQuery)) return 3;
+    return -1;
+  };
+
+  const seen = new Set<string>();
+  return [...knownNames, ...EXERCISE_DATABASE.map(exercise => exercise.name)]
+    .filter(name => {
+      const key = name.toLowerCase().trim();
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map((name, order) => ({ name, order, rank: rank(name) }))
+    .filter(candidate => candidate.rank >= 0)
+    .sort((a, b) => a.rank - b.rank || a.order - b.order)
+    .slice(0, limit)
+    .map(candidate => candidate.name);
+}
+
 /**
  * Get all muscle groups from exercise definitions
  */
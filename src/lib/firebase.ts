@@ -34,7 +34,6 @@ remoteConfig.settings = {
 // Set default values for Remote Config
 remoteConfig.defaultConfig = {
   profile_config: '{"version":"1.0","sections":[]}',
-  openai_api_key: '',
   prompts_fitness_plan_generation: '{"system_prompt":"","user_prompt_template":"","version":"1.0"}'
 };
 
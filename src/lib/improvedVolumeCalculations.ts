@@ -3,8 +3,16 @@
  * Uses relative strength principles instead of linear weight scaling
  */
 
-import type { Exercise, ExerciseSet } from '@/types/fitness';
+import type { Exercise, ExerciseBlock, ExerciseSet } from '@/types/fitness';
 import { findExerciseDefinition } from './exerciseDatabase';
+import { getEffectiveRir, getSetRpe } from './setEffort';
+import { getBlockRoundsCompleted } from './exerciseBlocks';
+
+/**
+ * Bodyweight used when the user has no measurement or profile bodyweight
+ * Callers should pass the bodyweight on the workout's date (see getBodyweightOnDate)
+ */
+export const DEFAULT_BODYWEIGHT_KG = 75;
 
 export interface ImprovedVolumeMetrics {
   // Relative volume (accounts for bodyweight and difficulty scaling)
@@ -26,6 +34,12 @@ export interface ImprovedVolumeMetrics {
   completedReps?: number;
   averageIntensity?: number; // Average relative difficulty per rep
   maxIntensity?: number; // Highest relative difficulty achieved
+  
+  // Fatigue-aware metrics (relative volume scaled by effort and tempo)
+  totalFatigueVolume: number;
+  completedFatigueVolume: number;
+  effectiveReps?: number; // Completed reps within 5 of failure (sets with RPE/RIR only)
+  averageRpe?: number; // Across completed sets with RPE/RIR
 }
 
 /**
@@ -49,6 +63,23 @@ const VOLUME_COEFFICIENTS = {
   // Duration and distance scaling
   durationIntensity: 1.0, // 1 minute = 1 unit
   distanceIntensity: 1.0, // 1km = 1 unit (direct mapping)
+  
+  // Effort scaling for fatigue-aware volume
+  effort: {
+    baselineRir: 2, // RPE 8 / 2 RIR counts as 1.0
+    perRir: 0.1, // ±10% per rep in reserve away from the baseline
+    minFactor: 0.5,
+    maxFactor: 1.2,
+    stimulatingReps: 5 // Only the last ~5 reps before failure count as effective
+  },
+  
+  // Tempo scaling (time under tension per rep vs a ~3s baseline, e.g. 2010)
+  tempo: {
+    baselineSeconds: 3,
+    explosiveSeconds: 0.5, // "X" phase
+    minFactor: 0.8,
+    maxFactor: 1.3
+  }
 };
 
 /**
@@ -68,13 +99,59 @@ function getBodyweightMultiplier(exerciseName: string): number {
   return VOLUME_COEFFICIENTS.bodyweightMultipliers['default'];
 }
 
+/**
+ * Effort multiplier from RIR (or RPE); 1 when no effort was logged
+ */
+export function getEffortFactor(set: ExerciseSet): number {
+  const rir = getEffectiveRir(set);
+  if (rir === undefined) return 1;
+  const { baselineRir, perRir, minFactor, maxFactor } = VOLUME_COEFFICIENTS.effort;
+  return Math.min(maxFactor, Math.max(minFactor, 1 + (baselineRir - rir) * perRir));
+}
+
+/**
+ * Tempo multiplier from time under tension per rep; 1 when no tempo was logged
+ */
+export function getTempoFactor(set: ExerciseSet): number {
+  if (!set.tempo) return 1;
+  const { baselineSeconds, explosiveSeconds, minFactor, maxFactor } = VOLUME_COEFFICIENTS.tempo;
+  const secondsPerRep = set.tempo
+    .split('')
+    .reduce((sum, phase) => sum + (phase === 'X' ? explosiveSeconds : Number(phase) || 0), 0);
+  return Math.min(maxFactor, Math.max(minFactor, Math.sqrt(secondsPerRep / baselineSeconds)));
+}
+
+/**
+ * Reps close enough to failure to count as stimulating; undefined without RPE/RIR
+ */
+export function getEffectiveReps(set: ExerciseSet): number | undefined {
+  const rir = getEffectiveRir(set);
+  if (rir === undefined) return undefined;
+  return Math.min(set.reps, Math.max(0, VOLUME_COEFFICIENTS.effort.stimulatingReps - rir));
+}
+
+/**
+ * Relative volume scaled by how hard (RPE/RIR) and how slow (tempo) the set was
+ * Only rep-based sets are scaled; duration/distance/completion volume is unchanged
+ */
+export function calculateFatigueSetVolume(
+  set: ExerciseSet,
+  exerciseName: string,
+  userBodyweight: number = DEFAULT_BODYWEIGHT_KG
+): number {
+  const relativeVolume = calculateImprovedSetVolume(set, exerciseName, userBodyweight);
+  const volumeType = set.volumeType || 'sets-reps';
+  if (volumeType !== 'sets-reps' && volumeType !== 'sets-reps-weight') return relativeVolume;
+  return relativeVolume * getEffortFactor(set) * getTempoFactor(set);
+}
+
 /**
  * Calculate relative volume for a single set using improved methodology
  */
 export function calculateImprovedSetVolume(
   set: ExerciseSet, 
   exerciseName: string, 
-  userBodyweight: number = 75 // Default 75kg, should come from user profile
+  userBodyweight: number = DEFAULT_BODYWEIGHT_KG
 ): number {
   // Prioritize the set's volumeType over database lookup for accuracy
   const definition = findExerciseDefinition(exerciseName);
@@ -146,7 +223,7 @@ export function calculateImprovedSetVolume(
  */
 export function calculateImprovedExerciseVolume(
   exercise: Exercise, 
-  userBodyweight: number = 75
+  userBodyweight: number = DEFAULT_BODYWEIGHT_KG
 ): ImprovedVolumeMetrics {
   const definition = findExerciseDefinition(exercise.name);
   
@@ -160,6 +237,11 @@ export function calculateImprovedExerciseVolume(
   let completedReps = 0;
   let intensitySum = 0;
   let maxIntensity = 0;
+  let totalFatigueVolume = 0;
+  let completedFatigueVolume = 0;
+  let effectiveReps: number | undefined;
+  let rpeSum = 0;
+  let rpeCount = 0;
   
   // Determine the primary volume type from the sets (for mixed exercises)
   const volumeTypes = exercise.sets.map(set => set.volumeType || 'reps-only');
@@ -168,16 +250,29 @@ export function calculateImprovedExerciseVolume(
   exercise.sets.forEach(set => {
     const relativeVolume = calculateImprovedSetVolume(set, exercise.name, userBodyweight);
     const rawVolume = (set.weight || 0) * set.reps; // Old linear calculation for comparison
+    const fatigueVolume = calculateFatigueSetVolume(set, exercise.name, userBodyweight);
     
     totalRelativeVolume += relativeVolume;
     totalRawVolume += rawVolume;
+    totalFatigueVolume += fatigueVolume;
     
     if (set.completed) {
       completedRelativeVolume += relativeVolume;
       completedRawVolume += rawVolume;
+      completedFatigueVolume += fatigueVolume;
       completedSets++;
       completedReps += set.reps;
       
+      const setEffectiveReps = getEffectiveReps(set);
+      if (setEffectiveReps !== undefined) {
+        effectiveReps = (effectiveReps || 0) + setEffectiveReps;
+      }
+      const rpe = getSetRpe(set);
+      if (rpe !== undefined) {
+        rpeSum += rpe;
+        rpeCount++;
+      }
+      
       // Track intensity (relative difficulty per rep)
       const intensity = relativeVolume / set.reps;
       intensitySum += intensity;
@@ -223,7 +318,11 @@ export function calculateImprovedExerciseVolume(
     totalReps: primaryVolumeType === 'reps-only' || primaryVolumeType === 'sets-reps' || primaryVolumeType === 'sets-reps-weight' ? totalReps : undefined,
     completedReps: primaryVolumeType === 'reps-only' || primaryVolumeType === 'sets-reps' || primaryVolumeType === 'sets-reps-weight' ? completedReps : undefined,
     averageIntensity,
-    maxIntensity
+    maxIntensity,
+    totalFatigueVolume,
+    completedFatigueVolume,
+    effectiveReps,
+    averageRpe: rpeCount > 0 ? rpeSum / rpeCount : undefined
   };
 }
 
@@ -250,10 +349,46 @@ export function formatImprovedVolume(volume: number, unit: string): string {
   }
 }
 
+export interface BlockVolumeMetrics {
+  totalRelativeVolume: number;
+  completedRelativeVolume: number;
+  roundsCompleted: number;
+  roundsPlanned?: number; // Superset/circuit rounds (EMOM/AMRAP are time-capped)
+  density?: number; // Completed relative volume per minute of time cap
+}
+
+/**
+ * Volume of a superset/circuit/EMOM/AMRAP block
+ * Sums the members' relative volume (duration/distance/completion members are counted as rounds only)
+ */
+export function calculateBlockVolume(
+  block: ExerciseBlock,
+  exercises: Exercise[],
+  userBodyweight: number = DEFAULT_BODYWEIGHT_KG
+): BlockVolumeMetrics {
+  let totalRelativeVolume = 0;
+  let completedRelativeVolume = 0;
+  
+  exercises.forEach(exercise => {
+    const metrics = calculateImprovedExerciseVolume(exercise, userBodyweight);
+    if (metrics.volumeUnit !== 'relative units') return;
+    totalRelativeVolume += metrics.totalRelativeVolume;
+    completedRelativeVolume += metrics.completedRelativeVolume;
+  });
+  
+  return {
+    totalRelativeVolume,
+    completedRelativeVolume,
+    roundsCompleted: getBlockRoundsCompleted(exercises),
+    roundsPlanned: block.type === 'superset' || block.type === 'circuit' ? block.rounds : undefined,
+    density: block.timeCapMinutes ? completedRelativeVolume / block.timeCapMinutes : undefined
+  };
+}
+
 /**
  * Compare old vs new volume calculation methods
  */
-export function compareVolumeCalculations(exercise: Exercise, userBodyweight: number = 75): {
+export function compareVolumeCalculations(exercise: Exercise, userBodyweight: number = DEFAULT_BODYWEIGHT_KG): {
   oldMethod: { volume: number; description: string };
   newMethod: { volume: number; description: string };
   improvement: string;
@@ -108,3 +108,24 @@ export function generateRankAtPosition(existingRanks: string[], insertIndex: num
   
   return generateRank(sortedRanks[insertIndex - 1], sortedRanks[insertIndex]);
 }
+
+/**
+ * Evenly spaced ranks for `count` items in order (e.g. when rebuilding a day's order from scratch)
+ * @param count - Number of ranks needed
+ * @returns Ascending ranks
+ */
+export function generateEvenRanks(count: number): string[] {
+  let length = 1;
+  while (Math.pow(BASE_36.length, length) <= count + 1) length++;
+  const space = Math.pow(BASE_36.length, length);
+
+  return Array.from({ length: count }, (_, index) => {
+    let value = Math.floor(((index + 1) * space) / (count + 1));
+    let rank = '';
+    for (let i = 0; i < length; i++) {
+      rank = BASE_36[value % BASE_36.length] + rank;
+      value = Math.floor(value / BASE_36.length);
+    }
+    return rank.replace(/0+$/, '');
+  });
+}
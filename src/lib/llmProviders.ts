@@ -0,0 +1,79 @@
+/**
+ * LLM provider registry
+ * Describes each supported backend and resolves per-user settings with defaults
+ */
+
+import type { LLMProvider, LLMSettings } from '@/types/llm';
+
+export interface LLMProviderInfo {
+  id: LLMProvider;
+  label: string;
+  description: string;
+  defaultModel: string;
+  suggestedModels: string[];
+  defaultBaseUrl?: string; // For OpenAI-compatible local servers
+  viaProxy: boolean; // Routed through /api/openai with a server-held key (hosted) or called directly (local)
+}
+
+export const LLM_PROVIDERS: Record<LLMProvider, LLMProviderInfo> = {
+  openai: {
+    id: 'openai',
+    label: 'OpenAI',
+    description: 'Hosted OpenAI models',
+    defaultModel: 'gpt-4o',
+    suggestedModels: ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1', 'gpt-4.1-mini'],
+    viaProxy: true,
+  },
+  anthropic: {
+    id: 'anthropic',
+    label: 'Anthropic',
+    description: 'Hosted Claude models',
+    defaultModel: 'claude-sonnet-4-5',
+    suggestedModels: ['claude-sonnet-4-5', 'claude-haiku-4-5', 'claude-opus-4-1'],
+    viaProxy: true,
+  },
+  ollama: {
+    id: 'ollama',
+    label: 'Ollama / OpenAI-compatible',
+    description: 'Local server with an OpenAI-compatible /v1/chat/completions endpoint',
+    defaultModel: 'llama3.1',
+    suggestedModels: ['llama3.1', 'qwen2.5', 'mistral'],
+    defaultBaseUrl: 'http://localhost:11434',
+    viaProxy: false,
+  },
+};
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = {
+  provider: 'openai',
+  model: LLM_PROVIDERS.openai.defaultModel,
+  temperature: 0.7,
+  maxTokens: 4000,
+};
+
+/**
+ * Merge stored user settings with defaults
+ * `overrides` lets a call site tune e.g. maxTokens without touching the user's choice
+ */
+export function resolveLLMSettings(
+  userSettings?: Partial<LLMSettings>,
+  overrides?: Partial<LLMSettings>
+): LLMSettings {
+  const provider = userSettings?.provider || DEFAULT_LLM_SETTINGS.provider;
+  const providerInfo = LLM_PROVIDERS[provider] || LLM_PROVIDERS.openai;
+
+  return {
+    provider: providerInfo.id,
+    model: userSettings?.model || providerInfo.defaultModel,
+    temperature: userSettings?.temperature ?? DEFAULT_LLM_SETTINGS.temperature,
+    maxTokens: userSettings?.maxTokens ?? DEFAULT_LLM_SETTINGS.maxTokens,
+    baseUrl: userSettings?.baseUrl || providerInfo.defaultBaseUrl,
+    ...overrides,
+  };
+}
+
+/**
+ * Identifier recorded in GenerationMetadata.llmModel, e.g. "anthropic/claude-sonnet-4-5"
+ */
+export function formatLLMModel(settings: Pick<LLMSettings, 'provider' | 'model'>): string {
+  return `${settings.provider}/${settings.model}`;
+}
@@ -0,0 +1,492 @@
+/**
+ * Milestone Progress - Places the plan's phases on the calendar and evaluates their success indicators
+ * Indicators are free text written by the coach; the common shapes (lift targets, rep counts, distances,
+ * workout counts, adherence, bodyweight and body fat) are parsed and checked against completed workouts
+ * and measurements. Anything else is left to the user's checkbox.
+ */
+
+import type { AIPlan } from '@/types/aiCoach';
+import type { ExerciseSet } from '@/types/fitness';
+import type { BodyMeasurement } from '@/types/measurements';
+import type { UserProfile } from '@/types/profile';
+import type { OneRepMaxFormula, WorkoutDocument } from '@/types/workout';
+import { EXERCISE_DATABASE, findExerciseDefinition, type ExerciseDefinition } from './exerciseDatabase';
+import { getBestOneRepMaxKg, DEFAULT_ONE_REP_MAX_FORMULA } from './strengthMetrics';
+import { createBodyweightLookup, getMeasurementValue, getWorkoutDate, sortMeasurements } from './bodyMeasurements';
+import { getMacrocycleWeekNumber, getPeriodizationSchedule } from './periodization';
+import { addDays } from './dateUtils';
+
+const LB_TO_KG = 0.453592;
+const MILE_TO_KM = 1.60934;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type PhaseStatus = 'upcoming' | 'current' | 'done';
+
+export interface IndicatorEvaluation {
+  progress: number; // 0-1
+  met: boolean;
+  detail: string; // e.g. "Best e1RM 72.5 kg of 80 kg"
+}
+
+export interface IndicatorProgress {
+  text: string;
+  checked: boolean; // Marked as achieved by the user
+  evaluation: IndicatorEvaluation | null; // null when the indicator can't be read from workout data
+  progress: number; // 0-1; a checked indicator counts as done
+  met: boolean;
+}
+
+export interface PhaseProgress {
+  milestoneId: string;
+  phaseIndex: number;
+  name: string;
+  focus: string;
+  startWeek: number; // 1-based macrocycle week
+  endWeek: number; // inclusive
+  startDate: string;
+  endDate: string;
+  status: PhaseStatus;
+  timeProgress: number; // 0-1 share of the phase's days that have passed
+  indicators: IndicatorProgress[];
+  progress: number | null; // 0-1 average of the indicators, null without indicators
+}
+
+export interface MacrocycleProgress {
+  startDate: string;
+  endDate: string;
+  totalWeeks: number;
+  currentWeek: number; // 0 before the start, > totalWeeks after the end
+  completedWeeks: number[]; // Macrocycle weeks with a completed microcycle
+  deloadWeeks: number[];
+  phases: PhaseProgress[];
+  indicators: IndicatorProgress[]; // Macrocycle goal indicators, evaluated over the whole plan
+  progress: number | null;
+}
+
+/**
+ * Data an indicator is evaluated against
+ * Counts and adherence use the range's workouts; lift, rep and distance records count from the plan start
+ */
+export interface IndicatorContext {
+  workouts: WorkoutDocument[]; // Completed workouts within the range
+  recordWorkouts: WorkoutDocument[]; // Completed workouts from the plan start to the range end
+  plannedWorkouts: WorkoutDocument[]; // Unfinished workouts scheduled within the range and already due
+  measurements: BodyMeasurement[];
+  range: { start: string; end: string }; // end is capped at today
+  formula: OneRepMaxFormula;
+  bodyweightKg: (date?: string) => number;
+}
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+function daysBetween(start: string, end: string): number {
+  return Math.round((Date.parse(end) - Date.parse(start)) / DAY_MS);
+}
+
+function round(value: number, decimals = 1): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function result(progress: number, detail: string): IndicatorEvaluation {
+  const clamped = clamp(progress);
+  return { progress: clamped, met: clamped >= 1, detail };
+}
+
+function toKg(value: number, unit: string): number {
+  return unit.startsWith('l') || unit.startsWith('p') ? value * LB_TO_KG : value;
+}
+
+// ============================================================================
+// Exercise matching
+// ============================================================================
+
+function termPattern(term: string): RegExp {
+  const body = term
+    .toLowerCase()
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/[\s-]+/g, '[\\s-]?');
+  return new RegExp(`\\b${body}(?:e?s)?\\b`);
+}
+
+const EXERCISE_TERMS = EXERCISE_DATABASE.flatMap(definition =>
+  [definition.name, ...definition.aliases].map(term => ({
+    definition,
+    length: term.length,
+    pattern: termPattern(term.replace(/-?s$/i, ''))
+  }))
+);
+
+/**
+ * Database exercise named in an indicator; the longest matching name wins ("bench press" over "press")
+ */
+export function findIndicatorExercise(text: string): ExerciseDefinition | null {
+  const lower = text.toLowerCase();
+  let best: (typeof EXERCISE_TERMS)[number] | null = null;
+  for (const term of EXERCISE_TERMS) {
+    if (term.pattern.test(lower) && (!best || term.length > best.length)) best = term;
+  }
+  return best?.definition ?? null;
+}
+
+function getExerciseSets(workouts: WorkoutDocument[], definition: ExerciseDefinition): Array<{ date: string; sets: ExerciseSet[] }> {
+  return workouts.flatMap(workout => workout.exercises
+    .filter(exercise => findExerciseDefinition(exercise.name)?.name === definition.name)
+    .map(exercise => ({
+      date: getWorkoutDate(workout) ?? '',
+      sets: exercise.sets.filter(set => set.completed !== false)
+    })));
+}
+
+// ============================================================================
+// Workout distance and time
+// ============================================================================
+
+function getSetDistanceKm(set: ExerciseSet): number {
+  const match = set.notes?.match(/([0-9]+(?:\.[0-9]+)?)\s*(km|mi|m)\b/);
+  if (!match) return 0;
+  const value = parseFloat(match[1]);
+  return match[2] === 'mi' ? value * MILE_TO_KM : match[2] === 'm' ? value / 1000 : value;
+}
+
+/**
+ * Distance (km) and moving time (seconds) of one workout, from its recording or its distance sets
+ */
+function getWorkoutDistance(workout: WorkoutDocument): { km: number; seconds: number } {
+  if (workout.activity) {
+    return { km: workout.activity.distanceMeters / 1000, seconds: workout.activity.movingSeconds };
+  }
+  let km = 0;
+  let seconds = 0;
+  workout.exercises.forEach(exercise => exercise.sets.forEach(set => {
+    if (set.volumeType !== 'distance' || set.completed === false) return;
+    km += getSetDistanceKm(set);
+    seconds += set.duration || 0;
+  }));
+  return { km, seconds };
+}
+
+function parseTimeLimitSeconds(text: string): number | undefined {
+  const clock = text.match(/\b(\d{1,3}):(\d{2})(?::(\d{2}))?\b/);
+  if (clock) {
+    return clock[3] !== undefined
+      ? Number(clock[1]) * 3600 + Number(clock[2]) * 60 + Number(clock[3])
+      : Number(clock[1]) * 60 + Number(clock[2]);
+  }
+  const hours = text.match(/(\d+(?:\.\d+)?)\s*(?:hours?|hrs?|h)\b/);
+  const minutes = text.match(/(\d+(?:\.\d+)?)\s*(?:minutes?|mins?)\b/);
+  if (!hours && !minutes) return undefined;
+  return (hours ? parseFloat(hours[1]) * 3600 : 0) + (minutes ? parseFloat(minutes[1]) * 60 : 0);
+}
+
+function formatSeconds(seconds: number): string {
+  const rounded = Math.round(seconds);
+  const hours = Math.floor(rounded / 3600);
+  const minutes = Math.floor((rounded % 3600) / 60);
+  const secs = String(rounded % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+// ============================================================================
+// Indicator evaluators
+// ============================================================================
+
+function evaluateLiftTarget(definition: ExerciseDefinition, targetKg: number, reps: number, context: IndicatorContext): IndicatorEvaluation | null {
+  const entries = getExerciseSets(context.recordWorkouts, definition);
+  if (reps > 1) {
+    let best = 0;
+    entries.forEach(({ sets }) => sets.forEach(set => {
+      if (set.volumeType !== 'sets-reps-weight' || !set.weight || set.reps < reps) return;
+      best = Math.max(best, toKg(set.weight, set.weightUnit || 'kg'));
+    }));
+    return result(best / targetKg, best > 0
+      ? `Best ${round(best)} kg for ${reps}+ reps of ${round(targetKg)} kg`
+      : `No ${definition.name} sets of ${reps}+ reps yet`);
+  }
+
+  const best = getBestOneRepMaxKg(entries.flatMap(entry => entry.sets), context.formula);
+  return result((best ?? 0) / targetKg, best !== undefined
+    ? `Best e1RM ${best} kg of ${round(targetKg)} kg`
+    : `No weighted ${definition.name} sets yet`);
+}
+
+function evaluateBodyweightRatio(definition: ExerciseDefinition, ratio: number, context: IndicatorContext): IndicatorEvaluation {
+  let bestRatio = 0;
+  getExerciseSets(context.recordWorkouts, definition).forEach(({ date, sets }) => {
+    const oneRepMax = getBestOneRepMaxKg(sets, context.formula);
+    if (!oneRepMax) return;
+    bestRatio = Math.max(bestRatio, oneRepMax / context.bodyweightKg(date));
+  });
+  return result(bestRatio / ratio, bestRatio > 0
+    ? `Best ${round(bestRatio, 2)}× bodyweight of ${ratio}×`
+    : `No weighted ${definition.name} sets yet`);
+}
+
+function evaluateRepsTarget(definition: ExerciseDefinition, reps: number, context: IndicatorContext): IndicatorEvaluation {
+  let best = 0;
+  getExerciseSets(context.recordWorkouts, definition).forEach(({ sets }) => sets.forEach(set => {
+    if (set.volumeType === 'duration' || set.volumeType === 'distance') return;
+    best = Math.max(best, set.reps || 0);
+  }));
+  return result(best / reps, `Best set ${best} of ${reps} reps`);
+}
+
+function evaluateHoldTarget(definition: ExerciseDefinition, seconds: number, context: IndicatorContext): IndicatorEvaluation {
+  let best = 0;
+  getExerciseSets(context.recordWorkouts, definition).forEach(({ sets }) => sets.forEach(set => {
+    best = Math.max(best, set.duration || 0);
+  }));
+  return result(best / seconds, `Longest hold ${formatSeconds(best)} of ${formatSeconds(seconds)}`);
+}
+
+function evaluateDistanceTarget(targetKm: number, timeLimit: number | undefined, context: IndicatorContext): IndicatorEvaluation {
+  const efforts = context.recordWorkouts.map(getWorkoutDistance).filter(effort => effort.km > 0);
+  const longest = efforts.reduce((max, effort) => Math.max(max, effort.km), 0);
+  const distanceDetail = `Longest ${round(longest)} km of ${round(targetKm)} km`;
+  if (timeLimit === undefined) return result(longest / targetKm, distanceDetail);
+
+  // Time over the target distance, at the pace of efforts that covered it
+  const times = efforts
+    .filter(effort => effort.km >= targetKm && effort.seconds > 0)
+    .map(effort => effort.seconds * targetKm / effort.km);
+  if (times.length === 0) {
+    return { progress: clamp(longest / targetKm) * 0.5, met: false, detail: distanceDetail };
+  }
+  const best = Math.min(...times);
+  return result(timeLimit / best, `Best ${formatSeconds(best)} over ${round(targetKm)} km, target ${formatSeconds(timeLimit)}`);
+}
+
+function evaluateWorkoutCount(target: number, perWeek: boolean, context: IndicatorContext): IndicatorEvaluation {
+  if (!perWeek) {
+    return result(context.workouts.length / target, `${context.workouts.length} of ${target} workouts`);
+  }
+  // Weeks of the range so far, the current one included
+  const weeks = Math.floor(daysBetween(context.range.start, context.range.end) / 7) + 1;
+  const counts = new Array<number>(weeks).fill(0);
+  context.workouts.forEach(workout => {
+    const date = getWorkoutDate(workout);
+    if (date) counts[Math.floor(daysBetween(context.range.start, date) / 7)]++;
+  });
+  const score = counts.reduce((sum, count) => sum + Math.min(1, count / target), 0);
+  const weeksMet = counts.filter(count => count >= target).length;
+  return result(score / weeks, `${target}+ workouts in ${weeksMet} of ${weeks} weeks`);
+}
+
+function evaluateAdherence(targetPercent: number, context: IndicatorContext): IndicatorEvaluation {
+  const scheduled = context.workouts.length + context.plannedWorkouts.length;
+  if (scheduled === 0) return { progress: 0, met: false, detail: 'No scheduled workouts yet' };
+  const percent = Math.round(context.workouts.length / scheduled * 100);
+  return result(percent / targetPercent, `${percent}% of scheduled workouts completed, target ${targetPercent}%`);
+}
+
+/**
+ * Progress from a baseline towards a target value (either direction)
+ */
+function evaluateTowards(
+  metric: 'bodyweight' | 'bodyFatPercent',
+  target: number | ((baseline: number) => number),
+  unit: string,
+  context: IndicatorContext
+): IndicatorEvaluation {
+  const values = sortMeasurements(context.measurements)
+    .filter(measurement => measurement.date <= context.range.end)
+    .map(measurement => ({ date: measurement.date, value: getMeasurementValue(measurement, metric) }))
+    .filter((entry): entry is { date: string; value: number } => entry.value !== undefined);
+  if (values.length === 0) return { progress: 0, met: false, detail: `No ${metric === 'bodyweight' ? 'weigh-ins' : 'body fat entries'} yet` };
+
+  const baseline = [...values].reverse().find(entry => entry.date <= context.range.start) ?? values[0];
+  const current = values[values.length - 1];
+  const goal = typeof target === 'function' ? target(baseline.value) : target;
+  const needed = goal - baseline.value;
+  const progress = needed === 0 ? 1 : (current.value - baseline.value) / needed;
+  return result(progress, `${round(baseline.value)} → ${round(current.value)} ${unit}, target ${round(goal)} ${unit}`);
+}
+
+/**
+ * Evaluate a success indicator against workout and measurement data; null when its shape isn't recognized
+ */
+export function evaluateSuccessIndicator(text: string, context: IndicatorContext): IndicatorEvaluation | null {
+  const lower = text.toLowerCase().replace(/,(?=\d)/g, '.');
+  const exercise = findIndicatorExercise(lower);
+  const mentionsBodyweight = /\b(body\s*weight|bw|weigh)/.test(lower);
+
+  // "Squat 1.5x bodyweight"
+  const ratio = lower.match(/(\d+(?:\.\d+)?)\s*(?:x|×|times)\s*(?:my\s+|your\s+)?(?:body\s*weight|bw)\b/);
+  if (ratio) return exercise ? evaluateBodyweightRatio(exercise, parseFloat(ratio[1]), context) : null;
+
+  // "Get below 18% body fat"
+  const bodyFat = lower.match(/(\d+(?:\.\d+)?)\s*%\s*(?:body\s*fat|bf)\b/) ?? lower.match(/\b(?:body\s*fat|bf)\b\D{0,20}(\d+(?:\.\d+)?)\s*%/);
+  if (bodyFat) return evaluateTowards('bodyFatPercent', parseFloat(bodyFat[1]), '%', context);
+
+  // "90% workout adherence"
+  const adherence = lower.match(/(\d+(?:\.\d+)?)\s*%/);
+  if (adherence && /\b(adherence|consisten|complet|attendance|scheduled|planned)/.test(lower)) {
+    return evaluateAdherence(parseFloat(adherence[1]), context);
+  }
+
+  // "Lose 4 kg" / "Reach 75 kg bodyweight"
+  const weight = lower.match(/(\d+(?:\.\d+)?)\s*(kgs?|kilos?|lbs?|pounds?)\b/);
+  const change = lower.match(/\b(lose|drop|cut|shed|gain|put on|add)\b\D{0,15}(\d+(?:\.\d+)?)\s*(kgs?|kilos?|lbs?|pounds?)\b/);
+  if (change && (!exercise || mentionsBodyweight)) {
+    const amount = toKg(parseFloat(change[2]), change[3]);
+    const sign = /lose|drop|cut|shed/.test(change[1]) ? -1 : 1;
+    return evaluateTowards('bodyweight', baseline => baseline + sign * amount, 'kg', context);
+  }
+  if (weight && mentionsBodyweight && !exercise) {
+    return evaluateTowards('bodyweight', toKg(parseFloat(weight[1]), weight[2]), 'kg', context);
+  }
+
+  // "Bench press 80 kg" / "Deadlift 140 kg for 5 reps"
+  if (weight && exercise) {
+    const reps = lower.match(/(?:for|x|×)\s*(\d+)\s*(?:reps?)?\b/) ?? lower.match(/\b(\d+)\s*reps?\b/);
+    return evaluateLiftTarget(exercise, toKg(parseFloat(weight[1]), weight[2]), reps ? Number(reps[1]) : 1, context);
+  }
+
+  // "Run 5 km under 25 minutes"
+  const distance = lower.match(/(\d+(?:\.\d+)?)\s*(km|k|kilomet(?:er|re)s?|mi|miles?)\b/);
+  if (distance) {
+    const km = /^(mi)/.test(distance[2]) ? parseFloat(distance[1]) * MILE_TO_KM : parseFloat(distance[1]);
+    return evaluateDistanceTarget(km, parseTimeLimitSeconds(lower.replace(distance[0], '')), context);
+  }
+
+  // "Train 4 times per week" / "Complete 24 workouts"
+  const perWeek = lower.match(/(\d+)\s*\+?\s*(?:or more\s+)?(?:workouts?|sessions?|times|days|training days)\s*(?:a|per|each|every|\/)\s*week/);
+  if (perWeek) return evaluateWorkoutCount(Number(perWeek[1]), true, context);
+  const total = lower.match(/(\d+)\s*\+?\s*(?:training\s+)?(?:workouts?|sessions?)\b/);
+  if (total) return evaluateWorkoutCount(Number(total[1]), false, context);
+
+  // "Hold a 60 second plank" / "10 strict pull-ups"
+  if (exercise) {
+    const seconds = lower.match(/(\d+)\s*(?:seconds?|secs?|s)\b/);
+    const hold = seconds ? Number(seconds[1]) : parseTimeLimitSeconds(lower);
+    if (hold !== undefined && exercise.volumeCalculation === 'duration') return evaluateHoldTarget(exercise, hold, context);
+    const reps = lower.match(/\b(\d+)\b/);
+    if (reps) return evaluateRepsTarget(exercise, Number(reps[1]), context);
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Plan progress
+// ============================================================================
+
+function evaluateIndicators(texts: string[], checked: string[] | undefined, context: IndicatorContext | null): IndicatorProgress[] {
+  return texts.map(text => {
+    const isChecked = !!checked?.includes(text);
+    const evaluation = context ? evaluateSuccessIndicator(text, context) : null;
+    return {
+      text,
+      checked: isChecked,
+      evaluation,
+      progress: isChecked ? 1 : evaluation?.progress ?? 0,
+      met: isChecked || !!evaluation?.met
+    };
+  });
+}
+
+function averageProgress(indicators: IndicatorProgress[]): number | null {
+  if (indicators.length === 0) return null;
+  return indicators.reduce((sum, indicator) => sum + indicator.progress, 0) / indicators.length;
+}
+
+/**
+ * Timeline and indicator progress for the plan's macrocycle and each of its phases
+ */
+export function getMilestoneProgress(
+  plan: AIPlan,
+  workouts: WorkoutDocument[],
+  measurements: BodyMeasurement[],
+  today: string,
+  options: { profile?: UserProfile; formula?: OneRepMaxFormula } = {}
+): MacrocycleProgress {
+  const startDate = plan.macrocycleGoal.startDate.split('T')[0];
+  const schedule = getPeriodizationSchedule(plan);
+  const totalWeeks = Math.max(schedule.length, Math.round(plan.macrocycleGoal.durationWeeks || 0));
+  const endDate = plan.macrocycleGoal.endDate?.split('T')[0] || addDays(startDate, totalWeeks * 7 - 1);
+  const currentWeek = today < startDate ? 0 : getMacrocycleWeekNumber(plan, today);
+
+  const completed = workouts.filter(workout => workout.status === 'completed');
+  const workoutDates = new Map(completed.map(workout => [workout.id, getWorkoutDate(workout)]));
+
+  // A microcycle belongs to the week of its workouts; fall back to when it was completed
+  const completedWeeks = new Set<number>();
+  (plan.completedMicrocycles || []).forEach(microcycle => {
+    const dates = microcycle.workoutIds.map(id => workoutDates.get(id)).filter((date): date is string => !!date).sort();
+    const week = getMacrocycleWeekNumber(plan, dates[0] ?? microcycle.completedAt);
+    if (week > 0) completedWeeks.add(week);
+  });
+
+  const bodyweightKg = createBodyweightLookup(measurements, options.profile);
+  const contextFor = (start: string, end: string): IndicatorContext | null => {
+    if (today < start) return null;
+    const cappedEnd = end < today ? end : today;
+    const between = (from: string) => (workout: WorkoutDocument) => {
+      const date = getWorkoutDate(workout);
+      return !!date && date >= from && date <= cappedEnd;
+    };
+    return {
+      workouts: completed.filter(between(start)),
+      recordWorkouts: completed.filter(between(startDate)),
+      plannedWorkouts: workouts.filter(workout =>
+        workout.status !== 'completed' && !!workout.date && workout.date < today && between(start)(workout)
+      ),
+      measurements,
+      range: { start, end: cappedEnd },
+      formula: options.formula || DEFAULT_ONE_REP_MAX_FORMULA,
+      bodyweightKg
+    };
+  };
+
+  let weekOffset = 0;
+  const phases: PhaseProgress[] = plan.mesocycleMilestones.map((milestone, phaseIndex) => {
+    const phaseWeeks = schedule.filter(week => week.phaseIndex === phaseIndex).length;
+    const startWeek = weekOffset + 1;
+    const endWeek = weekOffset + phaseWeeks;
+    weekOffset = endWeek;
+
+    const phaseStart = addDays(startDate, (startWeek - 1) * 7);
+    const phaseEnd = addDays(startDate, endWeek * 7 - 1);
+    const status: PhaseStatus = today < phaseStart ? 'upcoming' : today > phaseEnd ? 'done' : 'current';
+    const indicators = evaluateIndicators(
+      milestone.successIndicators || [],
+      milestone.checkedIndicators,
+      contextFor(phaseStart, phaseEnd)
+    );
+
+    return {
+      milestoneId: milestone.id,
+      phaseIndex,
+      name: milestone.name,
+      focus: milestone.focus,
+      startWeek,
+      endWeek,
+      startDate: phaseStart,
+      endDate: phaseEnd,
+      status,
+      timeProgress: phaseWeeks > 0 ? clamp((daysBetween(phaseStart, today) + 1) / (phaseWeeks * 7)) : 0,
+      indicators,
+      progress: averageProgress(indicators)
+    };
+  });
+
+  const indicators = evaluateIndicators(
+    plan.macrocycleGoal.successIndicators || [],
+    plan.macrocycleGoal.checkedIndicators,
+    contextFor(startDate, endDate)
+  );
+
+  return {
+    startDate,
+    endDate,
+    totalWeeks,
+    currentWeek,
+    completedWeeks: [...completedWeeks].sort((a, b) => a - b),
+    deloadWeeks: schedule.filter(week => week.isDeload).map(week => week.macrocycleWeek),
+    phases,
+    indicators,
+    progress: averageProgress(indicators)
+  };
+}
@@ -0,0 +1,202 @@
+/**
+ * Offline mutation queue for workouts
+ * Persists WorkoutDocument mutations in IndexedDB while the device has no connection
+ * and replays them in order once it comes back online
+ */
+
+import type { WorkoutDocument, WorkoutUpdate } from '@/types/workout';
+
+const DB_NAME = 'tailored-fitness-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'workoutMutations';
+
+// Firestore writes don't reject without a connection, they wait for the server; past this we treat them as offline
+export const WRITE_TIMEOUT_MS = 10000;
+
+/**
+ * Sync status shown per workout while it has queued mutations
+ */
+export type WorkoutSyncStatus = 'queued' | 'failed';
+
+/**
+ * A single queued workout mutation
+ * `seq` is assigned by IndexedDB (autoIncrement) and defines replay order
+ */
+export interface QueuedWorkoutMutation {
+  seq?: number;
+  userId: string;
+  workoutId: string;
+  kind: 'create' | 'update' | 'delete';
+  workout?: WorkoutDocument; // Full document for 'create'
+  updates?: WorkoutUpdate; // Partial update for 'update' (undefined values clear fields)
+  base?: WorkoutDocument; // Version the update was made against (used for conflict merging)
+  lastMutation: {
+    clientId: string;
+    mutationId: string;
+    timestamp: number;
+  };
+  queuedAt: number;
+  status: WorkoutSyncStatus;
+  attempts: number;
+  lastError?: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and upgrade if needed) the offline database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'seq', autoIncrement: true });
+        store.createIndex('userId', 'userId', { unique: false });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Run a single request inside a transaction and resolve with its result
+ */
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  buildRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = buildRequest(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Check whether the browser currently reports a network connection
+ */
+export function isDeviceOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine;
+}
+
+/**
+ * Check if a Firestore/fetch error means "no connection" rather than a rejected write
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (!isDeviceOnline()) return true;
+  const code = (error as { code?: string } | null)?.code;
+  if (code === 'unavailable' || code === 'deadline-exceeded') return true;
+  return error instanceof TypeError && /fetch|network/i.test(error.message);
+}
+
+/**
+ * Reject with a network error if a Firestore write hasn't been confirmed in time
+ * The write itself keeps going in the SDK; callers replay it from the queue, which is safe because replays are idempotent
+ */
+export function withWriteTimeout<T>(write: Promise<T>, timeoutMs = WRITE_TIMEOUT_MS): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(Object.assign(new Error('The server did not confirm the write in time'), { code: 'deadline-exceeded' }));
+    }, timeoutMs);
+  });
+  return Promise.race([write, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Append a mutation to the end of the queue
+ */
+export async function enqueueMutation(
+  mutation: Omit<QueuedWorkoutMutation, 'seq' | 'queuedAt' | 'status' | 'attempts'>
+): Promise<QueuedWorkoutMutation> {
+  const entry: QueuedWorkoutMutation = {
+    ...mutation,
+    queuedAt: Date.now(),
+    status: 'queued',
+    attempts: 0,
+  };
+  const seq = await runRequest('readwrite', store => store.add(entry));
+  return { ...entry, seq: seq as number };
+}
+
+/**
+ * Get all queued mutations for a user, oldest first
+ */
+export async function getQueuedMutations(userId: string): Promise<QueuedWorkoutMutation[]> {
+  const entries = await runRequest<QueuedWorkoutMutation[]>('readonly', store =>
+    store.index('userId').getAll(userId)
+  );
+  return entries.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+}
+
+/**
+ * Remove a mutation after it has been written to Firestore
+ */
+export async function removeQueuedMutation(seq: number): Promise<void> {
+  await runRequest('readwrite', store => store.delete(seq));
+}
+
+/**
+ * Persist a changed queue entry (status, attempts, error)
+ */
+export async function updateQueuedMutation(entry: QueuedWorkoutMutation): Promise<void> {
+  await runRequest('readwrite', store => store.put(entry));
+}
+
+/**
+ * Derive per-workout sync status from the queue
+ * A workout is 'failed' if any of its queued mutations failed, otherwise 'queued'
+ */
+export function getSyncStatusMap(queue: QueuedWorkoutMutation[]): Record<string, WorkoutSyncStatus> {
+  const statusMap: Record<string, WorkoutSyncStatus> = {};
+  queue.forEach(entry => {
+    if (statusMap[entry.workoutId] !== 'failed') {
+      statusMap[entry.workoutId] = entry.status;
+    }
+  });
+  return statusMap;
+}
+
+/**
+ * Apply queued mutations on top of a server workout list
+ * Used so changes made offline survive reloads and incoming snapshots
+ */
+export function applyQueuedMutations(
+  workouts: WorkoutDocument[],
+  queue: QueuedWorkoutMutation[]
+): WorkoutDocument[] {
+  let result = [...workouts];
+
+  queue.forEach(entry => {
+    if (entry.kind === 'create' && entry.workout) {
+      if (!result.some(w => w.id === entry.workoutId)) {
+        result.push(entry.workout);
+      }
+    } else if (entry.kind === 'update' && entry.updates) {
+      result = result.map(w =>
+        w.id === entry.workoutId
+          ? { ...w, ...entry.updates, lastMutation: entry.lastMutation }
+          : w
+      );
+    } else if (entry.kind === 'delete') {
+      result = result.filter(w => w.id !== entry.workoutId);
+    }
+  });
+
+  return result;
+}
@@ -3,8 +3,26 @@
  * 
  * This module provides a consistent interface for calling OpenAI API
  * through the Vercel serverless proxy to avoid CORS issues.
+ * 
+ * The proxy also speaks to other providers (see `provider`); responses are always
+ * normalized to the OpenAI chat completions shape. `callLLM` picks the right route
+ * for the user's LLM settings and can stream the completion (server-sent events).
+ * 
+ * Requests are authenticated with the user's Firebase ID token; API keys stay on the server.
  */
 
+import { auth } from '@/lib/firebase';
+import { LLM_PROVIDERS, formatLLMModel } from '@/lib/llmProviders';
+import type {
+  LLMProvider,
+  LLMSettings,
+  LLMMessage,
+  LLMCompletion,
+  LLMCallOptions,
+  LLMProxyErrorCode,
+  LLMQuotaInfo
+} from '@/types/llm';
+
 /**
  * Get the API proxy endpoint URL based on environment
  */
@@ -29,7 +47,9 @@ export interface OpenAIProxyRequest {
   }>;
   temperature?: number;
   max_tokens?: number;
-  apiKey: string;
+  provider?: LLMProvider; // Defaults to 'openai' on the server
+  model?: string; // Defaults to the provider's default model on the server
+  stream?: boolean; // Respond with server-sent `chat.completion.chunk` events
 }
 
 export interface OpenAIProxyResponse {
@@ -48,11 +68,158 @@ export interface OpenAIProxyResponse {
   };
 }
 
+/**
+ * Error body returned by the proxy
+ */
+interface OpenAIProxyErrorBody {
+  error?: string;
+  code?: LLMProxyErrorCode;
+  quota?: LLMQuotaInfo;
+  status?: number; // Only in stream error events
+}
+
+/**
+ * A single streamed chunk (OpenAI `chat.completion.chunk` shape)
+ */
+interface OpenAIStreamChunk extends OpenAIProxyErrorBody {
+  choices?: Array<{
+    delta?: { content?: string };
+    finish_reason: string | null;
+  }>;
+  usage?: OpenAIProxyResponse['usage'];
+}
+
+/**
+ * Structured error from the proxy (auth, rate limit, daily budget, provider failure)
+ */
+export class LLMProxyError extends Error {
+  readonly status: number;
+  readonly code: LLMProxyErrorCode;
+  readonly quota?: LLMQuotaInfo;
+
+  constructor(status: number, body: OpenAIProxyErrorBody) {
+    super(describeProxyError(status, body));
+    this.name = 'LLMProxyError';
+    this.status = status;
+    this.code = body.code || (status === 429 ? 'rate_limited' : 'internal');
+    this.quota = body.quota;
+  }
+}
+
+/**
+ * User-facing message for a proxy error
+ */
+function describeProxyError(status: number, body: OpenAIProxyErrorBody): string {
+  const { code, quota } = body;
+
+  if (code === 'rate_limited') {
+    const wait = quota ? ` Try again in ${quota.retryAfterSeconds}s.` : ' Try again in a minute.';
+    return `Too many AI requests.${wait}`;
+  }
+  if (code === 'daily_budget_exceeded') {
+    const usage = quota ? ` (${quota.used.toLocaleString()} of ${quota.limit.toLocaleString()} tokens)` : '';
+    const reset = quota
+      ? ` It resets at ${new Date(quota.resetAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.`
+      : '';
+    return `You've used today's AI Coach budget${usage}.${reset}`;
+  }
+  if (code === 'unauthenticated' || code === 'invalid_token' || code === 'token_expired') {
+    return 'Your session has expired. Please sign in again to use the AI Coach.';
+  }
+  return body.error || `Proxy error: ${status}`;
+}
+
+/**
+ * Firebase ID token of the signed-in user, sent as a bearer token to the proxy
+ */
+async function getAuthToken(): Promise<string> {
+  const currentUser = auth.currentUser;
+  if (!currentUser) {
+    throw new LLMProxyError(401, { code: 'unauthenticated' });
+  }
+  return currentUser.getIdToken();
+}
+
+/**
+ * Check whether an error comes from an aborted request
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Read a server-sent event stream of completion chunks into a full response
+ */
+async function readCompletionStream(
+  response: Response,
+  onDelta: NonNullable<LLMCallOptions['onDelta']>
+): Promise<OpenAIProxyResponse> {
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let content = '';
+  let finishReason = 'stop';
+  let usage: OpenAIProxyResponse['usage'] | undefined;
+
+  const handleLine = (line: string): boolean => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) return false;
+    const payload = trimmed.slice(5).trim();
+    if (payload === '[DONE]') return true;
+
+    let chunk: OpenAIStreamChunk;
+    try {
+      chunk = JSON.parse(payload);
+    } catch {
+      return false; // Keep-alive or malformed line
+    }
+
+    if (chunk.error) {
+      throw new LLMProxyError(chunk.status || 500, chunk);
+    }
+    const delta = chunk.choices?.[0]?.delta?.content;
+    if (delta) {
+      content += delta;
+      onDelta(delta, content);
+    }
+    finishReason = chunk.choices?.[0]?.finish_reason || finishReason;
+    usage = chunk.usage || usage;
+    return false;
+  };
+
+  let done = false;
+  while (!done) {
+    const { value, done: streamDone } = await reader.read();
+    if (streamDone) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    done = lines.some(handleLine);
+  }
+  if (done) {
+    await reader.cancel();
+  }
+
+  return {
+    choices: [{ message: { role: 'assistant', content }, finish_reason: finishReason, index: 0 }],
+    usage: usage || { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+  };
+}
+
 /**
  * Call OpenAI API through the proxy
  */
-export async function callOpenAIProxy(request: OpenAIProxyRequest): Promise<OpenAIProxyResponse> {
+export async function callOpenAIProxy(
+  request: OpenAIProxyRequest,
+  options: LLMCallOptions = {}
+): Promise<OpenAIProxyResponse> {
   const endpoint = getProxyEndpoint();
+  const idToken = await getAuthToken();
   
   console.log('[OpenAI Proxy] Calling endpoint:', endpoint);
   
@@ -60,20 +227,100 @@ export async function callOpenAIProxy(request: OpenAIProxyRequest): Promise<Open
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
+      'Authorization': `Bearer ${idToken}`,
     },
-    body: JSON.stringify(request),
+    body: JSON.stringify({ ...request, stream: Boolean(options.onDelta) }),
+    signal: options.signal,
   });
 
   if (!response.ok) {
-    const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
-    throw new Error(errorData.error || `Proxy error: ${response.status} ${response.statusText}`);
+    const errorData: OpenAIProxyErrorBody = await response.json()
+      .catch(() => ({ error: `Proxy error: ${response.status} ${response.statusText}` }));
+    throw new LLMProxyError(response.status, errorData);
   }
 
-  return response.json();
+  return options.onDelta ? readCompletionStream(response, options.onDelta) : response.json();
 }
 
+/**
+ * Call an OpenAI-compatible server directly (local models, no proxy needed)
+ */
+async function callOpenAICompatible(
+  baseUrl: string,
+  request: Omit<OpenAIProxyRequest, 'provider'>,
+  options: LLMCallOptions = {}
+): Promise<OpenAIProxyResponse> {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/v1/chat/completions`;
+  
+  console.log('[LLM] Calling local endpoint:', endpoint);
+  
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(options.onDelta
+      ? { ...request, stream: true, stream_options: { include_usage: true } }
+      : request),
+    signal: options.signal,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '');
+    throw new Error(`Local model error: ${response.status} ${response.statusText}${errorText ? ` - ${errorText}` : ''}`);
+  }
 
+  return options.onDelta ? readCompletionStream(response, options.onDelta) : response.json();
+}
 
+/**
+ * Run a chat completion with the given provider settings
+ * Hosted providers go through the authenticated proxy;
+ * OpenAI-compatible local servers are called directly.
+ * Pass `options.onDelta` to stream the completion and `options.signal` to cancel it.
+ */
+export async function callLLM(
+  settings: LLMSettings,
+  messages: LLMMessage[],
+  options: LLMCallOptions = {}
+): Promise<LLMCompletion> {
+  const providerInfo = LLM_PROVIDERS[settings.provider];
+  
+  if (!providerInfo) {
+    throw new Error(`Unknown LLM provider: ${settings.provider}`);
+  }
 
+  let data: OpenAIProxyResponse;
+  
+  if (providerInfo.viaProxy) {
+    data = await callOpenAIProxy({
+      provider: settings.provider,
+      model: settings.model,
+      messages,
+      temperature: settings.temperature,
+      max_tokens: settings.maxTokens,
+    }, options);
+  } else {
+    data = await callOpenAICompatible(settings.baseUrl || providerInfo.defaultBaseUrl || '', {
+      model: settings.model,
+      messages,
+      temperature: settings.temperature,
+      max_tokens: settings.maxTokens,
+    }, options);
+  }
 
+  const content = data.choices?.[0]?.message?.content;
+  if (!content) {
+    throw new Error(`No response from ${providerInfo.label}`);
+  }
 
+  return {
+    content,
+    llmModel: formatLLMModel(settings),
+    usage: data.usage && {
+      promptTokens: data.usage.prompt_tokens,
+      completionTokens: data.usage.completion_tokens,
+      totalTokens: data.usage.total_tokens,
+    },
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * Partial JSON parsing
+ * Best-effort parse of an incomplete JSON document (e.g. a streamed LLM response):
+ * the text is cut back to the last complete value and open strings, arrays and
+ * objects are closed, so `{"a": [1, 2, {"b": "hel` parses as `{ a: [1, 2, { b: 'hel' }] }`
+ */
+
+interface Frame {
+  type: 'object' | 'array';
+  expectingValue: boolean; // Objects: after ':' and before the next ','
+}
+
+interface CutPoint {
+  index: number; // Text up to (not including) this index is kept
+  closers: string; // Brackets needed to close the open containers at this point
+}
+
+function closersFor(stack: Frame[]): string {
+  return stack.map(frame => (frame.type === 'object' ? '}' : ']')).reverse().join('');
+}
+
+function tryParse(text: string): { ok: true; value: unknown } | { ok: false } {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+/**
+ * Strip a leading markdown code fence and any text before the first `{` or `[`
+ */
+function stripPreamble(text: string): string {
+  const withoutFence = text.replace(/^\s*```(?:json)?\s*/, '').replace(/\s*```\s*$/, '');
+  const start = withoutFence.search(/[{[]/);
+  return start === -1 ? '' : withoutFence.slice(start);
+}
+
+/**
+ * Parse as much of an incomplete JSON document as possible
+ * Returns undefined when nothing usable has been received yet
+ */
+export function parsePartialJson(text: string): unknown {
+  const source = stripPreamble(text);
+  if (!source) return undefined;
+
+  const complete = tryParse(source);
+  if (complete.ok) return complete.value;
+
+  const stack: Frame[] = [];
+  let lastCut: CutPoint | null = null;
+  let inString = false;
+  let escaped = false;
+  let stringIsValue = false;
+  let stringStart = 0;
+
+  const markCut = (index: number) => {
+    lastCut = { index, closers: closersFor(stack) };
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    const top = stack[stack.length - 1];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+        if (stringIsValue) markCut(i + 1);
+      }
+      continue;
+    }
+
+    switch (char) {
+      case '"':
+        inString = true;
+        stringStart = i;
+        stringIsValue = !top || top.type === 'array' || top.expectingValue;
+        break;
+      case '{':
+      case '[':
+        stack.push({ type: char === '{' ? 'object' : 'array', expectingValue: false });
+        markCut(i + 1);
+        break;
+      case '}':
+      case ']':
+        stack.pop();
+        markCut(i + 1);
+        if (stack.length === 0) {
+          // Complete document followed by trailing text
+          const closed = tryParse(source.slice(0, i + 1));
+          return closed.ok ? closed.value : undefined;
+        }
+        break;
+      case ':':
+        if (top?.type === 'object') top.expectingValue = true;
+        break;
+      case ',':
+        if (top?.type === 'object') top.expectingValue = false;
+        markCut(i);
+        break;
+    }
+  }
+
+  // Close a truncated string value, dropping an incomplete escape sequence
+  if (inString && stringIsValue) {
+    const partialString = source.slice(stringStart).replace(/\\(u[0-9a-fA-F]{0,3})?$/, '');
+    const candidate = tryParse(source.slice(0, stringStart) + partialString + '"' + closersFor(stack));
+    if (candidate.ok) return candidate.value;
+  }
+
+  const cut = lastCut as CutPoint | null;
+  if (!cut) return undefined;
+  const fallback = tryParse(source.slice(0, cut.index) + cut.closers);
+  return fallback.ok ? fallback.value : undefined;
+}
@@ -0,0 +1,208 @@
+/**
+ * Periodization - Maps calendar weeks onto the plan's mesocycle milestones and applies phase targets
+ * Week 1 starts on the macrocycle start date; milestones follow each other by durationWeeks.
+ * Targets are relative (volume multiplier, % of 1RM, reps, RPE) so they apply to any exercise.
+ */
+
+import type {
+  AIPlan,
+  DeloadStrategy,
+  IntensityScheme,
+  PeriodizationSettings,
+  PeriodizationTargets,
+  PeriodizationWeek
+} from '@/types/aiCoach';
+
+type PeriodizedPlan = Pick<AIPlan, 'macrocycleGoal' | 'mesocycleMilestones' | 'periodization'>;
+
+export const DEFAULT_PERIODIZATION: PeriodizationSettings = { scheme: 'linear', deload: 'phase-end' };
+const DEFAULT_DELOAD_INTERVAL_WEEKS = 4;
+const MIN_WEEKS_FOR_PHASE_END_DELOAD = 3;
+const MAX_INTENSITY_PERCENT = 95; // Heavier singles are tested, not programmed
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const INTENSITY_SCHEMES: Record<IntensityScheme, { label: string; description: string }> = {
+  linear: { label: 'Linear', description: 'Heavier with fewer reps each week of a phase' },
+  undulating: { label: 'Undulating', description: 'Heavy, moderate and light sessions every week' },
+  block: { label: 'Block', description: 'Phases rotate accumulation, transmutation and realization' }
+};
+
+export const DELOAD_STRATEGIES: Record<DeloadStrategy, { label: string }> = {
+  'phase-end': { label: 'Last week of each phase' },
+  interval: { label: 'Every few weeks' },
+  'planned-only': { label: 'Only planned weeks' }
+};
+
+const DELOAD_TARGETS: PeriodizationTargets = {
+  label: 'Deload',
+  volume: 0.6,
+  intensityPercent: [55, 65],
+  repRange: [6, 10],
+  rpe: 6
+};
+
+const UNDULATING_SESSIONS: PeriodizationTargets[] = [
+  { label: 'Heavy', volume: 1, intensityPercent: [85, 90], repRange: [3, 5], rpe: 8.5 },
+  { label: 'Moderate', volume: 1, intensityPercent: [75, 80], repRange: [6, 8], rpe: 8 },
+  { label: 'Light', volume: 1, intensityPercent: [65, 70], repRange: [10, 15], rpe: 7 }
+];
+
+const BLOCKS: PeriodizationTargets[] = [
+  { label: 'Accumulation', volume: 1.2, intensityPercent: [65, 75], repRange: [8, 12], rpe: 7 },
+  { label: 'Transmutation', volume: 1, intensityPercent: [75, 85], repRange: [5, 8], rpe: 8 },
+  { label: 'Realization', volume: 0.7, intensityPercent: [85, 95], repRange: [1, 5], rpe: 9 }
+];
+
+export function getPeriodizationSettings(plan: Pick<AIPlan, 'periodization'>): PeriodizationSettings {
+  return { ...DEFAULT_PERIODIZATION, ...plan.periodization };
+}
+
+function toDateOnly(date: string): string {
+  return date.split('T')[0];
+}
+
+/**
+ * Deload weeks (1-based) of one phase: planned weeks win, otherwise the plan's strategy
+ */
+export function getDeloadWeeks(
+  phaseWeeks: number,
+  settings: PeriodizationSettings,
+  plannedWeeks?: number[]
+): number[] {
+  if (plannedWeeks) return plannedWeeks.filter(week => week >= 1 && week <= phaseWeeks).sort((a, b) => a - b);
+  if (settings.deload === 'phase-end') {
+    return phaseWeeks >= MIN_WEEKS_FOR_PHASE_END_DELOAD ? [phaseWeeks] : [];
+  }
+  if (settings.deload === 'interval') {
+    const interval = Math.max(2, settings.deloadIntervalWeeks || DEFAULT_DELOAD_INTERVAL_WEEKS);
+    return Array.from({ length: Math.floor(phaseWeeks / interval) }, (_, index) => (index + 1) * interval);
+  }
+  return [];
+}
+
+function roundRpe(rpe: number): number {
+  return Math.round(rpe * 2) / 2;
+}
+
+function shift(targets: PeriodizationTargets, intensity: number): PeriodizationTargets {
+  return {
+    ...targets,
+    intensityPercent: [
+      Math.min(MAX_INTENSITY_PERCENT, targets.intensityPercent[0] + intensity),
+      Math.min(MAX_INTENSITY_PERCENT, targets.intensityPercent[1] + intensity)
+    ]
+  };
+}
+
+/**
+ * Targets for a training (non-deload) week; `progress` runs 0 → 1 across the phase's training weeks
+ */
+function getTrainingTargets(scheme: IntensityScheme, phaseIndex: number, progress: number): PeriodizationTargets {
+  if (scheme === 'undulating') {
+    const wave = Math.round(progress * 4);
+    return {
+      label: 'Undulating',
+      volume: 1,
+      intensityPercent: [65 + wave, 90 + wave],
+      repRange: [3, 15],
+      rpe: 8,
+      sessions: UNDULATING_SESSIONS.map(session => shift(session, wave))
+    };
+  }
+
+  if (scheme === 'block') {
+    return shift(BLOCKS[phaseIndex % BLOCKS.length], Math.round(progress * 5));
+  }
+
+  const intensity = Math.round(65 + 20 * progress);
+  return {
+    label: progress < 0.34 ? 'Base' : progress < 0.67 ? 'Build' : 'Peak',
+    volume: Math.round((1.1 - 0.2 * progress) * 100) / 100,
+    intensityPercent: [intensity, intensity + 5],
+    repRange: [Math.round(8 - 4 * progress), Math.round(12 - 6 * progress)],
+    rpe: roundRpe(7 + 1.5 * progress)
+  };
+}
+
+/**
+ * Every week of the macrocycle, in order
+ */
+export function getPeriodizationSchedule(plan: PeriodizedPlan): PeriodizationWeek[] {
+  const settings = getPeriodizationSettings(plan);
+  const phaseLengths = plan.mesocycleMilestones.map(milestone => Math.max(0, Math.round(milestone.durationWeeks || 0)));
+  const totalWeeks = phaseLengths.reduce((sum, phaseWeeks) => sum + phaseWeeks, 0);
+  const weeks: PeriodizationWeek[] = [];
+
+  plan.mesocycleMilestones.forEach((milestone, phaseIndex) => {
+    const phaseWeeks = phaseLengths[phaseIndex];
+    const deloadWeeks = getDeloadWeeks(phaseWeeks, settings, milestone.deloadWeeks);
+    const trainingWeeks = Math.max(1, phaseWeeks - deloadWeeks.length);
+    let trainingIndex = 0;
+
+    for (let weekInPhase = 1; weekInPhase <= phaseWeeks; weekInPhase++) {
+      const isDeload = deloadWeeks.includes(weekInPhase);
+      const progress = trainingWeeks > 1 ? trainingIndex / (trainingWeeks - 1) : 0;
+      if (!isDeload) trainingIndex++;
+
+      weeks.push({
+        macrocycleWeek: weeks.length + 1,
+        totalWeeks,
+        phaseIndex,
+        milestoneId: milestone.id,
+        milestoneName: milestone.name,
+        focus: milestone.focus,
+        weekInPhase,
+        phaseWeeks,
+        isDeload,
+        scheme: settings.scheme,
+        targets: isDeload ? DELOAD_TARGETS : getTrainingTargets(settings.scheme, phaseIndex, progress)
+      });
+    }
+  });
+
+  return weeks;
+}
+
+/**
+ * Macrocycle week (1-based) containing a date; 0 before the start date
+ */
+export function getMacrocycleWeekNumber(plan: Pick<AIPlan, 'macrocycleGoal'>, date: string): number {
+  const days = Math.round((Date.parse(toDateOnly(date)) - Date.parse(toDateOnly(plan.macrocycleGoal.startDate))) / DAY_MS);
+  return Number.isNaN(days) || days < 0 ? 0 : Math.floor(days / 7) + 1;
+}
+
+/**
+ * The schedule week containing a date, or null before the plan starts or after its last phase
+ */
+export function resolvePeriodizationWeek(plan: PeriodizedPlan, date: string): PeriodizationWeek | null {
+  const weekNumber = getMacrocycleWeekNumber(plan, date);
+  if (weekNumber === 0) return null;
+  return getPeriodizationSchedule(plan)[weekNumber - 1] ?? null;
+}
+
+export function formatTargetsSummary(targets: PeriodizationTargets): string {
+  const volume = targets.volume === 1 ? 'normal volume' : `${Math.round(targets.volume * 100)}% of normal volume`;
+  return `${targets.repRange[0]}-${targets.repRange[1]} reps at ${targets.intensityPercent[0]}-${targets.intensityPercent[1]}% 1RM, RPE ${targets.rpe}, ${volume}`;
+}
+
+/**
+ * Prompt text for {PERIODIZATION_TARGETS}
+ */
+export function formatPeriodizationTargets(week: PeriodizationWeek | null): string {
+  if (!week) {
+    return 'No periodization targets (this week is outside the planned phases).';
+  }
+
+  const lines = [
+    `Macrocycle week ${week.macrocycleWeek} of ${week.totalWeeks}: phase ${week.phaseIndex + 1} "${week.milestoneName}" (${week.focus}), week ${week.weekInPhase} of ${week.phaseWeeks}`,
+    `Scheme: ${INTENSITY_SCHEMES[week.scheme].label}${week.isDeload ? ' - DELOAD WEEK' : ''}`,
+    `${week.targets.label}: ${formatTargetsSummary(week.targets)}`
+  ];
+  week.targets.sessions?.forEach(session => {
+    lines.push(`- ${session.label} session: ${formatTargetsSummary(session)}`);
+  });
+  if (week.isDeload) {
+    lines.push('Cut working sets and weights from the progression targets accordingly; no new personal records this week.');
+  }
+  return lines.join('\n');
+}
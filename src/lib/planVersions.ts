@@ -0,0 +1,179 @@
+/**
+ * Plan Versions - Snapshots of the AI plan's goals and suggestions, and side-by-side diffs between them
+ * Versions are written by aiCoachStore after every goals/microcycle change; this module stays Firestore-free.
+ */
+
+import type {
+  AIPlan,
+  MacrocycleGoal,
+  MesocycleMilestone,
+  PlanSnapshot,
+  PlanVersion,
+  PlanVersionAuthor,
+  PlanVersionChange
+} from '@/types/aiCoach';
+import { INTENSITY_SCHEMES, DELOAD_STRATEGIES, getPeriodizationSettings } from './periodization';
+
+export type DiffStatus = 'unchanged' | 'changed' | 'added' | 'removed';
+
+export interface FieldDiff {
+  label: string;
+  before?: string;
+  after?: string;
+  status: DiffStatus;
+}
+
+export interface MilestoneDiff {
+  index: number; // Phases are compared by position; ids change on every edit
+  status: DiffStatus;
+  fields: FieldDiff[];
+}
+
+export interface PlanDiff {
+  macrocycle: FieldDiff[];
+  milestones: MilestoneDiff[];
+  changeCount: number;
+}
+
+export const PLAN_VERSION_CHANGES: Record<PlanVersionChange, string> = {
+  'goals-generated': 'Generated goals',
+  'goals-regenerated': 'Regenerated goals',
+  'goals-edited': 'Edited goals',
+  'microcycle-generated': 'Suggested workouts',
+  rollback: 'Restored an earlier version'
+};
+
+export function createPlanSnapshot(plan: AIPlan): PlanSnapshot {
+  return {
+    planId: plan.id,
+    macrocycleGoal: plan.macrocycleGoal,
+    mesocycleMilestones: plan.mesocycleMilestones,
+    periodization: plan.periodization,
+    suggestion: plan.currentSuggestion && {
+      weekDateRange: plan.currentSuggestion.weekDateRange,
+      assessment: plan.currentSuggestion.assessment,
+      workoutNames: plan.currentSuggestion.suggestedWorkouts.map(workout => workout.name)
+    }
+  };
+}
+
+interface PlanVersionDetails {
+  summary?: string;
+  feedback?: string;
+  llmModel?: string;
+  restoredVersionId?: string;
+}
+
+/**
+ * Version of the plan as it is after a change
+ */
+export function createPlanVersion(
+  plan: AIPlan,
+  change: PlanVersionChange,
+  author: PlanVersionAuthor,
+  details: PlanVersionDetails = {}
+): PlanVersion {
+  return {
+    id: `version_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    createdAt: new Date().toISOString(),
+    author,
+    change,
+    ...details,
+    summary: details.summary || PLAN_VERSION_CHANGES[change],
+    feedback: details.feedback?.trim() || undefined,
+    snapshot: createPlanSnapshot(plan)
+  };
+}
+
+/**
+ * Goal fields a rollback writes back to the plan
+ */
+export function getRestorableGoals(snapshot: PlanSnapshot): Pick<AIPlan, 'macrocycleGoal' | 'mesocycleMilestones' | 'periodization'> {
+  return {
+    macrocycleGoal: snapshot.macrocycleGoal,
+    mesocycleMilestones: snapshot.mesocycleMilestones,
+    periodization: snapshot.periodization
+  };
+}
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+function formatList(values?: Array<string | number>): string | undefined {
+  return values && values.length > 0 ? values.join('\n') : undefined;
+}
+
+function compareField(label: string, before?: string | number, after?: string | number): FieldDiff {
+  const beforeText = before === undefined || before === '' ? undefined : String(before);
+  const afterText = after === undefined || after === '' ? undefined : String(after);
+  return {
+    label,
+    before: beforeText,
+    after: afterText,
+    status: beforeText === afterText ? 'unchanged'
+      : beforeText === undefined ? 'added'
+        : afterText === undefined ? 'removed'
+          : 'changed'
+  };
+}
+
+function describePeriodization(snapshot: PlanSnapshot): string {
+  const settings = getPeriodizationSettings(snapshot);
+  const deload = settings.deload === 'interval'
+    ? `deload every ${settings.deloadIntervalWeeks ?? 4} weeks`
+    : DELOAD_STRATEGIES[settings.deload].label.toLowerCase();
+  return `${INTENSITY_SCHEMES[settings.scheme].label}, ${deload}`;
+}
+
+function macrocycleFields(before: MacrocycleGoal, after: MacrocycleGoal): FieldDiff[] {
+  return [
+    compareField('Name', before.name, after.name),
+    compareField('Description', before.value, after.value),
+    compareField('Duration (weeks)', before.durationWeeks, after.durationWeeks),
+    compareField('Start', before.startDate, after.startDate),
+    compareField('End', before.endDate, after.endDate),
+    compareField('Expected outcome', before.promisedOutcome, after.promisedOutcome),
+    compareField('Success indicators', formatList(before.successIndicators), formatList(after.successIndicators))
+  ];
+}
+
+function milestoneFields(before?: MesocycleMilestone, after?: MesocycleMilestone): FieldDiff[] {
+  return [
+    compareField('Name', before?.name, after?.name),
+    compareField('Duration (weeks)', before?.durationWeeks, after?.durationWeeks),
+    compareField('Focus', before?.focus, after?.focus),
+    compareField('Description', before?.value, after?.value),
+    compareField('Success indicators', formatList(before?.successIndicators), formatList(after?.successIndicators)),
+    compareField('Planned deload weeks', formatList(before?.deloadWeeks), formatList(after?.deloadWeeks))
+  ];
+}
+
+/**
+ * Field-by-field comparison of two snapshots' macrocycle goal, periodization and milestones
+ */
+export function diffPlanSnapshots(before: PlanSnapshot, after: PlanSnapshot): PlanDiff {
+  const macrocycle = [
+    ...macrocycleFields(before.macrocycleGoal, after.macrocycleGoal),
+    compareField('Periodization', describePeriodization(before), describePeriodization(after))
+  ];
+
+  const phaseCount = Math.max(before.mesocycleMilestones.length, after.mesocycleMilestones.length);
+  const milestones: MilestoneDiff[] = Array.from({ length: phaseCount }, (_, index) => {
+    const previous = before.mesocycleMilestones[index];
+    const next = after.mesocycleMilestones[index];
+    const fields = milestoneFields(previous, next);
+    return {
+      index,
+      fields,
+      status: !previous ? 'added'
+        : !next ? 'removed'
+          : fields.some(field => field.status !== 'unchanged') ? 'changed' : 'unchanged'
+    };
+  });
+
+  const changeCount = macrocycle.filter(field => field.status !== 'unchanged').length
+    + milestones.filter(milestone => milestone.status !== 'unchanged').length;
+
+  return { macrocycle, milestones, changeCount };
+}
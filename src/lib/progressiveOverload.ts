@@ -0,0 +1,353 @@
+/**
+ * Progressive overload engine
+ * Looks at the last few sessions of an exercise and proposes the next session's
+ * reps/weight per set using a linear, double or RPE-based progression rule
+ */
+
+import type { ExerciseSet } from '@/types/fitness';
+import type { WorkoutDocument } from '@/types/workout';
+import type {
+  ExerciseSession,
+  ProgressionProposal,
+  ProgressionRule,
+  ProgressionRuleConfig
+} from '@/types/progression';
+import { findExerciseDefinition } from './exerciseDatabase';
+import { getSetRpe } from './setEffort';
+
+export const DEFAULT_PROGRESSION_SESSIONS = 4;
+export const DEFAULT_TARGET_RPE = 8;
+const DEFAULT_REP_RANGE_SPAN = 4;
+const DELOAD_FACTOR = 0.9;
+const STALLS_BEFORE_DELOAD = 2;
+const LOAD_PER_RPE_POINT = 0.025; // ~2.5% load per rep in reserve
+
+export const PROGRESSION_RULES: Record<ProgressionRule, { label: string; description: string }> = {
+  linear: {
+    label: 'Linear',
+    description: 'Add weight every session all sets are completed; deload after repeated misses'
+  },
+  double: {
+    label: 'Double progression',
+    description: 'Add reps up to the top of the range, then add weight and reset reps'
+  },
+  rpe: {
+    label: 'RPE-based',
+    description: 'Adjust weight so the top set lands on the target RPE'
+  }
+};
+
+/**
+ * Key for per-exercise settings (`progressionRules` in the user document)
+ */
+export function getProgressionKey(exerciseName: string): string {
+  return exerciseName.trim().toLowerCase();
+}
+
+/**
+ * Rep-based sets are the only ones progressed; duration/distance/completion work is left as is
+ */
+export function isProgressableSet(set: ExerciseSet): boolean {
+  const volumeType = set.volumeType || 'sets-reps';
+  return (volumeType === 'sets-reps' || volumeType === 'sets-reps-weight') && set.reps > 0;
+}
+
+// Sets of a completed workout that weren't explicitly unticked count as done
+function isSetCompleted(set: ExerciseSet): boolean {
+  return set.completed !== false;
+}
+
+function getTopWeight(sets: ExerciseSet[]): number {
+  return Math.max(0, ...sets.map(set => set.weight || 0));
+}
+
+function getWeightUnit(sets: ExerciseSet[]): 'kg' | 'lb' {
+  return sets.find(set => set.weightUnit)?.weightUnit || 'kg';
+}
+
+function roundWeight(weight: number, unit: 'kg' | 'lb'): number {
+  const step = unit === 'lb' ? 2.5 : 1.25;
+  return Math.max(step, Math.round(weight / step) * step);
+}
+
+/**
+ * Default weight increment: bigger jumps for lower-body lifts
+ */
+export function getDefaultIncrement(exerciseName: string, unit: 'kg' | 'lb' = 'kg'): number {
+  const definition = findExerciseDefinition(exerciseName);
+  const lowerBody = definition?.primaryMuscles.some(muscle =>
+    ['Legs', 'Quadriceps', 'Glutes', 'Hamstrings'].includes(muscle)
+  );
+  if (unit === 'lb') return lowerBody ? 10 : 5;
+  return lowerBody ? 5 : 2.5;
+}
+
+/**
+ * Collect the most recent completed sessions of an exercise (most recent first)
+ */
+export function getExerciseSessions(
+  workouts: WorkoutDocument[],
+  exerciseName: string,
+  options: { limit?: number; excludeWorkoutId?: string } = {}
+): ExerciseSession[] {
+  const { limit = DEFAULT_PROGRESSION_SESSIONS, excludeWorkoutId } = options;
+  const key = getProgressionKey(exerciseName);
+  if (!key) return [];
+
+  const sessions: ExerciseSession[] = [];
+
+  workouts.forEach(workout => {
+    if (workout.status !== 'completed' || workout.id === excludeWorkoutId) return;
+
+    workout.exercises.forEach(exercise => {
+      if (getProgressionKey(exercise.name) !== key) return;
+      const sets = exercise.sets.filter(isProgressableSet);
+      if (sets.length === 0) return;
+      sessions.push({
+        workoutId: workout.id,
+        date: workout.date || workout.completedAt?.split('T')[0] || '',
+        sets
+      });
+    });
+  });
+
+  return sessions
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, limit);
+}
+
+/**
+ * Rule used when the user hasn't picked one: RPE when RPE is being logged, otherwise double progression
+ */
+export function getDefaultProgressionRule(sessions: ExerciseSession[]): ProgressionRule {
+  const latest = sessions[0];
+  if (latest?.sets.some(set => getSetRpe(set) !== undefined)) return 'rpe';
+  return 'double';
+}
+
+/**
+ * Format sets compactly, grouping identical consecutive sets: "3×8 @ 60kg, 1×6 @ 65kg"
+ */
+export function formatSetsSummary(sets: ExerciseSet[]): string {
+  const groups: { count: number; set: ExerciseSet }[] = [];
+
+  sets.forEach(set => {
+    const last = groups[groups.length - 1];
+    if (last && last.set.reps === set.reps && (last.set.weight || 0) === (set.weight || 0)) {
+      last.count++;
+    } else {
+      groups.push({ count: 1, set });
+    }
+  });
+
+  return groups
+    .map(({ count, set }) => {
+      const load = set.weight ? ` @ ${set.weight}${set.weightUnit || 'kg'}` : '';
+      return `${count}×${set.reps}${load}`;
+    })
+    .join(', ');
+}
+
+// Next-session template: same structure and tempo, no completion state or logged effort/notes
+function toTargetSet(set: ExerciseSet, updates: Partial<ExerciseSet> = {}): ExerciseSet {
+  const target: ExerciseSet = { ...set, ...updates };
+  delete target.completed;
+  delete target.notes;
+  delete target.rpe;
+  delete target.rir;
+  return target;
+}
+
+interface RuleResult {
+  sets: ExerciseSet[];
+  reason: string;
+}
+
+function applyLinear(sessions: ExerciseSession[], increment: number): RuleResult {
+  const latest = sessions[0].sets;
+  const unit = getWeightUnit(latest);
+  const topWeight = getTopWeight(latest);
+
+  if (latest.every(isSetCompleted)) {
+    if (topWeight === 0) {
+      return {
+        sets: latest.map(set => toTargetSet(set, { reps: set.reps + 1 })),
+        reason: 'All sets completed: +1 rep per set'
+      };
+    }
+    return {
+      sets: latest.map(set => toTargetSet(set, set.weight ? { weight: set.weight + increment } : {})),
+      reason: `All sets completed: +${increment}${unit}`
+    };
+  }
+
+  // Count consecutive missed sessions at this weight
+  let stalls = 0;
+  for (const session of sessions) {
+    if (getTopWeight(session.sets) !== topWeight || session.sets.every(isSetCompleted)) break;
+    stalls++;
+  }
+
+  if (stalls >= STALLS_BEFORE_DELOAD && topWeight > 0) {
+    return {
+      sets: latest.map(set => toTargetSet(set, set.weight ? { weight: roundWeight(set.weight * DELOAD_FACTOR, unit) } : {})),
+      reason: `Missed sets ${stalls} sessions in a row: deload ${Math.round((1 - DELOAD_FACTOR) * 100)}%`
+    };
+  }
+
+  return {
+    sets: latest.map(set => toTargetSet(set)),
+    reason: 'Some sets were missed: repeat the same targets'
+  };
+}
+
+function inferRepRange(sessions: ExerciseSession[]): [number, number] {
+  const topWeight = getTopWeight(sessions[0].sets);
+  const repsAtWeight = sessions
+    .filter(session => getTopWeight(session.sets) === topWeight)
+    .flatMap(session => session.sets.map(set => set.reps));
+  const min = Math.min(...repsAtWeight);
+  return [min, min + DEFAULT_REP_RANGE_SPAN];
+}
+
+function applyDouble(sessions: ExerciseSession[], increment: number, repRange?: [number, number]): RuleResult {
+  const latest = sessions[0].sets;
+  const unit = getWeightUnit(latest);
+  const [minReps, maxReps] = repRange || inferRepRange(sessions);
+  const bodyweight = getTopWeight(latest) === 0;
+
+  if (!latest.every(isSetCompleted)) {
+    return {
+      sets: latest.map(set => toTargetSet(set)),
+      reason: 'Some sets were missed: repeat the same targets'
+    };
+  }
+
+  if (!bodyweight && latest.every(set => set.reps >= maxReps)) {
+    return {
+      sets: latest.map(set => toTargetSet(set, { reps: minReps, ...(set.weight ? { weight: set.weight + increment } : {}) })),
+      reason: `Top of the ${minReps}-${maxReps} rep range reached: +${increment}${unit}, back to ${minReps} reps`
+    };
+  }
+
+  return {
+    sets: latest.map(set => toTargetSet(set, { reps: bodyweight ? set.reps + 1 : Math.min(maxReps, set.reps + 1) })),
+    reason: bodyweight
+      ? 'All sets completed: +1 rep per set'
+      : `All sets completed: +1 rep toward ${maxReps}`
+  };
+}
+
+function applyRpe(sessions: ExerciseSession[], targetRpe: number, increment: number, repRange?: [number, number]): RuleResult {
+  const latest = sessions[0].sets;
+  const unit = getWeightUnit(latest);
+  const rated = latest
+    .map(set => ({ set, rpe: getSetRpe(set) }))
+    .filter((entry): entry is { set: ExerciseSet; rpe: number } => entry.rpe !== undefined);
+
+  if (rated.length === 0) {
+    const fallback = applyDouble(sessions, increment, repRange);
+    return { ...fallback, reason: `No RPE logged, using double progression. ${fallback.reason}` };
+  }
+
+  // The heaviest rated set drives the adjustment
+  const top = rated.reduce((best, entry) => ((entry.set.weight || 0) >= (best.set.weight || 0) ? entry : best));
+  const difference = targetRpe - top.rpe;
+
+  if (Math.abs(difference) < 0.5) {
+    return {
+      sets: latest.map(set => toTargetSet(set)),
+      reason: `Top set was RPE ${top.rpe}, on target: keep the load`
+    };
+  }
+
+  if (getTopWeight(latest) === 0) {
+    const repChange = Math.round(difference);
+    return {
+      sets: latest.map(set => toTargetSet(set, { reps: Math.max(1, set.reps + repChange) })),
+      reason: `Top set was RPE ${top.rpe} (target ${targetRpe}): ${repChange > 0 ? '+' : ''}${repChange} reps`
+    };
+  }
+
+  const factor = 1 + difference * LOAD_PER_RPE_POINT;
+  return {
+    sets: latest.map(set => toTargetSet(set, set.weight ? { weight: roundWeight(set.weight * factor, unit) } : {})),
+    reason: `Top set was RPE ${top.rpe} (target ${targetRpe}): ${difference > 0 ? 'increase' : 'reduce'} load ~${Math.round(Math.abs(difference) * LOAD_PER_RPE_POINT * 100)}%`
+  };
+}
+
+/**
+ * Propose the next session's sets for an exercise
+ * Returns null when there's no rep-based history to progress from
+ */
+export function proposeNextSession(
+  exerciseName: string,
+  sessions: ExerciseSession[],
+  config?: ProgressionRuleConfig
+): ProgressionProposal | null {
+  if (sessions.length === 0) return null;
+
+  const rule = config?.rule || getDefaultProgressionRule(sessions);
+  const increment = config?.increment || getDefaultIncrement(exerciseName, getWeightUnit(sessions[0].sets));
+
+  const result = rule === 'linear'
+    ? applyLinear(sessions, increment)
+    : rule === 'rpe'
+      ? applyRpe(sessions, config?.targetRpe || DEFAULT_TARGET_RPE, increment, config?.repRange)
+      : applyDouble(sessions, increment, config?.repRange);
+
+  return {
+    exerciseName,
+    rule,
+    sets: result.sets,
+    summary: formatSetsSummary(result.sets),
+    reason: result.reason,
+    basedOn: sessions
+  };
+}
+
+/**
+ * Proposals for every exercise trained recently (most recently trained first)
+ */
+export function proposeProgressionTargets(
+  workouts: WorkoutDocument[],
+  rules: Record<string, ProgressionRuleConfig> = {},
+  options: { maxExercises?: number } = {}
+): ProgressionProposal[] {
+  const { maxExercises = 20 } = options;
+
+  const recentNames = new Map<string, string>(); // key -> display name
+  [...workouts]
+    .filter(workout => workout.status === 'completed')
+    .sort((a, b) => (b.date || b.completedAt || '').localeCompare(a.date || a.completedAt || ''))
+    .forEach(workout => {
+      workout.exercises.forEach(exercise => {
+        const key = getProgressionKey(exercise.name);
+        if (key && !recentNames.has(key)) recentNames.set(key, exercise.name);
+      });
+    });
+
+  const proposals: ProgressionProposal[] = [];
+  for (const [key, name] of recentNames) {
+    if (proposals.length >= maxExercises) break;
+    const proposal = proposeNextSession(name, getExerciseSessions(workouts, name), rules[key]);
+    if (proposal) proposals.push(proposal);
+  }
+  return proposals;
+}
+
+/**
+ * Format proposals for the microcycle prompt
+ */
+export function formatProgressionTargets(proposals: ProgressionProposal[]): string {
+  if (proposals.length === 0) {
+    return 'No progression targets yet (no completed rep-based exercises).';
+  }
+
+  return proposals
+    .map(proposal => {
+      const last = formatSetsSummary(proposal.basedOn[0].sets);
+      return `- ${proposal.exerciseName} (${PROGRESSION_RULES[proposal.rule].label}): last ${last} on ${proposal.basedOn[0].date || 'unknown date'} → next ${proposal.summary}. ${proposal.reason}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,180 @@
+/**
+ * Rest timer - Countdown between sets during workout execution
+ * Persisted in localStorage so it survives closing/reopening the workout dialog (and reloads);
+ * the end alert is scheduled at module level so it fires even while the dialog is closed
+ */
+
+import type { Workout } from '@/types/fitness';
+
+const STORAGE_KEY = 'workout-rest-timer';
+
+// Rests longer than this are treated as abandoned and not logged
+export const MAX_LOGGED_REST_SECONDS = 30 * 60;
+
+export const REST_ADJUST_SECONDS = 15;
+
+/**
+ * The rest running after a completed set (one timer at a time across all workouts)
+ */
+export interface RestTimerState {
+  workoutId: string;
+  exerciseId: string;
+  exerciseName: string;
+  setIndex: number; // Set that was just completed
+  duration: number; // Planned rest in seconds (set.restTime, adjustable)
+  startedAt: number; // Epoch ms when the set was completed
+}
+
+export interface FinishedRest {
+  exerciseId: string;
+  setIndex: number;
+  seconds: number;
+}
+
+let alertTimeout: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Load the persisted timer, if any
+ */
+export function loadRestTimer(): RestTimerState | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) as RestTimerState : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveRestTimer(timer: RestTimerState | null) {
+  if (timer) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(timer));
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+export function getRestEndsAt(timer: RestTimerState): number {
+  return timer.startedAt + timer.duration * 1000;
+}
+
+/**
+ * Seconds left (negative once the planned rest is over)
+ */
+export function getRestRemaining(timer: RestTimerState, now: number = Date.now()): number {
+  return Math.ceil((getRestEndsAt(timer) - now) / 1000);
+}
+
+/**
+ * Ask for notification permission once, when the first rest starts
+ */
+function requestNotificationPermission() {
+  if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+    Notification.requestPermission().catch(() => {
+      // Ignore - the timer still works without notifications
+    });
+  }
+}
+
+/**
+ * Local notification and vibration when the planned rest is over
+ */
+function notifyRestComplete(timer: RestTimerState) {
+  if (typeof navigator !== 'undefined' && 'vibrate' in navigator) {
+    navigator.vibrate([200, 100, 200]);
+  }
+
+  if (typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+    try {
+      new Notification('Rest complete', {
+        body: `Time for your next set of ${timer.exerciseName}`,
+        tag: STORAGE_KEY
+      });
+    } catch (error) {
+      // Some mobile browsers only allow notifications from a service worker
+      console.warn('[RestTimer] Notification failed:', error);
+    }
+  }
+}
+
+/**
+ * (Re)schedule the end alert for the persisted timer
+ */
+export function scheduleRestAlert(timer: RestTimerState | null) {
+  if (alertTimeout) {
+    clearTimeout(alertTimeout);
+    alertTimeout = null;
+  }
+  if (!timer) return;
+
+  const delay = getRestEndsAt(timer) - Date.now();
+  if (delay <= 0) return;
+
+  alertTimeout = setTimeout(() => {
+    alertTimeout = null;
+    // Only alert if this rest is still the active one
+    const current = loadRestTimer();
+    if (current && current.startedAt === timer.startedAt && getRestEndsAt(current) === getRestEndsAt(timer)) {
+      notifyRestComplete(current);
+    }
+  }, delay);
+}
+
+/**
+ * Start resting after a completed set; replaces any running timer
+ */
+export function startRestTimer(timer: RestTimerState): RestTimerState {
+  requestNotificationPermission();
+  saveRestTimer(timer);
+  scheduleRestAlert(timer);
+  return timer;
+}
+
+/**
+ * Lengthen/shorten the planned rest (never below what has already elapsed)
+ */
+export function adjustRestTimer(timer: RestTimerState, deltaSeconds: number): RestTimerState {
+  const elapsed = Math.floor((Date.now() - timer.startedAt) / 1000);
+  const adjusted = { ...timer, duration: Math.max(elapsed, timer.duration + deltaSeconds) };
+  saveRestTimer(adjusted);
+  scheduleRestAlert(adjusted);
+  return adjusted;
+}
+
+/**
+ * Stop the timer and return the rest actually taken (null if abandoned)
+ */
+export function finishRestTimer(timer: RestTimerState, now: number = Date.now()): FinishedRest | null {
+  clearRestTimer();
+  const seconds = Math.round((now - timer.startedAt) / 1000);
+  if (seconds < 0 || seconds > MAX_LOGGED_REST_SECONDS) return null;
+  return { exerciseId: timer.exerciseId, setIndex: timer.setIndex, seconds };
+}
+
+export function clearRestTimer() {
+  saveRestTimer(null);
+  scheduleRestAlert(null);
+}
+
+/**
+ * Record the rest taken on the set it followed
+ */
+export function withActualRest(workout: Workout, rest: FinishedRest): Workout {
+  return {
+    ...workout,
+    exercises: workout.exercises.map(exercise => exercise.id !== rest.exerciseId ? exercise : {
+      ...exercise,
+      sets: exercise.sets.map((set, index) =>
+        index === rest.setIndex ? { ...set, actualRestTime: rest.seconds } : set
+      )
+    })
+  };
+}
+
+/**
+ * Format seconds as m:ss (prefixed with + for overtime)
+ */
+export function formatRestTime(seconds: number): string {
+  const abs = Math.abs(seconds);
+  const formatted = `${Math.floor(abs / 60)}:${String(abs % 60).padStart(2, '0')}`;
+  return seconds < 0 ? `+${formatted}` : formatted;
+}
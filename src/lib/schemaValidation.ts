@@ -0,0 +1,212 @@
+/**
+ * Minimal runtime schema validation
+ * Composable validators that collect field-level issues (with JSON paths) instead of
+ * throwing on the first problem, so the full report can be shown or sent back to an LLM
+ */
+
+export interface ValidationIssue {
+  path: string; // e.g. "suggestedWorkouts[0].exercises[2].sets[0].reps"
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: ValidationIssue[] };
+
+/**
+ * A validator for values of type T
+ * `parse` returns the (possibly coerced) value, or undefined after pushing issues
+ */
+export interface Schema<T> {
+  parse: (value: unknown, path: string, issues: ValidationIssue[]) => T | undefined;
+  optional?: boolean;
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function string(options: { minLength?: number } = {}): Schema<string> {
+  return {
+    parse: (value, path, issues) => {
+      if (typeof value !== 'string') {
+        issues.push({ path, message: `expected string, got ${describeType(value)}` });
+        return undefined;
+      }
+      if (options.minLength !== undefined && value.trim().length < options.minLength) {
+        issues.push({ path, message: options.minLength === 1 ? 'must not be empty' : `must be at least ${options.minLength} characters` });
+        return undefined;
+      }
+      return value;
+    },
+  };
+}
+
+/**
+ * Numbers; numeric strings like "4" are accepted and coerced (common in LLM output)
+ */
+function number(options: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> {
+  return {
+    parse: (value, path, issues) => {
+      const numeric = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof numeric !== 'number' || Number.isNaN(numeric)) {
+        issues.push({ path, message: `expected number, got ${describeType(value)}` });
+        return undefined;
+      }
+      if (options.integer && !Number.isInteger(numeric)) {
+        issues.push({ path, message: `expected integer, got ${numeric}` });
+        return undefined;
+      }
+      if (options.min !== undefined && numeric < options.min) {
+        issues.push({ path, message: `must be >= ${options.min}, got ${numeric}` });
+        return undefined;
+      }
+      if (options.max !== undefined && numeric > options.max) {
+        issues.push({ path, message: `must be <= ${options.max}, got ${numeric}` });
+        return undefined;
+      }
+      return numeric;
+    },
+  };
+}
+
+function boolean(): Schema<boolean> {
+  return {
+    parse: (value, path, issues) => {
+      if (typeof value !== 'boolean') {
+        issues.push({ path, message: `expected boolean, got ${describeType(value)}` });
+        return undefined;
+      }
+      return value;
+    },
+  };
+}
+
+function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return {
+    parse: (value, path, issues) => {
+      if (typeof value !== 'string' || !values.includes(value as T)) {
+        issues.push({ path, message: `expected one of ${values.map(v => `"${v}"`).join(', ')}, got ${JSON.stringify(value)}` });
+        return undefined;
+      }
+      return value as T;
+    },
+  };
+}
+
+function array<T>(item: Schema<T>, options: { minLength?: number } = {}): Schema<T[]> {
+  return {
+    parse: (value, path, issues) => {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `expected array, got ${describeType(value)}` });
+        return undefined;
+      }
+      if (options.minLength !== undefined && value.length < options.minLength) {
+        issues.push({ path, message: `must contain at least ${options.minLength} item${options.minLength === 1 ? '' : 's'}` });
+        return undefined;
+      }
+      const issueCount = issues.length;
+      const parsed = value.map((element, index) => item.parse(element, joinPath(path, index), issues));
+      return issues.length === issueCount ? (parsed as T[]) : undefined;
+    },
+  };
+}
+
+/**
+ * Objects; unknown keys are dropped, missing optional keys stay absent
+ */
+function object<T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+  return {
+    parse: (value, path, issues) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, message: `expected object, got ${describeType(value)}` });
+        return undefined;
+      }
+      const source = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+      const issueCount = issues.length;
+
+      (Object.keys(shape) as (keyof T & string)[]).forEach(key => {
+        const fieldSchema = shape[key];
+        const fieldPath = joinPath(path, key);
+        const fieldValue = source[key];
+
+        if (fieldValue === undefined || fieldValue === null) {
+          if (fieldSchema.optional) {
+            const fallback = fieldSchema.parse(undefined, fieldPath, issues);
+            if (fallback !== undefined) result[key] = fallback;
+          } else {
+            issues.push({ path: fieldPath, message: 'is required' });
+          }
+          return;
+        }
+
+        const parsed = fieldSchema.parse(fieldValue, fieldPath, issues);
+        if (parsed !== undefined) result[key] = parsed;
+      });
+
+      return issues.length === issueCount ? (result as T) : undefined;
+    },
+  };
+}
+
+/**
+ * Allow the value to be missing (undefined / null)
+ */
+function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    optional: true,
+    parse: (value, path, issues) => (value === undefined || value === null ? undefined : schema.parse(value, path, issues)),
+  };
+}
+
+/**
+ * Use a default when the value is missing
+ */
+function withDefault<T>(schema: Schema<T>, defaultValue: T): Schema<T> {
+  return {
+    optional: true,
+    parse: (value, path, issues) => (value === undefined || value === null ? defaultValue : schema.parse(value, path, issues)),
+  };
+}
+
+export const s = {
+  string,
+  number,
+  boolean,
+  oneOf,
+  array,
+  object,
+  optional,
+  withDefault,
+};
+
+/**
+ * Validate a value against a schema
+ */
+export function validateSchema<T>(schema: Schema<T>, value: unknown): ValidationResult<T> {
+  const issues: ValidationIssue[] = [];
+  const data = schema.parse(value, '', issues);
+  if (issues.length > 0 || data === undefined) {
+    return { success: false, issues: issues.length > 0 ? issues : [{ path: '', message: 'invalid value' }] };
+  }
+  return { success: true, data };
+}
+
+/**
+ * Format issues as a bullet list, e.g. "- mesocycleMilestones[0].durationWeeks: expected number, got string"
+ */
+export function formatValidationIssues(issues: ValidationIssue[], limit = 20): string {
+  const lines = issues.slice(0, limit).map(issue => `- ${issue.path || '(root)'}: ${issue.message}`);
+  if (issues.length > limit) {
+    lines.push(`- ...and ${issues.length - limit} more`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,93 @@
+/**
+ * Set effort helpers - RPE, reps in reserve (RIR) and tempo per set
+ * Text annotations follow the set line: `3x5x100kg @8 rir2 t3010 ++`
+ */
+
+import type { ExerciseSet } from '@/types/fitness';
+
+export type SetEffort = Pick<ExerciseSet, 'rpe' | 'rir' | 'tempo'>;
+
+export const RPE_OPTIONS = [6, 6.5, 7, 7.5, 8, 8.5, 9, 9.5, 10];
+export const RIR_OPTIONS = [0, 1, 2, 3, 4, 5];
+
+/**
+ * RPE on the 1-10 scale in half steps
+ */
+export function normalizeRpe(value: unknown): number | undefined {
+  const rpe = Number(value);
+  if (value === undefined || value === null || value === '' || Number.isNaN(rpe)) return undefined;
+  return Math.min(10, Math.max(1, Math.round(rpe * 2) / 2));
+}
+
+/**
+ * Whole reps in reserve, 0-10
+ */
+export function normalizeRir(value: unknown): number | undefined {
+  const rir = Number(value);
+  if (value === undefined || value === null || value === '' || Number.isNaN(rir)) return undefined;
+  return Math.min(10, Math.max(0, Math.round(rir)));
+}
+
+/**
+ * Four-phase tempo (eccentric, bottom pause, concentric, top pause); X = explosive
+ * Accepts "3010", "3-0-1-0", "31X0"; returns the compact form or undefined
+ */
+export function normalizeTempo(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const compact = value.replace(/[\s-]/g, '').toUpperCase();
+  return /^[0-9X]{4}$/.test(compact) ? compact : undefined;
+}
+
+/**
+ * Reps in reserve from RIR, or estimated from RPE (RPE 8 ≈ 2 RIR)
+ */
+export function getEffectiveRir(set: ExerciseSet): number | undefined {
+  if (set.rir !== undefined) return set.rir;
+  if (set.rpe !== undefined) return Math.max(0, 10 - set.rpe);
+  return undefined;
+}
+
+/**
+ * RPE from the field, falling back to notes logged before the field existed ("RPE 8", "@8.5")
+ */
+export function getSetRpe(set: ExerciseSet): number | undefined {
+  if (set.rpe !== undefined) return set.rpe;
+  if (set.rir !== undefined) return Math.max(1, 10 - set.rir);
+  const match = set.notes?.match(/(?:rpe\s*|@\s*)(\d+(?:\.\d+)?)/i);
+  if (!match) return undefined;
+  const rpe = Number(match[1]);
+  return rpe >= 1 && rpe <= 10 ? rpe : undefined;
+}
+
+/**
+ * Only the effort fields that are set (for spreading into a set)
+ */
+export function pickSetEffort(source: SetEffort): SetEffort {
+  const effort: SetEffort = {};
+  if (source.rpe !== undefined) effort.rpe = source.rpe;
+  if (source.rir !== undefined) effort.rir = source.rir;
+  if (source.tempo !== undefined) effort.tempo = source.tempo;
+  return effort;
+}
+
+/**
+ * Format effort annotations for the text editor, e.g. " @8 rir2 t3010" (empty when none)
+ */
+export function formatEffortAnnotations(effort: SetEffort): string {
+  const parts: string[] = [];
+  if (effort.rpe !== undefined) parts.push(`@${effort.rpe}`);
+  if (effort.rir !== undefined) parts.push(`rir${effort.rir}`);
+  if (effort.tempo) parts.push(`t${effort.tempo}`);
+  return parts.length > 0 ? ` ${parts.join(' ')}` : '';
+}
+
+/**
+ * Apply effort updates to a set; cleared fields are removed rather than left undefined
+ */
+export function applySetEffort(set: ExerciseSet, updates: SetEffort): ExerciseSet {
+  const updated: ExerciseSet = { ...set, ...updates };
+  (Object.keys(updates) as (keyof SetEffort)[]).forEach(key => {
+    if (updated[key] === undefined) delete updated[key];
+  });
+  return updated;
+}
@@ -0,0 +1,147 @@
+/**
+ * Strength metrics - Estimated one-rep max and bodyweight-relative strength standards
+ */
+
+import type { ExerciseSet } from '@/types/fitness';
+import type { OneRepMaxFormula } from '@/types/workout';
+import type { UserProfile } from '@/types/profile';
+import { EXERCISE_DATABASE } from './exerciseDatabase';
+
+export const DEFAULT_ONE_REP_MAX_FORMULA: OneRepMaxFormula = 'epley';
+
+// Rep-max formulas get unreliable past ~12 reps, so higher-rep sets aren't used
+export const MAX_ONE_REP_MAX_REPS = 12;
+
+const LB_TO_KG = 0.45359237;
+
+export const ONE_REP_MAX_FORMULAS: Record<OneRepMaxFormula, { label: string; description: string }> = {
+  epley: { label: 'Epley', description: 'weight × (1 + reps / 30)' },
+  brzycki: { label: 'Brzycki', description: 'weight × 36 / (37 − reps)' }
+};
+
+/**
+ * Estimate a one-rep max from a weight lifted for a number of reps
+ */
+export function estimateOneRepMax(weight: number, reps: number, formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA): number {
+  if (weight <= 0 || reps <= 0) return 0;
+  if (reps === 1) return weight;
+  return formula === 'brzycki'
+    ? weight * 36 / (37 - reps)
+    : weight * (1 + reps / 30);
+}
+
+/**
+ * e1RM of a completed weighted set, in the set's weight unit
+ * Returns undefined for unweighted, skipped or high-rep sets
+ */
+export function getSetOneRepMax(set: ExerciseSet, formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA): number | undefined {
+  if (set.volumeType !== 'sets-reps-weight' || set.completed === false) return undefined;
+  if (!set.weight || set.reps <= 0 || set.reps > MAX_ONE_REP_MAX_REPS) return undefined;
+  return Math.round(estimateOneRepMax(set.weight, set.reps, formula) * 10) / 10;
+}
+
+/**
+ * Best e1RM across sets, converted to kg
+ */
+export function getBestOneRepMaxKg(sets: ExerciseSet[], formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA): number | undefined {
+  let best: number | undefined;
+  sets.forEach(set => {
+    const estimate = getSetOneRepMax(set, formula);
+    if (estimate === undefined) return;
+    const kg = set.weightUnit === 'lb' ? estimate * LB_TO_KG : estimate;
+    if (best === undefined || kg > best) best = kg;
+  });
+  return best === undefined ? undefined : Math.round(best * 10) / 10;
+}
+
+// ============================================================================
+// Strength standards
+// ============================================================================
+
+export type StrengthLevel = 'Beginner' | 'Novice' | 'Intermediate' | 'Advanced' | 'Elite';
+export type StrengthStandardSex = 'male' | 'female';
+
+export const STRENGTH_LEVELS: StrengthLevel[] = ['Beginner', 'Novice', 'Intermediate', 'Advanced', 'Elite'];
+
+/**
+ * 1RM as a multiple of bodyweight needed for each level, keyed by EXERCISE_DATABASE name
+ */
+export const STRENGTH_STANDARDS: Record<string, Record<StrengthStandardSex, number[]>> = {
+  'Bench Press': { male: [0.5, 0.75, 1.0, 1.5, 2.0], female: [0.25, 0.5, 0.75, 1.0, 1.5] },
+  'Squats': { male: [0.75, 1.0, 1.5, 2.0, 2.5], female: [0.5, 0.75, 1.25, 1.5, 2.0] },
+  'Deadlift': { male: [1.0, 1.25, 1.75, 2.5, 3.0], female: [0.5, 1.0, 1.25, 1.75, 2.5] },
+  'Overhead Press': { male: [0.35, 0.5, 0.75, 1.0, 1.25], female: [0.2, 0.35, 0.5, 0.75, 1.0] },
+  'Bent-over Row': { male: [0.5, 0.75, 1.0, 1.25, 1.5], female: [0.25, 0.4, 0.65, 0.9, 1.2] }
+};
+
+export interface StrengthStandardResult {
+  lift: string; // EXERCISE_DATABASE name
+  oneRepMaxKg: number;
+  bodyweightKg: number;
+  ratio: number; // 1RM / bodyweight
+  level: StrengthLevel | null; // null = below Beginner
+  nextLevel: StrengthLevel | null; // null = Elite reached
+  nextLevelKg: number | null;
+  progressToNext: number; // 0-100 within the current band
+}
+
+/**
+ * Map an exercise name to a lift with standards
+ * Exact name/alias match only - fuzzy matching would count e.g. "Leg Press" as a press
+ */
+export function getStandardLift(exerciseName: string): string | null {
+  const normalized = exerciseName.trim().toLowerCase();
+  const definition = EXERCISE_DATABASE.find(exercise =>
+    exercise.name.toLowerCase() === normalized ||
+    exercise.aliases.some(alias => alias.toLowerCase() === normalized)
+  );
+  return definition && STRENGTH_STANDARDS[definition.name] ? definition.name : null;
+}
+
+/**
+ * Compare an e1RM against the lift's bodyweight-relative standards
+ */
+export function getStrengthStandard(
+  lift: string,
+  oneRepMaxKg: number,
+  bodyweightKg: number,
+  sex: StrengthStandardSex = 'male'
+): StrengthStandardResult | null {
+  const standards = STRENGTH_STANDARDS[lift]?.[sex];
+  if (!standards || bodyweightKg <= 0) return null;
+
+  const ratio = oneRepMaxKg / bodyweightKg;
+  let levelIndex = -1;
+  standards.forEach((threshold, index) => {
+    if (ratio >= threshold) levelIndex = index;
+  });
+
+  const nextIndex = levelIndex + 1 < standards.length ? levelIndex + 1 : null;
+  const bandStart = levelIndex >= 0 ? standards[levelIndex] : 0;
+  const bandEnd = nextIndex !== null ? standards[nextIndex] : null;
+
+  return {
+    lift,
+    oneRepMaxKg,
+    bodyweightKg,
+    ratio: Math.round(ratio * 100) / 100,
+    level: levelIndex >= 0 ? STRENGTH_LEVELS[levelIndex] : null,
+    nextLevel: nextIndex !== null ? STRENGTH_LEVELS[nextIndex] : null,
+    nextLevelKg: bandEnd !== null ? Math.round(bandEnd * bodyweightKg * 10) / 10 : null,
+    progressToNext: bandEnd !== null
+      ? Math.round(((ratio - bandStart) / (bandEnd - bandStart)) * 100)
+      : 100
+  };
+}
+
+/**
+ * Bodyweight (kg) and sex for standards from the onboarding profile
+ */
+export function getProfileBodyMetrics(profile?: UserProfile): { bodyweightKg: number | null; sex: StrengthStandardSex } {
+  const bodyweight = Number(profile?.bodyweight);
+  const sexValue = String(profile?.gender ?? profile?.sex ?? '');
+  return {
+    bodyweightKg: bodyweight > 0 ? bodyweight : null,
+    sex: /female|woman/i.test(sexValue) ? 'female' : 'male'
+  };
+}
@@ -0,0 +1,243 @@
+/**
+ * Training load - Heart rate zones, per-session load and fitness/fatigue curves
+ * Session load is Banister TRIMP when the workout has recorded heart rate, otherwise session RPE
+ * (minutes × average set RPE, Foster), otherwise minutes × a moderate default RPE.
+ */
+
+import type { UserProfile } from '@/types/profile';
+import type {
+  ActivitySummary,
+  TrainingLoadMethod,
+  TrainingLoadPoint,
+  TrainingLoadStats,
+  WorkoutDocument
+} from '@/types/workout';
+import { addDays } from './dateUtils';
+import { getSetRpe } from './setEffort';
+import { getProfileBodyMetrics } from './strengthMetrics';
+
+const DEFAULT_MAX_HEART_RATE = 190;
+const DEFAULT_RESTING_HEART_RATE = 60;
+const DEFAULT_SESSION_RPE = 5; // "Hard-ish" on the CR-10 scale, used when nothing was logged
+
+const FITNESS_DAYS = 42;
+const FATIGUE_DAYS = 7;
+const ACUTE_DAYS = 7;
+const CHRONIC_DAYS = 28;
+const HISTORY_DAYS = 90;
+const MAX_SERIES_DAYS = 3650; // Older workouts have decayed out of fitness/fatigue long before today
+
+export interface HeartRateProfile {
+  maxHeartRate: number;
+  restingHeartRate: number;
+  source: 'profile' | 'age' | 'default'; // Where the max came from
+  sex: 'male' | 'female';
+}
+
+export interface HeartRateZone {
+  zone: number;
+  label: string;
+  min: number; // bpm, inclusive
+  max: number; // bpm, exclusive (except zone 5)
+}
+
+export interface SessionLoad {
+  load: number;
+  method: TrainingLoadMethod;
+}
+
+export type AcuteChronicRisk = 'low' | 'optimal' | 'high' | 'very-high';
+
+// Share of max heart rate where each zone starts
+const ZONES = [
+  { label: 'Recovery', from: 0.5 },
+  { label: 'Endurance', from: 0.6 },
+  { label: 'Tempo', from: 0.7 },
+  { label: 'Threshold', from: 0.8 },
+  { label: 'VO2 max', from: 0.9 }
+];
+
+function readNumber(profile: UserProfile | undefined, keys: string[]): number | null {
+  for (const key of keys) {
+    const value = Number(profile?.[key]);
+    if (value > 0) return value;
+  }
+  return null;
+}
+
+/**
+ * Max and resting heart rate: entered values first, then age (Tanaka: 208 − 0.7 × age), then defaults
+ */
+export function getHeartRateProfile(profile?: UserProfile): HeartRateProfile {
+  const { sex } = getProfileBodyMetrics(profile);
+  const maxHeartRate = readNumber(profile, ['maxHeartRate', 'max_heart_rate', 'maxHR']);
+  const age = readNumber(profile, ['age']);
+  const restingHeartRate = readNumber(profile, ['restingHeartRate', 'resting_heart_rate', 'restingHR']) ?? DEFAULT_RESTING_HEART_RATE;
+
+  if (maxHeartRate) return { maxHeartRate, restingHeartRate, source: 'profile', sex };
+  if (age) return { maxHeartRate: Math.round(208 - 0.7 * age), restingHeartRate, source: 'age', sex };
+  return { maxHeartRate: DEFAULT_MAX_HEART_RATE, restingHeartRate, source: 'default', sex };
+}
+
+export function getHeartRateZones(maxHeartRate: number): HeartRateZone[] {
+  return ZONES.map((zone, index) => ({
+    zone: index + 1,
+    label: zone.label,
+    min: Math.round(zone.from * maxHeartRate),
+    max: index < ZONES.length - 1 ? Math.round(ZONES[index + 1].from * maxHeartRate) : maxHeartRate
+  }));
+}
+
+/**
+ * Zone number (1-5) for a heart rate, 0 below zone 1
+ */
+export function getZoneForHeartRate(heartRate: number, maxHeartRate: number): number {
+  const share = heartRate / maxHeartRate;
+  let zone = 0;
+  ZONES.forEach((candidate, index) => {
+    if (share >= candidate.from) zone = index + 1;
+  });
+  return zone;
+}
+
+/**
+ * Seconds spent per zone (index 0 = below zone 1) from the recording's samples
+ */
+export function getTimeInZones(activity: ActivitySummary, maxHeartRate: number): number[] {
+  const seconds = new Array(ZONES.length + 1).fill(0);
+  activity.samples.forEach((sample, index) => {
+    if (index === 0 || sample.heartRate === undefined) return;
+    const interval = sample.elapsedSeconds - activity.samples[index - 1].elapsedSeconds;
+    seconds[getZoneForHeartRate(sample.heartRate, maxHeartRate)] += Math.max(0, interval);
+  });
+  return seconds;
+}
+
+/**
+ * Banister TRIMP: minutes × HRr × 0.64e^(1.92 HRr) (men) or 0.86e^(1.67 HRr) (women)
+ */
+function trimp(minutes: number, heartRate: number, hr: HeartRateProfile): number {
+  const reserve = Math.min(1, Math.max(0, (heartRate - hr.restingHeartRate) / (hr.maxHeartRate - hr.restingHeartRate)));
+  const weighting = hr.sex === 'female' ? 0.86 * Math.exp(1.67 * reserve) : 0.64 * Math.exp(1.92 * reserve);
+  return minutes * reserve * weighting;
+}
+
+function getSessionMinutes(workout: WorkoutDocument): number {
+  if (workout.activity) return workout.activity.movingSeconds / 60;
+  return workout.actualDuration || workout.estimatedDuration || 0;
+}
+
+/**
+ * Load of one completed workout
+ */
+export function calculateSessionLoad(workout: WorkoutDocument, hr: HeartRateProfile): SessionLoad | null {
+  const minutes = getSessionMinutes(workout);
+  if (minutes <= 0) return null;
+
+  const activity = workout.activity;
+  const samples = activity?.samples.filter(sample => sample.heartRate !== undefined) ?? [];
+  if (activity && samples.length > 1) {
+    let load = 0;
+    activity.samples.forEach((sample, index) => {
+      if (index === 0 || sample.heartRate === undefined) return;
+      const interval = (sample.elapsedSeconds - activity.samples[index - 1].elapsedSeconds) / 60;
+      load += trimp(Math.max(0, interval), sample.heartRate, hr);
+    });
+    // Samples cover elapsed time; scale to moving time so pauses don't count
+    if (activity.elapsedSeconds > 0) load *= activity.movingSeconds / activity.elapsedSeconds;
+    return { load: Math.round(load), method: 'heart-rate' };
+  }
+  if (activity?.averageHeartRate) {
+    return { load: Math.round(trimp(minutes, activity.averageHeartRate, hr)), method: 'heart-rate' };
+  }
+
+  const rpes = workout.exercises.flatMap(exercise => exercise.sets)
+    .filter(set => set.completed !== false)
+    .map(getSetRpe)
+    .filter((rpe): rpe is number => rpe !== undefined);
+  if (rpes.length > 0) {
+    const rpe = rpes.reduce((sum, value) => sum + value, 0) / rpes.length;
+    return { load: Math.round(minutes * rpe), method: 'rpe' };
+  }
+
+  return { load: Math.round(minutes * DEFAULT_SESSION_RPE), method: 'estimated' };
+}
+
+export function getAcuteChronicRisk(ratio: number): AcuteChronicRisk {
+  if (ratio < 0.8) return 'low';
+  if (ratio <= 1.3) return 'optimal';
+  if (ratio <= 1.5) return 'high';
+  return 'very-high';
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Daily load with exponentially weighted fitness/fatigue and the rolling acute:chronic ratio
+ */
+export function buildTrainingLoadStats(workouts: WorkoutDocument[], hr: HeartRateProfile, today: string): TrainingLoadStats {
+  const methodBreakdown: Record<TrainingLoadMethod, number> = { 'heart-rate': 0, rpe: 0, estimated: 0 };
+  const loadByDay = new Map<string, number>();
+  let sessions = 0;
+
+  workouts.forEach(workout => {
+    const date = workout.date || workout.completedAt?.split('T')[0];
+    if (workout.status !== 'completed' || !date || date > today) return;
+    const session = calculateSessionLoad(workout, hr);
+    if (!session) return;
+    sessions++;
+    methodBreakdown[session.method]++;
+    loadByDay.set(date, (loadByDay.get(date) || 0) + session.load);
+  });
+
+  // The series always ends on today: it starts at the first workout, but no earlier than the cap allows
+  const firstDay = [...loadByDay.keys()].sort()[0];
+  const earliestDay = addDays(today, -(MAX_SERIES_DAYS - 1));
+  const historyStart = addDays(today, -(HISTORY_DAYS - 1));
+  const startDay = !firstDay || firstDay > historyStart ? historyStart
+    : firstDay < earliestDay ? earliestDay : firstDay;
+
+  const fitnessDecay = Math.exp(-1 / FITNESS_DAYS);
+  const fatigueDecay = Math.exp(-1 / FATIGUE_DAYS);
+  const recentLoads: number[] = [];
+  let fitness = 0;
+  let fatigue = 0;
+  const daily: TrainingLoadPoint[] = [];
+
+  for (let day = startDay; day <= today; day = addDays(day, 1)) {
+    const load = loadByDay.get(day) || 0;
+    fitness = fitness * fitnessDecay + load * (1 - fitnessDecay);
+    fatigue = fatigue * fatigueDecay + load * (1 - fatigueDecay);
+    recentLoads.push(load);
+    if (recentLoads.length > CHRONIC_DAYS) recentLoads.shift();
+
+    const acute = recentLoads.slice(-ACUTE_DAYS).reduce((sum, value) => sum + value, 0) / ACUTE_DAYS;
+    const chronic = recentLoads.reduce((sum, value) => sum + value, 0) / CHRONIC_DAYS;
+    const hasHistory = !!firstDay && day >= addDays(firstDay, CHRONIC_DAYS - 1);
+
+    daily.push({
+      date: day,
+      load,
+      fitness: round(fitness),
+      fatigue: round(fatigue),
+      form: round(fitness - fatigue),
+      acuteChronicRatio: hasHistory && chronic > 0 ? Math.round((acute / chronic) * 100) / 100 : undefined
+    });
+  }
+
+  const last = daily[daily.length - 1];
+  const recent = daily.slice(-CHRONIC_DAYS);
+  return {
+    sessions,
+    methodBreakdown,
+    acuteLoad: round(recent.slice(-ACUTE_DAYS).reduce((sum, point) => sum + point.load, 0) / ACUTE_DAYS),
+    chronicLoad: round(recent.reduce((sum, point) => sum + point.load, 0) / CHRONIC_DAYS),
+    acuteChronicRatio: last?.acuteChronicRatio,
+    fitness: last?.fitness ?? 0,
+    fatigue: last?.fatigue ?? 0,
+    form: last?.form ?? 0,
+    daily: daily.slice(-HISTORY_DAYS)
+  };
+}
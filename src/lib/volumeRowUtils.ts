@@ -1,4 +1,5 @@
 import type { Exercise, ExerciseSet } from '@/types/fitness';
+import { normalizeRpe, normalizeRir, normalizeTempo, pickSetEffort } from './setEffort';
 
 export interface VolumeRow {
   type: 'sets-reps' | 'sets-reps-weight' | 'duration' | 'distance' | 'completion';
@@ -9,9 +10,23 @@ export interface VolumeRow {
   duration?: number; // in minutes
   distance?: number;
   distanceUnit?: 'km' | 'mi' | 'm';
+  rpe?: number; // Rep-based rows only
+  rir?: number;
+  tempo?: string;
   setIndices: number[]; // which sets this volume row represents
 }
 
+function isRepBasedType(type: VolumeRow['type']): boolean {
+  return type === 'sets-reps' || type === 'sets-reps-weight';
+}
+
+/**
+ * Effort fields to carry onto the sets of a rep-based row
+ */
+function getRowEffort(row: VolumeRow) {
+  return isRepBasedType(row.type) ? pickSetEffort(row) : {};
+}
+
 /**
  * Get volume rows for an exercise by grouping sets with the same volumeRowId
  * - Respects user intent by grouping only sets with same volumeRowId
@@ -60,6 +75,10 @@ export function getVolumeRows(exercise: Exercise): VolumeRow[] {
       setIndices: group.indices
     };
 
+    if (isRepBasedType(volumeRow.type)) {
+      Object.assign(volumeRow, pickSetEffort(firstSet));
+    }
+
     if (firstSet.volumeType === 'sets-reps-weight') {
       volumeRow.weight = avgWeight;
       volumeRow.weightUnit = firstSet.weightUnit;
@@ -106,6 +125,10 @@ export function updateVolumeRow(
   if (sanitizedUpdates.distance !== undefined) {
     sanitizedUpdates.distance = Math.max(0.1, Math.min(999, sanitizedUpdates.distance));
   }
+  // Effort fields may be cleared, so only normalize keys that are present
+  if ('rpe' in sanitizedUpdates) sanitizedUpdates.rpe = normalizeRpe(sanitizedUpdates.rpe);
+  if ('rir' in sanitizedUpdates) sanitizedUpdates.rir = normalizeRir(sanitizedUpdates.rir);
+  if ('tempo' in sanitizedUpdates) sanitizedUpdates.tempo = normalizeTempo(sanitizedUpdates.tempo);
 
   const updatedRow = { ...volumeRow, ...sanitizedUpdates };
   
@@ -176,7 +199,8 @@ export function updateVolumeRow(
         restTime: templateSet.restTime,
         notes: '',
         volumeType: updatedRow.type,
-        volumeRowId: templateSet.volumeRowId
+        volumeRowId: templateSet.volumeRowId,
+        ...getRowEffort(updatedRow)
       };
 
       if (updatedRow.type === 'sets-reps-weight') {
@@ -206,7 +230,8 @@ export function updateVolumeRow(
           restTime: templateSet.restTime,
           notes: '',
           volumeType: updatedRow.type,
-          volumeRowId: templateSet.volumeRowId
+          volumeRowId: templateSet.volumeRowId,
+          ...getRowEffort(updatedRow)
         };
 
         // Add type-specific fields only
@@ -245,7 +270,8 @@ export function updateVolumeRow(
           restTime: set.restTime,
           notes: '',
           volumeType: updatedRow.type,
-          volumeRowId: sharedVolumeRowId // Ensure all sets in this volume row have same ID
+          volumeRowId: sharedVolumeRowId, // Ensure all sets in this volume row have same ID
+          ...getRowEffort(updatedRow)
         };
 
         // Add type-specific fields and clean up others
@@ -298,7 +324,10 @@ export function normalizeExerciseVolumeRows(exercise: Exercise): Exercise {
       weightUnit: set.weightUnit,
       duration: set.duration,
       notes: set.notes,
-      distanceUnit: set.distanceUnit
+      distanceUnit: set.distanceUnit,
+      rpe: set.rpe,
+      rir: set.rir,
+      tempo: set.tempo
     });
     
     if (!valueGroups[valueKey]) {
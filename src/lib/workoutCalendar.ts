@@ -0,0 +1,25 @@
+/**
+ * Workout calendar - iCalendar (RFC 5545) export of scheduled workouts
+ * One all-day VEVENT per dated, not yet completed workout; the UID is derived from the workout ID,
+ * so calendars update the existing entry on edits and reschedules instead of adding a new one.
+ * The events are built in api/_ical.js, which the subscribable feed (api/calendar.js) uses as well.
+ */
+
+export {
+  CALENDAR_NAME,
+  createWorkoutCalendar,
+  describeWorkoutForCalendar,
+  getCalendarWorkouts
+} from '../../api/_ical.js';
+
+/**
+ * Random secret for the feed URL (calendar apps can't send an Authorization header)
+ */
+export function generateCalendarFeedToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function getCalendarFeedUrl(token: string, origin = window.location.origin): string {
+  return `${origin}/api/calendar?token=${encodeURIComponent(token)}`;
+}
@@ -4,6 +4,7 @@
  */
 
 import type { Workout, Exercise } from '@/types/fitness';
+import { groupExercisesByBlock } from './exerciseBlocks';
 
 export interface WorkoutCompletionStats {
   status: 'not-started' | 'partially-done' | 'completed';
@@ -17,6 +18,10 @@ export interface WorkoutCompletionStats {
     total: number;
     completionRate: number;
   };
+  blocks: {
+    completed: number;
+    total: number; // Supersets/circuits/EMOM/AMRAP only
+  };
   hasAnyProgress: boolean;
 }
 
@@ -29,9 +34,11 @@ export function hasExerciseProgress(exercise: Exercise): boolean {
 
 /**
  * Check if an exercise is fully completed (all sets marked as completed)
+ * AMRAP rounds are open-ended, so any logged round completes an AMRAP exercise
  */
 export function isExerciseFullyCompleted(exercise: Exercise): boolean {
   if (exercise.sets.length === 0) return false;
+  if (exercise.block?.type === 'amrap') return hasExerciseProgress(exercise);
   return exercise.sets.every(set => set.completed === true);
 }
 
@@ -82,6 +89,10 @@ export function analyzeWorkoutCompletion(workout: Workout): WorkoutCompletionSta
     completedSets += exerciseStats.setsCompleted;
   });
   
+  // A block counts as done once every exercise in it is
+  const blockGroups = groupExercisesByBlock(workout.exercises).filter(group => group.block);
+  const blocksCompleted = blockGroups.filter(group => group.exercises.every(isExerciseFullyCompleted)).length;
+  
   const totalExercises = workout.exercises.length;
   const exerciseCompletionRate = totalExercises > 0 ? (exercisesCompleted / totalExercises) * 100 : 0;
   const setCompletionRate = totalSets > 0 ? (completedSets / totalSets) * 100 : 0;
@@ -113,6 +124,10 @@ export function analyzeWorkoutCompletion(workout: Workout): WorkoutCompletionSta
       total: totalSets,
       completionRate: setCompletionRate
     },
+    blocks: {
+      completed: blocksCompleted,
+      total: blockGroups.length
+    },
     hasAnyProgress
   };
 }
@@ -0,0 +1,471 @@
+/**
+ * Workout import - Workout history from Strong, Hevy and FitNotes CSV exports
+ * Pipeline: parseWorkoutCsv (rows → workouts) → exercise name mapping → duplicate check → buildImportedWorkout
+ */
+
+import type { Exercise, ExerciseSet } from '@/types/fitness';
+import type { WorkoutDocument } from '@/types/workout';
+import { enhanceExerciseWithDatabase, findExerciseDefinition } from './exerciseDatabase';
+import { createBlockId } from './exerciseBlocks';
+import { normalizeRpe } from './setEffort';
+import { formatDuration } from './workoutTextFormat';
+
+export type ImportFormat = 'strong' | 'hevy' | 'fitnotes';
+
+export const IMPORT_FORMATS: Record<ImportFormat, { label: string; hasUnits: boolean }> = {
+  strong: { label: 'Strong', hasUnits: false }, // Weights are in the app's unit setting, not in the file
+  hevy: { label: 'Hevy', hasUnits: true },
+  fitnotes: { label: 'FitNotes', hasUnits: true }
+};
+
+export interface ImportOptions {
+  weightUnit: 'kg' | 'lb'; // For exports without units (Strong)
+  includeWarmups: boolean;
+}
+
+export interface ImportedSet {
+  weight?: number;
+  weightUnit: 'kg' | 'lb';
+  reps?: number;
+  distance?: number;
+  distanceUnit?: 'km' | 'mi' | 'm';
+  seconds?: number;
+  rpe?: number;
+  notes?: string;
+}
+
+export interface ImportedExercise {
+  name: string; // As written in the export
+  supersetId?: string;
+  notes?: string;
+  sets: ImportedSet[];
+}
+
+export interface ImportedWorkout {
+  key: string; // Unique within the file
+  name: string;
+  date: string; // YYYY-MM-DD (local)
+  startedAt?: string; // ISO timestamp
+  completedAt: string; // ISO timestamp
+  durationMinutes?: number;
+  notes?: string;
+  exercises: ImportedExercise[];
+}
+
+export interface ImportParseResult {
+  format: ImportFormat;
+  workouts: ImportedWorkout[];
+  skippedWarmups: number;
+  errors: Array<{ row: number; message: string }>; // 1-based CSV row (header = 1)
+}
+
+interface ImportRow {
+  workoutKey: string;
+  workoutName: string;
+  start: Date;
+  end?: Date;
+  durationMinutes?: number;
+  workoutNotes?: string;
+  exerciseName: string;
+  exerciseNotes?: string;
+  supersetId?: string;
+  isWarmup: boolean;
+  set: ImportedSet;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Parse CSV text (quoted fields, "" escapes, CRLF); the delimiter (comma or semicolon) is taken from the header
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const headerLine = source.slice(0, source.indexOf('\n') === -1 ? undefined : source.indexOf('\n'));
+  const delimiter = (headerLine.match(/;/g)?.length ?? 0) > (headerLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(value => value.trim())) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  if (row.some(value => value.trim())) rows.push(row);
+
+  return rows;
+}
+
+/**
+ * Which app an export comes from, by its header columns
+ */
+export function detectImportFormat(headers: string[]): ImportFormat | null {
+  const columns = headers.map(header => header.trim().toLowerCase());
+  if (columns.includes('exercise_title') && columns.includes('start_time')) return 'hevy';
+  if (columns.includes('exercise name') && columns.includes('set order')) return 'strong';
+  if (columns.includes('exercise') && columns.includes('category') && columns.some(c => c.startsWith('weight'))) return 'fitnotes';
+  return null;
+}
+
+/**
+ * Plain or localized number: "12,5" is a decimal comma, "1,500" and "1,234.5" have grouping commas
+ */
+function toNumber(value: string | undefined): number | undefined {
+  if (value === undefined || !value.trim()) return undefined;
+  const text = value.trim();
+  const number = Number(/^-?\d+,\d{1,2}$/.test(text) ? text.replace(',', '.') : text.replace(/,/g, ''));
+  return Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Local date/time from "2024-01-15 08:30:00", "2024-01-15T08:30:00Z", "2024-01-15" or "15 Jan 2024, 08:30"
+ */
+function parseDateTime(value: string): Date | null {
+  const text = value.trim();
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?(Z|[+-]\d{2}:?\d{2})?$/);
+  if (iso) {
+    if (iso[7]) return new Date(text.replace(' ', 'T'));
+    const [, year, month, day, hours = '0', minutes = '0', seconds = '0'] = iso;
+    return new Date(+year, +month - 1, +day, +hours, +minutes, +seconds);
+  }
+
+  const named = text.match(/^(\d{1,2}) ([a-z]{3})[a-z]* (\d{4}),? (\d{1,2}):(\d{2})(?::(\d{2}))?$/i);
+  if (named) {
+    const month = MONTHS.indexOf(named[2].toLowerCase());
+    if (month === -1) return null;
+    return new Date(+named[3], month, +named[1], +named[4], +named[5], +(named[6] || 0));
+  }
+
+  return null;
+}
+
+/**
+ * Seconds from Strong durations ("1h 5m", "45m", "30s"), h:mm:ss / mm:ss, or plain seconds
+ */
+function parseDurationSeconds(value: string | undefined): number | undefined {
+  if (!value?.trim()) return undefined;
+  if (/^\d+$/.test(value.trim())) return +value.trim();
+  const clock = value.trim().match(/^(\d+):(\d{2})(?::(\d{2}))?$/);
+  if (clock) {
+    return clock[3] !== undefined
+      ? +clock[1] * 3600 + +clock[2] * 60 + +clock[3]
+      : +clock[1] * 60 + +clock[2];
+  }
+  const hours = value.match(/(\d+)\s*h/)?.[1];
+  const minutes = value.match(/(\d+)\s*m(?!s)/)?.[1];
+  const seconds = value.match(/(\d+)\s*s/)?.[1];
+  if (!hours && !minutes && !seconds) return undefined;
+  return +(hours || 0) * 3600 + +(minutes || 0) * 60 + +(seconds || 0);
+}
+
+function parseDurationMinutes(value: string | undefined): number | undefined {
+  const seconds = parseDurationSeconds(value);
+  return seconds === undefined ? undefined : Math.round(seconds / 60);
+}
+
+function toLocalDateISO(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * One row of an export mapped to the shared shape; null = not a set row (e.g. Strong rest timer rows)
+ */
+function readRow(format: ImportFormat, get: (column: string) => string | undefined, options: ImportOptions): ImportRow | null {
+  if (format === 'strong') {
+    const setOrder = (get('set order') || '').trim();
+    if (!/^(\d+|w|d|f)$/i.test(setOrder)) return null;
+    const start = parseDateTime(get('date') || '');
+    if (!start) throw new Error(`Unrecognized date "${get('date')}"`);
+    const durationMinutes = parseDurationMinutes(get('duration') || get('workout duration'));
+    return {
+      workoutKey: `${get('date')}|${get('workout name')}`,
+      workoutName: (get('workout name') || 'Workout').trim(),
+      start,
+      end: durationMinutes ? new Date(start.getTime() + durationMinutes * 60000) : undefined,
+      durationMinutes,
+      workoutNotes: get('workout notes')?.trim() || undefined,
+      exerciseName: (get('exercise name') || '').trim(),
+      isWarmup: setOrder.toLowerCase() === 'w',
+      set: {
+        weight: toNumber(get('weight')),
+        weightUnit: options.weightUnit,
+        reps: toNumber(get('reps')),
+        distance: toNumber(get('distance')),
+        distanceUnit: options.weightUnit === 'lb' ? 'mi' : 'km',
+        seconds: toNumber(get('seconds')),
+        rpe: normalizeRpe(toNumber(get('rpe'))),
+        notes: get('notes')?.trim() || undefined
+      }
+    };
+  }
+
+  if (format === 'hevy') {
+    const start = parseDateTime(get('start_time') || '');
+    if (!start) throw new Error(`Unrecognized date "${get('start_time')}"`);
+    const end = parseDateTime(get('end_time') || '') || undefined;
+    const weightLbs = toNumber(get('weight_lbs'));
+    const distanceMiles = toNumber(get('distance_miles'));
+    return {
+      workoutKey: `${get('start_time')}|${get('title')}`,
+      workoutName: (get('title') || 'Workout').trim(),
+      start,
+      end,
+      durationMinutes: end ? Math.round((end.getTime() - start.getTime()) / 60000) : undefined,
+      workoutNotes: get('description')?.trim() || undefined,
+      exerciseName: (get('exercise_title') || '').trim(),
+      exerciseNotes: get('exercise_notes')?.trim() || undefined,
+      supersetId: get('superset_id')?.trim() || undefined,
+      isWarmup: (get('set_type') || '').trim().toLowerCase() === 'warmup',
+      set: {
+        weight: weightLbs ?? toNumber(get('weight_kg')),
+        weightUnit: weightLbs !== undefined ? 'lb' : 'kg',
+        reps: toNumber(get('reps')),
+        distance: distanceMiles ?? toNumber(get('distance_km')),
+        distanceUnit: distanceMiles !== undefined ? 'mi' : 'km',
+        seconds: toNumber(get('duration_seconds')),
+        rpe: normalizeRpe(toNumber(get('rpe')))
+      }
+    };
+  }
+
+  // FitNotes: one workout per day, weight unit in the column name
+  const start = parseDateTime(get('date') || '');
+  if (!start) throw new Error(`Unrecognized date "${get('date')}"`);
+  const weightLbs = toNumber(get('weight (lbs)'));
+  const distanceUnit = (get('distance unit') || '').trim().toLowerCase();
+  return {
+    workoutKey: toLocalDateISO(start),
+    workoutName: 'Workout',
+    start,
+    exerciseName: (get('exercise') || '').trim(),
+    isWarmup: false,
+    set: {
+      weight: weightLbs ?? toNumber(get('weight (kgs)') ?? get('weight (kg)') ?? get('weight')),
+      weightUnit: weightLbs !== undefined ? 'lb' : 'kg',
+      reps: toNumber(get('reps')),
+      distance: toNumber(get('distance')),
+      distanceUnit: distanceUnit === 'm' || distanceUnit === 'mi' ? distanceUnit : distanceUnit.startsWith('mile') ? 'mi' : 'km',
+      seconds: parseDurationSeconds(get('time')),
+      notes: get('comment')?.trim() || undefined
+    }
+  };
+}
+
+/**
+ * Parse an export into workouts (grouped by workout, then consecutive rows of the same exercise)
+ */
+export function parseWorkoutCsv(text: string, options: ImportOptions): ImportParseResult {
+  const [headers = [], ...rows] = parseCsv(text);
+  const format = detectImportFormat(headers);
+  if (!format) {
+    throw new Error('Unrecognized CSV format. Export your history from Strong, Hevy or FitNotes and try again.');
+  }
+
+  const columns = headers.map(header => header.trim().toLowerCase());
+  const workouts = new Map<string, ImportedWorkout>();
+  const errors: ImportParseResult['errors'] = [];
+  let skippedWarmups = 0;
+
+  rows.forEach((values, index) => {
+    const get = (column: string) => {
+      const position = columns.indexOf(column);
+      return position === -1 ? undefined : values[position];
+    };
+
+    let row: ImportRow | null;
+    try {
+      row = readRow(format, get, options);
+    } catch (error) {
+      errors.push({ row: index + 2, message: error instanceof Error ? error.message : 'Invalid row' });
+      return;
+    }
+    if (!row) return;
+    if (!row.exerciseName) {
+      errors.push({ row: index + 2, message: 'Missing exercise name' });
+      return;
+    }
+    if (row.isWarmup && !options.includeWarmups) {
+      skippedWarmups++;
+      return;
+    }
+
+    let workout = workouts.get(row.workoutKey);
+    if (!workout) {
+      workout = {
+        key: row.workoutKey,
+        name: row.workoutName,
+        date: toLocalDateISO(row.start),
+        startedAt: format === 'fitnotes' ? undefined : row.start.toISOString(),
+        completedAt: (row.end ?? row.start).toISOString(),
+        durationMinutes: row.durationMinutes || undefined,
+        notes: row.workoutNotes,
+        exercises: []
+      };
+      workouts.set(row.workoutKey, workout);
+    }
+
+    const last = workout.exercises[workout.exercises.length - 1];
+    if (last?.name === row.exerciseName && last.supersetId === row.supersetId) {
+      last.sets.push(row.set);
+    } else {
+      workout.exercises.push({
+        name: row.exerciseName,
+        supersetId: row.supersetId,
+        notes: row.exerciseNotes,
+        sets: [row.set]
+      });
+    }
+  });
+
+  return {
+    format,
+    workouts: Array.from(workouts.values()).sort((a, b) => a.completedAt.localeCompare(b.completedAt)),
+    skippedWarmups,
+    errors
+  };
+}
+
+/**
+ * Default mapping for every exercise name in the import: the database name when
+ * `findExerciseDefinition` recognizes it (name or alias), otherwise null (needs a decision)
+ */
+export function getDefaultNameMapping(workouts: ImportedWorkout[]): Record<string, string | null> {
+  const mapping: Record<string, string | null> = {};
+  workouts.forEach(workout => workout.exercises.forEach(exercise => {
+    if (exercise.name in mapping) return;
+    mapping[exercise.name] = findExerciseDefinition(exercise.name)?.name ?? null;
+  }));
+  return mapping;
+}
+
+/**
+ * Existing workout that looks like the same session: same date and the same name or mostly the same exercises
+ */
+export function findDuplicateWorkout(
+  workout: ImportedWorkout,
+  existing: WorkoutDocument[],
+  nameMapping: Record<string, string | null>
+): WorkoutDocument | null {
+  const importedNames = new Set(workout.exercises.map(exercise => (nameMapping[exercise.name] ?? exercise.name).toLowerCase()));
+
+  return existing.find(candidate => {
+    if (candidate.date !== workout.date) return false;
+    if (candidate.name.trim().toLowerCase() === workout.name.toLowerCase()) return true;
+    if (candidate.exercises.length === 0 || importedNames.size === 0) return false;
+    const shared = candidate.exercises.filter(exercise => importedNames.has(exercise.name.toLowerCase())).length;
+    return shared / Math.max(candidate.exercises.length, importedNames.size) >= 0.5;
+  }) ?? null;
+}
+
+function toExerciseSet(set: ImportedSet): ExerciseSet {
+  const base: ExerciseSet = { reps: 1, restTime: 90, notes: set.notes ?? '', completed: true };
+  if (set.rpe !== undefined) base.rpe = set.rpe;
+
+  if (set.distance) {
+    const distanceSet: ExerciseSet = {
+      ...base,
+      notes: `${set.distance}${set.distanceUnit || 'km'}`,
+      volumeType: 'distance',
+      distanceUnit: set.distanceUnit || 'km'
+    };
+    if (set.seconds) distanceSet.duration = set.seconds;
+    return distanceSet;
+  }
+  if (set.seconds && !set.reps) {
+    return { ...base, notes: formatDuration(set.seconds), volumeType: 'duration', duration: set.seconds };
+  }
+  if (set.reps) {
+    return set.weight
+      ? { ...base, reps: set.reps, weight: set.weight, weightUnit: set.weightUnit, volumeType: 'sets-reps-weight' }
+      : { ...base, reps: set.reps, volumeType: 'sets-reps' };
+  }
+  return { ...base, restTime: 0, volumeType: 'completion' };
+}
+
+/**
+ * Consecutive sets with the same volume share a volume row (like "3x10x50kg" in the editor)
+ */
+function assignVolumeRows(sets: ExerciseSet[], exerciseIndex: number): ExerciseSet[] {
+  let rowId = '';
+  let previousKey = '';
+  return sets.map((set, index) => {
+    const key = JSON.stringify([set.volumeType, set.reps, set.weight, set.weightUnit, set.duration, set.notes]);
+    if (key !== previousKey || set.volumeType === 'distance' || set.volumeType === 'duration') {
+      rowId = `volume-import-ex${exerciseIndex}-${index}-${Math.random().toString(36).substr(2, 9)}`;
+      previousKey = key;
+    }
+    return { ...set, volumeRowId: rowId };
+  });
+}
+
+/**
+ * Completed manual workout for `addWorkout`
+ */
+export function buildImportedWorkout(
+  workout: ImportedWorkout,
+  nameMapping: Record<string, string | null>,
+  format: ImportFormat
+): Partial<WorkoutDocument> {
+  const supersetBlocks = new Map<string, string>();
+
+  const exercises: Exercise[] = workout.exercises.map((imported, index) => {
+    const name = nameMapping[imported.name] ?? imported.name;
+    const details = enhanceExerciseWithDatabase({ name });
+    const exercise: Exercise = {
+      id: `exercise-import-${Date.now()}-${index}-${Math.random().toString(36).substr(2, 9)}`,
+      name,
+      category: details.category,
+      muscleGroups: details.muscleGroups,
+      equipment: details.equipment,
+      instructions: imported.notes ?? '',
+      sets: assignVolumeRows(imported.sets.map(toExerciseSet), index)
+    };
+    if (imported.supersetId) {
+      if (!supersetBlocks.has(imported.supersetId)) supersetBlocks.set(imported.supersetId, createBlockId());
+      exercise.block = { id: supersetBlocks.get(imported.supersetId)!, type: 'superset' };
+    }
+    return exercise;
+  });
+
+  const document: Partial<WorkoutDocument> = {
+    name: workout.name,
+    date: workout.date,
+    status: 'completed',
+    completedAt: workout.completedAt,
+    type: 'general',
+    focus: 'General Training',
+    value: `Imported from ${IMPORT_FORMATS[format].label}`,
+    exercises,
+    checkIns: { greenFlags: [], redFlags: [] },
+    estimatedDuration: workout.durationMinutes || 60,
+    source: 'manual'
+  };
+  if (workout.startedAt && workout.durationMinutes) document.startedAt = workout.startedAt;
+  if (workout.durationMinutes) document.actualDuration = workout.durationMinutes;
+  if (workout.notes) document.notes = workout.notes;
+  return document;
+}
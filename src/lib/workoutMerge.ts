@@ -0,0 +1,327 @@
+/**
+ * Workout merge utilities
+ * Three-way merge of WorkoutDocument versions at the field / exercise / set level
+ * Exercises are keyed by Exercise.id, sets by volumeRowId (+ position within the row)
+ */
+
+import type { WorkoutDocument } from '@/types/workout';
+import type { Exercise, ExerciseSet } from '@/types/fitness';
+
+/**
+ * Which side wins a conflicting change
+ */
+export type ConflictChoice = 'local' | 'remote';
+
+/**
+ * A single change that was edited differently on this device and another one
+ */
+export interface WorkoutConflict {
+  id: string; // Stable key, e.g. "field:name" or "set:<exerciseId>:<setKey>:weight"
+  label: string; // Human readable, e.g. "Bench Press · Set 2 · weight"
+  localValue: unknown; // undefined = removed/not set on this device
+  remoteValue: unknown; // undefined = removed/not set on the other device
+}
+
+export interface WorkoutMergeResult {
+  merged: WorkoutDocument;
+  conflicts: WorkoutConflict[];
+}
+
+/**
+ * Conflict detected while writing a workout, kept until the user resolves it
+ */
+export interface WorkoutConflictRecord {
+  workoutId: string;
+  base: WorkoutDocument; // Version the local edit started from
+  local: WorkoutDocument; // Version this device tried to write
+  remote: WorkoutDocument; // Version found on the server
+  conflicts: WorkoutConflict[];
+  detectedAt: string;
+}
+
+// Fields that are bookkeeping, derived, or merged separately
+const NON_MERGEABLE_FIELDS = new Set(['id', 'exercises', 'dayOfWeek', 'createdAt', 'updatedAt', 'lastMutation']);
+const EXERCISE_FIELDS: (keyof Exercise)[] = ['name', 'category', 'muscleGroups', 'equipment', 'instructions'];
+
+interface MergeContext {
+  choices: Record<string, ConflictChoice>;
+  defaultChoice: ConflictChoice;
+  conflicts: WorkoutConflict[];
+}
+
+/**
+ * JSON serialization with sorted keys and undefined values dropped
+ */
+function stableStringify(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  return JSON.stringify(value, (_key, val) => {
+    if (val && typeof val === 'object' && !Array.isArray(val)) {
+      return Object.keys(val)
+        .sort()
+        .reduce<Record<string, unknown>>((sorted, key) => {
+          if (val[key] !== undefined) sorted[key] = val[key];
+          return sorted;
+        }, {});
+    }
+    return val;
+  });
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+/**
+ * Pick the winning side of a conflict, recording it if the caller didn't decide yet
+ */
+function resolveConflict<T>(
+  id: string,
+  label: string,
+  localValue: T,
+  remoteValue: T,
+  ctx: MergeContext
+): T {
+  const choice = ctx.choices[id];
+  if (!choice) {
+    ctx.conflicts.push({ id, label, localValue, remoteValue });
+  }
+  return (choice || ctx.defaultChoice) === 'local' ? localValue : remoteValue;
+}
+
+/**
+ * Three-way merge of a single value
+ * A side that didn't change relative to base yields to the side that did
+ */
+function mergeValue<T>(
+  base: T,
+  local: T,
+  remote: T,
+  id: string,
+  label: string,
+  ctx: MergeContext
+): T {
+  if (isSameValue(local, remote)) return local;
+  if (isSameValue(local, base)) return remote;
+  if (isSameValue(remote, base)) return local;
+  return resolveConflict(id, label, local, remote, ctx);
+}
+
+/**
+ * Three-way merge of a keyed list (exercises or sets)
+ * Keeps local order; items added remotely are inserted after their remote predecessor
+ */
+function mergeKeyedList<T>(
+  base: T[],
+  local: T[],
+  remote: T[],
+  keyOf: (items: T[]) => string[],
+  mergeItem: (base: T | undefined, local: T, remote: T, key: string) => T,
+  describe: (item: T, key: string) => { id: string; label: string },
+  ctx: MergeContext
+): T[] {
+  const baseKeys = keyOf(base);
+  const localKeys = keyOf(local);
+  const remoteKeys = keyOf(remote);
+  const baseMap = new Map(baseKeys.map((key, i) => [key, base[i]]));
+  const localMap = new Map(localKeys.map((key, i) => [key, local[i]]));
+  const remoteMap = new Map(remoteKeys.map((key, i) => [key, remote[i]]));
+
+  const resultKeys: string[] = [];
+  const resultItems = new Map<string, T>();
+
+  localKeys.forEach(key => {
+    const localItem = localMap.get(key)!;
+    const remoteItem = remoteMap.get(key);
+    const baseItem = baseMap.get(key);
+
+    if (remoteItem !== undefined) {
+      resultKeys.push(key);
+      resultItems.set(key, mergeItem(baseItem, localItem, remoteItem, key));
+      return;
+    }
+
+    if (baseItem === undefined) {
+      // Added on this device
+      resultKeys.push(key);
+      resultItems.set(key, localItem);
+      return;
+    }
+
+    // Deleted on the other device
+    if (isSameValue(localItem, baseItem)) return;
+    const { id, label } = describe(localItem, key);
+    const kept = resolveConflict(id, `${label} (removed on other device)`, localItem as T | undefined, undefined, ctx);
+    if (kept !== undefined) {
+      resultKeys.push(key);
+      resultItems.set(key, kept);
+    }
+  });
+
+  remoteKeys.forEach((key, remoteIndex) => {
+    if (localMap.has(key)) return;
+    const remoteItem = remoteMap.get(key)!;
+    const baseItem = baseMap.get(key);
+
+    if (baseItem !== undefined) {
+      // Deleted on this device
+      if (isSameValue(remoteItem, baseItem)) return;
+      const { id, label } = describe(remoteItem, key);
+      const kept = resolveConflict(id, `${label} (removed on this device)`, undefined, remoteItem as T | undefined, ctx);
+      if (kept === undefined) return;
+    }
+
+    // Added (or kept) from the other device - place it after its remote predecessor
+    const predecessor = remoteKeys.slice(0, remoteIndex).reverse().find(k => resultItems.has(k));
+    const insertAt = predecessor ? resultKeys.indexOf(predecessor) + 1 : 0;
+    resultKeys.splice(insertAt, 0, key);
+    resultItems.set(key, remoteItem);
+  });
+
+  return resultKeys.map(key => resultItems.get(key)!);
+}
+
+/**
+ * Key sets by volume row and position within the row, e.g. "volume-123#0"
+ */
+function getSetKeys(sets: ExerciseSet[]): string[] {
+  const seen: Record<string, number> = {};
+  return sets.map(set => {
+    const rowId = set.volumeRowId || 'set';
+    const occurrence = seen[rowId] || 0;
+    seen[rowId] = occurrence + 1;
+    return `${rowId}#${occurrence}`;
+  });
+}
+
+function mergeSet(
+  base: ExerciseSet | undefined,
+  local: ExerciseSet,
+  remote: ExerciseSet,
+  exerciseId: string,
+  setKey: string,
+  setLabel: string,
+  ctx: MergeContext
+): ExerciseSet {
+  const fields = new Set([...Object.keys(local), ...Object.keys(remote), ...Object.keys(base || {})]);
+  const merged: Record<string, unknown> = {};
+
+  fields.forEach(field => {
+    const value = mergeValue(
+      (base as Record<string, unknown> | undefined)?.[field],
+      (local as unknown as Record<string, unknown>)[field],
+      (remote as unknown as Record<string, unknown>)[field],
+      `set:${exerciseId}:${setKey}:${field}`,
+      `${setLabel} · ${field}`,
+      ctx
+    );
+    if (value !== undefined) merged[field] = value;
+  });
+
+  return merged as unknown as ExerciseSet;
+}
+
+function mergeExercise(
+  base: Exercise | undefined,
+  local: Exercise,
+  remote: Exercise,
+  ctx: MergeContext
+): Exercise {
+  const merged: Exercise = { ...local };
+
+  EXERCISE_FIELDS.forEach(field => {
+    (merged as unknown as Record<string, unknown>)[field] = mergeValue(
+      base?.[field],
+      local[field],
+      remote[field],
+      `exercise:${local.id}:${field}`,
+      `${local.name} · ${field}`,
+      ctx
+    );
+  });
+
+  const baseSets = base?.sets || [];
+  const localSetKeys = getSetKeys(local.sets);
+  merged.sets = mergeKeyedList(
+    baseSets,
+    local.sets,
+    remote.sets,
+    getSetKeys,
+    (baseSet, localSet, remoteSet, key) => {
+      const setNumber = localSetKeys.indexOf(key) + 1;
+      return mergeSet(baseSet, localSet, remoteSet, local.id, key, `${local.name} · Set ${setNumber}`, ctx);
+    },
+    (_set, key) => ({
+      id: `set:${local.id}:${key}`,
+      label: `${local.name} · Set ${(getSetKeys(remote.sets).indexOf(key) + 1) || (localSetKeys.indexOf(key) + 1)}`
+    }),
+    ctx
+  );
+
+  return merged;
+}
+
+/**
+ * Three-way merge of two concurrent versions of a workout
+ *
+ * @param base - Version both sides started from
+ * @param local - Version edited on this device
+ * @param remote - Version found on the server
+ * @param choices - Already-decided conflicts (by conflict id); these are not reported again
+ * @param defaultChoice - Side used for undecided conflicts in `merged`
+ */
+export function mergeWorkouts(
+  base: WorkoutDocument,
+  local: WorkoutDocument,
+  remote: WorkoutDocument,
+  choices: Record<string, ConflictChoice> = {},
+  defaultChoice: ConflictChoice = 'local'
+): WorkoutMergeResult {
+  const ctx: MergeContext = { choices, defaultChoice, conflicts: [] };
+  const merged: Record<string, unknown> = { ...remote };
+
+  const fields = new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(remote)]);
+  fields.forEach(field => {
+    if (NON_MERGEABLE_FIELDS.has(field)) return;
+    merged[field] = mergeValue(
+      (base as unknown as Record<string, unknown>)[field],
+      (local as unknown as Record<string, unknown>)[field],
+      (remote as unknown as Record<string, unknown>)[field],
+      `field:${field}`,
+      `Workout · ${field}`,
+      ctx
+    );
+  });
+
+  merged.exercises = mergeKeyedList(
+    base.exercises || [],
+    local.exercises || [],
+    remote.exercises || [],
+    exercises => exercises.map(exercise => exercise.id),
+    (baseExercise, localExercise, remoteExercise) => mergeExercise(baseExercise, localExercise, remoteExercise, ctx),
+    exercise => ({ id: `exercise:${exercise.id}`, label: exercise.name }),
+    ctx
+  );
+
+  // dayOfWeek is derived from date
+  const mergedDate = merged.date as string | undefined;
+  merged.dayOfWeek = mergedDate ? new Date(mergedDate).getDay() : undefined;
+
+  return { merged: merged as unknown as WorkoutDocument, conflicts: ctx.conflicts };
+}
+
+/**
+ * Format a conflicting value for display
+ */
+export function formatConflictValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.join(', ') || '—';
+  if (typeof value === 'object') {
+    const exercise = value as Partial<Exercise>;
+    if (exercise.name && exercise.sets) return `${exercise.name} (${exercise.sets.length} sets)`;
+    const set = value as Partial<ExerciseSet>;
+    if (set.reps !== undefined) return `${set.reps} reps${set.weight ? ` × ${set.weight}${set.weightUnit || 'kg'}` : ''}`;
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
@@ -79,6 +79,7 @@ export function normalizeForComparison(exercises: Exercise[]): any[] {
         reps: set.reps
         // notes intentionally excluded - guidance
         // restTime intentionally excluded - preference
+        // rpe/rir/tempo intentionally excluded - logged effort, not structure
       };
       
       // Include volumeType for structure comparison
@@ -0,0 +1,76 @@
+/**
+ * Workout session - Elapsed time and per-exercise breakdown for live sessions
+ * A session runs from `startedAt` (Start workout) to `completedAt`; sets completed during it
+ * carry their own `completedAt`, which is what the per-exercise breakdown is built from
+ */
+
+import type { Workout } from '@/types/fitness';
+
+export interface ExerciseTimeEntry {
+  exerciseId: string;
+  exerciseName: string;
+  seconds: number;
+  completedSets: number;
+}
+
+/**
+ * Whole seconds between two instants (never negative)
+ */
+export function getElapsedSeconds(startedAt: string, endAt: string | number = Date.now()): number {
+  const end = typeof endAt === 'number' ? endAt : new Date(endAt).getTime();
+  return Math.max(0, Math.floor((end - new Date(startedAt).getTime()) / 1000));
+}
+
+/**
+ * Session length in whole minutes for `actualDuration` (at least 1)
+ */
+export function getSessionDurationMinutes(startedAt: string, completedAt: string): number {
+  return Math.max(1, Math.round(getElapsedSeconds(startedAt, completedAt) / 60));
+}
+
+/**
+ * Format seconds as h:mm:ss or m:ss
+ */
+export function formatElapsed(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${String(minutes).padStart(hours > 0 ? 2 : 1, '0')}:${String(seconds).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
+
+/**
+ * Time spent per exercise during the session
+ * Each completed set is credited with the time since the previous set completion
+ * (or since the session started), i.e. the work plus the rest leading into it
+ */
+export function getExerciseTimeBreakdown(workout: Pick<Workout, 'exercises'> & { startedAt?: string }): ExerciseTimeEntry[] {
+  if (!workout.startedAt) return [];
+  const sessionStart = new Date(workout.startedAt).getTime();
+
+  const completions = workout.exercises
+    .flatMap(exercise => exercise.sets
+      .filter(set => set.completed && set.completedAt)
+      .map(set => ({ exercise, time: new Date(set.completedAt!).getTime() }))
+    )
+    .filter(completion => completion.time >= sessionStart)
+    .sort((a, b) => a.time - b.time);
+
+  const entries = new Map<string, ExerciseTimeEntry>();
+  let previous = sessionStart;
+
+  completions.forEach(({ exercise, time }) => {
+    const entry = entries.get(exercise.id) || {
+      exerciseId: exercise.id,
+      exerciseName: exercise.name,
+      seconds: 0,
+      completedSets: 0
+    };
+    entry.seconds += Math.round((time - previous) / 1000);
+    entry.completedSets++;
+    entries.set(exercise.id, entry);
+    previous = time;
+  });
+
+  return Array.from(entries.values());
+}
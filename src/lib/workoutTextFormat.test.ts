@@ -0,0 +1,88 @@
+/**
+ * Workout text format - Golden fixtures for the parser and serializer (run with `npm test`)
+ *
+ * __fixtures__/workoutText/<name>.txt is the input:
+ * - <name>.expected.txt: serializing the parsed input gives exactly this text, and parsing that text
+ *   again (with the first result as `previous`) gives the same exercises
+ * - <name>.errors.txt: the input doesn't parse; one "<line>:<column> <message>" per expected error
+ */
+
+import type { WorkoutTextError } from './workoutTextFormat';
+import { parseWorkoutText, serializeWorkoutText } from './workoutTextFormat';
+
+const fixtures = import.meta.glob<string>('./__fixtures__/workoutText/*.txt', {
+  query: '?raw',
+  import: 'default',
+  eager: true
+});
+
+const FIXTURE_PREFIX = './__fixtures__/workoutText/';
+
+function formatErrors(errors: WorkoutTextError[]): string {
+  return errors.map(error => `${error.line}:${error.column} ${error.message}`).join('\n');
+}
+
+// Fixture files end with a newline; the serializer doesn't
+function readFixture(path: string): string | undefined {
+  return fixtures[path]?.replace(/\n$/, '');
+}
+
+/**
+ * First differing path between two values, or null when they're equal
+ */
+function findDifference(actual: unknown, expected: unknown, path = ''): string | null {
+  if (Object.is(actual, expected)) return null;
+  if (typeof actual !== 'object' || typeof expected !== 'object' || !actual || !expected) {
+    return `${path || 'value'}: ${JSON.stringify(actual)} !== ${JSON.stringify(expected)}`;
+  }
+
+  const keys = new Set([...Object.keys(actual), ...Object.keys(expected)]);
+  for (const key of keys) {
+    const difference = findDifference(
+      (actual as Record<string, unknown>)[key],
+      (expected as Record<string, unknown>)[key],
+      `${path}${Array.isArray(actual) ? `[${key}]` : `.${key}`}`
+    );
+    if (difference) return difference;
+  }
+  return null;
+}
+
+function checkRoundTrip(name: string, input: string, expected: string): string[] {
+  const parsed = parseWorkoutText(input);
+  if (parsed.errors.length > 0) return [`${name}: unexpected errors\n${formatErrors(parsed.errors)}`];
+
+  const text = serializeWorkoutText(parsed.exercises);
+  if (text !== expected) return [`${name}: serialized text differs\n--- expected\n${expected}\n--- actual\n${text}`];
+
+  const reparsed = parseWorkoutText(text, parsed.exercises);
+  if (reparsed.errors.length > 0) return [`${name}: serialized text doesn't parse\n${formatErrors(reparsed.errors)}`];
+
+  const difference = findDifference(reparsed.exercises, parsed.exercises, 'exercises');
+  return difference ? [`${name}: exercises changed in the round trip at ${difference}`] : [];
+}
+
+function checkErrors(name: string, input: string, expected: string): string[] {
+  const parsed = parseWorkoutText(input);
+  const actual = formatErrors(parsed.errors);
+  return actual === expected ? [] : [`${name}: errors differ\n--- expected\n${expected}\n--- actual\n${actual}`];
+}
+
+/**
+ * Runs every fixture; returns the failures
+ */
+export default function testWorkoutTextFormat(): string[] {
+  const inputs = Object.keys(fixtures).filter(path => !/\.(expected|errors)\.txt$/.test(path));
+  if (inputs.length === 0) return ['No workout text fixtures found'];
+
+  return inputs.flatMap(path => {
+    const name = path.slice(FIXTURE_PREFIX.length, -'.txt'.length);
+    const input = readFixture(path)!;
+    const expected = readFixture(`${FIXTURE_PREFIX}${name}.expected.txt`);
+    const errors = readFixture(`${FIXTURE_PREFIX}${name}.errors.txt`);
+
+    if (expected !== undefined) return checkRoundTrip(name, input, expected);
+    if (errors !== undefined) return checkErrors(name, input, errors);
+    return [`${name}: missing ${name}.expected.txt or ${name}.errors.txt`];
+  });
+}
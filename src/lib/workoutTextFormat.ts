@@ -0,0 +1,667 @@
+/**
+ * Workout text format - Grammar, parser and serializer for the workout text editor
+ *
+ * Grammar (EBNF, one construct per line; keywords and units are case-insensitive):
+ *
+ *   workout      = { line } ;
+ *   line         = blank | block-header | exercise-header | volume-line | note-line ;
+ *   block-header = "#" ( block-type { rounds | time-cap } | "end" ) ;   (at most one of each, nothing else)
+ *   block-type   = "superset" | "circuit" | "emom" | "amrap" ;
+ *   rounds       = "x" int | int "round" [ "s" ] ;
+ *   time-cap     = int ( "min" | "m" ) ;
+ *   exercise-header = "-" { "-" } name [ " +" ] ;                (trailing "+" = done, completion-only exercises)
+ *   volume-line  = volume { annotation } [ done-marks ] ;
+ *   volume       = int "x" int [ "x" number weight-unit ]        (sets x reps [x weight])
+ *                | duration                                     (one timed set)
+ *                | number distance-unit ;                       (one distance set)
+ *   weight-unit  = "kg" | "lb" ;
+ *   distance-unit = "km" | "mi" | "m" ;                         ("m" is meters, minutes are "min")
+ *   duration     = int "h" [ int ( "min" | "m" ) ] [ int "s" ] | int "min" [ int "s" ] | int "s" ;
+ *   annotation   = "@" number                                   (RPE 1-10)
+ *                | "rir" int                                    (reps in reserve)
+ *                | ( "t" | "tempo" ) tempo                      (e.g. t3010, tempo 3-0-1-0)
+ *                | "rest" duration                              (rest after each set, default 90s)
+ *                | '"' { char | '\"' } '"' ;                    (set note)
+ *   done-marks   = "+" { "+" } ;                                (one per completed set, from the first)
+ *   note-line    = ">" text | text ;                            (exercise instructions; ">" quotes lines
+ *                                                                that would otherwise parse as something else)
+ *
+ * Round trip: `parseWorkoutText(serializeWorkoutText(exercises))` reproduces every field the text
+ * can express (name, instructions, block, and per set volume type, reps, weight/unit, duration,
+ * distance/unit, rest, RPE/RIR/tempo, note, completion). Fields the text can't express (IDs,
+ * category, muscle groups, equipment, logged rest, completion times) are carried over by position
+ * from `previous`. Canonical forms: names are trimmed and don't start with "-" or end with "+",
+ * instruction lines are trimmed at the end, a missing weight unit is kg, timed and distance sets
+ * keep their time/distance in `notes`, and an exercise without volume has a single completion set.
+ */
+
+import type { Exercise, ExerciseBlock, ExerciseSet } from '@/types/fitness';
+import { formatEffortAnnotations, normalizeRpe, normalizeTempo, type SetEffort } from './setEffort';
+import { createBlockId, formatBlockHeader, parseBlockHeader } from './exerciseBlocks';
+
+export interface WorkoutTextError {
+  line: number; // 1-based
+  column: number; // 1-based
+  length: number; // Characters to highlight
+  message: string;
+}
+
+/**
+ * What each line of the text parsed as (for editor highlighting)
+ */
+export type WorkoutTextLineRole = 'blank' | 'block' | 'header' | 'set' | 'time' | 'distance' | 'note' | 'error';
+
+export interface WorkoutTextParseResult {
+  exercises: Exercise[];
+  errors: WorkoutTextError[];
+  warnings: WorkoutTextError[]; // Near-misses that still parse (e.g. volume written as a note)
+  lines: WorkoutTextLineRole[]; // One role per line of the text
+}
+
+const DEFAULT_REST_SECONDS = 90;
+
+const VOLUME_ROLES: Record<VolumeLine['kind'], WorkoutTextLineRole> = {
+  sets: 'set',
+  duration: 'time',
+  distance: 'distance'
+};
+
+interface VolumeLine extends SetEffort {
+  kind: 'sets' | 'duration' | 'distance';
+  sets: number;
+  reps: number;
+  weight?: number;
+  weightUnit?: 'kg' | 'lb';
+  duration?: number;
+  distance?: number;
+  distanceUnit?: 'km' | 'mi' | 'm';
+  restTime?: number;
+  note?: string;
+  done: number;
+  doneColumn: number;
+}
+
+/**
+ * Syntax error at a 0-based index of the line being scanned
+ */
+class LineSyntaxError extends Error {
+  index: number;
+  length: number;
+
+  constructor(message: string, index: number, length = 1) {
+    super(message);
+    this.index = index;
+    this.length = Math.max(1, length);
+  }
+}
+
+/**
+ * Character scanner over a single line
+ */
+class LineScanner {
+  pos = 0;
+  private readonly text: string;
+
+  constructor(text: string) {
+    this.text = text;
+  }
+
+  get done(): boolean {
+    return this.pos >= this.text.length;
+  }
+
+  peek(): string {
+    return this.text[this.pos] ?? '';
+  }
+
+  skipSpaces(): boolean {
+    const start = this.pos;
+    while (/\s/.test(this.peek())) this.pos++;
+    return this.pos > start;
+  }
+
+  number(): { value: number; raw: string; index: number } | null {
+    const match = this.text.slice(this.pos).match(/^\d+(?:\.\d+)?/);
+    if (!match) return null;
+    const index = this.pos;
+    this.pos += match[0].length;
+    return { value: parseFloat(match[0]), raw: match[0], index };
+  }
+
+  word(): { value: string; index: number } {
+    const match = this.text.slice(this.pos).match(/^[a-z]*/i)!;
+    const index = this.pos;
+    this.pos += match[0].length;
+    return { value: match[0].toLowerCase(), index };
+  }
+
+  /** Next whitespace-delimited token, for error messages */
+  token(): string {
+    return this.text.slice(this.pos).match(/^\S+/)?.[0] ?? '';
+  }
+
+  eat(pattern: RegExp): string | null {
+    const match = this.text.slice(this.pos).match(pattern);
+    if (!match || match.index !== 0) return null;
+    this.pos += match[0].length;
+    return match[0];
+  }
+}
+
+function expectWholeNumber(value: { value: number; raw: string; index: number }, what: string): number {
+  if (!Number.isInteger(value.value)) {
+    throw new LineSyntaxError(`${what} must be a whole number`, value.index, value.raw.length);
+  }
+  return value.value;
+}
+
+/**
+ * Duration components after the first number, e.g. "1h30min", "1min 30s", "45s"
+ * `allowBareMinutes`: "m" means minutes (only where it can't mean meters)
+ */
+function scanDuration(
+  scanner: LineScanner,
+  first: { value: number; raw: string; index: number },
+  firstUnit: { value: string; index: number },
+  allowBareMinutes: boolean
+): number {
+  const order = ['h', 'min', 's'];
+  const seconds = { h: 3600, min: 60, s: 1 } as Record<string, number>;
+  let total = 0;
+  let lastRank = -1;
+  let number = first;
+  let unit = firstUnit;
+
+  for (;;) {
+    const name = unit.value === 'm' && (allowBareMinutes || lastRank === 0) ? 'min' : unit.value;
+    const rank = order.indexOf(name);
+    if (rank === -1) {
+      throw new LineSyntaxError(
+        unit.value ? `Unknown time unit '${unit.value}' (use h, min or s)` : 'Expected a time unit (h, min or s)',
+        unit.index,
+        unit.value.length
+      );
+    }
+    if (rank <= lastRank) {
+      throw new LineSyntaxError('Time units must go from hours to minutes to seconds', unit.index, unit.value.length);
+    }
+    total += expectWholeNumber(number, 'Time') * seconds[name];
+    lastRank = rank;
+
+    const checkpoint = scanner.pos;
+    scanner.skipSpaces();
+    const next = scanner.number();
+    if (!next) {
+      scanner.pos = checkpoint;
+      return total;
+    }
+    number = next;
+    unit = scanner.word();
+  }
+}
+
+/**
+ * Scan a volume line ("3x10x50kg @8 ++", "5km +", "1min30s rest 30s") into its parts
+ */
+function scanVolumeLine(text: string): VolumeLine {
+  const scanner = new LineScanner(text);
+  const first = scanner.number()!;
+  const volume: VolumeLine = { kind: 'sets', sets: 1, reps: 1, done: 0, doneColumn: 0 };
+
+  if (scanner.eat(/^\s*[x×]\s*/i)) {
+    volume.sets = expectWholeNumber(first, 'Set count');
+    const reps = scanner.number();
+    if (!reps) throw new LineSyntaxError("Expected reps after 'x'", scanner.pos);
+    volume.reps = expectWholeNumber(reps, 'Reps');
+
+    if (scanner.eat(/^\s*[x×]\s*/i)) {
+      const weight = scanner.number();
+      if (!weight) throw new LineSyntaxError("Expected a weight after 'x'", scanner.pos);
+      scanner.skipSpaces();
+      const unit = scanner.word();
+      if (unit.value !== 'kg' && unit.value !== 'lb') {
+        throw new LineSyntaxError(
+          unit.value ? `Unknown weight unit '${unit.value}' (use kg or lb)` : 'Missing weight unit (kg or lb)',
+          unit.index,
+          unit.value.length
+        );
+      }
+      volume.weight = weight.value;
+      volume.weightUnit = unit.value;
+    }
+  } else {
+    scanner.skipSpaces();
+    const unit = scanner.word();
+    if (unit.value === 'km' || unit.value === 'mi' || unit.value === 'm') {
+      volume.kind = 'distance';
+      volume.distance = first.value;
+      volume.distanceUnit = unit.value;
+    } else if (unit.value === 'h' || unit.value === 'min' || unit.value === 's') {
+      volume.kind = 'duration';
+      volume.duration = scanDuration(scanner, first, unit, false);
+    } else {
+      throw new LineSyntaxError(
+        unit.value
+          ? `Unknown unit '${unit.value}' (start the line with '>' to write it as a note)`
+          : "Expected 'x' (sets x reps), a distance (km, mi, m) or a time (h, min, s) after the number",
+        unit.value ? unit.index : scanner.pos,
+        unit.value.length
+      );
+    }
+  }
+
+  // Annotations, then completion marks
+  const seen = new Set<string>();
+  const once = (name: string, index: number, length: number) => {
+    if (seen.has(name)) throw new LineSyntaxError(`Duplicate ${name}`, index, length);
+    seen.add(name);
+  };
+
+  for (;;) {
+    scanner.skipSpaces();
+    if (scanner.done) break;
+    const index = scanner.pos;
+
+    if (scanner.peek() === '+') {
+      volume.doneColumn = index;
+      volume.done = scanner.eat(/^[+\s]+/)!.replace(/\s/g, '').length;
+      if (!scanner.done) throw new LineSyntaxError('Unexpected text after completion marks', scanner.pos, scanner.token().length);
+      break;
+    }
+
+    if (scanner.eat(/^@\s*/)) {
+      const rpe = scanner.number();
+      if (!rpe || rpe.value < 1 || rpe.value > 10) {
+        throw new LineSyntaxError('RPE must be a number from 1 to 10, e.g. @8', index, scanner.pos - index);
+      }
+      once('RPE', index, scanner.pos - index);
+      volume.rpe = normalizeRpe(rpe.value);
+      continue;
+    }
+
+    if (scanner.peek() === '"') {
+      const match = text.slice(scanner.pos).match(/^"((?:[^"\\]|\\.)*)"/);
+      if (!match) throw new LineSyntaxError('Unterminated note (missing closing ")', index, text.length - index);
+      scanner.pos += match[0].length;
+      once('note', index, match[0].length);
+      volume.note = match[1].replace(/\\(.)/g, '$1');
+      continue;
+    }
+
+    const tempo = scanner.eat(/^t(?:empo)?\s*[0-9x](?:-?[0-9x]){3}(?![0-9a-z-])/i);
+    if (tempo) {
+      once('tempo', index, tempo.length);
+      volume.tempo = normalizeTempo(tempo.replace(/^t(?:empo)?\s*/i, ''));
+      continue;
+    }
+
+    const keyword = scanner.word();
+    if (keyword.value === 'rir') {
+      scanner.skipSpaces();
+      const rir = scanner.number();
+      if (!rir || !Number.isInteger(rir.value) || rir.value > 10) {
+        throw new LineSyntaxError('RIR must be a whole number from 0 to 10, e.g. rir2', index, scanner.pos - index);
+      }
+      once('RIR', index, scanner.pos - index);
+      volume.rir = rir.value;
+    } else if (keyword.value === 't' || keyword.value === 'tempo') {
+      scanner.pos = index;
+      throw new LineSyntaxError('Tempo must be 4 digits (X = explosive), e.g. t3010', index, scanner.token().length);
+    } else if (keyword.value === 'rest') {
+      scanner.skipSpaces();
+      const rest = scanner.number();
+      if (!rest) throw new LineSyntaxError('Expected a rest time, e.g. rest 60s', scanner.pos, scanner.token().length);
+      volume.restTime = scanDuration(scanner, rest, scanner.word(), true);
+      once('rest', index, scanner.pos - index);
+    } else {
+      scanner.pos = index;
+      const token = scanner.token();
+      throw new LineSyntaxError(`Unknown annotation '${token}' (expected @rpe, rir, t/tempo, rest or "note")`, index, token.length);
+    }
+  }
+
+  if (volume.kind === 'sets' && volume.done > volume.sets) {
+    throw new LineSyntaxError(
+      `${volume.done} completion marks for ${volume.sets} set${volume.sets === 1 ? '' : 's'}`,
+      volume.doneColumn,
+      volume.done
+    );
+  }
+  return volume;
+}
+
+function createVolumeRowId(): string {
+  return `volume-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Sets described by one volume line
+ */
+function volumeLineToSets(volume: VolumeLine, volumeRowId: string): ExerciseSet[] {
+  const base: ExerciseSet = {
+    reps: volume.reps,
+    restTime: volume.restTime ?? DEFAULT_REST_SECONDS,
+    notes: volume.note ?? '',
+    volumeRowId
+  };
+  if (volume.rpe !== undefined) base.rpe = volume.rpe;
+  if (volume.rir !== undefined) base.rir = volume.rir;
+  if (volume.tempo !== undefined) base.tempo = volume.tempo;
+
+  if (volume.kind === 'distance') {
+    return [{
+      ...base,
+      notes: `${volume.distance}${volume.distanceUnit}`,
+      volumeType: 'distance',
+      distanceUnit: volume.distanceUnit,
+      completed: volume.done > 0
+    }];
+  }
+
+  if (volume.kind === 'duration') {
+    return [{
+      ...base,
+      notes: formatDuration(volume.duration!),
+      volumeType: 'duration',
+      duration: volume.duration,
+      completed: volume.done > 0
+    }];
+  }
+
+  return Array.from({ length: volume.sets }, (_, index) => {
+    const set: ExerciseSet = {
+      ...base,
+      volumeType: volume.weight !== undefined ? 'sets-reps-weight' : 'sets-reps',
+      completed: index < volume.done
+    };
+    if (volume.weight !== undefined) {
+      set.weight = volume.weight;
+      set.weightUnit = volume.weightUnit;
+    }
+    return set;
+  });
+}
+
+function createCompletionSet(completed: boolean): ExerciseSet {
+  return {
+    reps: 1,
+    restTime: 0,
+    notes: '',
+    volumeType: 'completion',
+    volumeRowId: `completion-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    completed
+  };
+}
+
+/**
+ * Copy what the text can't express (IDs, metadata, logged rest, completion times)
+ * from the exercise previously at the same position
+ */
+function carryOver(exercise: Exercise, previous: Exercise | undefined): Exercise {
+  if (!previous) return exercise;
+
+  const previousRowIds = [...new Set(previous.sets.map(set => set.volumeRowId).filter(Boolean))];
+  const rowIds = [...new Set(exercise.sets.map(set => set.volumeRowId))];
+  const sets = exercise.sets.map((set, index) => {
+    const rowIndex = rowIds.indexOf(set.volumeRowId);
+    const previousSet = previous.sets[index];
+    const carried: ExerciseSet = { ...set, volumeRowId: previousRowIds[rowIndex] ?? set.volumeRowId };
+    if (previousSet?.actualRestTime !== undefined) carried.actualRestTime = previousSet.actualRestTime;
+    if (set.completed && previousSet?.completed && previousSet.completedAt) carried.completedAt = previousSet.completedAt;
+    return carried;
+  });
+
+  return {
+    ...exercise,
+    id: previous.id,
+    category: previous.category,
+    muscleGroups: previous.muscleGroups,
+    equipment: previous.equipment,
+    sets
+  };
+}
+
+/**
+ * Parse workout text into exercises
+ * Lines with errors are skipped; callers should keep their last good state while `errors` is non-empty
+ */
+export function parseWorkoutText(text: string, previous: Exercise[] = []): WorkoutTextParseResult {
+  const errors: WorkoutTextError[] = [];
+  const warnings: WorkoutTextError[] = [];
+  const lines: WorkoutTextLineRole[] = [];
+  const drafts: Array<{ exercise: Exercise; blockKey?: number; block?: Omit<ExerciseBlock, 'id'>; done: boolean; notes: string[] }> = [];
+  let current: (typeof drafts)[number] | undefined;
+  let currentBlock: { key: number; block: Omit<ExerciseBlock, 'id'> } | undefined;
+  let blockCount = 0;
+
+  text.split('\n').forEach((rawLine, lineIndex) => {
+    const line = rawLine.replace(/\s+$/, '');
+    const indent = line.length - line.trimStart().length;
+    const trimmed = line.trim();
+    const report = (message: string, index = 0, length = trimmed.length) => {
+      errors.push({ line: lineIndex + 1, column: indent + index + 1, length: Math.max(1, length), message });
+      lines[lineIndex] = 'error';
+    };
+    const warn = (message: string, index: number, length: number) => {
+      warnings.push({ line: lineIndex + 1, column: indent + index + 1, length: Math.max(1, length), message });
+    };
+
+    lines[lineIndex] = 'blank';
+    if (!trimmed) return;
+
+    if (trimmed.startsWith('#')) {
+      lines[lineIndex] = 'block';
+      const header = parseBlockHeader(trimmed);
+      if (header === null) {
+        report("Unknown block type (expected superset, circuit, emom, amrap or end; start the line with '>' to write it as a note)");
+      } else if (header === 'end') {
+        currentBlock = undefined;
+      } else if ('error' in header) {
+        report(header.error, header.index, header.length);
+      } else {
+        currentBlock = { key: blockCount++, block: header };
+      }
+      current = undefined;
+      return;
+    }
+
+    if (trimmed.startsWith('-')) {
+      lines[lineIndex] = 'header';
+      let name = trimmed.replace(/^-+\s*/, '');
+      const done = /\+$/.test(name);
+      if (done) name = name.replace(/\s*\+$/, '');
+      current = {
+        exercise: {
+          id: `exercise-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+          name,
+          category: 'General',
+          muscleGroups: [],
+          equipment: [],
+          instructions: '',
+          sets: []
+        },
+        blockKey: currentBlock?.key,
+        block: currentBlock?.block,
+        done,
+        notes: []
+      };
+      drafts.push(current);
+      return;
+    }
+
+    if (!current) {
+      report("Expected an exercise header ('- Exercise name') before this line");
+      return;
+    }
+
+    if (trimmed.startsWith('>')) {
+      lines[lineIndex] = 'note';
+      current.notes.push(line.slice(indent).replace(/^> ?/, ''));
+      return;
+    }
+
+    if (/^\d/.test(trimmed)) {
+      try {
+        const volume = scanVolumeLine(trimmed);
+        lines[lineIndex] = VOLUME_ROLES[volume.kind];
+        current.exercise.sets.push(...volumeLineToSets(volume, createVolumeRowId()));
+      } catch (error) {
+        if (!(error instanceof LineSyntaxError)) throw error;
+        report(error.message, error.index, error.length);
+      }
+      return;
+    }
+
+    lines[lineIndex] = 'note';
+    current.notes.push(trimmed);
+
+    const bullet = trimmed.match(/^[*•+]\s*\S/);
+    const volumeLike = trimmed.match(/\d+\s*[x×]\s*\d+|\d+(?:\.\d+)?\s*(?:kg|lb|km|mi|min)\b/i);
+    if (bullet) {
+      warn("Exercise headers start with '-'; this line is kept as a note", 0, 1);
+    } else if (volumeLike) {
+      warn(
+        "Looks like volume, but volume lines must start with the number; kept as a note (start it with '>' to silence this)",
+        volumeLike.index!,
+        volumeLike[0].length
+      );
+    }
+  });
+
+  // Reuse the previous block IDs for blocks that start at the same exercise
+  const blockIds = new Map<number, string>();
+  const exercises = drafts.map((draft, index) => {
+    const exercise: Exercise = { ...draft.exercise, instructions: draft.notes.join('\n') };
+
+    if (exercise.sets.length === 0) {
+      exercise.sets.push(createCompletionSet(draft.done));
+    } else if (draft.done) {
+      // Legacy: "- Name +" on an exercise with volume marks every set done
+      exercise.sets = exercise.sets.map(set => ({ ...set, completed: true }));
+    }
+
+    if (draft.blockKey !== undefined && draft.block) {
+      if (!blockIds.has(draft.blockKey)) {
+        const existingId = previous[index]?.block?.id;
+        const isExistingIdFree = existingId && ![...blockIds.values()].includes(existingId);
+        blockIds.set(draft.blockKey, isExistingIdFree ? existingId : createBlockId());
+      }
+      exercise.block = { id: blockIds.get(draft.blockKey)!, ...draft.block };
+    }
+
+    return carryOver(exercise, previous[index]);
+  });
+
+  return { exercises, errors, warnings, lines };
+}
+
+/**
+ * Exact duration in the text syntax, e.g. "45s", "1min30s", "1h5min"
+ */
+export function formatDuration(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.round(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  const parts: string[] = [];
+  if (hours) parts.push(`${hours}h`);
+  if (minutes) parts.push(`${minutes}min`);
+  if (secs) parts.push(`${secs}s`);
+  return parts.join('') || '0min';
+}
+
+function getTextVolumeType(set: ExerciseSet): ExerciseSet['volumeType'] {
+  if (set.volumeType && set.volumeType !== 'sets-reps-weight') return set.volumeType;
+  return set.weight !== undefined ? 'sets-reps-weight' : 'sets-reps';
+}
+
+function formatSetAnnotations(set: ExerciseSet, withNote: boolean): string {
+  let text = formatEffortAnnotations(set);
+  if (set.restTime !== DEFAULT_REST_SECONDS) text += ` rest ${formatDuration(set.restTime || 0)}`;
+  if (withNote && set.notes) text += ` "${set.notes.replace(/["\\]/g, '\\$&')}"`;
+  return text;
+}
+
+function formatVolumeLine(sets: ExerciseSet[]): string {
+  const first = sets[0];
+  const completed = sets.filter(set => set.completed).length;
+  const marks = completed > 0 ? ` ${'+'.repeat(completed)}` : '';
+  const volumeType = getTextVolumeType(first);
+
+  if (volumeType === 'distance') {
+    const distance = parseFloat(first.notes?.replace(/[^\d.]/g, '') || '0');
+    return `${distance}${first.distanceUnit || 'km'}${formatSetAnnotations(first, false)}${marks}`;
+  }
+  if (volumeType === 'duration') {
+    return `${formatDuration(first.duration || 0)}${formatSetAnnotations(first, false)}${marks}`;
+  }
+
+  const weight = volumeType === 'sets-reps-weight' ? `x${first.weight ?? 0}${first.weightUnit || 'kg'}` : '';
+  return `${sets.length}x${first.reps}${weight}${formatSetAnnotations(first, true)}${marks}`;
+}
+
+/**
+ * Split sets into volume lines: consecutive sets that read the same and share a volume row,
+ * broken wherever a done set follows an open one (done marks count from the start of a line)
+ */
+function groupVolumeLines(sets: ExerciseSet[]): ExerciseSet[][] {
+  const lines: ExerciseSet[][] = [];
+  const signature = (set: ExerciseSet) => JSON.stringify([
+    getTextVolumeType(set), set.reps, set.weight, set.weightUnit || 'kg', set.restTime,
+    set.rpe, set.rir, set.tempo, set.notes || '', set.volumeRowId
+  ]);
+
+  sets.forEach(set => {
+    const line = lines[lines.length - 1];
+    const last = line?.[line.length - 1];
+    const volumeType = getTextVolumeType(set);
+    const canJoin = last
+      && volumeType !== 'duration'
+      && volumeType !== 'distance'
+      && signature(last) === signature(set)
+      && !(set.completed && !last.completed);
+    if (canJoin) {
+      line.push(set);
+    } else {
+      lines.push([set]);
+    }
+  });
+
+  return lines;
+}
+
+/**
+ * Instruction lines that would parse as something else are quoted with ">"
+ */
+function formatInstructionLine(line: string): string {
+  const trimmed = line.replace(/\s+$/, '');
+  return !trimmed.trim() || /^\s|^[-#>\d]/.test(trimmed) ? `> ${trimmed}`.trimEnd() : trimmed;
+}
+
+/**
+ * Serialize exercises to workout text; completion comes from each set's `completed`
+ */
+export function serializeWorkoutText(exercises: Exercise[]): string {
+  let previousBlockId: string | undefined;
+
+  return exercises.map(exercise => {
+    const lines: string[] = [];
+
+    if (exercise.block?.id !== previousBlockId) {
+      lines.push(exercise.block ? formatBlockHeader(exercise.block) : '# end');
+      previousBlockId = exercise.block?.id;
+    }
+
+    const volumeSets = exercise.sets.filter(set => set.volumeType !== 'completion');
+    const isDone = volumeSets.length === 0 && exercise.sets.some(set => set.completed);
+    lines.push(`- ${exercise.name.trim()}${isDone ? ' +' : ''}`);
+
+    if (exercise.instructions) {
+      lines.push(...exercise.instructions.split('\n').map(formatInstructionLine));
+    }
+
+    groupVolumeLines(volumeSets).forEach(sets => lines.push(formatVolumeLine(sets)));
+
+    return lines.join('\n');
+  }).join('\n\n');
+}
@@ -8,6 +8,7 @@ import { useAICoachStore } from '@/stores/aiCoachStore';
 import { useWorkoutsStore } from '@/stores/workoutsStore';
 import { GoalsGenerationFlow } from '@/components/ai-coach/GoalsGenerationFlow';
 import { AICoachDashboard } from '@/components/ai-coach/AICoachDashboard';
+import { PlanSwitcher } from '@/components/ai-coach/PlanSwitcher';
 import { Loader2 } from 'lucide-react';
 
 /**
@@ -16,8 +17,10 @@ import { Loader2 } from 'lucide-react';
 export function AICoachPage() {
   const { 
     currentPlan, 
+    inactivePlans,
     loading, 
     loadPlan, 
+    loadInactivePlans,
     loadCustomPrompts,
     startRealtimeSync, 
     stopRealtimeSync 
@@ -32,6 +35,7 @@ export function AICoachPage() {
   useEffect(() => {
     // Load and sync AI plan
     loadPlan();
+    loadInactivePlans();
     loadCustomPrompts();
     startRealtimeSync();
     
@@ -43,7 +47,7 @@ export function AICoachPage() {
       stopRealtimeSync();
       stopWorkoutsSync();
     };
-  }, [loadPlan, loadCustomPrompts, startRealtimeSync, stopRealtimeSync, loadWorkouts, startWorkoutsSync, stopWorkoutsSync]);
+  }, [loadPlan, loadInactivePlans, loadCustomPrompts, startRealtimeSync, stopRealtimeSync, loadWorkouts, startWorkoutsSync, stopWorkoutsSync]);
 
   if (loading) {
     return (
@@ -57,8 +61,18 @@ export function AICoachPage() {
   }
 
   // No plan OR goals in draft → show goals generation flow
+  // Paused/archived plans stay reachable while setting up a new one
   if (!currentPlan || currentPlan.status === 'goals-draft') {
-    return <GoalsGenerationFlow />;
+    return (
+      <>
+        {inactivePlans.length > 0 && (
+          <div className="container mx-auto px-6 pt-6 max-w-6xl flex justify-end">
+            <PlanSwitcher plan={currentPlan} />
+          </div>
+        )}
+        <GoalsGenerationFlow />
+      </>
+    );
   }
 
   // Goals approved → show dashboard (always, regardless of suggestions/microcycle)
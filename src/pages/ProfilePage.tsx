@@ -6,6 +6,8 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { FormField } from '@/components/forms/FormField';
 import { CollapsibleChoiceField } from '@/components/forms/CollapsibleChoiceField';
+import { LLMSettingsCard } from '@/components/ai-coach/LLMSettingsCard';
+import { AccountDataCard } from '@/components/profile/AccountDataCard';
 import { Save, User } from 'lucide-react';
 
 /**
@@ -231,6 +233,12 @@ export function ProfilePage() {
           ))}
         </div>
 
+        {/* AI Coach Model Settings (saved separately from the profile form) */}
+        <LLMSettingsCard />
+
+        {/* Export and restore of all account data */}
+        <AccountDataCard />
+
         {/* Save Button (Fixed at bottom on mobile) */}
         {hasChanges && (
           <div className="sticky bottom-4 md:hidden">
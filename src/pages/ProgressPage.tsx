@@ -11,6 +11,9 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { WorkoutStatsDisplay } from '@/components/workouts/WorkoutStatsDisplay';
 import { VolumeStatsDisplay } from '@/components/workouts/VolumeStatsDisplay';
+import { StrengthProgressDisplay } from '@/components/workouts/StrengthProgressDisplay';
+import { TrainingLoadDisplay } from '@/components/workouts/TrainingLoadDisplay';
+import { BodyMeasurementsDisplay } from '@/components/workouts/BodyMeasurementsDisplay';
 import { CompletedWorkoutsList } from '@/components/workouts/CompletedWorkoutsList';
 import { ChevronDown, ChevronUp, TrendingUp, Loader2, AlertCircle } from 'lucide-react';
 
@@ -103,6 +106,15 @@ export function ProgressPage() {
               </div>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Body</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <BodyMeasurementsDisplay />
+            </CardContent>
+          </Card>
         </div>
       </div>
     );
@@ -153,6 +165,36 @@ export function ProgressPage() {
             </CardHeader>
           </Card>
 
+        {/* Strength Section (e1RM trend + standards) */}
+          <Card>
+          <CardHeader>
+            <CardTitle>Strength</CardTitle>
+            </CardHeader>
+            <CardContent>
+            <StrengthProgressDisplay completedWorkouts={completedWorkouts} />
+            </CardContent>
+          </Card>
+
+        {/* Training Load Section (fitness/fatigue, acute:chronic ratio, HR zones) */}
+          <Card>
+          <CardHeader>
+            <CardTitle>Training Load</CardTitle>
+            </CardHeader>
+            <CardContent>
+            <TrainingLoadDisplay trainingLoad={stats.trainingLoad} />
+            </CardContent>
+          </Card>
+
+        {/* Body Section (bodyweight, body fat and tape measurements) */}
+          <Card>
+          <CardHeader>
+            <CardTitle>Body</CardTitle>
+            </CardHeader>
+            <CardContent>
+            <BodyMeasurementsDisplay />
+            </CardContent>
+          </Card>
+
         {/* Completed Workouts Section */}
           <Card>
           <CardHeader>
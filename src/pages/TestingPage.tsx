@@ -53,16 +53,11 @@ export function TestingPage() {
       // Force fetch and activate
       await fetchAndActivate(remoteConfig);
       
-      // Test all parameters
-      const apiKeyValue = getValue(remoteConfig, 'openai_api_key');
+      // Test all parameters (LLM API keys are held by the /api/openai proxy, not Remote Config)
       const profileConfigValue = getValue(remoteConfig, 'profile_config');
       const promptsValue = getValue(remoteConfig, 'prompts_fitness_plan_generation');
       
       console.log('=== Remote Config Test Results ===');
-      console.log('API Key Source:', apiKeyValue.getSource());
-      console.log('API Key Available:', !!apiKeyValue.asString());
-      console.log('API Key Length:', apiKeyValue.asString().length);
-      
       console.log('Profile Config Source:', profileConfigValue.getSource());
       console.log('Profile Config Available:', !!profileConfigValue.asString());
       console.log('Profile Config Length:', profileConfigValue.asString().length);
@@ -71,7 +66,7 @@ export function TestingPage() {
       console.log('Prompts Available:', !!promptsValue.asString());
       console.log('Prompts Length:', promptsValue.asString().length);
       
-      alert(`Remote Config Test Complete! Check console for details.\n\nAPI Key: ${apiKeyValue.getSource()}\nProfile Config: ${profileConfigValue.getSource()}\nPrompts: ${promptsValue.getSource()}`);
+      alert(`Remote Config Test Complete! Check console for details.\n\nProfile Config: ${profileConfigValue.getSource()}\nPrompts: ${promptsValue.getSource()}`);
       
     } catch (error) {
       console.error('Remote Config test failed:', error);
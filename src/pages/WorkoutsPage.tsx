@@ -10,7 +10,9 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { PlannedSection } from '@/components/workouts/PlannedSection';
 import { AddWorkoutDialog } from '@/components/workouts/AddWorkoutDialog';
 import { WorkoutExecutionDialog } from '@/components/workouts/WorkoutExecutionDialog';
-import { Loader2, AlertCircle, Dumbbell } from 'lucide-react';
+import { ImportWorkoutsDialog } from '@/components/workouts/ImportWorkoutsDialog';
+import { CalendarFeedDialog } from '@/components/workouts/CalendarFeedDialog';
+import { Loader2, AlertCircle, Dumbbell, CloudOff, Upload, CalendarDays } from 'lucide-react';
 
 /**
  * Workouts page component
@@ -23,10 +25,14 @@ export function WorkoutsPage() {
     loading,
     error,
     clearError,
-    workouts
+    workouts,
+    isOnline,
+    queuedMutations
   } = useWorkoutsStore();
   
   const [showAddWorkout, setShowAddWorkout] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showCalendar, setShowCalendar] = useState(false);
   const [editingWorkoutId, setEditingWorkoutId] = useState<string | null>(null);
 
   useEffect(() => {
@@ -66,6 +72,16 @@ export function WorkoutsPage() {
               Track and plan your workouts
             </p>
           </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setShowCalendar(true)}>
+              <CalendarDays className="h-4 w-4 mr-2" />
+              Calendar
+            </Button>
+            <Button variant="outline" onClick={() => setShowImport(true)}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import History
+            </Button>
+          </div>
         </div>
 
         {/* Error Alert */}
@@ -81,6 +97,18 @@ export function WorkoutsPage() {
           </Alert>
         )}
 
+        {/* Offline Alert */}
+        {(!isOnline || queuedMutations.length > 0) && (
+          <Alert>
+            <CloudOff className="h-4 w-4" />
+            <AlertDescription>
+              {!isOnline
+                ? `You're offline. Changes are saved on this device${queuedMutations.length > 0 ? ` (${queuedMutations.length} pending)` : ''} and will sync when you reconnect.`
+                : `Syncing ${queuedMutations.length} offline change${queuedMutations.length === 1 ? '' : 's'}...`}
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Main Content */}
         <div className="space-y-6">
           {/* Planned Section */}
@@ -100,6 +128,10 @@ export function WorkoutsPage() {
           }}
         />
         
+        {/* CSV Import Dialog */}
+        <ImportWorkoutsDialog isOpen={showImport} onClose={() => setShowImport(false)} />
+        <CalendarFeedDialog isOpen={showCalendar} onClose={() => setShowCalendar(false)} />
+        
         {/* Workout Editing Dialog (opened after creation) */}
         {editingWorkoutId && (() => {
           const workout = workouts.find(w => w.id === editingWorkoutId);
@@ -0,0 +1,231 @@
+/**
+ * Account Data Store - Full account export and restore
+ * Bundle format and ID/rank remapping live in lib/accountExport; this store only does the Firestore I/O
+ */
+
+import { create } from 'zustand';
+import { collection, doc, getDoc, getDocs, setDoc, writeBatch } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { removeUndefinedValues, sanitizeWorkoutForFirebase } from '@/lib/firebaseUtils';
+import {
+  createAccountExport,
+  createSetsCsv,
+  prepareAccountRestore,
+  type AccountExportBundle,
+  type PlanVersionHistory
+} from '@/lib/accountExport';
+import type { AIPlan, PlanVersion } from '@/types/aiCoach';
+import type { CoachChatThread } from '@/types/coachChat';
+import type { BodyMeasurement } from '@/types/measurements';
+import type { WorkoutDocument } from '@/types/workout';
+import { useAuthStore } from './authStore';
+import { useWorkoutsStore } from './workoutsStore';
+import { useAICoachStore } from './aiCoachStore';
+import { useMeasurementsStore } from './measurementsStore';
+import { useCoachChatStore } from './coachChatStore';
+
+const BATCH_SIZE = 400; // Firestore allows 500 writes per batch
+
+export interface AccountImportSummary {
+  workouts: number;
+  measurements: number;
+  plan: boolean;
+  inactivePlans: number;
+  planVersions: number;
+  coachChats: number;
+}
+
+interface AccountDataState {
+  exporting: boolean;
+  importing: boolean;
+  error: string | null;
+  lastImport: AccountImportSummary | null;
+
+  // Actions
+  exportAccount: () => Promise<AccountExportBundle | null>;
+  exportSetsCsv: () => Promise<string | null>;
+  importAccount: (bundle: AccountExportBundle) => Promise<AccountImportSummary | null>;
+  clearError: () => void;
+}
+
+/**
+ * Read every workout straight from Firestore (the workouts store may hold only what's been loaded)
+ */
+async function fetchAllWorkouts(uid: string): Promise<WorkoutDocument[]> {
+  const snapshot = await getDocs(collection(db, 'users', uid, 'workouts'));
+  return snapshot.docs.map(workoutDoc => ({ ...(workoutDoc.data() as WorkoutDocument), id: workoutDoc.id }));
+}
+
+async function fetchInactivePlans(uid: string): Promise<AIPlan[]> {
+  const snapshot = await getDocs(collection(db, 'users', uid, 'aiPlans'));
+  return snapshot.docs.map(planDoc => ({ ...(planDoc.data() as AIPlan), id: planDoc.id }));
+}
+
+async function fetchPlanVersions(uid: string, plans: AIPlan[]): Promise<PlanVersionHistory[]> {
+  return Promise.all(plans.map(async plan => {
+    const snapshot = await getDocs(collection(db, 'users', uid, 'aiPlans', plan.id, 'versions'));
+    const versions = snapshot.docs.map(versionDoc => ({ ...(versionDoc.data() as PlanVersion), id: versionDoc.id }));
+    return { planId: plan.id, versions };
+  }));
+}
+
+async function fetchCoachChats(uid: string): Promise<CoachChatThread[]> {
+  const snapshot = await getDocs(collection(db, 'users', uid, 'coachChats'));
+  return snapshot.docs.map(threadDoc => ({ ...(threadDoc.data() as CoachChatThread), id: threadDoc.id }));
+}
+
+async function fetchAllMeasurements(uid: string): Promise<BodyMeasurement[]> {
+  const snapshot = await getDocs(collection(db, 'users', uid, 'measurements'));
+  return snapshot.docs.map(measurementDoc => ({ ...(measurementDoc.data() as BodyMeasurement), id: measurementDoc.id }));
+}
+
+export const useAccountDataStore = create<AccountDataState>((set) => ({
+  exporting: false,
+  importing: false,
+  error: null,
+  lastImport: null,
+
+  exportAccount: async () => {
+    const { user } = useAuthStore.getState();
+    if (!user) {
+      set({ error: 'User not authenticated' });
+      return null;
+    }
+
+    try {
+      set({ exporting: true, error: null });
+      const workouts = await fetchAllWorkouts(user.uid);
+      const planDoc = await getDoc(doc(db, 'users', user.uid, 'aiPlan', 'plan'));
+      const aiPlan = planDoc.exists() ? { ...(planDoc.data() as AIPlan), id: planDoc.id } : null;
+      const measurements = await fetchAllMeasurements(user.uid);
+      const inactivePlans = await fetchInactivePlans(user.uid);
+      const planVersions = await fetchPlanVersions(user.uid, aiPlan ? [aiPlan, ...inactivePlans] : inactivePlans);
+      const coachChats = await fetchCoachChats(user.uid);
+
+      console.log('[AccountData] Exporting', workouts.length, 'workouts,', measurements.length, 'measurements, plan:', !!aiPlan, 'inactive plans:', inactivePlans.length, 'coach chats:', coachChats.length);
+      set({ exporting: false });
+      return createAccountExport(user, workouts, aiPlan, measurements, inactivePlans, planVersions, coachChats);
+    } catch (error) {
+      console.error('[AccountData] Export error:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to export account data',
+        exporting: false
+      });
+      return null;
+    }
+  },
+
+  exportSetsCsv: async () => {
+    const { user } = useAuthStore.getState();
+    if (!user) {
+      set({ error: 'User not authenticated' });
+      return null;
+    }
+
+    try {
+      set({ exporting: true, error: null });
+      const csv = createSetsCsv(await fetchAllWorkouts(user.uid));
+      set({ exporting: false });
+      return csv;
+    } catch (error) {
+      console.error('[AccountData] CSV export error:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to export sets',
+        exporting: false
+      });
+      return null;
+    }
+  },
+
+  importAccount: async (bundle: AccountExportBundle) => {
+    const authStore = useAuthStore.getState();
+    const { user } = authStore;
+    if (!user) {
+      set({ error: 'User not authenticated' });
+      return null;
+    }
+
+    try {
+      set({ importing: true, error: null, lastImport: null });
+      const existingWorkouts = await fetchAllWorkouts(user.uid);
+      const restore = prepareAccountRestore(bundle, user.uid, existingWorkouts);
+
+      for (let start = 0; start < restore.workouts.length; start += BATCH_SIZE) {
+        const batch = writeBatch(db);
+        restore.workouts.slice(start, start + BATCH_SIZE).forEach(workout => {
+          batch.set(doc(db, 'users', user.uid, 'workouts', workout.id), sanitizeWorkoutForFirebase(workout));
+        });
+        await batch.commit();
+      }
+
+      for (let start = 0; start < restore.measurements.length; start += BATCH_SIZE) {
+        const batch = writeBatch(db);
+        restore.measurements.slice(start, start + BATCH_SIZE).forEach(measurement => {
+          batch.set(doc(db, 'users', user.uid, 'measurements', measurement.id), removeUndefinedValues(measurement));
+        });
+        await batch.commit();
+      }
+
+      if (restore.aiPlan) {
+        await setDoc(doc(db, 'users', user.uid, 'aiPlan', 'plan'), sanitizeWorkoutForFirebase(restore.aiPlan));
+      }
+
+      if (restore.inactivePlans.length > 0) {
+        const batch = writeBatch(db);
+        restore.inactivePlans.forEach(plan => {
+          batch.set(doc(db, 'users', user.uid, 'aiPlans', plan.id), sanitizeWorkoutForFirebase(plan));
+        });
+        await batch.commit();
+      }
+
+      const planVersions = restore.planVersions.flatMap(history => history.versions.map(version => ({ planId: history.planId, version })));
+      for (let start = 0; start < planVersions.length; start += BATCH_SIZE) {
+        const batch = writeBatch(db);
+        planVersions.slice(start, start + BATCH_SIZE).forEach(({ planId, version }) => {
+          batch.set(doc(db, 'users', user.uid, 'aiPlans', planId, 'versions', version.id), sanitizeWorkoutForFirebase(version));
+        });
+        await batch.commit();
+      }
+
+      for (let start = 0; start < restore.coachChats.length; start += BATCH_SIZE) {
+        const batch = writeBatch(db);
+        restore.coachChats.slice(start, start + BATCH_SIZE).forEach(thread => {
+          batch.set(doc(db, 'users', user.uid, 'coachChats', thread.id), removeUndefinedValues(thread));
+        });
+        await batch.commit();
+      }
+
+      // updateProfile reports failures through the auth store instead of throwing
+      await authStore.updateProfile(restore.userFields);
+      const profileError = useAuthStore.getState().error;
+      if (profileError) throw new Error(`Workouts were restored, but the profile could not be saved: ${profileError}`);
+
+      await useWorkoutsStore.getState().loadWorkouts();
+      await useMeasurementsStore.getState().loadMeasurements();
+      if (restore.aiPlan) await useAICoachStore.getState().loadPlan();
+      if (restore.inactivePlans.length > 0) await useAICoachStore.getState().loadInactivePlans();
+      if (restore.coachChats.length > 0) await useCoachChatStore.getState().loadThreads();
+
+      const summary: AccountImportSummary = {
+        workouts: restore.workouts.length,
+        measurements: restore.measurements.length,
+        plan: !!restore.aiPlan,
+        inactivePlans: restore.inactivePlans.length,
+        planVersions: planVersions.length,
+        coachChats: restore.coachChats.length
+      };
+      console.log('[AccountData] Imported', summary.workouts, 'workouts,', summary.measurements, 'measurements, plan:', summary.plan);
+      set({ importing: false, lastImport: summary });
+      return summary;
+    } catch (error) {
+      console.error('[AccountData] Import error:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to import account data',
+        importing: false
+      });
+      return null;
+    }
+  },
+
+  clearError: () => set({ error: null }),
+}));
@@ -6,35 +6,81 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
 import { 
+  collection,
+  deleteField,
   doc, 
   getDoc, 
+  getDocs,
+  limit,
+  orderBy,
+  query,
   setDoc, 
   updateDoc,
   onSnapshot,
-  serverTimestamp
+  serverTimestamp,
+  writeBatch
 } from 'firebase/firestore';
 import { getValue, fetchAndActivate } from 'firebase/remote-config';
 import { db, remoteConfig } from '@/lib/firebase';
 import { useAuthStore } from './authStore';
 import { useWorkoutsStore } from './workoutsStore';
+import { useMeasurementsStore } from './measurementsStore';
 import type { 
   AIPlan, 
+  AIGeneratedWorkout,
+  AIGenerationPreview,
   GoalsGenerationRequest,
   GoalsGenerationResponse,
-  MicrocycleGenerationRequest
+  InactivePlanStatus,
+  MicrocycleGenerationRequest,
+  PlanVersion,
+  PlanVersionAuthor,
+  PlanVersionChange
 } from '@/types/aiCoach';
-import type { CustomPromptConfig } from '@/types/profile';
+import type { CustomPromptConfig, UserProfile } from '@/types/profile';
+import type { BodyMeasurement } from '@/types/measurements';
+import type { WorkoutDocument } from '@/types/workout';
 import { sanitizeWorkoutForFirebase } from '@/lib/firebaseUtils';
-import { calculateInitialWeekRange } from '@/lib/dateUtils';
+import { addDays, calculateInitialWeekRange, formatMonthDay, getTodayISO } from '@/lib/dateUtils';
+import { createBodyweightLookup, getWorkoutDate, withBodyMeasurements } from '@/lib/bodyMeasurements';
 import { normalizeExercises } from '@/lib/workoutNormalization';
+import { 
+  generateValidatedResponse, 
+  goalsGenerationResponseSchema, 
+  microcycleSuggestionSchema,
+  normalizeGoalsResponse,
+  normalizeMicrocycleResponse,
+  buildGoalsPreview,
+  buildMicrocyclePreview
+} from '@/lib/aiResponseSchemas';
+import { resolveLLMSettings } from '@/lib/llmProviders';
+import { isAbortError } from '@/lib/openaiProxy';
+import { formatProgressionTargets } from '@/lib/progressiveOverload';
+import { formatPeriodizationTargets, getMacrocycleWeekNumber, resolvePeriodizationWeek } from '@/lib/periodization';
+import { createPlanVersion, getRestorableGoals } from '@/lib/planVersions';
 
 interface AICoachState {
   currentPlan: AIPlan | null;
   loading: boolean;
   generating: boolean;
+  generationPreview: AIGenerationPreview | null; // Live view of a streaming generation
   error: string | null;
   realtimeUnsubscribe: (() => void) | null;
   
+  // Version history (newest first)
+  versions: PlanVersion[];
+  versionsLoadedFor: string | null; // Plan id the loaded versions belong to
+  loadVersions: () => Promise<void>;
+  rollbackToVersion: (versionId: string) => Promise<void>;
+
+  // Paused and archived plans (users/{uid}/aiPlans)
+  inactivePlans: AIPlan[];
+  inactivePlansLoaded: boolean;
+  loadInactivePlans: () => Promise<void>;
+  setAsideCurrentPlan: (status: InactivePlanStatus) => Promise<void>;
+  activatePlan: (planId: string) => Promise<void>;
+  setInactivePlanStatus: (planId: string, status: InactivePlanStatus) => Promise<void>;
+  
   // Prompt Management
   customGoalsPrompt: CustomPromptConfig | null;
   customMicrocyclePrompt: CustomPromptConfig | null;
@@ -47,7 +93,8 @@ interface AICoachState {
   // Phase 1: Goals Generation
   generateGoals: (request: GoalsGenerationRequest, customPrompt?: CustomPromptConfig) => Promise<void>;
   approveGoals: () => Promise<void>;
-  updateGoals: (updates: Partial<Pick<AIPlan, 'macrocycleGoal' | 'mesocycleMilestones'>>) => Promise<void>;
+  updateGoals: (updates: Partial<Pick<AIPlan, 'macrocycleGoal' | 'mesocycleMilestones' | 'periodization'>>) => Promise<void>;
+  setIndicatorChecked: (milestoneId: string | null, indicator: string, checked: boolean) => Promise<void>; // null = macrocycle goal
   regenerateGoals: (feedback: string) => Promise<void>;
   
   // Phase 2: Workout Generation (suggestions-based)
@@ -57,6 +104,9 @@ interface AICoachState {
   approveMicrocycle: () => Promise<void>;
   regenerateMicrocycle: (feedback: string) => Promise<void>;
   
+  // Cancel the in-flight goals / microcycle generation
+  cancelGeneration: () => void;
+  
   // Week Completion (placeholders for now, implement in Phase C)
   completeMicrocycle: (reflection: string) => Promise<void>;
   generateNextMicrocycle: (reflection: string) => Promise<void>;
@@ -69,13 +119,148 @@ interface AICoachState {
   clearError: () => void;
 }
 
+// Abort controller of the generation currently streaming (one at a time)
+let generationAbortController: AbortController | null = null;
+
+/**
+ * Start tracking a new generation request, cancelling any previous one
+ */
+function beginGenerationRequest(): AbortController {
+  generationAbortController?.abort();
+  generationAbortController = new AbortController();
+  return generationAbortController;
+}
+
+function endGenerationRequest(controller: AbortController) {
+  if (generationAbortController === controller) {
+    generationAbortController = null;
+  }
+}
+
+const WORKOUT_HISTORY_DAYS = 28;
+const MAX_LOADED_VERSIONS = 50;
+const VERSION_MIGRATION_BATCH = 200; // Two writes per version; Firestore allows 500 per batch
+
+/**
+ * Snapshot a plan change into users/{uid}/aiPlans/{planId}/versions
+ * Plans from before version history get their previous state recorded first so the change can be rolled back.
+ * A failed write is logged and doesn't undo the change itself.
+ */
+async function recordPlanVersion(
+  uid: string,
+  previousPlan: AIPlan | null,
+  plan: AIPlan,
+  change: PlanVersionChange,
+  author: PlanVersionAuthor,
+  details: Parameters<typeof createPlanVersion>[3] = {}
+) {
+  try {
+    const store = useAICoachStore.getState();
+    if (store.versionsLoadedFor !== plan.id) await store.loadVersions();
+
+    const versions = [createPlanVersion(plan, change, author, details)];
+    if (previousPlan && useAICoachStore.getState().versions.length === 0) {
+      versions.push(createPlanVersion(previousPlan, 'goals-generated', 'ai', {
+        summary: 'Plan before version history',
+        llmModel: previousPlan.generationMetadata?.llmModel
+      }));
+    }
+
+    for (const version of [...versions].reverse()) {
+      await setDoc(doc(db, 'users', uid, 'aiPlans', plan.id, 'versions', version.id), sanitizeWorkoutForFirebase(version));
+    }
+    useAICoachStore.setState(state => ({ versions: [...versions, ...state.versions] }));
+    console.log('📚 Recorded plan version:', change);
+  } catch (error) {
+    console.error('❌ Record plan version error:', error);
+  }
+}
+
+/**
+ * Move version history recorded before multiple plans (users/{uid}/aiPlan/plan/versions) under the plan's id
+ * Versions of plans that were replaced before then stay where they are. Returns the number moved.
+ */
+async function migrateLegacyPlanVersions(uid: string, planId: string): Promise<number> {
+  const snapshot = await getDocs(collection(db, 'users', uid, 'aiPlan', 'plan', 'versions'));
+  const legacyVersions = snapshot.docs.filter(versionDoc => (versionDoc.data() as PlanVersion).snapshot?.planId === planId);
+
+  for (let start = 0; start < legacyVersions.length; start += VERSION_MIGRATION_BATCH) {
+    const batch = writeBatch(db);
+    legacyVersions.slice(start, start + VERSION_MIGRATION_BATCH).forEach(versionDoc => {
+      batch.set(doc(db, 'users', uid, 'aiPlans', planId, 'versions', versionDoc.id), versionDoc.data());
+      batch.delete(versionDoc.ref);
+    });
+    await batch.commit();
+  }
+  return legacyVersions.length;
+}
+
+/**
+ * A plan as stored in users/{uid}/aiPlans; the status it had is kept for resuming
+ */
+function toInactivePlan(plan: AIPlan, status: InactivePlanStatus): AIPlan {
+  return {
+    ...plan,
+    status,
+    resumeStatus: plan.resumeStatus ?? plan.status,
+    setAsideAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * A paused/archived plan made active again
+ */
+function toActivePlan(plan: AIPlan): AIPlan {
+  const activePlan: AIPlan = {
+    ...plan,
+    status: plan.resumeStatus || 'goals-approved',
+    updatedAt: new Date().toISOString(),
+  };
+  delete activePlan.resumeStatus;
+  delete activePlan.setAsideAt;
+  return activePlan;
+}
+
+function sortInactivePlans(plans: AIPlan[]): AIPlan[] {
+  return [...plans].sort((a, b) => (b.setAsideAt || '').localeCompare(a.setAsideAt || ''));
+}
+
+/**
+ * Completed workouts from the last 4 weeks for {WORKOUT_HISTORY}, each with the bodyweight on its date
+ */
+function buildWorkoutHistory(
+  workouts: WorkoutDocument[],
+  measurements: BodyMeasurement[],
+  userProfile: UserProfile
+) {
+  const getBodyweight = createBodyweightLookup(measurements, userProfile);
+  const since = addDays(getTodayISO(), -WORKOUT_HISTORY_DAYS);
+  return workouts
+    .filter(w => w.status === 'completed' && (getWorkoutDate(w) ?? '') >= since)
+    .sort((a, b) => (getWorkoutDate(a) ?? '').localeCompare(getWorkoutDate(b) ?? ''))
+    .map(w => ({
+      date: getWorkoutDate(w),
+      name: w.name,
+      type: w.type,
+      exercises: w.exercises.map(exercise => exercise.name),
+      durationMinutes: w.actualDuration || w.estimatedDuration,
+      bodyweightKg: Math.round(getBodyweight(getWorkoutDate(w)) * 10) / 10
+    }));
+}
+
 export const useAICoachStore = create<AICoachState>()(
   subscribeWithSelector((set, get) => ({
     currentPlan: null,
     loading: false,
     generating: false,
+    generationPreview: null,
     error: null,
     realtimeUnsubscribe: null,
+    versions: [],
+    versionsLoadedFor: null,
+    inactivePlans: [],
+    inactivePlansLoaded: false,
     customGoalsPrompt: null,
     customMicrocyclePrompt: null,
 
@@ -207,19 +392,21 @@ export const useAICoachStore = create<AICoachState>()(
         return;
       }
 
+      const abortController = beginGenerationRequest();
+      const previousPlan = get().currentPlan;
+
       try {
-        set({ generating: true, error: null });
+        set({ 
+          generating: true, 
+          error: null, 
+          generationPreview: { kind: 'goals', attempt: 1, receivedChars: 0 } 
+        });
 
         // Fetch Remote Config
         await fetchAndActivate(remoteConfig);
 
-        // Get API key
-        const apiKeyValue = getValue(remoteConfig, 'openai_api_key');
-        const apiKey = apiKeyValue.asString();
-        
-        if (!apiKey) {
-          throw new Error('OpenAI API key not configured in Firebase Remote Config');
-        }
+        // Resolve model provider from user settings
+        const llmSettings = resolveLLMSettings(user.llmSettings);
 
         // Determine which prompt to use: customPrompt param > state > Remote Config
         let promptConfig: { system_prompt: string; user_prompt_template: string };
@@ -249,9 +436,13 @@ export const useAICoachStore = create<AICoachState>()(
           promptConfig = JSON.parse(promptString);
         }
 
+        // Current bodyweight and measurement trend from the measurements log
+        const measurements = await useMeasurementsStore.getState().ensureLoaded();
+        const userProfile = withBodyMeasurements(request.userProfile, measurements, getTodayISO());
+
         // Populate user prompt template
         const userPrompt = promptConfig.user_prompt_template
-          .replace('{USER_PROFILE}', JSON.stringify(request.userProfile, null, 2))
+          .replace('{USER_PROFILE}', JSON.stringify(userProfile, null, 2))
           .replace('{FITNESS_GOAL_INPUT}', request.fitnessGoalInput)
           .replace('{CUSTOM_INPUT}', request.customInput)
           .replace('{CURRENT_DATE}', request.currentDate);
@@ -266,96 +457,39 @@ export const useAICoachStore = create<AICoachState>()(
         console.log(userPrompt);
         console.log('='.repeat(80) + '\n');
 
-        // Call OpenAI API
-        const response = await fetch('https://api.openai.com/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${apiKey}`,
+        // Call LLM provider, validating (and repairing) the response against the goals schema
+        // Handles both the new format { macrocycleGoal, mesocycleMilestones }
+        // and the old format { plan: { macrocycle, mesocycles } } via normalization
+        const { data: goalsPayload, completion } = await generateValidatedResponse(llmSettings, [
+          {
+            role: 'system',
+            content: promptConfig.system_prompt
           },
-          body: JSON.stringify({
-            model: 'gpt-4o',
-            messages: [
-              {
-                role: 'system',
-                content: promptConfig.system_prompt
-              },
-              {
-                role: 'user',
-                content: userPrompt
-              }
-            ],
-            temperature: 0.7,
-            max_tokens: 3000,
-          }),
+          {
+            role: 'user',
+            content: userPrompt
+          }
+        ], {
+          label: 'Goals generation',
+          schema: goalsGenerationResponseSchema,
+          normalize: normalizeGoalsResponse,
+          signal: abortController.signal,
+          // Stream the response so milestones show up as they are generated
+          onPartial: (partial, progress) => set({
+            generationPreview: { kind: 'goals', ...progress, goals: buildGoalsPreview(partial) }
+          })
         });
-
-        if (!response.ok) {
-          throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
-        }
-
-        const data = await response.json();
-        const content = data.choices[0]?.message?.content;
-
-        if (!content) {
-          throw new Error('No response from OpenAI');
-        }
+        const { llmModel } = completion;
 
         // 📥 LOG: AI Response
         console.log('\n' + '='.repeat(80));
         console.log('✅ AI RESPONSE: GOALS GENERATION');
         console.log('='.repeat(80));
-        console.log(content);
+        console.log(completion.content);
         console.log('='.repeat(80) + '\n');
 
-        // Clean and parse JSON response
-        let cleanContent = content.trim();
-        if (cleanContent.startsWith('```json')) {
-          cleanContent = cleanContent.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-        } else if (cleanContent.startsWith('```')) {
-          cleanContent = cleanContent.replace(/^```\s*/, '').replace(/\s*```$/, '');
-        }
-        
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        let parsedResponse: any;
-        try {
-          parsedResponse = JSON.parse(cleanContent);
-        } catch (parseError) {
-          console.error('❌ JSON parse error:', parseError);
-          console.error('❌ Content that failed to parse:', cleanContent);
-          throw new Error('Failed to parse AI response as JSON');
-        }
-        
-        // Handle two possible response formats:
-        // 1. New format: { macrocycleGoal, mesocycleMilestones }
-        // 2. Old format: { plan: { macrocycle, mesocycles } } (fallback from old prompt)
-        
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        let macrocycleData: any;
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        let mesocyclesData: any[];
-        
-        if (parsedResponse.macrocycleGoal && parsedResponse.mesocycleMilestones) {
-          // New format (correct)
-          macrocycleData = parsedResponse.macrocycleGoal;
-          mesocyclesData = parsedResponse.mesocycleMilestones;
-        } else if (parsedResponse.plan?.macrocycle && parsedResponse.plan?.macrocycle?.mesocycles) {
-          // Old format (from existing fitness plan prompt)
-          macrocycleData = parsedResponse.plan.macrocycle;
-          mesocyclesData = parsedResponse.plan.macrocycle.mesocycles;
-        } else {
-          throw new Error(`Invalid goals response. Expected macrocycleGoal or plan.macrocycle, got: ${JSON.stringify(Object.keys(parsedResponse))}`);
-        }
-        
-        // Validate macrocycle has required content fields
-        if (!macrocycleData.name || !macrocycleData.value) {
-          throw new Error('Macrocycle goal is missing required fields (name, value)');
-        }
-        
-        // Validate mesocycles
-        if (!Array.isArray(mesocyclesData) || mesocyclesData.length === 0) {
-          throw new Error('Mesocycle milestones must be a non-empty array');
-        }
+        const macrocycleData = goalsPayload.macrocycleGoal;
+        const mesocyclesData = goalsPayload.mesocycleMilestones;
         
         // Generate IDs and dates in the app (not from AI)
         const now = new Date();
@@ -384,13 +518,13 @@ export const useAICoachStore = create<AICoachState>()(
             value: meso.value,
             successIndicators: meso.successIndicators || []
           })),
-          explanation: parsedResponse.explanation || 'AI-generated fitness goals',
+          explanation: goalsPayload.explanation || 'AI-generated fitness goals',
           generated_at: new Date().toISOString()
         };
 
-        // Create AI plan with goals (draft status)
+        // Create AI plan with goals (draft status); regenerating keeps the plan id so its history stays together
         const newPlan: AIPlan = {
-          id: `aiplan_${Date.now()}`,
+          id: previousPlan?.id ?? `aiplan_${Date.now()}`,
           userId: user.uid,
           macrocycleGoal: goalsResponse.macrocycleGoal,
           mesocycleMilestones: goalsResponse.mesocycleMilestones,
@@ -399,7 +533,7 @@ export const useAICoachStore = create<AICoachState>()(
           generationMetadata: {
             generatedAt: new Date().toISOString(),
             regenerationCount: 0,
-            llmModel: 'gpt-4o'
+            llmModel
           },
           userFeedback: [],
           createdAt: new Date().toISOString(),
@@ -410,14 +544,26 @@ export const useAICoachStore = create<AICoachState>()(
         const planDocRef = doc(db, 'users', user.uid, 'aiPlan', 'plan');
         await setDoc(planDocRef, sanitizeWorkoutForFirebase(newPlan));
 
-        set({ currentPlan: newPlan, generating: false });
+        set({ currentPlan: newPlan, generating: false, generationPreview: null });
+        await recordPlanVersion(user.uid, previousPlan, newPlan, previousPlan ? 'goals-regenerated' : 'goals-generated', 'ai', {
+          feedback: request.feedback,
+          llmModel
+        });
 
       } catch (error) {
+        if (isAbortError(error)) {
+          console.log('⏹️ Goals generation cancelled');
+          set({ generating: false, generationPreview: null });
+          return;
+        }
         console.error('❌ Generate goals error:', error);
         set({ 
           error: error instanceof Error ? error.message : 'Failed to generate goals',
-          generating: false 
+          generating: false,
+          generationPreview: null
         });
+      } finally {
+        endGenerationRequest(abortController);
       }
     },
 
@@ -453,7 +599,7 @@ export const useAICoachStore = create<AICoachState>()(
       }
     },
 
-    updateGoals: async (updates: Partial<Pick<AIPlan, 'macrocycleGoal' | 'mesocycleMilestones'>>) => {
+    updateGoals: async (updates: Partial<Pick<AIPlan, 'macrocycleGoal' | 'mesocycleMilestones' | 'periodization'>>) => {
       const { currentPlan } = get();
       const authStore = useAuthStore.getState();
       const { user } = authStore;
@@ -471,12 +617,15 @@ export const useAICoachStore = create<AICoachState>()(
 
         const planDocRef = doc(db, 'users', user.uid, 'aiPlan', 'plan');
         await updateDoc(planDocRef, {
-          ...updates,
+          ...sanitizeWorkoutForFirebase(updates),
           goalsLastModified: serverTimestamp(),
           updatedAt: serverTimestamp(),
         });
 
         set({ currentPlan: updatedPlan, loading: false });
+        await recordPlanVersion(user.uid, currentPlan, updatedPlan, 'goals-edited', 'manual', {
+          summary: updates.macrocycleGoal || updates.mesocycleMilestones ? undefined : 'Changed periodization'
+        });
 
       } catch (error) {
         console.error('❌ Update goals error:', error);
@@ -487,6 +636,42 @@ export const useAICoachStore = create<AICoachState>()(
       }
     },
 
+    setIndicatorChecked: async (milestoneId: string | null, indicator: string, checked: boolean) => {
+      const { currentPlan } = get();
+      const { user } = useAuthStore.getState();
+
+      if (!user || !currentPlan) return;
+
+      const toggle = (current: string[] = []) => checked
+        ? [...current.filter(text => text !== indicator), indicator]
+        : current.filter(text => text !== indicator);
+
+      // Progress tracking, not a goal edit: goalsLastModified stays untouched
+      const updates: Partial<Pick<AIPlan, 'macrocycleGoal' | 'mesocycleMilestones'>> = milestoneId === null
+        ? { macrocycleGoal: { ...currentPlan.macrocycleGoal, checkedIndicators: toggle(currentPlan.macrocycleGoal.checkedIndicators) } }
+        : {
+            mesocycleMilestones: currentPlan.mesocycleMilestones.map(milestone => milestone.id === milestoneId
+              ? { ...milestone, checkedIndicators: toggle(milestone.checkedIndicators) }
+              : milestone)
+          };
+
+      try {
+        set({ currentPlan: { ...currentPlan, ...updates }, error: null });
+
+        const planDocRef = doc(db, 'users', user.uid, 'aiPlan', 'plan');
+        await updateDoc(planDocRef, {
+          ...sanitizeWorkoutForFirebase(updates),
+          updatedAt: serverTimestamp(),
+        });
+      } catch (error) {
+        console.error('❌ Update success indicator error:', error);
+        set({
+          currentPlan,
+          error: error instanceof Error ? error.message : 'Failed to update success indicator'
+        });
+      }
+    },
+
     regenerateGoals: async (feedback: string) => {
       const { currentPlan } = get();
       const authStore = useAuthStore.getState();
@@ -508,6 +693,7 @@ export const useAICoachStore = create<AICoachState>()(
           fitnessGoalInput: userProfile.goals || '',
           customInput: `Previous goals feedback: ${feedback}\n\nPlease regenerate goals taking this feedback into account.`,
           currentDate: new Date().toISOString(),
+          feedback,
         };
 
         // Call generateGoals with feedback
@@ -517,7 +703,8 @@ export const useAICoachStore = create<AICoachState>()(
         const updatedFeedback = [...currentPlan.userFeedback, feedback];
         const { currentPlan: regeneratedPlan } = get();
         
-        if (regeneratedPlan) {
+        // Nothing to record if generation failed or was cancelled
+        if (regeneratedPlan && regeneratedPlan.id !== currentPlan.id) {
           const planDocRef = doc(db, 'users', user.uid, 'aiPlan', 'plan');
           await updateDoc(planDocRef, {
             userFeedback: updatedFeedback,
@@ -557,16 +744,20 @@ export const useAICoachStore = create<AICoachState>()(
         return;
       }
 
+      const abortController = beginGenerationRequest();
+
       try {
-        set({ generating: true, error: null });
+        set({ 
+          generating: true, 
+          error: null, 
+          generationPreview: { kind: 'microcycle', attempt: 1, receivedChars: 0 } 
+        });
 
         // Fetch Remote Config
         await fetchAndActivate(remoteConfig);
 
-        const apiKey = getValue(remoteConfig, 'openai_api_key').asString();
-        if (!apiKey) {
-          throw new Error('OpenAI API key not configured');
-        }
+        // Resolve model provider from user settings
+        const llmSettings = resolveLLMSettings(user.llmSettings);
 
         // Determine which prompt to use: custom > Remote Config
         let promptConfig: { system_prompt: string; user_prompt_template: string };
@@ -619,6 +810,21 @@ export const useAICoachStore = create<AICoachState>()(
           ? `Completed Workouts: ${request.previousMicrocycle.actual.completedWorkouts.length}\nCompletion Rate: ${Math.round(request.previousMicrocycle.actual.completionRate)}%\nReflection: ${request.previousMicrocycle.actual.weeklyReflection}`
           : '';
 
+        // Next-session targets from the progressive overload engine (per-exercise rules)
+        const progressionTargetsStr = formatProgressionTargets(workoutsStore.getProgressionTargets());
+
+        // Phase, week within the phase and deload/intensity targets for the week being planned
+        const periodizationWeek = request.periodization !== undefined
+          ? request.periodization
+          : resolvePeriodizationWeek(currentPlan, request.weekDateRange.start);
+        const periodizationTargetsStr = formatPeriodizationTargets(periodizationWeek);
+
+        // Bodyweight from the measurements log: latest in the profile, per workout in the history
+        const measurements = await useMeasurementsStore.getState().ensureLoaded();
+        const userProfile = withBodyMeasurements(request.userProfile, measurements, getTodayISO());
+        const workoutHistory = request.workoutHistory
+          ?? buildWorkoutHistory(workoutsStore.workouts, measurements, request.userProfile);
+
         // Add explicit instructions based on current state
         let additionalInstructions = '';
         if (plannedWorkouts.length === 0) {
@@ -629,9 +835,9 @@ export const useAICoachStore = create<AICoachState>()(
 
         // Build user prompt with all placeholders (including PLANNED_WORKOUTS)
         let userPrompt = promptConfig.user_prompt_template
-          .replace('{USER_PROFILE}', JSON.stringify(request.userProfile, null, 2))
+          .replace('{USER_PROFILE}', JSON.stringify(userProfile, null, 2))
           .replace('{MACROCYCLE}', JSON.stringify(request.macrocycleGoal, null, 2))
-          .replace('{MESOCYCLE}', JSON.stringify(request.mesocycleMilestones[0] || {}, null, 2))
+          .replace('{MESOCYCLE}', JSON.stringify(request.mesocycleMilestones[periodizationWeek?.phaseIndex ?? 0] || {}, null, 2))
           .replace('{CURRENT_DATE}', request.currentDate)
           .replace('{NEXT_WEEK_NUMBER}', String(request.weekNumber))
           .replace('{WEEK_DATE_RANGE}', JSON.stringify(request.weekDateRange, null, 2))
@@ -639,7 +845,17 @@ export const useAICoachStore = create<AICoachState>()(
           .replace('{PREVIOUS_MICROCYCLE_ACTUAL}', previousActual)
           .replace('{CUSTOM_PROMPT}', request.customFeedback || '')
           .replace('{PLANNED_WORKOUTS}', plannedWorkoutsStr)
-          .replace('{WORKOUT_HISTORY}', JSON.stringify(request.workoutHistory || [], null, 2));
+          .replace('{WORKOUT_HISTORY}', JSON.stringify(workoutHistory, null, 2))
+          .replace('{PROGRESSION_TARGETS}', progressionTargetsStr)
+          .replace('{PERIODIZATION_TARGETS}', periodizationTargetsStr);
+        
+        // Prompts saved before PROGRESSION_TARGETS existed still get the targets
+        if (!promptConfig.user_prompt_template.includes('{PROGRESSION_TARGETS}')) {
+          additionalInstructions += `\n\n# Progression Targets (use these sets/reps/weights for exercises the user has trained)\n${progressionTargetsStr}`;
+        }
+        if (!promptConfig.user_prompt_template.includes('{PERIODIZATION_TARGETS}')) {
+          additionalInstructions += `\n\n# Periodization (scale this week's volume and intensity to these targets)\n${periodizationTargetsStr}`;
+        }
         
         // Append additional instructions
         userPrompt += additionalInstructions;
@@ -661,66 +877,31 @@ export const useAICoachStore = create<AICoachState>()(
         console.log(userPrompt);
         console.log('='.repeat(80) + '\n');
 
-        // Call OpenAI
-        const response = await fetch('https://api.openai.com/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${apiKey}`,
-          },
-          body: JSON.stringify({
-            model: 'gpt-4o',
-            messages: [
-              { role: 'system', content: enhancedSystemPrompt },
-              { role: 'user', content: userPrompt }
-            ],
-            temperature: 0.7,
-            max_tokens: 4000,
-          }),
+        // Call LLM provider, validating (and repairing) the response against the suggestion schema
+        // Older formats ({ plan: { currentMicrocycle: { workouts } } }, { workouts }) are normalized first
+        const { data: microcyclePayload, completion } = await generateValidatedResponse(llmSettings, [
+          { role: 'system', content: enhancedSystemPrompt },
+          { role: 'user', content: userPrompt }
+        ], {
+          label: 'Microcycle generation',
+          schema: microcycleSuggestionSchema,
+          normalize: normalizeMicrocycleResponse,
+          signal: abortController.signal,
+          // Stream the response so workouts show up as they are generated
+          onPartial: (partial, progress) => set({
+            generationPreview: { kind: 'microcycle', ...progress, microcycle: buildMicrocyclePreview(partial) }
+          })
         });
 
-        if (!response.ok) {
-          throw new Error(`OpenAI API error: ${response.statusText}`);
-        }
-
-        const data = await response.json();
-        let content = data.choices[0]?.message?.content;
-        if (!content) throw new Error('No response from OpenAI');
-
         // 📥 LOG: AI Response
         console.log('\n' + '='.repeat(80));
         console.log('✅ AI RESPONSE: MICROCYCLE GENERATION');
         console.log('='.repeat(80));
-        console.log(content);
+        console.log(completion.content);
         console.log('='.repeat(80) + '\n');
 
-        // Clean JSON
-        content = content.trim();
-        if (content.startsWith('```json')) {
-          content = content.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-        } else if (content.startsWith('```')) {
-          content = content.replace(/^```\s*/, '').replace(/\s*```$/, '');
-        }
-
-        const aiResponse = JSON.parse(content);
-        
-        // Handle both NEW and OLD formats
-        let assessment = '';
-        let suggestedWorkouts = [];
-        
-        if (aiResponse.assessment !== undefined) {
-          // NEW FORMAT: { assessment, suggestedWorkouts }
-          assessment = aiResponse.assessment || 'AI Coach has reviewed your plan.';
-          suggestedWorkouts = aiResponse.suggestedWorkouts || [];
-        } else if (aiResponse.plan?.currentMicrocycle?.workouts) {
-          // OLD FORMAT: { plan: { currentMicrocycle: { workouts } } }
-          suggestedWorkouts = aiResponse.plan.currentMicrocycle.workouts || [];
-          assessment = aiResponse.explanation || `Suggested ${suggestedWorkouts.length} workout(s) for this week.`;
-        } else if (aiResponse.workouts) {
-          // ALTERNATIVE FORMAT: { workouts: [...] }
-          suggestedWorkouts = aiResponse.workouts;
-          assessment = aiResponse.explanation || `Suggested ${suggestedWorkouts.length} workout(s) for this week.`;
-        }
+        let assessment = microcyclePayload.assessment;
+        const suggestedWorkouts = microcyclePayload.suggestedWorkouts;
         
         // If we got workouts but no assessment, generate one
         if (!assessment && suggestedWorkouts.length > 0) {
@@ -735,31 +916,7 @@ export const useAICoachStore = create<AICoachState>()(
         // Create suggestion object (don't create workout documents yet)
         const suggestion = {
           assessment,
-          suggestedWorkouts: suggestedWorkouts.map((workoutData: {
-            name?: string;
-            dayOfWeek?: number;
-            type?: string;
-            focus?: string;
-            value?: string;
-            exercises?: Array<{
-              id?: string;
-              name: string;
-              category?: string;
-              muscleGroups?: string[];
-              equipment?: string[];
-              instructions?: string;
-              sets: Array<{
-                reps: number;
-                weight?: number;
-                duration?: number;
-                restTime?: number;
-                notes?: string;
-                volumeType?: 'sets-reps' | 'sets-reps-weight' | 'duration' | 'distance' | 'completion';
-              }>;
-            }>;
-            estimatedDuration?: number;
-            checkIns?: { greenFlags: string[]; redFlags: string[] };
-          }) => {
+          suggestedWorkouts: suggestedWorkouts.map((workoutData: AIGeneratedWorkout) => {
           // Validate and normalize dayOfWeek (AI sometimes returns invalid values)
             let dayOfWeek = workoutData.dayOfWeek ?? 1; // Default to Monday
           
@@ -838,7 +995,7 @@ export const useAICoachStore = create<AICoachState>()(
                 sets: ex.sets.map((set, setIdx) => ({
                   ...set,
                   restTime: set.restTime ?? 60, // Default 60 seconds rest
-                  volumeRowId: set.volumeRowId || volumeRowIds[setIdx] // Add volumeRowId!
+                  volumeRowId: volumeRowIds[setIdx] // Add volumeRowId!
                 }))
               };
             });
@@ -858,7 +1015,8 @@ export const useAICoachStore = create<AICoachState>()(
             };
           }),
           generated_at: new Date().toISOString(),
-          weekDateRange: request.weekDateRange
+          weekDateRange: request.weekDateRange,
+          llmModel: completion.llmModel
         };
 
         // Store suggestion in AI plan (don't create workouts yet)
@@ -871,14 +1029,27 @@ export const useAICoachStore = create<AICoachState>()(
         const planDocRef = doc(db, 'users', user.uid, 'aiPlan', 'plan');
         await setDoc(planDocRef, sanitizeWorkoutForFirebase(updatedPlan));
 
-        set({ currentPlan: updatedPlan, generating: false });
+        set({ currentPlan: updatedPlan, generating: false, generationPreview: null });
+        await recordPlanVersion(user.uid, currentPlan, updatedPlan, 'microcycle-generated', 'ai', {
+          summary: currentPlan.currentSuggestion ? 'Regenerated workout suggestions' : undefined,
+          feedback: request.feedback ?? request.customFeedback,
+          llmModel: completion.llmModel
+        });
 
       } catch (error) {
+        if (isAbortError(error)) {
+          console.log('⏹️ Microcycle generation cancelled');
+          set({ generating: false, generationPreview: null });
+          return;
+        }
         console.error('❌ Generate microcycle error:', error);
         set({ 
           error: error instanceof Error ? error.message : 'Failed to generate microcycle',
-          generating: false 
+          generating: false,
+          generationPreview: null
         });
+      } finally {
+        endGenerationRequest(abortController);
       }
     },
 
@@ -918,7 +1089,8 @@ export const useAICoachStore = create<AICoachState>()(
             status: 'planned',
             aiCoachContext: {
               microcycleId: `micro_${Date.now()}`,
-              weekNumber: 1 // TODO: Get actual week number from context
+              weekNumber: Math.max(1, getMacrocycleWeekNumber(currentPlan, suggestion.date || currentSuggestion.weekDateRange.start)),
+              planId: currentPlan.id
             },
             originalAISuggestion: {
               exercises: originalExercises,
@@ -1028,9 +1200,10 @@ export const useAICoachStore = create<AICoachState>()(
           macrocycleGoal: currentPlan.macrocycleGoal,
           mesocycleMilestones: currentPlan.mesocycleMilestones,
           currentDate: new Date().toISOString(),
-          weekNumber: 1, // Always week 1 for suggestions
+          weekNumber: Math.max(1, getMacrocycleWeekNumber(currentPlan, weekDateRange.start)),
           weekDateRange,
           customFeedback: contextualFeedback,
+          feedback,
         };
 
         await get().generateMicrocycle(request);
@@ -1044,6 +1217,10 @@ export const useAICoachStore = create<AICoachState>()(
       }
     },
 
+    cancelGeneration: () => {
+      generationAbortController?.abort();
+    },
+
     completeMicrocycle: async (reflection: string) => {
       const { currentPlan } = get();
       const authStore = useAuthStore.getState();
@@ -1131,7 +1308,7 @@ export const useAICoachStore = create<AICoachState>()(
           macrocycleGoal: currentPlan.macrocycleGoal,
           mesocycleMilestones: currentPlan.mesocycleMilestones,
           currentDate: today.toISOString(),
-          weekNumber: currentMicrocycleData.week + 1,
+          weekNumber: Math.max(1, getMacrocycleWeekNumber(currentPlan, nextWeekRange.start)),
           weekDateRange: nextWeekRange,
           previousMicrocycle: {
             planned: {
@@ -1178,6 +1355,183 @@ export const useAICoachStore = create<AICoachState>()(
       }
     },
 
+    loadVersions: async () => {
+      const { currentPlan } = get();
+      const { user } = useAuthStore.getState();
+      if (!user || !currentPlan) return;
+
+      try {
+        const versionsQuery = query(
+          collection(db, 'users', user.uid, 'aiPlans', currentPlan.id, 'versions'),
+          orderBy('createdAt', 'desc'),
+          limit(MAX_LOADED_VERSIONS)
+        );
+        let snapshot = await getDocs(versionsQuery);
+        if (snapshot.empty && await migrateLegacyPlanVersions(user.uid, currentPlan.id) > 0) {
+          console.log('📚 Moved legacy plan versions under plan', currentPlan.id);
+          snapshot = await getDocs(versionsQuery);
+        }
+        const versions = snapshot.docs.map(versionDoc => ({ ...(versionDoc.data() as PlanVersion), id: versionDoc.id }));
+
+        console.log('📚 Loaded', versions.length, 'plan versions');
+        set({ versions, versionsLoadedFor: currentPlan.id });
+      } catch (error) {
+        console.error('❌ Load plan versions error:', error);
+        set({ error: error instanceof Error ? error.message : 'Failed to load plan history' });
+      }
+    },
+
+    rollbackToVersion: async (versionId: string) => {
+      const { currentPlan, versions } = get();
+      const { user } = useAuthStore.getState();
+      const version = versions.find(entry => entry.id === versionId);
+
+      if (!user || !currentPlan || !version) return;
+
+      try {
+        set({ loading: true, error: null });
+
+        // Goals only; completed weeks, suggestions and accepted workouts stay as they are
+        const goals = getRestorableGoals(version.snapshot);
+        const updatedPlan: AIPlan = {
+          ...currentPlan,
+          ...goals,
+          goalsLastModified: new Date().toISOString(),
+        };
+
+        const planDocRef = doc(db, 'users', user.uid, 'aiPlan', 'plan');
+        await updateDoc(planDocRef, {
+          ...sanitizeWorkoutForFirebase(goals),
+          periodization: goals.periodization ?? deleteField(),
+          goalsLastModified: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        });
+
+        set({ currentPlan: updatedPlan, loading: false });
+        await recordPlanVersion(user.uid, currentPlan, updatedPlan, 'rollback', 'manual', {
+          summary: `Restored "${version.summary}" from ${formatMonthDay(version.createdAt)}`,
+          restoredVersionId: version.id
+        });
+      } catch (error) {
+        console.error('❌ Rollback plan error:', error);
+        set({ 
+          error: error instanceof Error ? error.message : 'Failed to restore plan version',
+          loading: false 
+        });
+      }
+    },
+
+    loadInactivePlans: async () => {
+      const { user } = useAuthStore.getState();
+      if (!user) return;
+
+      try {
+        const snapshot = await getDocs(collection(db, 'users', user.uid, 'aiPlans'));
+        const plans = snapshot.docs.map(planDoc => ({ ...(planDoc.data() as AIPlan), id: planDoc.id }));
+
+        console.log('🗂️ Loaded', plans.length, 'paused/archived plans');
+        set({ inactivePlans: sortInactivePlans(plans), inactivePlansLoaded: true });
+      } catch (error) {
+        console.error('❌ Load inactive plans error:', error);
+        set({ error: error instanceof Error ? error.message : 'Failed to load paused and archived plans' });
+      }
+    },
+
+    setAsideCurrentPlan: async (status: InactivePlanStatus) => {
+      const { currentPlan, inactivePlans } = get();
+      const { user } = useAuthStore.getState();
+
+      if (!user || !currentPlan) return;
+
+      try {
+        set({ loading: true, error: null });
+
+        // Move the plan out of the active slot; workouts, completed weeks and versions stay linked by plan id
+        const setAsidePlan = toInactivePlan(currentPlan, status);
+        const batch = writeBatch(db);
+        batch.set(doc(db, 'users', user.uid, 'aiPlans', currentPlan.id), sanitizeWorkoutForFirebase(setAsidePlan));
+        batch.delete(doc(db, 'users', user.uid, 'aiPlan', 'plan'));
+        await batch.commit();
+
+        set({
+          currentPlan: null,
+          inactivePlans: sortInactivePlans([setAsidePlan, ...inactivePlans.filter(plan => plan.id !== currentPlan.id)]),
+          versions: [],
+          versionsLoadedFor: null,
+          loading: false
+        });
+        console.log(`✅ Plan ${status}:`, currentPlan.id);
+      } catch (error) {
+        console.error('❌ Set aside plan error:', error);
+        set({ 
+          error: error instanceof Error ? error.message : 'Failed to set the plan aside',
+          loading: false 
+        });
+      }
+    },
+
+    activatePlan: async (planId: string) => {
+      const { currentPlan, inactivePlans } = get();
+      const { user } = useAuthStore.getState();
+      const target = inactivePlans.find(plan => plan.id === planId);
+
+      if (!user || !target) return;
+
+      try {
+        set({ loading: true, error: null });
+
+        // The plan that was active gets paused so switching back is one click
+        const activePlan = toActivePlan(target);
+        const pausedPlan = currentPlan && toInactivePlan(currentPlan, 'paused');
+        const batch = writeBatch(db);
+        if (pausedPlan) {
+          batch.set(doc(db, 'users', user.uid, 'aiPlans', pausedPlan.id), sanitizeWorkoutForFirebase(pausedPlan));
+        }
+        batch.set(doc(db, 'users', user.uid, 'aiPlan', 'plan'), sanitizeWorkoutForFirebase(activePlan));
+        batch.delete(doc(db, 'users', user.uid, 'aiPlans', planId));
+        await batch.commit();
+
+        const remaining = inactivePlans.filter(plan => plan.id !== planId);
+        set({
+          currentPlan: activePlan,
+          inactivePlans: sortInactivePlans(pausedPlan ? [pausedPlan, ...remaining] : remaining),
+          versions: [],
+          versionsLoadedFor: null,
+          loading: false
+        });
+        console.log('✅ Activated plan:', planId);
+      } catch (error) {
+        console.error('❌ Activate plan error:', error);
+        set({ 
+          error: error instanceof Error ? error.message : 'Failed to switch plans',
+          loading: false 
+        });
+      }
+    },
+
+    setInactivePlanStatus: async (planId: string, status: InactivePlanStatus) => {
+      const { inactivePlans } = get();
+      const { user } = useAuthStore.getState();
+
+      if (!user || !inactivePlans.some(plan => plan.id === planId)) return;
+
+      const applyStatus = (plans: AIPlan[]) => plans.map(plan => plan.id === planId ? { ...plan, status } : plan);
+      set({ inactivePlans: applyStatus(inactivePlans) });
+
+      try {
+        await updateDoc(doc(db, 'users', user.uid, 'aiPlans', planId), {
+          status,
+          updatedAt: serverTimestamp(),
+        });
+      } catch (error) {
+        console.error('❌ Update plan status error:', error);
+        set({ 
+          inactivePlans,
+          error: error instanceof Error ? error.message : 'Failed to update the plan'
+        });
+      }
+    },
+
     loadPlan: async () => {
       const authStore = useAuthStore.getState();
       const { user } = authStore;
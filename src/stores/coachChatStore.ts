@@ -0,0 +1,274 @@
+/**
+ * Coach Chat Store - Conversations with the AI Coach and one-click application of the changes it proposes
+ * One document per thread in users/{uid}/coachChats; context, prompts and action logic live in lib/coachChat
+ */
+
+import { create } from 'zustand';
+import { collection, deleteDoc, doc, getDocs, limit, orderBy, query, setDoc } from 'firebase/firestore';
+import { fetchAndActivate, getValue } from 'firebase/remote-config';
+import { db, remoteConfig } from '@/lib/firebase';
+import { removeUndefinedValues } from '@/lib/firebaseUtils';
+import { generateValidatedResponse } from '@/lib/aiResponseSchemas';
+import { resolveLLMSettings } from '@/lib/llmProviders';
+import { isAbortError } from '@/lib/openaiProxy';
+import { getTodayISO } from '@/lib/dateUtils';
+import { withBodyMeasurements } from '@/lib/bodyMeasurements';
+import {
+  DEFAULT_COACH_CHAT_PROMPT,
+  applyCoachAction,
+  buildCoachContext,
+  buildCoachMessages,
+  coachReplySchema,
+  createChatId,
+  createCoachActions,
+  createThreadTitle,
+  getCoachActionError
+} from '@/lib/coachChat';
+import type { CoachAction, CoachChatMessage, CoachChatThread } from '@/types/coachChat';
+import { useAuthStore } from './authStore';
+import { useAICoachStore } from './aiCoachStore';
+import { useMeasurementsStore } from './measurementsStore';
+import { useWorkoutsStore } from './workoutsStore';
+
+const MAX_LOADED_THREADS = 30;
+
+interface CoachChatState {
+  threads: CoachChatThread[]; // Most recently updated first
+  activeThreadId: string | null; // null = new conversation
+  loadedFor: string | null; // uid the threads belong to
+  sending: boolean;
+  pendingReply: string | null; // Reply text streamed so far
+  error: string | null;
+
+  // Actions
+  loadThreads: () => Promise<void>;
+  selectThread: (threadId: string | null) => void;
+  deleteThread: (threadId: string) => Promise<void>;
+  sendMessage: (content: string) => Promise<void>;
+  cancelReply: () => void;
+  applyAction: (threadId: string, messageId: string, actionId: string) => Promise<void>;
+  dismissAction: (threadId: string, messageId: string, actionId: string) => Promise<void>;
+  clearError: () => void;
+}
+
+// Only one reply is generated at a time
+let replyController: AbortController | null = null;
+
+function updateAction(
+  thread: CoachChatThread,
+  messageId: string,
+  actionId: string,
+  changes: Partial<CoachAction>
+): CoachChatThread {
+  return {
+    ...thread,
+    updatedAt: new Date().toISOString(),
+    messages: thread.messages.map(message => message.id !== messageId ? message : {
+      ...message,
+      actions: message.actions?.map(action => action.id === actionId ? { ...action, ...changes } as CoachAction : action)
+    })
+  };
+}
+
+async function saveThread(uid: string, thread: CoachChatThread) {
+  await setDoc(doc(db, 'users', uid, 'coachChats', thread.id), removeUndefinedValues(thread));
+}
+
+export const useCoachChatStore = create<CoachChatState>((set, get) => {
+  const replaceThread = (thread: CoachChatThread) => set(state => ({
+    threads: [thread, ...state.threads.filter(entry => entry.id !== thread.id)]
+  }));
+
+  const setActionStatus = async (threadId: string, messageId: string, actionId: string, changes: Partial<CoachAction>) => {
+    const { user } = useAuthStore.getState();
+    const thread = get().threads.find(entry => entry.id === threadId);
+    if (!user || !thread) return;
+
+    const updatedThread = updateAction(thread, messageId, actionId, changes);
+    replaceThread(updatedThread);
+    try {
+      await saveThread(user.uid, updatedThread);
+    } catch (error) {
+      console.error('[CoachChatStore] Save action error:', error);
+      set({ error: error instanceof Error ? error.message : 'Failed to save the conversation' });
+    }
+  };
+
+  return {
+    threads: [],
+    activeThreadId: null,
+    loadedFor: null,
+    sending: false,
+    pendingReply: null,
+    error: null,
+
+    loadThreads: async () => {
+      const { user } = useAuthStore.getState();
+      if (!user) {
+        set({ error: 'User not authenticated' });
+        return;
+      }
+
+      try {
+        const snapshot = await getDocs(query(
+          collection(db, 'users', user.uid, 'coachChats'),
+          orderBy('updatedAt', 'desc'),
+          limit(MAX_LOADED_THREADS)
+        ));
+        const threads = snapshot.docs.map(threadDoc => ({ ...(threadDoc.data() as CoachChatThread), id: threadDoc.id }));
+
+        console.log('[CoachChatStore] Loaded', threads.length, 'threads');
+        set({ threads, loadedFor: user.uid, activeThreadId: threads[0]?.id ?? null });
+      } catch (error) {
+        console.error('[CoachChatStore] Load error:', error);
+        set({ error: error instanceof Error ? error.message : 'Failed to load conversations' });
+      }
+    },
+
+    selectThread: (threadId: string | null) => set({ activeThreadId: threadId, error: null }),
+
+    deleteThread: async (threadId: string) => {
+      const { user } = useAuthStore.getState();
+      if (!user) return;
+
+      const { threads, activeThreadId } = get();
+      try {
+        set({
+          threads: threads.filter(thread => thread.id !== threadId),
+          activeThreadId: activeThreadId === threadId ? null : activeThreadId
+        });
+        await deleteDoc(doc(db, 'users', user.uid, 'coachChats', threadId));
+        console.log('[CoachChatStore] Deleted thread:', threadId);
+      } catch (error) {
+        console.error('[CoachChatStore] Delete error:', error);
+        set({ threads, activeThreadId, error: error instanceof Error ? error.message : 'Failed to delete conversation' });
+      }
+    },
+
+    sendMessage: async (content: string) => {
+      const { user } = useAuthStore.getState();
+      const text = content.trim();
+      if (!user || !text || get().sending) return;
+
+      const now = new Date().toISOString();
+      const existing = get().threads.find(thread => thread.id === get().activeThreadId);
+      const userMessage: CoachChatMessage = { id: createChatId('msg'), role: 'user', content: text, createdAt: now };
+      let thread: CoachChatThread = existing
+        ? { ...existing, messages: [...existing.messages, userMessage], updatedAt: now }
+        : {
+          id: createChatId('chat'),
+          title: createThreadTitle(text),
+          planId: useAICoachStore.getState().currentPlan?.id,
+          messages: [userMessage],
+          createdAt: now,
+          updatedAt: now
+        };
+
+      replyController = new AbortController();
+      const { signal } = replyController;
+      replaceThread(thread);
+      set({ activeThreadId: thread.id, sending: true, pendingReply: '', error: null });
+
+      try {
+        // The question is saved even if the reply fails
+        await saveThread(user.uid, thread);
+
+        await fetchAndActivate(remoteConfig);
+        const systemPrompt = getValue(remoteConfig, 'prompts_ai_coach_chat').asString() || DEFAULT_COACH_CHAT_PROMPT;
+
+        // Fresh grounding every turn: plan, workouts and profile may have changed since the last message
+        const today = getTodayISO();
+        const workouts = useWorkoutsStore.getState().workouts;
+        const measurements = await useMeasurementsStore.getState().ensureLoaded();
+        const context = buildCoachContext({
+          plan: useAICoachStore.getState().currentPlan,
+          workouts,
+          profile: withBodyMeasurements({ ...user.profile }, measurements, today),
+          today
+        });
+
+        const { data, completion } = await generateValidatedResponse(
+          resolveLLMSettings(user.llmSettings),
+          buildCoachMessages(systemPrompt, context, thread.messages),
+          {
+            label: 'Coach chat',
+            schema: coachReplySchema,
+            signal,
+            onPartial: (partial) => {
+              const reply = (partial as { reply?: unknown } | null)?.reply;
+              if (typeof reply === 'string') set({ pendingReply: reply });
+            }
+          }
+        );
+
+        const coachMessage: CoachChatMessage = {
+          id: createChatId('msg'),
+          role: 'coach',
+          content: data.reply,
+          createdAt: new Date().toISOString(),
+          actions: createCoachActions(data, useWorkoutsStore.getState().workouts),
+          llmModel: completion.llmModel
+        };
+        thread = { ...thread, messages: [...thread.messages, coachMessage], updatedAt: coachMessage.createdAt };
+
+        replaceThread(thread);
+        set({ sending: false, pendingReply: null });
+        await saveThread(user.uid, thread);
+        console.log('[CoachChatStore] Reply with', coachMessage.actions?.length ?? 0, 'actions');
+      } catch (error) {
+        if (isAbortError(error)) {
+          console.log('[CoachChatStore] Reply cancelled');
+          set({ sending: false, pendingReply: null });
+          return;
+        }
+        console.error('[CoachChatStore] Send error:', error);
+        set({
+          error: error instanceof Error ? error.message : 'Failed to get a reply from the coach',
+          sending: false,
+          pendingReply: null
+        });
+      } finally {
+        replyController = null;
+      }
+    },
+
+    cancelReply: () => {
+      replyController?.abort();
+    },
+
+    applyAction: async (threadId: string, messageId: string, actionId: string) => {
+      const action = get().threads
+        .find(thread => thread.id === threadId)?.messages
+        .find(message => message.id === messageId)?.actions
+        ?.find(entry => entry.id === actionId);
+      if (!action || action.status !== 'proposed') return;
+
+      // Workouts may have changed since the coach proposed this
+      const workoutsStore = useWorkoutsStore.getState();
+      const workout = workoutsStore.workouts.find(entry => entry.id === action.workoutId);
+      const actionError = getCoachActionError(action, workoutsStore.workouts);
+      if (!workout || actionError) {
+        await setActionStatus(threadId, messageId, actionId, { status: 'failed', error: actionError ?? 'The workout no longer exists' });
+        return;
+      }
+
+      try {
+        await workoutsStore.updateWorkout(workout.id, applyCoachAction(action, workout));
+        await setActionStatus(threadId, messageId, actionId, { status: 'applied', appliedAt: new Date().toISOString() });
+        console.log('[CoachChatStore] Applied action:', action.type, action.workoutId);
+      } catch (error) {
+        console.error('[CoachChatStore] Apply action error:', error);
+        await setActionStatus(threadId, messageId, actionId, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Failed to update the workout'
+        });
+      }
+    },
+
+    dismissAction: async (threadId: string, messageId: string, actionId: string) => {
+      await setActionStatus(threadId, messageId, actionId, { status: 'dismissed' });
+    },
+
+    clearError: () => set({ error: null }),
+  };
+});
@@ -0,0 +1,143 @@
+/**
+ * Measurements Store - Bodyweight, body fat and tape measurement history
+ * One document per entry in users/{uid}/measurements; trends and lookups live in lib/bodyMeasurements
+ */
+
+import { create } from 'zustand';
+import { collection, deleteDoc, doc, getDocs, setDoc } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { removeUndefinedValues } from '@/lib/firebaseUtils';
+import { sortMeasurements } from '@/lib/bodyMeasurements';
+import type { BodyMeasurement, BodyMeasurementInput } from '@/types/measurements';
+import { useAuthStore } from './authStore';
+
+interface MeasurementsState {
+  measurements: BodyMeasurement[]; // Oldest first
+  loading: boolean;
+  loadedFor: string | null; // uid the measurements belong to
+  error: string | null;
+
+  // Actions
+  loadMeasurements: () => Promise<void>;
+  ensureLoaded: () => Promise<BodyMeasurement[]>;
+  addMeasurement: (input: BodyMeasurementInput) => Promise<string | null>; // Returns measurement ID
+  updateMeasurement: (id: string, input: BodyMeasurementInput) => Promise<void>;
+  deleteMeasurement: (id: string) => Promise<void>;
+  clearError: () => void;
+}
+
+export const useMeasurementsStore = create<MeasurementsState>((set, get) => ({
+  measurements: [],
+  loading: false,
+  loadedFor: null,
+  error: null,
+
+  loadMeasurements: async () => {
+    const { user } = useAuthStore.getState();
+    if (!user) {
+      set({ error: 'User not authenticated', loading: false });
+      return;
+    }
+
+    try {
+      set({ loading: true, error: null });
+      const snapshot = await getDocs(collection(db, 'users', user.uid, 'measurements'));
+      const measurements = snapshot.docs.map(measurementDoc => ({
+        ...(measurementDoc.data() as BodyMeasurement),
+        id: measurementDoc.id
+      }));
+
+      console.log('[MeasurementsStore] Loaded', measurements.length, 'measurements');
+      set({ measurements: sortMeasurements(measurements), loading: false, loadedFor: user.uid });
+    } catch (error) {
+      console.error('[MeasurementsStore] Load error:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to load measurements',
+        loading: false
+      });
+    }
+  },
+
+  ensureLoaded: async () => {
+    if (get().loadedFor !== useAuthStore.getState().user?.uid) await get().loadMeasurements();
+    return get().measurements;
+  },
+
+  addMeasurement: async (input: BodyMeasurementInput) => {
+    const { user } = useAuthStore.getState();
+    if (!user) {
+      set({ error: 'User not authenticated' });
+      return null;
+    }
+
+    // Optimistic update, rolled back if the write fails
+    const previous = get().measurements;
+    try {
+      const id = `measurement_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      const now = new Date().toISOString();
+      const measurement: BodyMeasurement = removeUndefinedValues({ ...input, id, createdAt: now, updatedAt: now });
+
+      set({ measurements: sortMeasurements([...previous, measurement]), error: null });
+      await setDoc(doc(db, 'users', user.uid, 'measurements', id), measurement);
+
+      console.log('[MeasurementsStore] Added measurement:', id);
+      return id;
+    } catch (error) {
+      console.error('[MeasurementsStore] Add error:', error);
+      set({ measurements: previous, error: error instanceof Error ? error.message : 'Failed to save measurement' });
+      return null;
+    }
+  },
+
+  updateMeasurement: async (id: string, input: BodyMeasurementInput) => {
+    const { user } = useAuthStore.getState();
+    const existing = get().measurements.find(measurement => measurement.id === id);
+    if (!user || !existing) {
+      set({ error: !user ? 'User not authenticated' : 'Measurement not found' });
+      return;
+    }
+
+    const previous = get().measurements;
+    try {
+      // Replace the whole entry so cleared fields are removed
+      const measurement: BodyMeasurement = removeUndefinedValues({
+        ...input,
+        id,
+        createdAt: existing.createdAt,
+        updatedAt: new Date().toISOString()
+      });
+
+      set({
+        measurements: sortMeasurements(previous.map(entry => entry.id === id ? measurement : entry)),
+        error: null
+      });
+      await setDoc(doc(db, 'users', user.uid, 'measurements', id), measurement);
+
+      console.log('[MeasurementsStore] Updated measurement:', id);
+    } catch (error) {
+      console.error('[MeasurementsStore] Update error:', error);
+      set({ measurements: previous, error: error instanceof Error ? error.message : 'Failed to update measurement' });
+    }
+  },
+
+  deleteMeasurement: async (id: string) => {
+    const { user } = useAuthStore.getState();
+    if (!user) {
+      set({ error: 'User not authenticated' });
+      return;
+    }
+
+    const previous = get().measurements;
+    try {
+      set({ measurements: previous.filter(measurement => measurement.id !== id), error: null });
+      await deleteDoc(doc(db, 'users', user.uid, 'measurements', id));
+
+      console.log('[MeasurementsStore] Deleted measurement:', id);
+    } catch (error) {
+      console.error('[MeasurementsStore] Delete error:', error);
+      set({ measurements: previous, error: error instanceof Error ? error.message : 'Failed to delete measurement' });
+    }
+  },
+
+  clearError: () => set({ error: null })
+}));
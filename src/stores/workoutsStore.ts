@@ -20,7 +20,9 @@ import {
   onSnapshot,
   serverTimestamp,
   Timestamp,
-  writeBatch
+  writeBatch,
+  runTransaction,
+  type DocumentData
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import { useAuthStore } from './authStore';
@@ -28,6 +30,7 @@ import type {
   WorkoutDocument, 
   WorkoutStats, 
   ExerciseProgress,
+  OneRepMaxFormula,
   WorkoutStatus,
   WorkoutUpdate 
 } from '@/types/workout';
@@ -41,6 +44,113 @@ import {
 } from '@/lib/dateUtils';
 import { createMutationTracker, addPendingMutation, isOwnMutation, type MutationState } from '@/lib/mutationTracker';
 import { generateInitialRank } from '@/lib/lexoRank';
+import {
+  enqueueMutation,
+  getQueuedMutations,
+  removeQueuedMutation,
+  updateQueuedMutation,
+  getSyncStatusMap,
+  applyQueuedMutations,
+  isDeviceOnline,
+  isNetworkError,
+  withWriteTimeout,
+  type QueuedWorkoutMutation,
+  type WorkoutSyncStatus
+} from '@/lib/offlineQueue';
+import { mergeWorkouts, type ConflictChoice, type WorkoutConflictRecord } from '@/lib/workoutMerge';
+import {
+  getExerciseSessions,
+  getProgressionKey,
+  proposeNextSession,
+  proposeProgressionTargets
+} from '@/lib/progressiveOverload';
+import type { ProgressionProposal, ProgressionRuleConfig } from '@/types/progression';
+import { getBestOneRepMaxKg, DEFAULT_ONE_REP_MAX_FORMULA } from '@/lib/strengthMetrics';
+import { getSessionDurationMinutes } from '@/lib/workoutSession';
+import { buildTrainingLoadStats, getHeartRateProfile } from '@/lib/trainingLoad';
+
+type QueueableMutation = Omit<QueuedWorkoutMutation, 'seq' | 'queuedAt' | 'status' | 'attempts'>;
+
+/**
+ * Convert a WorkoutUpdate into a Firestore update payload
+ * Undefined values become deleteField() so cleared fields are actually removed
+ */
+function buildFirebaseUpdates(
+  updates: WorkoutUpdate,
+  lastMutation: QueuedWorkoutMutation['lastMutation']
+): DocumentData {
+  const firebaseUpdates: DocumentData = {
+    updatedAt: serverTimestamp(),
+    lastMutation
+  };
+
+  Object.keys(updates).forEach(key => {
+    const value = (updates as Record<string, unknown>)[key];
+    firebaseUpdates[key] = value === undefined ? deleteField() : value;
+  });
+
+  return firebaseUpdates;
+}
+
+/**
+ * Write a single mutation (live or replayed from the offline queue) to Firestore
+ * Updates with a base version run in a transaction: if another device changed the
+ * workout since `base`, the versions are merged per field/exercise/set. True conflicts
+ * keep the server value and are returned so the user can resolve them.
+ */
+async function writeWorkoutMutation(mutation: QueueableMutation): Promise<WorkoutConflictRecord | null> {
+  const workoutRef = doc(db, 'users', mutation.userId, 'workouts', mutation.workoutId);
+
+  if (mutation.kind === 'create' && mutation.workout) {
+    await setDoc(workoutRef, sanitizeWorkoutForFirebase(mutation.workout));
+  } else if (mutation.kind === 'update' && mutation.updates) {
+    const { updates, base, lastMutation } = mutation;
+
+    if (!base) {
+      await updateDoc(workoutRef, buildFirebaseUpdates(updates, lastMutation));
+      return null;
+    }
+
+    return runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(workoutRef);
+      if (!snapshot.exists()) {
+        throw new Error('Workout was deleted on another device');
+      }
+
+      const remote = { ...snapshot.data(), id: snapshot.id } as WorkoutDocument;
+
+      // Nobody else wrote since our base version - plain field update
+      if (remote.lastMutation?.mutationId === base.lastMutation?.mutationId) {
+        transaction.update(workoutRef, buildFirebaseUpdates(updates, lastMutation));
+        return null;
+      }
+
+      const local = { ...base, ...updates } as WorkoutDocument;
+      const { merged, conflicts } = mergeWorkouts(base, local, remote, {}, 'remote');
+      console.log('[WorkoutsStore] Merged concurrent edits:', mutation.workoutId, conflicts.length, 'conflicts');
+
+      transaction.set(workoutRef, sanitizeWorkoutForFirebase({
+        ...merged,
+        updatedAt: new Date().toISOString(),
+        lastMutation
+      }));
+
+      return conflicts.length > 0
+        ? { workoutId: mutation.workoutId, base, local, remote, conflicts, detectedAt: new Date().toISOString() }
+        : null;
+    });
+  } else if (mutation.kind === 'delete') {
+    await deleteDoc(workoutRef);
+  }
+
+  return null;
+}
+
+let offlineListenersCleanup: (() => void) | null = null;
+
+// Replay is retried on a timer when it stalls while the browser still reports a connection (no `online` event follows)
+const QUEUE_RETRY_MS = 30000;
+let queueRetryTimer: ReturnType<typeof setTimeout> | null = null;
 
 interface WorkoutsState {
   workouts: WorkoutDocument[];
@@ -49,6 +159,16 @@ interface WorkoutsState {
   mutationState: MutationState;
   realtimeUnsubscribe: (() => void) | null;
   
+  // Offline queue
+  isOnline: boolean;
+  isFlushingQueue: boolean;
+  queuedMutations: QueuedWorkoutMutation[];
+  syncStatus: Record<string, WorkoutSyncStatus>; // workoutId -> queued/failed
+  
+  // Conflict resolution
+  serverWorkouts: Record<string, WorkoutDocument>; // Last server-confirmed version per workout
+  conflicts: Record<string, WorkoutConflictRecord>; // workoutId -> unresolved conflict
+  
   // Actions
   loadWorkouts: () => Promise<void>;
   addWorkout: (workout: Partial<WorkoutDocument>) => Promise<string>; // Returns workout ID
@@ -57,10 +177,27 @@ interface WorkoutsState {
   markAsComplete: (id: string, completedAt?: string) => Promise<void>;
   markAsIncomplete: (id: string) => Promise<void>;
   
+  // Live session
+  startWorkout: (id: string) => Promise<void>;
+  discardSession: (id: string) => Promise<void>;
+  getActiveSession: () => WorkoutDocument | null;
+  
   // Realtime sync
   startRealtimeSync: () => void;
   stopRealtimeSync: () => void;
   
+  // Offline queue
+  persistMutation: (mutation: QueueableMutation) => Promise<void>;
+  refreshOfflineQueue: () => Promise<void>;
+  flushOfflineQueue: () => Promise<void>;
+  discardQueuedMutations: (workoutId: string) => Promise<void>;
+  startOfflineSync: () => void;
+  stopOfflineSync: () => void;
+  
+  // Conflict resolution
+  resolveConflict: (workoutId: string, choices: Record<string, ConflictChoice>) => Promise<void>;
+  dismissConflict: (workoutId: string) => void;
+  
   // Computed/Filtered getters
   getPlannedWorkouts: () => WorkoutDocument[];
   getCompletedWorkouts: () => WorkoutDocument[];
@@ -71,7 +208,12 @@ interface WorkoutsState {
   
   // Stats
   getWorkoutStats: () => WorkoutStats;
-  getExerciseProgress: (exerciseName: string) => ExerciseProgress | null;
+  getExerciseProgress: (exerciseName: string, formula?: OneRepMaxFormula) => ExerciseProgress | null;
+  
+  // Progressive overload
+  getProgressionProposal: (exerciseName: string, options?: { excludeWorkoutId?: string }) => ProgressionProposal | null;
+  getProgressionTargets: () => ProgressionProposal[];
+  setProgressionRule: (exerciseName: string, config: ProgressionRuleConfig | null) => Promise<void>;
   
   clearError: () => void;
 }
@@ -83,6 +225,12 @@ export const useWorkoutsStore = create<WorkoutsState>()(
     error: null,
     mutationState: createMutationTracker(),
     realtimeUnsubscribe: null,
+    isOnline: isDeviceOnline(),
+    isFlushingQueue: false,
+    queuedMutations: [],
+    syncStatus: {},
+    serverWorkouts: {},
+    conflicts: {},
 
     loadWorkouts: async () => {
       const authStore = useAuthStore.getState();
@@ -105,12 +253,25 @@ export const useWorkoutsStore = create<WorkoutsState>()(
           workouts.push({ ...data, id: doc.id });
         });
         
-        console.log('[WorkoutsStore] Loaded', workouts.length, 'workouts');
-        set({ workouts, loading: false });
+        // Re-apply changes made offline that haven't reached Firestore yet
+        await get().refreshOfflineQueue();
+        const { queuedMutations } = get();
+        
+        console.log('[WorkoutsStore] Loaded', workouts.length, 'workouts,', queuedMutations.length, 'queued mutations');
+        set({ 
+          workouts: applyQueuedMutations(workouts, queuedMutations), 
+          serverWorkouts: Object.fromEntries(workouts.map(w => [w.id, w])),
+          loading: false 
+        });
       } catch (error) {
         console.error('[WorkoutsStore] Load error:', error);
+        
+        // Reloaded without a connection: the memory cache is empty, but workouts logged offline are still queued
+        await get().refreshOfflineQueue();
+        const { queuedMutations, serverWorkouts } = get();
         set({ 
-          error: error instanceof Error ? error.message : 'Failed to load workouts',
+          workouts: applyQueuedMutations(Object.values(serverWorkouts), queuedMutations),
+          error: isNetworkError(error) ? null : error instanceof Error ? error.message : 'Failed to load workouts',
           loading: false 
         });
       }
@@ -186,9 +347,14 @@ export const useWorkoutsStore = create<WorkoutsState>()(
         // 1. IMMEDIATE: Add to local state for instant UI feedback
         set({ workouts: [...workouts, workout] });
 
-        // 2. ASYNC: Save to Firebase
-        const workoutRef = doc(db, 'users', user.uid, 'workouts', workoutId);
-        await setDoc(workoutRef, sanitizeWorkoutForFirebase(workout));
+        // 2. ASYNC: Save to Firebase (or offline queue)
+        await get().persistMutation({
+          userId: user.uid,
+          workoutId,
+          kind: 'create',
+          workout,
+          lastMutation: workout.lastMutation!
+        });
         
         console.log('[WorkoutsStore] Added workout:', workoutId);
         return workoutId;
@@ -261,42 +427,22 @@ export const useWorkoutsStore = create<WorkoutsState>()(
           workouts: workouts.map(w => w.id === id ? updatedWorkout : w)
         });
 
-        // 2. ASYNC: Persist to Firebase
-        const firebaseUpdates: any = {
-          updatedAt: serverTimestamp(),
-          lastMutation: {
-            clientId: mutationState.clientId,
-            mutationId: mutation.id,
-            timestamp: mutation.timestamp
-          }
-        };
-        
-        // Add all updates, handling undefined values with deleteField()
-        Object.keys(updates).forEach(key => {
-          const value = (updates as any)[key];
-          if (value === undefined) {
-            // Use deleteField() to actually remove the field from Firestore
-            firebaseUpdates[key] = deleteField();
-          } else {
-            firebaseUpdates[key] = value;
-          }
-        });
+        // 2. ASYNC: Persist to Firebase (or offline queue)
+        const persistedUpdates: WorkoutUpdate = { ...updates };
         
         // Handle dayOfWeek for Firebase (when date changes)
         if (isDayOfWeekBeingUpdated || isDateBeingUpdated) {
-          if (dayOfWeek === undefined) {
-            firebaseUpdates.dayOfWeek = deleteField();
-          } else {
-            firebaseUpdates.dayOfWeek = dayOfWeek;
-          }
+          persistedUpdates.dayOfWeek = dayOfWeek;
         }
         
-        console.log('[WorkoutsStore] Firebase updates:', Object.keys(firebaseUpdates).map(k => 
-          `${k}: ${firebaseUpdates[k] === deleteField() ? 'DELETE' : firebaseUpdates[k]}`
-        ).join(', '));
-        
-        const workoutRef = doc(db, 'users', user.uid, 'workouts', id);
-        await updateDoc(workoutRef, firebaseUpdates);
+        await get().persistMutation({
+          userId: user.uid,
+          workoutId: id,
+          kind: 'update',
+          updates: persistedUpdates,
+          base: existingWorkout,
+          lastMutation: updatedWorkout.lastMutation!
+        });
         
         console.log('[WorkoutsStore] Updated workout:', id);
       } catch (error) {
@@ -320,9 +466,21 @@ export const useWorkoutsStore = create<WorkoutsState>()(
           workouts: get().workouts.filter(w => w.id !== id)
         });
 
-        // 2. ASYNC: Delete from Firebase
-        const workoutRef = doc(db, 'users', user.uid, 'workouts', id);
-        await deleteDoc(workoutRef);
+        // 2. ASYNC: Delete from Firebase (or offline queue)
+        const mutation = addPendingMutation(get().mutationState, {
+          type: 'workout_delete',
+          data: { workoutId: id }
+        });
+        await get().persistMutation({
+          userId: user.uid,
+          workoutId: id,
+          kind: 'delete',
+          lastMutation: {
+            clientId: get().mutationState.clientId,
+            mutationId: mutation.id,
+            timestamp: mutation.timestamp
+          }
+        });
         
         console.log('[WorkoutsStore] Deleted workout:', id);
       } catch (error) {
@@ -352,10 +510,15 @@ export const useWorkoutsStore = create<WorkoutsState>()(
         
         // IMPORTANT: Preserve the original date, don't set it to today
         // completedAt is when it was marked complete, date is when it was scheduled
+        const finishedAt = completedAt || new Date().toISOString();
         await updateWorkout(id, {
           status: 'completed',
-          completedAt: completedAt || new Date().toISOString(),
-          exercises: completedExercises
+          completedAt: finishedAt,
+          exercises: completedExercises,
+          // Finishing a live session records how long it took
+          ...(workout.status === 'in-progress' && workout.startedAt && {
+            actualDuration: getSessionDurationMinutes(workout.startedAt, finishedAt)
+          })
           // DO NOT update date field - it should stay as originally set
         });
         
@@ -378,16 +541,19 @@ export const useWorkoutsStore = create<WorkoutsState>()(
         // Reset all exercises and sets to incomplete
         const resetExercises = workout.exercises.map(exercise => ({
           ...exercise,
-          sets: exercise.sets.map(set => ({
-            ...set,
-            completed: false
-          }))
+          sets: exercise.sets.map(set => {
+            const resetSet = { ...set, completed: false };
+            delete resetSet.completedAt;
+            return resetSet;
+          })
         }));
         
         await updateWorkout(id, {
           status: 'planned',
           completedAt: undefined,
-          exercises: resetExercises
+          exercises: resetExercises,
+          // Session timing no longer applies (a typed-in duration is kept)
+          ...(workout.startedAt && { startedAt: undefined, actualDuration: undefined })
         });
         
         console.log('[WorkoutsStore] Marked workout as incomplete:', id);
@@ -397,6 +563,59 @@ export const useWorkoutsStore = create<WorkoutsState>()(
       }
     },
 
+    startWorkout: async (id: string) => {
+      const { workouts, updateWorkout } = get();
+      const workout = workouts.find(w => w.id === id);
+      
+      if (!workout) {
+        throw new Error('Workout not found');
+      }
+      if (workout.status !== 'planned') return;
+      
+      try {
+        await updateWorkout(id, {
+          status: 'in-progress',
+          startedAt: new Date().toISOString(),
+          completedAt: undefined
+        });
+        
+        console.log('[WorkoutsStore] Started workout session:', id);
+      } catch (error) {
+        console.error('[WorkoutsStore] Start workout error:', error);
+        throw error;
+      }
+    },
+
+    discardSession: async (id: string) => {
+      const { workouts, updateWorkout } = get();
+      const workout = workouts.find(w => w.id === id);
+      
+      if (!workout) {
+        throw new Error('Workout not found');
+      }
+      if (workout.status !== 'in-progress') return;
+      
+      try {
+        // Logged sets are kept; only the session itself is dropped
+        await updateWorkout(id, {
+          status: 'planned',
+          startedAt: undefined
+        });
+        
+        console.log('[WorkoutsStore] Discarded workout session:', id);
+      } catch (error) {
+        console.error('[WorkoutsStore] Discard session error:', error);
+        throw error;
+      }
+    },
+
+    getActiveSession: () => {
+      const sessions = get().workouts.filter(w => w.status === 'in-progress' && w.startedAt);
+      if (sessions.length === 0) return null;
+      // Most recently started wins if more than one was left running
+      return sessions.reduce((latest, w) => w.startedAt! > latest.startedAt! ? w : latest);
+    },
+
     startRealtimeSync: () => {
       const { realtimeUnsubscribe } = get();
       const authStore = useAuthStore.getState();
@@ -407,18 +626,37 @@ export const useWorkoutsStore = create<WorkoutsState>()(
       const workoutsRef = collection(db, 'users', user.uid, 'workouts');
       
       const unsubscribe = onSnapshot(workoutsRef, (snapshot) => {
-        const { mutationState } = get();
-        const workouts: WorkoutDocument[] = [];
+        const { mutationState, serverWorkouts, workouts: localWorkouts } = get();
+        const serverVersions: WorkoutDocument[] = [];
         
         snapshot.forEach((doc) => {
           const data = doc.data() as WorkoutDocument;
-          workouts.push({ ...data, id: doc.id });
+          serverVersions.push({ ...data, id: doc.id });
+        });
+        
+        // Keep unconfirmed local edits visible when another device's change arrives first.
+        // The authoritative merge happens in the write transaction; this only avoids flicker.
+        const workouts = serverVersions.map(remote => {
+          const local = localWorkouts.find(w => w.id === remote.id);
+          const base = serverWorkouts[remote.id];
+          const hasUnconfirmedLocalEdit = local && base &&
+            local.lastMutation?.clientId === mutationState.clientId &&
+            local.lastMutation.mutationId !== base.lastMutation?.mutationId &&
+            local.lastMutation.mutationId !== remote.lastMutation?.mutationId;
+          
+          if (!hasUnconfirmedLocalEdit || isOwnMutation(mutationState, remote.lastMutation || {})) {
+            return remote;
+          }
+          
+          return mergeWorkouts(base, local, remote).merged;
         });
         
-        // Always update, but the mutation tracking prevents duplicate processing
-        // The UI will re-render with the server-confirmed data
+        // Queued offline mutations win over server data until they are replayed
         console.log('[WorkoutsStore] Real-time update received:', workouts.length, 'workouts');
-        set({ workouts });
+        set({ 
+          workouts: applyQueuedMutations(workouts, get().queuedMutations),
+          serverWorkouts: Object.fromEntries(serverVersions.map(w => [w.id, w]))
+        });
       }, (error) => {
         console.error('[WorkoutsStore] Realtime sync error:', error);
         set({ error: 'Failed to sync with server' });
@@ -437,6 +675,212 @@ export const useWorkoutsStore = create<WorkoutsState>()(
       }
     },
 
+    persistMutation: async (mutation: QueueableMutation) => {
+      // Keep strict ordering: once anything is queued, new mutations queue behind it
+      const shouldQueue = !isDeviceOnline() || get().queuedMutations.length > 0;
+      
+      // Write-ahead: the mutation is in IndexedDB before Firestore sees it, so closing the tab
+      // while a write waits for a connection that never comes (navigator.onLine can't tell) loses nothing
+      const entry = await enqueueMutation(mutation);
+      
+      if (!shouldQueue) {
+        try {
+          const conflict = await withWriteTimeout(writeWorkoutMutation(mutation));
+          await removeQueuedMutation(entry.seq!);
+          if (conflict) {
+            set({ conflicts: { ...get().conflicts, [conflict.workoutId]: conflict } });
+          }
+          return;
+        } catch (error) {
+          if (!isNetworkError(error)) {
+            await removeQueuedMutation(entry.seq!);
+            throw error;
+          }
+          console.log('[WorkoutsStore] Network error, queueing mutation:', mutation.kind, mutation.workoutId);
+        }
+      }
+      
+      await get().refreshOfflineQueue();
+      console.log('[WorkoutsStore] Queued offline mutation:', mutation.kind, mutation.workoutId);
+      
+      // Online but queue non-empty: replay right away so this mutation isn't stuck
+      if (isDeviceOnline()) {
+        get().flushOfflineQueue();
+      }
+    },
+
+    refreshOfflineQueue: async () => {
+      const { user } = useAuthStore.getState();
+      if (!user) return;
+      
+      try {
+        const queuedMutations = await getQueuedMutations(user.uid);
+        set({ queuedMutations, syncStatus: getSyncStatusMap(queuedMutations) });
+      } catch (error) {
+        console.error('[WorkoutsStore] Failed to read offline queue:', error);
+      }
+    },
+
+    flushOfflineQueue: async () => {
+      const { user } = useAuthStore.getState();
+      if (!user || get().isFlushingQueue || !isDeviceOnline()) return;
+      
+      set({ isFlushingQueue: true });
+      let lastReplayedSeq = 0;
+      let stalled = false;
+      if (queueRetryTimer) {
+        clearTimeout(queueRetryTimer);
+        queueRetryTimer = null;
+      }
+      
+      try {
+        const queue = await getQueuedMutations(user.uid);
+        if (queue.length === 0) return;
+        lastReplayedSeq = queue[queue.length - 1].seq ?? 0;
+        
+        console.log('[WorkoutsStore] Replaying', queue.length, 'queued mutations');
+        
+        // A failed mutation blocks later mutations for the same workout only
+        const blockedWorkoutIds = new Set<string>();
+        
+        for (const entry of queue) {
+          if (blockedWorkoutIds.has(entry.workoutId)) continue;
+          
+          try {
+            const conflict = await withWriteTimeout(writeWorkoutMutation(entry));
+            if (conflict) {
+              set({ conflicts: { ...get().conflicts, [conflict.workoutId]: conflict } });
+            }
+            await removeQueuedMutation(entry.seq!);
+          } catch (error) {
+            if (isNetworkError(error)) {
+              console.log('[WorkoutsStore] Connection lost during replay, keeping remaining queue');
+              stalled = true;
+              break;
+            }
+            
+            console.error('[WorkoutsStore] Queued mutation failed:', entry.kind, entry.workoutId, error);
+            blockedWorkoutIds.add(entry.workoutId);
+            await updateQueuedMutation({
+              ...entry,
+              status: 'failed',
+              attempts: entry.attempts + 1,
+              lastError: error instanceof Error ? error.message : 'Failed to sync workout'
+            });
+          }
+        }
+      } catch (error) {
+        console.error('[WorkoutsStore] Offline queue replay error:', error);
+        set({ error: error instanceof Error ? error.message : 'Failed to sync offline changes' });
+      } finally {
+        set({ isFlushingQueue: false });
+        await get().refreshOfflineQueue();
+      }
+      
+      if (stalled) {
+        queueRetryTimer = setTimeout(() => {
+          queueRetryTimer = null;
+          get().flushOfflineQueue();
+        }, QUEUE_RETRY_MS);
+        return;
+      }
+      
+      // Mutations queued while replaying were skipped by the guard above
+      const { queuedMutations } = get();
+      if (lastReplayedSeq > 0 && isDeviceOnline() && queuedMutations.some(m => (m.seq ?? 0) > lastReplayedSeq)) {
+        get().flushOfflineQueue();
+      }
+    },
+
+    discardQueuedMutations: async (workoutId: string) => {
+      const { queuedMutations, loadWorkouts } = get();
+      
+      try {
+        for (const entry of queuedMutations.filter(m => m.workoutId === workoutId)) {
+          await removeQueuedMutation(entry.seq!);
+        }
+        console.log('[WorkoutsStore] Discarded queued mutations for workout:', workoutId);
+        
+        // Reload so the card reflects the server version again
+        await loadWorkouts();
+      } catch (error) {
+        console.error('[WorkoutsStore] Discard queued mutations error:', error);
+        set({ error: error instanceof Error ? error.message : 'Failed to discard offline changes' });
+      }
+    },
+
+    resolveConflict: async (workoutId: string, choices: Record<string, ConflictChoice>) => {
+      const { conflicts, workouts, updateWorkout } = get();
+      const record = conflicts[workoutId];
+      const current = workouts.find(w => w.id === workoutId);
+      if (!record || !current) return;
+      
+      try {
+        // Version the user picked, relative to the server version at conflict time
+        const { merged: resolved } = mergeWorkouts(record.base, record.local, record.remote, choices);
+        
+        // Rebase onto the current version in case more edits arrived meanwhile
+        const { merged } = mergeWorkouts(record.remote, resolved, current);
+        
+        const updates = Object.fromEntries(
+          Object.entries(merged).filter(([key]) => !['id', 'createdAt', 'updatedAt', 'lastMutation'].includes(key))
+        ) as WorkoutUpdate;
+        await updateWorkout(workoutId, updates);
+        
+        const remaining = { ...get().conflicts };
+        delete remaining[workoutId];
+        set({ conflicts: remaining });
+        console.log('[WorkoutsStore] Resolved conflict:', workoutId);
+      } catch (error) {
+        console.error('[WorkoutsStore] Resolve conflict error:', error);
+        set({ error: error instanceof Error ? error.message : 'Failed to resolve conflict' });
+      }
+    },
+
+    dismissConflict: (workoutId: string) => {
+      // Keep the server version (already written during the merge)
+      const remaining = { ...get().conflicts };
+      delete remaining[workoutId];
+      set({ conflicts: remaining });
+    },
+
+    startOfflineSync: () => {
+      if (offlineListenersCleanup || typeof window === 'undefined') return;
+      
+      const handleOnline = () => {
+        console.log('[WorkoutsStore] Back online, replaying offline queue');
+        set({ isOnline: true });
+        get().flushOfflineQueue();
+      };
+      const handleOffline = () => {
+        console.log('[WorkoutsStore] Went offline, mutations will be queued');
+        set({ isOnline: false });
+      };
+      
+      window.addEventListener('online', handleOnline);
+      window.addEventListener('offline', handleOffline);
+      offlineListenersCleanup = () => {
+        window.removeEventListener('online', handleOnline);
+        window.removeEventListener('offline', handleOffline);
+      };
+      
+      set({ isOnline: isDeviceOnline() });
+      get().refreshOfflineQueue().then(() => get().flushOfflineQueue());
+      console.log('[WorkoutsStore] Offline sync started');
+    },
+
+    stopOfflineSync: () => {
+      if (queueRetryTimer) {
+        clearTimeout(queueRetryTimer);
+        queueRetryTimer = null;
+      }
+      if (offlineListenersCleanup) {
+        offlineListenersCleanup();
+        offlineListenersCleanup = null;
+        console.log('[WorkoutsStore] Offline sync stopped');
+      }
+    },
+
     getPlannedWorkouts: () => {
       const { workouts } = get();
       return workouts.filter(w => w.status === 'planned' || w.status === 'in-progress');
@@ -599,13 +1043,19 @@ export const useWorkoutsStore = create<WorkoutsState>()(
         muscleGroupBreakdown,
         weeklyBreakdown,
         currentStreak: 0, // TODO: Calculate current streak
-        longestStreak: 0  // TODO: Calculate longest streak
+        longestStreak: 0, // TODO: Calculate longest streak
+        trainingLoad: buildTrainingLoadStats(
+          completedWorkouts,
+          getHeartRateProfile(useAuthStore.getState().user?.profile),
+          getTodayISO()
+        )
       };
     },
 
-    getExerciseProgress: (exerciseName: string): ExerciseProgress | null => {
+    getExerciseProgress: (exerciseName: string, formula?: OneRepMaxFormula): ExerciseProgress | null => {
       const { workouts } = get();
       const completedWorkouts = workouts.filter(w => w.status === 'completed');
+      const oneRepMaxFormula = formula || useAuthStore.getState().user?.oneRepMaxFormula || DEFAULT_ONE_REP_MAX_FORMULA;
       
       const dataPoints: ExerciseProgress['dataPoints'] = [];
       let category = '';
@@ -636,6 +1086,7 @@ export const useWorkoutsStore = create<WorkoutsState>()(
               volume: totalVolume,
               maxWeight: maxWeight > 0 ? maxWeight : undefined,
               totalReps,
+              estimatedOneRepMax: getBestOneRepMaxKg(exercise.sets, oneRepMaxFormula),
               duration: exercise.sets[0]?.duration,
               distance: undefined // TODO: Handle distance-based exercises
             });
@@ -660,6 +1111,14 @@ export const useWorkoutsStore = create<WorkoutsState>()(
           };
         }
         
+        if (point.estimatedOneRepMax && (!personalRecords.estimatedOneRepMax || point.estimatedOneRepMax > personalRecords.estimatedOneRepMax.value)) {
+          personalRecords.estimatedOneRepMax = {
+            value: point.estimatedOneRepMax,
+            unit: 'kg',
+            date: point.date
+          };
+        }
+        
         if (point.totalReps && (!personalRecords.maxReps || point.totalReps > personalRecords.maxReps.value)) {
           personalRecords.maxReps = {
             value: point.totalReps,
@@ -687,6 +1146,33 @@ export const useWorkoutsStore = create<WorkoutsState>()(
       };
     },
 
+    getProgressionProposal: (exerciseName: string, options = {}): ProgressionProposal | null => {
+      const { workouts } = get();
+      const rules = useAuthStore.getState().user?.progressionRules || {};
+      const sessions = getExerciseSessions(workouts, exerciseName, { excludeWorkoutId: options.excludeWorkoutId });
+      return proposeNextSession(exerciseName, sessions, rules[getProgressionKey(exerciseName)]);
+    },
+
+    getProgressionTargets: (): ProgressionProposal[] => {
+      const { workouts } = get();
+      return proposeProgressionTargets(workouts, useAuthStore.getState().user?.progressionRules);
+    },
+
+    setProgressionRule: async (exerciseName: string, config: ProgressionRuleConfig | null) => {
+      const { user, updateProfile } = useAuthStore.getState();
+      if (!user) throw new Error('User not authenticated');
+
+      const rules = { ...(user.progressionRules || {}) };
+      const key = getProgressionKey(exerciseName);
+      if (config) {
+        rules[key] = config;
+      } else {
+        delete rules[key];
+      }
+
+      await updateProfile({ progressionRules: rules });
+    },
+
     clearError: () => set({ error: null }),
   }))
 );
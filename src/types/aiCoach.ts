@@ -3,12 +3,19 @@
  * Separate from workout tracking, integrates with WorkoutsStore
  */
 
-import type { DateRange } from './fitness';
+import type { DateRange, Exercise, ExerciseSet } from './fitness';
 
 /**
  * AI Plan status
+ * - paused: set aside for another plan, resumable
+ * - archived: finished or abandoned, kept for review (can still be resumed)
  */
-export type AIPlanStatus = 'goals-draft' | 'goals-approved' | 'active' | 'paused' | 'suggestion-pending';
+export type AIPlanStatus = 'goals-draft' | 'goals-approved' | 'active' | 'paused' | 'archived' | 'suggestion-pending';
+
+/**
+ * Statuses of plans stored in users/{uid}/aiPlans (the active plan lives at users/{uid}/aiPlan/plan)
+ */
+export type InactivePlanStatus = Extract<AIPlanStatus, 'paused' | 'archived'>;
 
 /**
  * Macrocycle goal - 6-month overarching fitness goal
@@ -21,6 +28,7 @@ export interface MacrocycleGoal {
   startDate: string; // ISO date
   endDate: string; // ISO date
   successIndicators: string[];
+  checkedIndicators?: string[]; // Success indicators the user marked as achieved
   promisedOutcome: string;
 }
 
@@ -34,6 +42,59 @@ export interface MesocycleMilestone {
   focus: string;
   value: string; // Description/summary
   successIndicators: string[];
+  checkedIndicators?: string[]; // Success indicators the user marked as achieved
+  deloadWeeks?: number[]; // Planned deload weeks within the phase (1-based); overrides the plan's deload strategy
+}
+
+/**
+ * How intensity and volume change across weeks (see src/lib/periodization.ts)
+ * - linear: heavier and fewer reps each week of a phase
+ * - undulating: heavy, moderate and light sessions within every week
+ * - block: phases rotate accumulation → transmutation → realization
+ */
+export type IntensityScheme = 'linear' | 'undulating' | 'block';
+
+/**
+ * When deload weeks fall when a phase has no planned deloadWeeks
+ * - phase-end: last week of every phase of 3+ weeks
+ * - interval: every Nth week of a phase
+ * - planned-only: only weeks listed in a milestone's deloadWeeks
+ */
+export type DeloadStrategy = 'phase-end' | 'interval' | 'planned-only';
+
+export interface PeriodizationSettings {
+  scheme: IntensityScheme;
+  deload: DeloadStrategy;
+  deloadIntervalWeeks?: number; // 'interval' only (default 4)
+}
+
+/**
+ * Volume and intensity targets for a week (or one session type of an undulating week)
+ */
+export interface PeriodizationTargets {
+  label: string; // e.g. "Build", "Accumulation", "Heavy", "Deload"
+  volume: number; // Working sets relative to the user's normal volume (1 = normal)
+  intensityPercent: [number, number]; // % of 1RM
+  repRange: [number, number];
+  rpe: number;
+  sessions?: PeriodizationTargets[]; // Undulating only: targets per session type
+}
+
+/**
+ * A calendar week resolved against the plan: "week N → milestone M, week k of phase"
+ */
+export interface PeriodizationWeek {
+  macrocycleWeek: number; // 1-based
+  totalWeeks: number;
+  phaseIndex: number; // Index into mesocycleMilestones
+  milestoneId: string;
+  milestoneName: string;
+  focus: string;
+  weekInPhase: number; // 1-based
+  phaseWeeks: number;
+  isDeload: boolean;
+  scheme: IntensityScheme;
+  targets: PeriodizationTargets;
 }
 
 /**
@@ -57,7 +118,7 @@ export interface MicrocycleReference {
 export interface GenerationMetadata {
   generatedAt: string; // ISO timestamp
   regenerationCount: number;
-  llmModel: string;
+  llmModel: string; // "<provider>/<model>", e.g. "openai/gpt-4o" (older plans: bare model name)
 }
 
 /**
@@ -89,14 +150,59 @@ export interface AIPlan {
   // Status and metadata
   status: AIPlanStatus;
   generationMetadata: GenerationMetadata;
-  userFeedback: string[]; // History of user feedback for regenerations
+  userFeedback: string[]; // History of user feedback for regenerations (see PlanVersion for full history)
   goalsLastModified?: string; // ISO timestamp of last manual goal edit
+  resumeStatus?: AIPlanStatus; // Paused/archived plans: status to return to when resumed
+  setAsideAt?: string; // Paused/archived plans: ISO timestamp it stopped being the active plan
+  periodization?: PeriodizationSettings; // Defaults to linear with a deload at the end of each phase
   
   // Timestamps
   createdAt: string; // ISO timestamp
   updatedAt: string; // ISO timestamp
 }
 
+/**
+ * Who made a plan change
+ */
+export type PlanVersionAuthor = 'ai' | 'manual';
+
+export type PlanVersionChange =
+  | 'goals-generated'
+  | 'goals-regenerated'
+  | 'goals-edited'
+  | 'microcycle-generated'
+  | 'rollback';
+
+/**
+ * The parts of a plan a version captures; goals are restorable, the suggestion is kept for reference
+ */
+export interface PlanSnapshot {
+  planId: string;
+  macrocycleGoal: MacrocycleGoal;
+  mesocycleMilestones: MesocycleMilestone[];
+  periodization?: PeriodizationSettings;
+  suggestion?: {
+    weekDateRange: DateRange;
+    assessment: string;
+    workoutNames: string[];
+  };
+}
+
+/**
+ * Plan version - Snapshot taken after every goals/microcycle change (users/{uid}/aiPlans/{planId}/versions)
+ */
+export interface PlanVersion {
+  id: string;
+  createdAt: string; // ISO timestamp
+  author: PlanVersionAuthor;
+  change: PlanVersionChange;
+  summary: string; // e.g. "Edited goals", "Restored version from Oct 3"
+  feedback?: string; // Feedback the AI was given
+  llmModel?: string; // AI changes only
+  restoredVersionId?: string; // Rollbacks only
+  snapshot: PlanSnapshot;
+}
+
 /**
  * Goals generation request (Phase 1)
  */
@@ -105,6 +211,7 @@ export interface GoalsGenerationRequest {
   fitnessGoalInput: string; // Answer to fitness goal question from profile
   customInput: string; // User's detailed description
   currentDate: string; // ISO date
+  feedback?: string; // Raw regeneration feedback, recorded in the plan version history
 }
 
 /**
@@ -141,7 +248,9 @@ export interface MicrocycleGenerationRequest {
     };
   };
   workoutHistory?: any[]; // Historical workout data
+  periodization?: PeriodizationWeek | null; // Resolved from the plan and weekDateRange when omitted
   customFeedback?: string; // User feedback for regeneration
+  feedback?: string; // Raw feedback for the version history when customFeedback carries extra context
 }
 
 /**
@@ -153,7 +262,7 @@ export interface MicrocycleGenerationResponse {
     week: number;
     focus: string;
     value: string;
-    workouts: any[]; // Workout data to create WorkoutDocument objects
+    workouts: AIGeneratedWorkout[]; // Workout data to create WorkoutDocument objects
   };
   explanation: string;
   generated_at: string;
@@ -169,7 +278,7 @@ export interface WorkoutSuggestion {
   type: string;
   focus: string;
   value: string;
-  exercises: any[]; // Exercise array
+  exercises: Exercise[]; // Normalized exercises (IDs + volumeRowIds assigned by the app)
   estimatedDuration: number;
   checkIns?: {
     greenFlags: string[];
@@ -185,6 +294,95 @@ export interface MicrocycleSuggestion {
   suggestedWorkouts: WorkoutSuggestion[]; // Can be empty if plan is good
   generated_at: string;
   weekDateRange: DateRange;
+  llmModel?: string; // "<provider>/<model>" that produced the suggestion
+}
+
+/**
+ * Raw AI payloads - what the model is asked to return, validated at runtime
+ * (see src/lib/aiResponseSchemas.ts). IDs and dates are assigned by the app afterwards.
+ */
+export interface AIGeneratedSet {
+  reps: number;
+  weight?: number;
+  duration?: number; // seconds
+  restTime?: number; // seconds
+  notes?: string;
+  volumeType?: ExerciseSet['volumeType'];
+}
+
+export interface AIGeneratedExercise {
+  id?: string;
+  name: string;
+  category?: string;
+  muscleGroups?: string[];
+  equipment?: string[];
+  instructions?: string;
+  sets: AIGeneratedSet[];
+}
+
+export interface AIGeneratedWorkout {
+  name?: string;
+  dayOfWeek?: number; // 0-6 (Sunday-Saturday); 7 is accepted as Sunday
+  type?: string;
+  focus?: string;
+  value?: string;
+  exercises: AIGeneratedExercise[];
+  estimatedDuration?: number; // minutes
+  checkIns?: {
+    greenFlags: string[];
+    redFlags: string[];
+  };
+}
+
+export interface AIGoalsPayload {
+  macrocycleGoal: {
+    name: string;
+    value: string;
+    durationWeeks?: number;
+    successIndicators?: string[];
+    promisedOutcome?: string;
+  };
+  mesocycleMilestones: Array<{
+    name: string;
+    durationWeeks: number;
+    focus: string;
+    value: string;
+    successIndicators?: string[];
+  }>;
+  explanation?: string;
+}
+
+export interface AIMicrocyclePayload {
+  assessment: string;
+  suggestedWorkouts: AIGeneratedWorkout[];
+}
+
+/**
+ * Incremental view of a response that is still streaming
+ * Built from partially parsed JSON, so every field may still be missing or truncated
+ */
+export interface AIGoalsPreview {
+  macrocycleGoal: Partial<Pick<MacrocycleGoal, 'name' | 'value' | 'durationWeeks'>>;
+  mesocycleMilestones: Array<Partial<Pick<MesocycleMilestone, 'name' | 'focus' | 'value' | 'durationWeeks'>>>;
+}
+
+export interface AIMicrocyclePreview {
+  assessment?: string;
+  workouts: Array<{
+    name?: string;
+    dayOfWeek?: number;
+    focus?: string;
+    estimatedDuration?: number;
+    exercises: Array<{ name?: string; setCount: number }>;
+  }>;
+}
+
+export interface AIGenerationPreview {
+  kind: 'goals' | 'microcycle';
+  attempt: number; // > 1 while the model is repairing an invalid response
+  receivedChars: number;
+  goals?: AIGoalsPreview;
+  microcycle?: AIMicrocyclePreview;
 }
 
 /**
@@ -0,0 +1,79 @@
+/**
+ * Coach chat types - Conversations with the AI Coach and the workout changes it proposes
+ * Stored one document per thread in `users/{uid}/coachChats`, messages embedded
+ */
+
+/**
+ * Changes the coach can propose; each applies to one planned workout
+ * - move-workout: reschedule to another date
+ * - swap-exercise: replace an exercise, keeping its sets
+ * - remove-exercise: drop an exercise from the workout
+ */
+export type CoachActionType = 'move-workout' | 'swap-exercise' | 'remove-exercise';
+
+/**
+ * proposed → applied/dismissed by the user; failed = couldn't be applied (reason in `error`)
+ */
+export type CoachActionStatus = 'proposed' | 'applied' | 'dismissed' | 'failed';
+
+interface CoachActionBase {
+  id: string;
+  workoutId: string;
+  workoutName: string; // At proposal time, for display after the workout changes or is deleted
+  reason?: string; // Coach's one-line rationale
+  status: CoachActionStatus;
+  error?: string;
+  appliedAt?: string; // ISO timestamp
+}
+
+export interface MoveWorkoutAction extends CoachActionBase {
+  type: 'move-workout';
+  fromDate?: string; // YYYY-MM-DD, undefined if the workout had no date
+  toDate: string; // YYYY-MM-DD
+}
+
+export interface SwapExerciseAction extends CoachActionBase {
+  type: 'swap-exercise';
+  exerciseName: string;
+  replacement: string;
+}
+
+export interface RemoveExerciseAction extends CoachActionBase {
+  type: 'remove-exercise';
+  exerciseName: string;
+}
+
+export type CoachAction = MoveWorkoutAction | SwapExerciseAction | RemoveExerciseAction;
+
+export interface CoachChatMessage {
+  id: string;
+  role: 'user' | 'coach';
+  content: string;
+  createdAt: string; // ISO timestamp
+  actions?: CoachAction[]; // Coach messages only
+  llmModel?: string; // Coach messages only, "<provider>/<model>"
+}
+
+export interface CoachChatThread {
+  id: string;
+  title: string; // First user message, shortened
+  planId?: string; // Active AIPlan when the thread was started
+  messages: CoachChatMessage[]; // Oldest first
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Model payload behind a coach reply; actions are validated against the user's workouts before they're shown
+ */
+export interface CoachReplyPayload {
+  reply: string;
+  actions?: Array<{
+    type: CoachActionType;
+    workoutId: string;
+    date?: string;
+    exerciseName?: string;
+    replacement?: string;
+    reason?: string;
+  }>;
+}
@@ -15,12 +15,30 @@ export interface ExerciseSet {
   weight?: number;
   duration?: number;
   restTime: number;
+  actualRestTime?: number; // Seconds actually rested after this set (logged by the rest timer)
   notes?: string;
   volumeType?: 'sets-reps' | 'sets-reps-weight' | 'duration' | 'distance' | 'completion';
   weightUnit?: 'kg' | 'lb';
   distanceUnit?: 'km' | 'mi' | 'm';
   volumeRowId?: string; // Groups sets into volume rows
   completed?: boolean; // Track if this set is completed
+  completedAt?: string; // ISO timestamp when the set was checked off (session time breakdown)
+  rpe?: number; // Rate of perceived exertion, 1-10 in half steps
+  rir?: number; // Reps in reserve
+  tempo?: string; // Eccentric/pause/concentric/pause seconds, e.g. "3010" (X = explosive)
+}
+
+/**
+ * Grouping of consecutive exercises (A1/A2 superset, circuit, EMOM, AMRAP)
+ * Exercises belong to the same block when they are adjacent and share `block.id`
+ */
+export type ExerciseBlockType = 'superset' | 'circuit' | 'emom' | 'amrap';
+
+export interface ExerciseBlock {
+  id: string;
+  type: ExerciseBlockType;
+  rounds?: number; // Planned rounds (superset/circuit)
+  timeCapMinutes?: number; // EMOM length, AMRAP cap, optional circuit cap
 }
 
 export interface Exercise {
@@ -31,6 +49,7 @@ export interface Exercise {
   equipment: string[];
   instructions: string;
   sets: ExerciseSet[];
+  block?: ExerciseBlock;
 }
 
 export interface CheckInFlag {
@@ -55,7 +74,8 @@ export interface Workout {
   exercises: Exercise[];
   checkIns: WorkoutCheckIns;
   // Workout execution status
-  status: 'planned' | 'completed';
+  status: 'planned' | 'in-progress' | 'completed';
+  startedAt?: string; // Set by "Start workout" (live session)
   completedAt?: string;
   actualDuration?: number;
   notes?: string;
@@ -141,6 +161,9 @@ export interface CompletedSet {
   duration?: number;
   notes?: string;
   completed: boolean;
+  rpe?: number;
+  rir?: number;
+  tempo?: string;
 }
 
 export interface CompletedExercise {
@@ -0,0 +1,71 @@
+/**
+ * LLM provider types - Pluggable model backends for the AI Coach
+ */
+
+/**
+ * Supported providers
+ * 'ollama' covers any OpenAI-compatible local server (Ollama, LM Studio, vLLM, ...)
+ */
+export type LLMProvider = 'openai' | 'anthropic' | 'ollama';
+
+/**
+ * Per-user model settings, stored in the user document as `llmSettings`
+ */
+export interface LLMSettings {
+  provider: LLMProvider;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  baseUrl?: string; // Only used by OpenAI-compatible local servers
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Provider-independent completion result
+ */
+export interface LLMCompletion {
+  content: string;
+  llmModel: string; // "<provider>/<model>", recorded in GenerationMetadata.llmModel
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+}
+
+/**
+ * Per-call options for callLLM
+ * Passing `onDelta` switches the request to a streamed completion
+ */
+export interface LLMCallOptions {
+  signal?: AbortSignal; // Aborts the request (user cancelled generation)
+  onDelta?: (delta: string, content: string) => void; // content = everything received so far
+}
+
+/**
+ * Error codes returned by the /api/openai proxy
+ */
+export type LLMProxyErrorCode =
+  | 'unauthenticated'
+  | 'invalid_token'
+  | 'token_expired'
+  | 'rate_limited'
+  | 'daily_budget_exceeded'
+  | 'provider_error'
+  | 'invalid_request'
+  | 'internal';
+
+/**
+ * Limit details attached to 429 responses
+ */
+export interface LLMQuotaInfo {
+  limit: number; // Requests per minute, or tokens per day
+  used: number;
+  remaining: number;
+  resetAt: string; // ISO timestamp
+  retryAfterSeconds: number;
+}
@@ -0,0 +1,52 @@
+/**
+ * Body measurement types - Bodyweight, body fat and tape measurements over time
+ * Stored one document per entry in `users/{uid}/measurements`
+ */
+
+/**
+ * Tape measurement sites (circumferences in cm)
+ */
+export type MeasurementSite = 'neck' | 'chest' | 'waist' | 'hips' | 'arm' | 'thigh' | 'calf';
+
+export interface BodyMeasurement {
+  id: string;
+  date: string; // YYYY-MM-DD
+  bodyweight?: number; // In weightUnit
+  weightUnit: 'kg' | 'lb';
+  bodyFatPercent?: number;
+  circumferences?: Partial<Record<MeasurementSite, number>>; // cm
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Fields the entry form can set (id and timestamps are managed by the store)
+ */
+export type BodyMeasurementInput = Omit<BodyMeasurement, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Numeric series that can be charted
+ */
+export type MeasurementMetric = 'bodyweight' | 'bodyFatPercent' | MeasurementSite;
+
+/**
+ * One chart point: the day's value and the trailing moving average
+ */
+export interface MeasurementTrendPoint {
+  date: string;
+  value: number;
+  average: number;
+}
+
+/**
+ * Compact summary sent to the AI coach alongside the profile
+ */
+export interface BodyMeasurementSummary {
+  latestDate: string;
+  bodyweightKg?: number;
+  bodyweightTrendKg?: number; // Change in the moving average over the last 30 days
+  bodyFatPercent?: number;
+  circumferencesCm?: Partial<Record<MeasurementSite, number>>;
+  entries: number;
+}
@@ -2,6 +2,10 @@
  * Profile configuration types based on the Firebase Remote Config structure
  */
 
+import type { LLMSettings } from './llm';
+import type { ProgressionRuleConfig } from './progression';
+import type { OneRepMaxFormula } from './workout';
+
 export interface ProfileFieldOption {
   id: string;
   label: string;
@@ -76,6 +80,18 @@ export interface UserData {
   // AI Coach custom prompts
   customGoalsPrompt?: CustomPromptConfig;
   customMicrocyclePrompt?: CustomPromptConfig;
+  
+  // AI Coach model provider settings (defaults used when not set)
+  llmSettings?: LLMSettings;
+  
+  // Progressive overload rule per exercise, keyed by lowercased exercise name
+  progressionRules?: Record<string, ProgressionRuleConfig>;
+  
+  // Estimated one-rep max formula for progress tracking (defaults to Epley)
+  oneRepMaxFormula?: OneRepMaxFormula;
+  
+  // Secret for the subscribable calendar feed (/api/calendar?token=...), unset when the feed is off
+  calendarFeedToken?: string;
 }
 
 /**
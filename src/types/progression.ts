@@ -0,0 +1,45 @@
+/**
+ * Progressive overload types - Rules used to propose next-session targets per exercise
+ */
+
+import type { ExerciseSet } from './fitness';
+
+/**
+ * Supported progression rules
+ * - linear: add a fixed increment whenever every set was completed
+ * - double: add reps inside a rep range, then add weight and drop back to the bottom of the range
+ * - rpe: adjust the weight so the top set lands on a target RPE
+ */
+export type ProgressionRule = 'linear' | 'double' | 'rpe';
+
+/**
+ * Per-exercise rule choice, stored in the user document under `progressionRules`
+ * keyed by lowercased exercise name
+ */
+export interface ProgressionRuleConfig {
+  rule: ProgressionRule;
+  increment?: number; // Weight step in the exercise's unit (defaults by exercise type)
+  repRange?: [number, number]; // Double progression only
+  targetRpe?: number; // RPE rule only
+}
+
+/**
+ * One past performance of an exercise
+ */
+export interface ExerciseSession {
+  workoutId: string;
+  date: string;
+  sets: ExerciseSet[];
+}
+
+/**
+ * Proposed targets for the next session of an exercise
+ */
+export interface ProgressionProposal {
+  exerciseName: string;
+  rule: ProgressionRule;
+  sets: ExerciseSet[];
+  summary: string; // e.g. "3×8 @ 62.5kg"
+  reason: string; // Why the targets changed (or didn't)
+  basedOn: ExerciseSession[]; // Most recent first
+}
@@ -21,6 +21,52 @@ export type WorkoutStatus = 'planned' | 'in-progress' | 'completed';
 export interface AICoachContext {
   microcycleId: string;
   weekNumber: number;
+  planId?: string; // AIPlan the workout was suggested by (older workouts: unknown)
+}
+
+/**
+ * Sport recorded in an imported GPS/heart-rate file
+ */
+export type ActivitySport = 'running' | 'cycling' | 'walking' | 'hiking' | 'swimming' | 'other';
+
+/**
+ * One split (per km or mile) of an imported activity
+ */
+export interface ActivitySplit {
+  distanceMeters: number; // Full split distance, less for the last one
+  movingSeconds: number;
+  averageHeartRate?: number;
+  elevationGainMeters?: number;
+}
+
+/**
+ * Downsampled track point for charts
+ */
+export interface ActivitySample {
+  distanceKm: number;
+  elapsedSeconds: number;
+  elevation?: number; // meters
+  heartRate?: number; // bpm
+}
+
+/**
+ * Summary of a GPX, TCX or FIT recording, stored on the workout it created
+ */
+export interface ActivitySummary {
+  sourceFormat: 'gpx' | 'tcx' | 'fit';
+  sport: ActivitySport;
+  startTime: string; // ISO timestamp
+  endTime: string; // ISO timestamp
+  distanceMeters: number;
+  elapsedSeconds: number;
+  movingSeconds: number; // Excludes stops and pauses
+  averageHeartRate?: number;
+  maxHeartRate?: number;
+  elevationGainMeters?: number;
+  elevationLossMeters?: number;
+  splitUnit: 'km' | 'mi';
+  splits: ActivitySplit[];
+  samples: ActivitySample[];
 }
 
 /**
@@ -38,6 +84,7 @@ export interface WorkoutDocument {
   
   // Status tracking
   status: WorkoutStatus;
+  startedAt?: string; // ISO timestamp, set when a live session is started
   completedAt?: string; // ISO timestamp
   
   // Workout details
@@ -49,11 +96,14 @@ export interface WorkoutDocument {
   
   // Duration
   estimatedDuration: number; // minutes
-  actualDuration?: number; // minutes
+  actualDuration?: number; // minutes (computed from startedAt → completedAt for live sessions)
   
   // Notes
   notes?: string;
   
+  // Imported recording (GPX/TCX/FIT); splits are also the exercise's distance sets
+  activity?: ActivitySummary;
+  
   // Source tracking
   source: WorkoutSource; // Track if created manually or by AI Coach
   aiCoachContext?: AICoachContext; // Set if source === 'ai-coach'
@@ -80,6 +130,36 @@ export interface WorkoutDocument {
   };
 }
 
+/**
+ * How a session's training load was computed
+ * heart-rate: Banister TRIMP from recorded heart rate; rpe: session RPE × minutes; estimated: minutes × default RPE
+ */
+export type TrainingLoadMethod = 'heart-rate' | 'rpe' | 'estimated';
+
+/**
+ * One day of the training load curve
+ */
+export interface TrainingLoadPoint {
+  date: string; // ISO date string
+  load: number; // Sum of that day's session loads
+  fitness: number; // 42-day exponentially weighted load (chronic training load)
+  fatigue: number; // 7-day exponentially weighted load (acute training load)
+  form: number; // fitness − fatigue
+  acuteChronicRatio?: number; // 7-day / 28-day average load; undefined without 28-day history
+}
+
+export interface TrainingLoadStats {
+  sessions: number; // Completed workouts with a load
+  methodBreakdown: Record<TrainingLoadMethod, number>;
+  acuteLoad: number; // Average daily load, last 7 days
+  chronicLoad: number; // Average daily load, last 28 days
+  acuteChronicRatio?: number;
+  fitness: number;
+  fatigue: number;
+  form: number;
+  daily: TrainingLoadPoint[]; // Last 90 days, oldest first
+}
+
 /**
  * Stats aggregation for completed workouts
  */
@@ -115,11 +195,19 @@ export interface WorkoutStats {
   // Current streak
   currentStreak: number; // days with at least one completed workout
   longestStreak: number; // longest streak in days
+  
+  // Training load (TRIMP / session RPE) with acute:chronic ratio and fitness/fatigue curves
+  trainingLoad: TrainingLoadStats;
 }
 
 /**
  * Exercise progress tracking for specific exercises
  */
+/**
+ * Formula used for estimated one-rep max (e1RM)
+ */
+export type OneRepMaxFormula = 'epley' | 'brzycki';
+
 export interface ExerciseProgress {
   exerciseName: string;
   category: string;
@@ -134,6 +222,7 @@ export interface ExerciseProgress {
     volume: number; // weight * reps
     maxWeight?: number; // heaviest single set
     totalReps: number; // total reps across all sets
+    estimatedOneRepMax?: number; // best e1RM of the session's weighted sets
     duration?: number; // for duration-based exercises
     distance?: number; // for distance-based exercises
   }>;
@@ -144,6 +233,7 @@ export interface ExerciseProgress {
   lastSeen: string; // ISO date string
   personalRecords: {
     maxWeight?: { value: number; unit: string; date: string };
+    estimatedOneRepMax?: { value: number; unit: string; date: string };
     maxReps?: { value: number; date: string };
     maxVolume?: { value: number; date: string };
     maxDistance?: { value: number; unit: string; date: string };